@@ -0,0 +1,61 @@
+'use client';
+
+import type { DecoratedRange, TElement } from 'platejs';
+
+import { ElementApi } from 'platejs';
+import { createPlatePlugin } from 'platejs/react';
+
+import { CommentLeaf } from '~/components/ui/comment-leaf';
+import { findCommentRange } from '~/lib/document-comments';
+import type { CommentAnchor, CommentThread } from '~/lib/document-comments';
+
+// Highlights the text that open comment threads (and the comment being
+// written) are anchored to. The highlights are decorations worked out from
+// the document as it is now, so nothing is written into the document itself;
+// people who can only comment have a read-only editor.
+export const DocumentCommentsPlugin = createPlatePlugin({
+  key: 'documentComment',
+  options: {
+    threads: [] as CommentThread[],
+    activeThreadId: null as string | null,
+    // Anchor of the new thread being written in the comments panel
+    draft: null as CommentAnchor | null,
+    panelOpen: false,
+  },
+  node: { isLeaf: true, component: CommentLeaf },
+  decorate: ({ editor, entry: [node, path], getOptions }) => {
+    if (path.length !== 1 || !ElementApi.isElement(node)) return;
+    if (typeof node.id !== 'string') return;
+
+    const { activeThreadId, draft, threads } = getOptions();
+    const anchors = threads
+      .filter((thread) => !thread.resolved && thread.comment.block_id === node.id)
+      .map((thread) => ({
+        threadId: thread.id,
+        quote: thread.comment.quote,
+        quoteOffset: thread.comment.quote_offset,
+      }));
+
+    if (draft?.blockId === node.id) anchors.push({ threadId: '', ...draft });
+
+    const ranges: DecoratedRange[] = [];
+
+    anchors.forEach(({ threadId, ...anchor }) => {
+      const range = findCommentRange(editor, node as TElement, path, anchor);
+      if (!range) return;
+
+      // Leaf props for CommentLeaf; the draft has no thread yet
+      const decoration = {
+        ...range,
+        documentComment: true,
+        commentThreadId: threadId || null,
+        commentActive: !threadId || threadId === activeThreadId,
+      };
+      ranges.push(decoration);
+    });
+
+    return ranges.length > 0 ? ranges : undefined;
+  },
+});
+
+export const CommentKit = [DocumentCommentsPlugin];
@@ -1,106 +1,368 @@
 import type { Value } from "platejs";
 
-import {
-  BlockquotePlugin,
-  BoldPlugin,
-  H1Plugin,
-  H2Plugin,
-  H3Plugin,
-  ItalicPlugin,
-  UnderlinePlugin,
-} from "@platejs/basic-nodes/react";
-
-import { Plate, usePlateEditor } from "platejs/react";
+import { toggleCodeBlock } from "@platejs/code-block";
+import { toggleList } from "@platejs/list";
+import { BlockSelectionPlugin } from "@platejs/selection/react";
+import { YjsPlugin } from "@platejs/yjs/react";
+import { Plate, usePlateEditor, usePluginOption } from "platejs/react";
+import { BasicNodesKit } from "~/components/basic-nodes-kit";
+import { CommentKit, DocumentCommentsPlugin } from "~/components/comment-kit";
+import { CodeBlockKit } from "~/components/code-block-kit";
 import { DndKit } from "~/components/dnd-kit";
-import { BlockquoteElement } from "~/components/ui/blockquote-node";
+import { DocumentPagePlugin } from "~/components/document-page-kit";
+import { LinkKit } from "~/components/link-kit";
+import { ListKit } from "~/components/list-kit";
+import { MediaKit } from "~/components/media-kit";
+import { MentionKit } from "~/components/mention-kit";
+import { PageEmbedKit } from "~/components/page-embed-kit";
+import { SlashKit } from "~/components/slash-kit";
+import { TableKit } from "~/components/table-kit";
 import { Editor, EditorContainer } from "~/components/ui/editor";
 import { FixedToolbar } from "~/components/ui/fixed-toolbar";
-import { H1Element, H2Element, H3Element } from "~/components/ui/heading-node";
+import { CommentToolbarButton } from "~/components/ui/comment-toolbar-button";
+import { InsertBlockToolbarButton } from "~/components/ui/insert-block-toolbar-button";
+import { LinkToolbarButton } from "~/components/ui/link-toolbar-button";
 import { MarkToolbarButton } from "~/components/ui/mark-toolbar-button";
+import { MediaToolbarButton } from "~/components/ui/media-toolbar-button";
+import { TableToolbarButton } from "~/components/ui/table-toolbar-button";
 import { ToolbarButton, ToolbarSeparator, Toolbar } from "~/components/ui/toolbar";
 import { BlockMenuKit } from "~/components/block-menu-kit";
 import { BlockPlaceholderKit } from "~/components/block-placeholder-kit";
 import { MarkdownKit } from "~/components/markdown-kit";
 import { Button } from "~/components/ui/button";
-import { Save, RefreshCw, Type, Bold, Italic, Underline, Quote } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+import {
+  Save,
+  RefreshCw,
+  Type,
+  Bold,
+  Italic,
+  Underline,
+  Quote,
+  List,
+  ListOrdered,
+  ListTodo,
+  Code2,
+  Minus,
+  Table,
+  Link,
+  Highlighter,
+  Keyboard,
+  Download,
+  FileUp,
+  History,
+  ImageIcon,
+  Paperclip,
+  Plus,
+  MessageSquare,
+  MessagesSquare,
+} from "lucide-react";
+import { useDocumentComments } from "~/hooks/use-document-comments";
 import { useDocumentData } from "~/hooks/use-document-data";
 import { useIsMobile } from "~/hooks/use-mobile";
-import { useEffect } from "react";
+import { useIsTouchDevice } from "~/hooks/use-is-touch-device";
+import { useSearchFocus } from "~/hooks/use-search-focus";
+import { useSpace } from "~/contexts/space-context";
+import { RemoteCursorOverlay } from "~/components/ui/remote-cursor-overlay";
+import { MarkdownImportDialog } from "~/components/ui/markdown-import-dialog";
+import { DocumentHistorySheet } from "~/components/ui/document-history-sheet";
+import { DocumentCommentsSheet } from "~/components/ui/document-comments-sheet";
+import { PageBacklinks } from "~/components/ui/page-backlinks";
+import { SupabaseYjsProvider } from "~/lib/supabase-yjs-provider";
+import {
+  DOCUMENT_EXPORT_FORMATS,
+  DOCUMENT_EXPORT_LABELS,
+  downloadDocumentExport,
+  exportDocument,
+} from "~/lib/document-export";
+import type { DocumentExportFormat } from "~/lib/document-export";
+import { insertDocumentBlock } from "~/lib/document-blocks";
+import { markdownToDocumentValue } from "~/lib/document-import";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Awareness } from "y-protocols/awareness";
+import * as Y from "yjs";
 
 interface DocumentEditorProps {
   pageId: string;
   autoSaveEnabled?: boolean;
+  readOnly?: boolean;
 }
 
 export default function DocumentEditor({
   pageId,
   autoSaveEnabled = true,
+  readOnly = false,
 }: DocumentEditorProps) {
+  const { participant, participantColor, pages, canComment } = useSpace();
   const {
     value,
     isLoading,
     error,
     isSaving,
     lastSaved,
+    saveError,
+    saveRetry,
     setValue,
     saveNow,
     refetch,
   } = useDocumentData({
     pageId,
-    autoSaveEnabled,
+    autoSaveEnabled: autoSaveEnabled && !readOnly,
     autoSaveDelayMs: 2000,
+    participantId: participant?.id,
   });
 
   const isMobile = useIsMobile();
+  const isTouch = useIsTouchDevice();
+  const pageTitle = pages.find((page) => page.id === pageId)?.title || "Untitled";
+  const cursorData = {
+    name: participant?.name || "Anonymous",
+    color: participantColor,
+  };
 
-  const editor = usePlateEditor({
-    plugins: [
-      BoldPlugin,
-      ItalicPlugin,
-      UnderlinePlugin,
-      H1Plugin.withComponent(H1Element),
-      H2Plugin.withComponent(H2Element),
-      H3Plugin.withComponent(H3Element),
-      BlockquotePlugin.withComponent(BlockquoteElement),
-      ...DndKit,
-      ...BlockMenuKit,
-      ...BlockPlaceholderKit,
-      ...MarkdownKit,
-    ],
-    value,
-  });
+  // One shared Y.Doc per page; the provider relays it to everyone else on the page
+  const { ydoc, awareness, provider } = useMemo(() => {
+    const ydoc = new Y.Doc();
+    const awareness = new Awareness(ydoc);
+    const provider = new SupabaseYjsProvider({
+      pageId,
+      doc: ydoc,
+      awareness,
+      readOnly,
+    });
+    return { ydoc, awareness, provider };
+  }, [pageId, readOnly]);
 
-  // Debug: Log when editor value changes
-  console.log("DocumentEditor render - current value:", value);
-  console.log("DocumentEditor render - isLoading:", isLoading);
+  const editor = usePlateEditor(
+    {
+      plugins: [
+        DocumentPagePlugin.configure({ options: { pageId } }),
+        ...BasicNodesKit,
+        ...ListKit,
+        ...CodeBlockKit,
+        ...TableKit,
+        ...LinkKit,
+        ...MediaKit,
+        ...PageEmbedKit,
+        ...MentionKit,
+        ...SlashKit,
+        ...CommentKit,
+        ...DndKit,
+        ...BlockMenuKit,
+        ...BlockPlaceholderKit,
+        ...MarkdownKit,
+        YjsPlugin.configure({
+          render: { afterEditable: RemoteCursorOverlay },
+          options: {
+            ydoc,
+            awareness,
+            providers: [provider],
+            // Shown next to our caret and selection on everyone else's screen
+            cursors: { data: cursorData },
+          },
+        }),
+      ],
+      // Content comes from the Y.Doc once Yjs is initialized below
+      skipInitialization: true,
+    },
+    [pageId, readOnly]
+  );
 
-  // Update editor content when value loads from database
+  const isConnected = usePluginOption(YjsPlugin, "_isConnected", editor);
+  const comments = useDocumentComments(editor, pageId);
+
+  // Initialize Yjs once the document_blocks snapshot has loaded. The stored Yjs
+  // state wins when present; otherwise the snapshot seeds the shared document.
+  // Seeding is deterministic per page id, so two clients seeding at the same
+  // time produce identical content instead of duplicates.
   useEffect(() => {
-    if (!isLoading && value && value.length > 0) {
-      console.log("Setting editor value after load:", value);
-      // Only update if the editor content is different to avoid loops
-      const currentValue = editor.children;
-      if (JSON.stringify(currentValue) !== JSON.stringify(value)) {
-        console.log("Editor content differs from loaded data, updating...");
-        editor.tf.setValue(value);
+    if (isLoading) return;
+
+    let cancelled = false;
+    const yjsApi = editor.getApi(YjsPlugin).yjs;
+
+    const initYjs = async () => {
+      let hasPersistedState = false;
+      try {
+        hasPersistedState = await provider.loadPersistedState();
+      } catch (err) {
+        console.error("Failed to load collaborative document state:", err);
       }
-    }
-  }, [value, isLoading]); // Note: not including editor in deps to avoid loops
+      if (cancelled) return;
+
+      await yjsApi.init({
+        id: pageId,
+        value: hasPersistedState ? null : value,
+        autoConnect: false,
+      });
+      if (cancelled) return;
+
+      yjsApi.connect();
+    };
+
+    initYjs();
+
+    return () => {
+      cancelled = true;
+      yjsApi.destroy();
+    };
+  }, [isLoading, editor]); // Note: not including value in deps, Yjs owns the content after init
+
+  // Opened from a search result: scroll to the matching block and select it.
+  // The content is in the editor by the time Yjs connects.
+  const { focusId, reveal } = useSearchFocus();
+
+  useEffect(() => {
+    if (!focusId || !isConnected) return;
+
+    const block = editor.children.find((node) => node.id === focusId);
+    reveal();
+    if (!block) return;
+
+    requestAnimationFrame(() => {
+      editor.api.toDOMNode(block)?.scrollIntoView({ block: "center" });
+      editor.getApi(BlockSelectionPlugin).blockSelection.set(focusId);
+    });
+  }, [focusId, isConnected, editor]);
+
+  // Keep our caret label current when the participant loads or is renamed
+  useEffect(() => {
+    awareness.setLocalStateField("data", cursorData);
+  }, [awareness, cursorData.name, cursorData.color]);
+
+  // Stop the awareness heartbeat when leaving the page
+  useEffect(() => {
+    return () => awareness.destroy();
+  }, [awareness]);
+
+  // Only edits made in this editor are autosaved: every client on the page
+  // gets the others' edits, and saving those too would write each change
+  // (and its version snapshot) once per collaborator. Yjs transactions
+  // applied by the provider are remote; local edits reach the Y.Doc before
+  // the editor's onChange runs.
+  const hasLocalChange = useRef(false);
+
+  useEffect(() => {
+    const handleUpdate = (_update: Uint8Array, origin: unknown) => {
+      if (origin !== provider) hasLocalChange.current = true;
+    };
+
+    ydoc.on("update", handleUpdate);
+    return () => ydoc.off("update", handleUpdate);
+  }, [ydoc, provider]);
 
   // Handle editor changes
   const handleChange = ({ value: newValue }: { value: Value }) => {
-    setValue(newValue);
+    setValue(newValue, hasLocalChange.current);
+    hasLocalChange.current = false;
   };
 
-  // Handle manual save
-  const handleSave = async () => {
-    const success = await saveNow();
-    if (!success && error) {
-      // You might want to show a toast notification here
-      console.error("Save failed:", error);
+  // Download what's in the editor right now, including unsaved changes
+  const handleExport = async (format: DocumentExportFormat) => {
+    try {
+      downloadDocumentExport(
+        await exportDocument(editor.children, format, pageTitle)
+      );
+    } catch (err) {
+      console.error("Export failed:", err);
     }
   };
 
+  const exportMenu = (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="shrink-0" title="Export">
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {DOCUMENT_EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {DOCUMENT_EXPORT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  // Append imported Markdown to the document. It goes through Yjs like any
+  // other edit, so collaborators see it and autosave stores it.
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+
+  const handleImportMarkdown = (markdown: string) => {
+    const nodes = markdownToDocumentValue(markdown);
+    if (nodes.length === 0) return;
+
+    const wasEmpty = editor.api.isEmpty();
+    editor.tf.withoutNormalizing(() => {
+      editor.tf.insertNodes(nodes, { at: [editor.children.length] });
+      // Drop the placeholder paragraph of an empty document
+      if (wasEmpty) editor.tf.removeNodes({ at: [0] });
+    });
+  };
+
+  const importButton = !readOnly && (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="shrink-0"
+      title="Import Markdown"
+      onClick={() => setImportDialogOpen(true)}
+    >
+      <FileUp className="h-4 w-4" />
+    </Button>
+  );
+
+  // Restoring replaces the content through Yjs, so it reaches everyone on the
+  // page and is autosaved like an edit
+  const historyButton = !readOnly && (
+    <DocumentHistorySheet
+      pageId={pageId}
+      getCurrentValue={() => editor.children}
+      onRestore={(restored) => editor.tf.setValue(restored)}
+    >
+      <Button variant="ghost" size="sm" className="shrink-0" title="Version history">
+        <History className="h-4 w-4" />
+      </Button>
+    </DocumentHistorySheet>
+  );
+
+  // Comments are open to commenters too, who get a read-only editor
+  const openThreadCount = comments.threads.filter((thread) => !thread.resolved).length;
+
+  const commentsButton = (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="shrink-0"
+      title="Comments"
+      onClick={() =>
+        editor.setOption(DocumentCommentsPlugin, "panelOpen", true)
+      }
+    >
+      <MessagesSquare className="h-4 w-4" />
+      {openThreadCount > 0 && (
+        <span className="text-xs">{openThreadCount}</span>
+      )}
+    </Button>
+  );
+
+  // Handle manual save (also retries a save that failed)
+  const handleSave = async () => {
+    await saveNow();
+  };
+
+  const saveErrorLabel = saveError
+    ? saveRetry > 0
+      ? "Save failed, retrying..."
+      : "Not saved"
+    : null;
+
   if (isLoading) {
     return (
       <div className="flex flex-col h-full w-full">
@@ -148,88 +410,236 @@ export default function DocumentEditor({
 
   return (
     <div className="flex flex-col h-full w-full">
-      <Plate editor={editor} onChange={handleChange}>
+      <Plate editor={editor} onChange={handleChange} readOnly={readOnly}>
         {/* Mobile-optimized toolbar */}
         {isMobile ? (
           <div className="sticky top-0 z-50 border-b bg-background">
             <div className="flex items-center justify-between p-2 gap-2">
-              {/* Essential formatting buttons wrapped in Toolbar */}
-              <Toolbar className="flex items-center gap-1 overflow-x-auto">
-                <MarkToolbarButton nodeType="bold" tooltip="Bold" size="sm">
-                  <Bold className="h-4 w-4" />
+              {readOnly ? (
+                <Toolbar className="flex items-center gap-1">
+                  <span className="px-2 text-sm text-muted-foreground">
+                    {canComment ? "Comment only" : "View only"}
+                  </span>
+                  {canComment && (
+                    <CommentToolbarButton size="sm">
+                      <MessageSquare className="h-4 w-4" />
+                    </CommentToolbarButton>
+                  )}
+                </Toolbar>
+              ) : (
+                <>
+                  {/* Essential formatting buttons wrapped in Toolbar */}
+                  <Toolbar className="flex items-center gap-1 overflow-x-auto">
+                    <InsertBlockToolbarButton size="sm">
+                      <Plus className="h-4 w-4" />
+                    </InsertBlockToolbarButton>
+                    <MarkToolbarButton nodeType="bold" tooltip="Bold" size="sm">
+                      <Bold className="h-4 w-4" />
+                    </MarkToolbarButton>
+                    <MarkToolbarButton nodeType="italic" tooltip="Italic" size="sm">
+                      <Italic className="h-4 w-4" />
+                    </MarkToolbarButton>
+                    <MarkToolbarButton nodeType="underline" tooltip="Underline" size="sm">
+                      <Underline className="h-4 w-4" />
+                    </MarkToolbarButton>
+                    <ToolbarSeparator />
+                    <ToolbarButton onClick={() => editor.tf.h1.toggle()} size="sm">
+                      <Type className="h-4 w-4" />
+                    </ToolbarButton>
+                    <ToolbarButton onClick={() => editor.tf.blockquote.toggle()} size="sm">
+                      <Quote className="h-4 w-4" />
+                    </ToolbarButton>
+                    <ToolbarButton
+                      onClick={() => toggleList(editor, { listStyleType: "disc" })}
+                      size="sm"
+                    >
+                      <List className="h-4 w-4" />
+                    </ToolbarButton>
+                    <ToolbarButton
+                      onClick={() => toggleList(editor, { listStyleType: "todo" })}
+                      size="sm"
+                    >
+                      <ListTodo className="h-4 w-4" />
+                    </ToolbarButton>
+                    <ToolbarButton onClick={() => toggleCodeBlock(editor)} size="sm">
+                      <Code2 className="h-4 w-4" />
+                    </ToolbarButton>
+                    <LinkToolbarButton size="sm">
+                      <Link className="h-4 w-4" />
+                    </LinkToolbarButton>
+                    <MediaToolbarButton accept="image/*" size="sm">
+                      <ImageIcon className="h-4 w-4" />
+                    </MediaToolbarButton>
+                    <CommentToolbarButton size="sm">
+                      <MessageSquare className="h-4 w-4" />
+                    </CommentToolbarButton>
+                  </Toolbar>
+              
+                  {/* Save button */}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className={`shrink-0 ${saveError ? "text-red-600" : ""}`}
+                    title={saveErrorLabel ? `${saveErrorLabel} ${saveError}` : "Save"}
+                  >
+                    {isSaving ? (
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4" />
+                    )}
+                  </Button>
+                </>
+              )}
+              {commentsButton}
+              {historyButton}
+              {importButton}
+              {exportMenu}
+            </div>
+          </div>
+        ) : (
+          <FixedToolbar className="justify-start rounded-t-lg">
+            {readOnly ? (
+              <>
+                <span className="px-2 text-sm text-muted-foreground">
+                  {canComment ? "Comment only" : "View only"}
+                </span>
+                {canComment && (
+                  <CommentToolbarButton tooltip="Comment">
+                    <MessageSquare />
+                  </CommentToolbarButton>
+                )}
+              </>
+            ) : (
+              <>
+                {/* Typing "/" opens the same menu; tablets get a button for it */}
+                {isTouch && (
+                  <InsertBlockToolbarButton tooltip="Insert block">
+                    <Plus />
+                  </InsertBlockToolbarButton>
+                )}
+                {/* Element Toolbar Buttons */}
+                <ToolbarButton onClick={() => editor.tf.h1.toggle()}>
+                  H1
+                </ToolbarButton>
+                <ToolbarButton onClick={() => editor.tf.h2.toggle()}>
+                  H2
+                </ToolbarButton>
+                <ToolbarButton onClick={() => editor.tf.h3.toggle()}>
+                  H3
+                </ToolbarButton>
+                <ToolbarButton onClick={() => editor.tf.blockquote.toggle()}>
+                  Quote
+                </ToolbarButton>
+                {/* Mark Toolbar Buttons */}
+                <MarkToolbarButton nodeType="bold" tooltip="Bold (⌘+B)">
+                  B
                 </MarkToolbarButton>
-                <MarkToolbarButton nodeType="italic" tooltip="Italic" size="sm">
-                  <Italic className="h-4 w-4" />
+                <MarkToolbarButton nodeType="italic" tooltip="Italic (⌘+I)">
+                  I
                 </MarkToolbarButton>
-                <MarkToolbarButton nodeType="underline" tooltip="Underline" size="sm">
-                  <Underline className="h-4 w-4" />
+                <MarkToolbarButton nodeType="underline" tooltip="Underline (⌘+U)">
+                  U
                 </MarkToolbarButton>
+                <MarkToolbarButton nodeType="highlight" tooltip="Highlight (⌘+Shift+H)">
+                  <Highlighter />
+                </MarkToolbarButton>
+                <MarkToolbarButton nodeType="kbd" tooltip="Keyboard key">
+                  <Keyboard />
+                </MarkToolbarButton>
+                <LinkToolbarButton tooltip="Link">
+                  <Link />
+                </LinkToolbarButton>
                 <ToolbarSeparator />
-                <ToolbarButton onClick={() => editor.tf.h1.toggle()} size="sm">
-                  <Type className="h-4 w-4" />
+                {/* List and block Toolbar Buttons */}
+                <ToolbarButton
+                  tooltip="Bulleted list"
+                  onClick={() => toggleList(editor, { listStyleType: "disc" })}
+                >
+                  <List />
                 </ToolbarButton>
-                <ToolbarButton onClick={() => editor.tf.blockquote.toggle()} size="sm">
-                  <Quote className="h-4 w-4" />
+                <ToolbarButton
+                  tooltip="Numbered list"
+                  onClick={() => toggleList(editor, { listStyleType: "decimal" })}
+                >
+                  <ListOrdered />
                 </ToolbarButton>
-              </Toolbar>
-              
-              {/* Save button */}
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleSave}
-                disabled={isSaving}
-                className="shrink-0"
-              >
-                {isSaving ? (
-                  <RefreshCw className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Save className="h-4 w-4" />
-                )}
-              </Button>
-            </div>
-          </div>
-        ) : (
-          <FixedToolbar className="justify-start rounded-t-lg">
-            {/* Element Toolbar Buttons */}
-            <ToolbarButton onClick={() => editor.tf.h1.toggle()}>
-              H1
-            </ToolbarButton>
-            <ToolbarButton onClick={() => editor.tf.h2.toggle()}>
-              H2
-            </ToolbarButton>
-            <ToolbarButton onClick={() => editor.tf.h3.toggle()}>
-              H3
-            </ToolbarButton>
-            <ToolbarButton onClick={() => editor.tf.blockquote.toggle()}>
-              Quote
-            </ToolbarButton>
-            {/* Mark Toolbar Buttons */}
-            <MarkToolbarButton nodeType="bold" tooltip="Bold (⌘+B)">
-              B
-            </MarkToolbarButton>
-            <MarkToolbarButton nodeType="italic" tooltip="Italic (⌘+I)">
-              I
-            </MarkToolbarButton>
-            <MarkToolbarButton nodeType="underline" tooltip="Underline (⌘+U)">
-              U
-            </MarkToolbarButton>
+                <ToolbarButton
+                  tooltip="To-do list"
+                  onClick={() => toggleList(editor, { listStyleType: "todo" })}
+                >
+                  <ListTodo />
+                </ToolbarButton>
+                <ToolbarButton
+                  tooltip="Code block (⌘+Alt+8)"
+                  onClick={() => toggleCodeBlock(editor)}
+                >
+                  <Code2 />
+                </ToolbarButton>
+                <ToolbarButton
+                  tooltip="Divider"
+                  onClick={() => insertDocumentBlock(editor, "hr")}
+                >
+                  <Minus />
+                </ToolbarButton>
+                <TableToolbarButton tooltip="Table">
+                  <Table />
+                </TableToolbarButton>
+                <MediaToolbarButton tooltip="Image" accept="image/*">
+                  <ImageIcon />
+                </MediaToolbarButton>
+                <MediaToolbarButton tooltip="Attach file">
+                  <Paperclip />
+                </MediaToolbarButton>
+                <ToolbarSeparator />
+                <CommentToolbarButton tooltip="Comment">
+                  <MessageSquare />
+                </CommentToolbarButton>
+              </>
+            )}
 
             {/* Save Controls */}
             <div className="ml-auto flex items-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleSave}
-                disabled={isSaving}
+              <span
+                className="flex items-center gap-1.5 text-xs text-muted-foreground"
+                title={
+                  isConnected
+                    ? "Changes are shared live with everyone on this page"
+                    : "Connecting to collaborators..."
+                }
               >
-                {isSaving ? (
-                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Save className="h-4 w-4 mr-2" />
-                )}
-                {isSaving ? "Saving..." : "Save"}
-              </Button>
+                <span
+                  className={`h-2 w-2 rounded-full ${
+                    isConnected ? "bg-green-500" : "bg-muted-foreground/40"
+                  }`}
+                />
+                {isConnected ? "Live" : "Offline"}
+              </span>
+              {!readOnly && saveErrorLabel && (
+                <span className="text-xs text-red-600" title={saveError!}>
+                  {saveErrorLabel}
+                </span>
+              )}
+              {commentsButton}
+              {historyButton}
+              {importButton}
+              {exportMenu}
+              {!readOnly && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSave}
+                  disabled={isSaving}
+                >
+                  {isSaving ? (
+                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4 mr-2" />
+                  )}
+                  {isSaving ? "Saving..." : "Save"}
+                </Button>
+              )}
               {/*
               {lastSaved && (
                 <span className="text-xs text-muted-foreground">{lastSaved}</span>
@@ -241,12 +651,26 @@ export default function DocumentEditor({
         )}
 
         <EditorContainer className={`flex-1 ${isMobile ? "pt-0" : "pt-24"}`}>
+          <PageBacklinks
+            pageId={pageId}
+            className={
+              isMobile ? "pl-8 pr-3" : "px-16 sm:px-[max(64px,calc(50%-350px))]"
+            }
+          />
           <Editor 
             placeholder="Type your amazing content here..." 
             className={isMobile ? "pl-8 pr-3 py-3 text-base" : ""}
           />
         </EditorContainer>
+
+        <DocumentCommentsSheet {...comments} />
       </Plate>
+
+      <MarkdownImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onImport={handleImportMarkdown}
+      />
     </div>
   );
 }
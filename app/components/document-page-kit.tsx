@@ -0,0 +1,10 @@
+'use client';
+
+import { createPlatePlugin } from 'platejs/react';
+
+// The page being edited, set by the document editor. Uploads go into its
+// folder, and the slash menu leaves it out of the pages it can embed.
+export const DocumentPagePlugin = createPlatePlugin({
+  key: 'documentPage',
+  options: { pageId: null as string | null },
+});
@@ -1,8 +1,9 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import {
   DragDropContext,
   Droppable,
   Draggable,
+  type DragStart,
   type DropResult,
 } from "@hello-pangea/dnd";
 import { Button } from "~/components/ui/button";
@@ -29,26 +30,87 @@ import {
   editKanbanColumn,
   deleteKanbanColumn,
   deleteKanbanCard,
+  subscribeToKanbanChanges,
 } from "~/lib/space-utils";
+import type { KanbanRealtimeEvent } from "~/lib/space-utils";
 import { Separator } from "./ui/separator";
+import { usePageCursors } from "~/hooks/use-page-cursors";
+import { useSearchFocus } from "~/hooks/use-search-focus";
 
 interface KanbanCard {
   id: string;
   title: string;
   description?: string;
+  order: number | null;
 }
 
 interface KanbanColumn {
   id: string;
   title: string;
+  order: number | null;
   cards: KanbanCard[];
 }
 
 interface KanbanEditorProps {
   pageId: string;
+  readOnly?: boolean;
 }
 
-export default function KanbanEditor({ pageId }: KanbanEditorProps) {
+const byOrder = (a: { order: number | null }, b: { order: number | null }) =>
+  (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER);
+
+// Merge a realtime change into the board. Our own writes come back as events
+// too; they already match local state, so applying them is a no-op.
+function applyKanbanEvent(
+  columns: KanbanColumn[],
+  event: KanbanRealtimeEvent
+): KanbanColumn[] {
+  if (event.table === "kanban_columns") {
+    if (event.eventType === "DELETE") {
+      return columns.filter((col) => col.id !== event.id);
+    }
+
+    const existing = columns.find((col) => col.id === event.column.id);
+    const nextColumns = existing
+      ? columns.map((col) =>
+          col.id === event.column.id
+            ? { ...col, title: event.column.title, order: event.column.order }
+            : col
+        )
+      : [...columns, { ...event.column, cards: [] }];
+
+    return nextColumns.sort(byOrder);
+  }
+
+  // Cards: remove from wherever they are, then re-insert at their new spot
+  const cardId = event.eventType === "DELETE" ? event.id : event.card.id;
+  const withoutCard = columns.map((col) =>
+    col.cards.some((card) => card.id === cardId)
+      ? { ...col, cards: col.cards.filter((card) => card.id !== cardId) }
+      : col
+  );
+
+  if (event.eventType === "DELETE") {
+    return withoutCard;
+  }
+
+  const { columnId, ...card } = event.card;
+  // Cards in columns we don't have belong to another board
+  if (!withoutCard.some((col) => col.id === columnId)) {
+    return withoutCard;
+  }
+
+  return withoutCard.map((col) =>
+    col.id === columnId
+      ? { ...col, cards: [...col.cards, card].sort(byOrder) }
+      : col
+  );
+}
+
+export default function KanbanEditor({
+  pageId,
+  readOnly = false,
+}: KanbanEditorProps) {
   // State for kanban data
   const [columns, setColumns] = useState<KanbanColumn[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -102,11 +164,176 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
     }
   }, [pageId]);
 
+  // Opened from a search result: scroll the matching card into view
+  const { focusId, highlightedId, reveal } = useSearchFocus();
+
+  useEffect(() => {
+    if (!focusId || isLoading) return;
+
+    reveal();
+    requestAnimationFrame(() => {
+      document
+        .querySelector(`[data-card-id="${CSS.escape(focusId)}"]`)
+        ?.scrollIntoView({ block: "center", inline: "center" });
+    });
+  }, [focusId, isLoading]);
+
+  // Cards and columns other participants are dragging right now
+  const { remoteCursors, updateCursor } = usePageCursors<{
+    draggingId: string;
+  }>(pageId);
+  const getRemoteDrag = (id: string) =>
+    remoteCursors.find((cursor) => cursor.data?.draggingId === id);
+
+  // Live sync state
+  const [isLive, setIsLive] = useState(false);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  // Item being dragged locally; remote events are held back until it's dropped
+  // so the board doesn't shift under the pointer
+  const draggingRef = useRef<{ id: string; columnId?: string; order: number | null } | null>(null);
+  const queuedEventsRef = useRef<KanbanRealtimeEvent[]>([]);
+  // Rows our in-flight reorder is writing, with the values we expect back
+  const pendingWritesRef = useRef(
+    new Map<string, { columnId?: string; order: number }>()
+  );
+  const needsReconcileRef = useRef(false);
+
+  const reloadBoard = useCallback(async () => {
+    const result = await loadKanbanData(pageId);
+    if (result.error) {
+      console.error("Failed to reload kanban board:", result.error);
+      return;
+    }
+    setColumns(result.columns);
+  }, [pageId]);
+
+  const handleRealtimeEvent = useCallback((event: KanbanRealtimeEvent) => {
+    if (draggingRef.current) {
+      queuedEventsRef.current.push(event);
+      return;
+    }
+
+    // Echoes of our own reorder match what we wrote; anything else touching
+    // those rows means someone else wrote them concurrently
+    const id =
+      event.eventType === "DELETE"
+        ? event.id
+        : event.table === "kanban_cards"
+        ? event.card.id
+        : event.column.id;
+    const expected = pendingWritesRef.current.get(id);
+    if (expected) {
+      const isEcho =
+        event.eventType === "UPDATE" &&
+        (event.table === "kanban_cards"
+          ? event.card.columnId === expected.columnId &&
+            event.card.order === expected.order
+          : event.column.order === expected.order);
+
+      if (isEcho) {
+        pendingWritesRef.current.delete(id);
+      } else {
+        needsReconcileRef.current = true;
+      }
+    }
+
+    setColumns((prev) => applyKanbanEvent(prev, event));
+  }, []);
+
+  // Subscribe to column and card changes made by other people on this board
+  useEffect(() => {
+    if (!pageId) return;
+    return subscribeToKanbanChanges(pageId, handleRealtimeEvent, setIsLive);
+  }, [pageId, handleRealtimeEvent]);
+
+  // Write a reorder and, if someone else touched the same rows meanwhile,
+  // reload the board so everyone converges on what the database holds
+  const persistReorder = async (
+    expected: Array<{ id: string; columnId?: string; order: number }>,
+    write: () => Promise<{ success: boolean; error?: string }>,
+    errorLabel: string
+  ) => {
+    expected.forEach(({ id, ...values }) =>
+      pendingWritesRef.current.set(id, values)
+    );
+
+    try {
+      const result = await write();
+      if (result.error) {
+        console.error(`Failed to update ${errorLabel}:`, result.error);
+        needsReconcileRef.current = true;
+      }
+    } catch (err) {
+      console.error(`Exception updating ${errorLabel}:`, err);
+      needsReconcileRef.current = true;
+    } finally {
+      expected.forEach(({ id }) => pendingWritesRef.current.delete(id));
+      if (needsReconcileRef.current) {
+        needsReconcileRef.current = false;
+        await reloadBoard();
+      }
+    }
+  };
+
+  const handleDragStart = (start: DragStart) => {
+    if (start.type === "column") {
+      const column = columns.find((col) => col.id === start.draggableId);
+      draggingRef.current = { id: start.draggableId, order: column?.order ?? null };
+    } else {
+      const card = columns
+        .flatMap((col) => col.cards.map((card) => ({ ...card, columnId: col.id })))
+        .find((card) => card.id === start.draggableId);
+      draggingRef.current = {
+        id: start.draggableId,
+        columnId: card?.columnId,
+        order: card?.order ?? null,
+      };
+    }
+    setSyncNotice(null);
+    updateCursor({ draggingId: start.draggableId });
+  };
+
   const handleDragEnd = async (result: DropResult) => {
     const { destination, source, draggableId, type } = result;
+    const dragged = draggingRef.current;
+    const queuedEvents = queuedEventsRef.current;
+    draggingRef.current = null;
+    queuedEventsRef.current = [];
+    updateCursor(null);
+
+    // Someone else moved or deleted the same item while we were dragging it.
+    // Their write landed first, so keep it and drop ours.
+    const conflict = queuedEvents.find((event) => {
+      if (event.eventType === "DELETE") return event.id === draggableId;
+      if (event.table === "kanban_cards") {
+        return (
+          event.card.id === draggableId &&
+          (event.card.columnId !== dragged?.columnId ||
+            event.card.order !== dragged?.order)
+        );
+      }
+      return event.column.id === draggableId && event.column.order !== dragged?.order;
+    });
+
+    if (conflict) {
+      setColumns((prev) => queuedEvents.reduce(applyKanbanEvent, prev));
+      setSyncNotice(
+        conflict.eventType === "DELETE"
+          ? `That ${type === "column" ? "column" : "card"} was deleted by someone else while you were dragging it.`
+          : `That ${type === "column" ? "column" : "card"} was moved by someone else while you were dragging it. Their move was kept.`
+      );
+      return;
+    }
+
+    // Catch up on what others did during the drag; our reorder below is
+    // reconciled against the database afterwards
+    if (queuedEvents.length > 0) {
+      needsReconcileRef.current = true;
+    }
 
     // If dropped outside of any droppable area
     if (!destination) {
+      setColumns((prev) => queuedEvents.reduce(applyKanbanEvent, prev));
       return;
     }
 
@@ -115,6 +342,7 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
       destination.droppableId === source.droppableId &&
       destination.index === source.index
     ) {
+      setColumns((prev) => queuedEvents.reduce(applyKanbanEvent, prev));
       return;
     }
 
@@ -123,25 +351,25 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
       const newColumns = Array.from(columns);
       const [removed] = newColumns.splice(source.index, 1);
       newColumns.splice(destination.index, 0, removed);
+      const orderedColumns = newColumns.map((col, index) => ({
+        ...col,
+        order: index + 1,
+      }));
 
       // Update local state immediately for responsive UI
-      setColumns(newColumns);
+      setColumns(queuedEvents.reduce(applyKanbanEvent, orderedColumns));
 
       // Update database
-      try {
-        const columnUpdates = newColumns.map((col, index) => ({
-          id: col.id,
-          order: index + 1,
-        }));
-
-        const result = await updateKanbanColumnOrder(columnUpdates);
-        if (result.error) {
-          console.error("Failed to update column order:", result.error);
-          // Optionally revert the local state or show an error message
-        }
-      } catch (err) {
-        console.error("Exception updating column order:", err);
-      }
+      const columnUpdates = orderedColumns.map((col) => ({
+        id: col.id,
+        order: col.order,
+      }));
+
+      await persistReorder(
+        columnUpdates,
+        () => updateKanbanColumnOrder(pageId, columnUpdates),
+        "column order"
+      );
 
       return;
     }
@@ -153,78 +381,79 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
     );
 
     if (!sourceColumn || !destColumn) {
+      setColumns((prev) => queuedEvents.reduce(applyKanbanEvent, prev));
       return;
     }
 
+    const withOrder = (cards: KanbanCard[]) =>
+      cards.map((card, index) => ({ ...card, order: index + 1 }));
+
     // Moving within the same column
     if (sourceColumn === destColumn) {
       const newCards = Array.from(sourceColumn.cards);
       const [removed] = newCards.splice(source.index, 1);
       newCards.splice(destination.index, 0, removed);
+      const orderedCards = withOrder(newCards);
 
       const newColumns = columns.map((col) =>
-        col.id === sourceColumn.id ? { ...col, cards: newCards } : col
+        col.id === sourceColumn.id ? { ...col, cards: orderedCards } : col
       );
 
       // Update local state immediately
-      setColumns(newColumns);
+      setColumns(queuedEvents.reduce(applyKanbanEvent, newColumns));
 
       // Update database
-      try {
-        const cardUpdates = newCards.map((card, index) => ({
-          id: card.id,
-          columnId: sourceColumn.id,
-          order: index + 1,
-        }));
-
-        const result = await updateKanbanCardsOrder(cardUpdates);
-        if (result.error) {
-          console.error("Failed to update card order:", result.error);
-        }
-      } catch (err) {
-        console.error("Exception updating card order:", err);
-      }
+      const cardUpdates = orderedCards.map((card) => ({
+        id: card.id,
+        columnId: sourceColumn.id,
+        order: card.order!,
+      }));
+
+      await persistReorder(
+        cardUpdates,
+        () => updateKanbanCardsOrder(pageId, cardUpdates),
+        "card order"
+      );
     } else {
       // Moving between different columns
       const sourceCards = Array.from(sourceColumn.cards);
       const destCards = Array.from(destColumn.cards);
       const [removed] = sourceCards.splice(source.index, 1);
       destCards.splice(destination.index, 0, removed);
+      const orderedSourceCards = withOrder(sourceCards);
+      const orderedDestCards = withOrder(destCards);
 
       const newColumns = columns.map((col) => {
         if (col.id === sourceColumn.id) {
-          return { ...col, cards: sourceCards };
+          return { ...col, cards: orderedSourceCards };
         } else if (col.id === destColumn.id) {
-          return { ...col, cards: destCards };
+          return { ...col, cards: orderedDestCards };
         }
         return col;
       });
 
       // Update local state immediately
-      setColumns(newColumns);
+      setColumns(queuedEvents.reduce(applyKanbanEvent, newColumns));
 
       // Update database - need to update cards in both columns
-      try {
-        const allCardUpdates = [
-          ...sourceCards.map((card, index) => ({
-            id: card.id,
-            columnId: sourceColumn.id,
-            order: index + 1,
-          })),
-          ...destCards.map((card, index) => ({
-            id: card.id,
-            columnId: destColumn.id,
-            order: index + 1,
-          })),
-        ];
-
-        const result = await updateKanbanCardsOrder(allCardUpdates);
-        if (result.error) {
-          console.error("Failed to update card order:", result.error);
-        }
-      } catch (err) {
-        console.error("Exception updating card order:", err);
-      }
+      const allCardUpdates = [
+        ...orderedSourceCards.map((card) => ({
+          id: card.id,
+          columnId: sourceColumn.id,
+          order: card.order!,
+        })),
+        ...orderedDestCards.map((card) => ({
+          id: card.id,
+          columnId: destColumn.id,
+          order: card.order!,
+        })),
+      ];
+
+      await persistReorder(
+        allCardUpdates,
+        () => updateKanbanCardsOrder(pageId, allCardUpdates),
+        "card order"
+      );
     }
   };
 
@@ -242,10 +471,14 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
       const newColumn: KanbanColumn = {
         id: result.column.id,
         title: result.column.title,
+        order: result.column.order,
         cards: [],
       };
 
-      setColumns([...columns, newColumn]);
+      // The realtime echo may already have added it
+      setColumns((prev) =>
+        prev.some((col) => col.id === newColumn.id) ? prev : [...prev, newColumn]
+      );
       setNewColumnTitle("");
       setShowAddColumnDialog(false);
     } catch (err) {
@@ -260,6 +493,7 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
 
     try {
       const result = await createKanbanCard(
+        pageId,
         selectedColumnId,
         newCardTitle.trim(),
         newCardDescription.trim() || undefined
@@ -299,13 +533,20 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
         id: result.card.id,
         title: cardTitle,
         description: cardDescription,
+        order: result.card.order,
       };
 
-      // Add to local state
-      setColumns(
-        columns.map((col) =>
+      // Add to local state (the realtime echo may already have added it)
+      setColumns((prev) =>
+        prev.map((col) =>
           col.id === selectedColumnId
-            ? { ...col, cards: [...col.cards, newCard] }
+            ? {
+                ...col,
+                cards: [
+                  ...col.cards.filter((card) => card.id !== newCard.id),
+                  newCard,
+                ],
+              }
             : col
         )
       );
@@ -338,6 +579,7 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
 
     try {
       const result = await editKanbanCard(
+        pageId,
         editingCard.id,
         editCardTitle.trim(),
         editCardDescription.trim() || undefined
@@ -374,8 +616,8 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
       }
 
       // Update local state
-      setColumns(
-        columns.map((col) => ({
+      setColumns((prev) =>
+        prev.map((col) => ({
           ...col,
           cards: col.cards.map((card) =>
             card.id === editingCard.id
@@ -413,7 +655,7 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
     }
 
     try {
-      const result = await deleteKanbanCard(editingCard.id);
+      const result = await deleteKanbanCard(pageId, editingCard.id);
 
       if (result.error) {
         setError(result.error);
@@ -421,8 +663,8 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
       }
 
       // Remove card from local state
-      setColumns(
-        columns.map((col) => ({
+      setColumns((prev) =>
+        prev.map((col) => ({
           ...col,
           cards: col.cards.filter((card) => card.id !== editingCard.id),
         }))
@@ -451,6 +693,7 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
 
     try {
       const result = await editKanbanColumn(
+        pageId,
         editingColumn.id,
         editColumnTitle.trim()
       );
@@ -461,8 +704,8 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
       }
 
       // Update local state
-      setColumns(
-        columns.map((col) =>
+      setColumns((prev) =>
+        prev.map((col) =>
           col.id === editingColumn.id
             ? { ...col, title: result.column!.title }
             : col
@@ -493,7 +736,7 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
     }
 
     try {
-      const result = await deleteKanbanColumn(editingColumn.id);
+      const result = await deleteKanbanColumn(pageId, editingColumn.id);
 
       if (result.error) {
         setError(result.error);
@@ -501,7 +744,7 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
       }
 
       // Remove column from local state
-      setColumns(columns.filter((col) => col.id !== editingColumn.id));
+      setColumns((prev) => prev.filter((col) => col.id !== editingColumn.id));
 
       // Reset edit state
       setEditingColumn(null);
@@ -557,20 +800,51 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
   }
 
   return (
-    <DragDropContext onDragEnd={handleDragEnd}>
+    <DragDropContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
       <div className="w-full h-full flex flex-col bg-background ">
         {/* Fixed Toolbar Section */}
-        <div className="flex flex-row justify-center py-4 bg-background gap-4">
-          <Button onClick={() => setShowAddColumnDialog(true)}>
-            <Plus />
-            Add Column
-          </Button>
-          <Button onClick={() => setShowAddCardDialog(true)}>
-            <Plus />
-            Add Card
-          </Button>
+        <div className="flex flex-row justify-center items-center py-4 bg-background gap-4">
+          {readOnly ? (
+            <span className="text-sm text-muted-foreground">View only</span>
+          ) : (
+            <>
+              <Button onClick={() => setShowAddColumnDialog(true)}>
+                <Plus />
+                Add Column
+              </Button>
+              <Button onClick={() => setShowAddCardDialog(true)}>
+                <Plus />
+                Add Card
+              </Button>
+            </>
+          )}
+          <span
+            className="flex items-center gap-1.5 text-xs text-muted-foreground"
+            title={
+              isLive
+                ? "Changes from others on this board appear live"
+                : "Connecting to live updates..."
+            }
+          >
+            <span
+              className={cn(
+                "h-2 w-2 rounded-full",
+                isLive ? "bg-green-500" : "bg-muted-foreground/40"
+              )}
+            />
+            {isLive ? "Live" : "Offline"}
+          </span>
         </div>
 
+        {syncNotice && (
+          <div className="mx-6 mb-4 flex items-center justify-between gap-4 rounded-md border border-border bg-muted/50 px-4 py-2 text-sm text-muted-foreground">
+            <span>{syncNotice}</span>
+            <Button variant="ghost" size="sm" onClick={() => setSyncNotice(null)}>
+              Dismiss
+            </Button>
+          </div>
+        )}
+
         {/* Kanban Board - Horizontally Scrollable */}
         <div className="flex flex-row overflow-x-scroll h-full">
           {columns.length === 0 ? (
@@ -578,24 +852,28 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
               <div className="text-center w-full">
                 <h3 className="text-xl font-semibold mb-2">No columns yet</h3>
                 <p className="text-muted-foreground mb-4">
-                  Create your first column to get started
+                  {readOnly
+                    ? "This board is empty"
+                    : "Create your first column to get started"}
                 </p>
-                <Button onClick={() => setShowAddColumnDialog(true)}>
-                  <svg
-                    className="size-4 mr-2"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                    />
-                  </svg>
-                  Add Column
-                </Button>
+                {!readOnly && (
+                  <Button onClick={() => setShowAddColumnDialog(true)}>
+                    <svg
+                      className="size-4 mr-2"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                      />
+                    </svg>
+                    Add Column
+                  </Button>
+                )}
               </div>
             </div>
           ) : (
@@ -616,6 +894,7 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
                       key={column.id}
                       draggableId={column.id}
                       index={index}
+                      isDragDisabled={readOnly}
                     >
                       {(provided, snapshot) => (
                         <div
@@ -635,20 +914,32 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
                           >
                             <div className="flex items-center justify-between">
                               <div className="flex items-center gap-2 w-full">
+                                {!readOnly && (
+                                  <div
+                                    {...provided.dragHandleProps}
+                                    className="cursor-grab active:cursor-grabbing p-1 rounded hover:bg-muted/50 transition-colors"
+                                    title="Drag to reorder column"
+                                  >
+                                    <GripVertical className="size-4 text-muted-foreground" />
+                                  </div>
+                                )}
                                 <div
-                                  {...provided.dragHandleProps}
-                                  className="cursor-grab active:cursor-grabbing p-1 rounded hover:bg-muted/50 transition-colors"
-                                  title="Drag to reorder column"
-                                >
-                                  <GripVertical className="size-4 text-muted-foreground" />
-                                </div>
-                                <div
-                                  className="flex flex-row w-full cursor-pointer text-card-foreground hover:text-ring transition-colors"
-                                  onClick={() => handleEditColumn(column)}
+                                  className={cn(
+                                    "flex flex-row w-full text-card-foreground",
+                                    !readOnly &&
+                                      "cursor-pointer hover:text-ring transition-colors"
+                                  )}
+                                  onClick={() =>
+                                    !readOnly && handleEditColumn(column)
+                                  }
                                 >
                                   <h3
                                     className="font-semibold "
-                                    title="Click to edit column name"
+                                    title={
+                                      readOnly
+                                        ? undefined
+                                        : "Click to edit column name"
+                                    }
                                   >
                                     {column.title}
                                   </h3>
@@ -671,74 +962,104 @@ export default function KanbanEditor({ pageId }: KanbanEditorProps) {
                                   snapshot.isDraggingOver && "bg-muted/50"
                                 )}
                               >
-                                {column.cards.map((card, index) => (
-                                  <Draggable
-                                    key={card.id}
-                                    draggableId={card.id}
-                                    index={index}
-                                  >
-                                    {(provided, snapshot) => (
-                                      <div
-                                        ref={provided.innerRef}
-                                        {...provided.draggableProps}
-                                        {...provided.dragHandleProps}
-                                        className={cn(
-                                          "p-3 bg-background rounded-md border border-border shadow-xs",
-                                          "hover:shadow-sm transition-shadow cursor-pointer",
-                                          "group hover:border-ring/50",
-                                          snapshot.isDragging &&
-                                            "shadow-lg rotate-2 cursor-grabbing"
-                                        )}
-                                        onClick={(e) => {
-                                          // Only handle click if not dragging
-                                          if (!snapshot.isDragging) {
-                                            e.stopPropagation();
-                                            handleEditCard(card);
+                                {column.cards.map((card, index) => {
+                                  const remoteDrag = getRemoteDrag(card.id);
+
+                                  return (
+                                    <Draggable
+                                      key={card.id}
+                                      draggableId={card.id}
+                                      index={index}
+                                      isDragDisabled={readOnly}
+                                    >
+                                      {(provided, snapshot) => (
+                                        <div
+                                          ref={provided.innerRef}
+                                          {...provided.draggableProps}
+                                          {...provided.dragHandleProps}
+                                          data-card-id={card.id}
+                                          className={cn(
+                                            "relative p-3 bg-background rounded-md border border-border shadow-xs",
+                                            !readOnly &&
+                                              "hover:shadow-sm transition-shadow cursor-pointer group hover:border-ring/50",
+                                            snapshot.isDragging &&
+                                              "shadow-lg rotate-2 cursor-grabbing",
+                                            remoteDrag && "ring-2 opacity-70",
+                                            card.id === highlightedId &&
+                                              "ring-2 ring-ring"
+                                          )}
+                                          style={{
+                                            ...provided.draggableProps.style,
+                                            ...(remoteDrag && {
+                                              ["--tw-ring-color" as string]:
+                                                remoteDrag.color,
+                                            }),
+                                          }}
+                                          onClick={(e) => {
+                                            // Only handle click if not dragging
+                                            if (!readOnly && !snapshot.isDragging) {
+                                              e.stopPropagation();
+                                              handleEditCard(card);
+                                            }
+                                          }}
+                                          title={
+                                            readOnly ? undefined : "Click to edit"
                                           }
-                                        }}
-                                        title="Click to edit"
-                                      >
-                                        <h4 className="font-medium text-sm text-foreground mb-1 group-hover:text-ring transition-colors">
-                                          {card.title}
-                                        </h4>
-                                        {card.description && (
-                                          <p className="text-xs text-muted-foreground leading-relaxed">
-                                            {card.description}
-                                          </p>
-                                        )}
-                                      </div>
-                                    )}
-                                  </Draggable>
-                                ))}
+                                        >
+                                          {remoteDrag && (
+                                            <span
+                                              className="absolute -top-2.5 right-2 rounded px-1.5 text-[10px] font-medium text-white"
+                                              style={{
+                                                backgroundColor: remoteDrag.color,
+                                              }}
+                                            >
+                                              {remoteDrag.name} is moving this
+                                            </span>
+                                          )}
+                                          <h4 className="font-medium text-sm text-foreground mb-1 group-hover:text-ring transition-colors">
+                                            {card.title}
+                                          </h4>
+                                          {card.description && (
+                                            <p className="text-xs text-muted-foreground leading-relaxed">
+                                              {card.description}
+                                            </p>
+                                          )}
+                                        </div>
+                                      )}
+                                    </Draggable>
+                                  );
+                                })}
                                 {provided.placeholder}
 
                                 {/* Add Card Button */}
-                                <button
-                                  onClick={() =>
-                                    handleAddCardToColumn(column.id)
-                                  }
-                                  className={cn(
-                                    "w-full p-3 border-2 border-dashed border-border rounded-md",
-                                    "text-muted-foreground hover:text-foreground hover:border-ring/50",
-                                    "transition-colors text-sm font-medium",
-                                    "flex items-center justify-center gap-2"
-                                  )}
-                                >
-                                  <svg
-                                    className="size-4"
-                                    fill="none"
-                                    viewBox="0 0 24 24"
-                                    stroke="currentColor"
+                                {!readOnly && (
+                                  <button
+                                    onClick={() =>
+                                      handleAddCardToColumn(column.id)
+                                    }
+                                    className={cn(
+                                      "w-full p-3 border-2 border-dashed border-border rounded-md",
+                                      "text-muted-foreground hover:text-foreground hover:border-ring/50",
+                                      "transition-colors text-sm font-medium",
+                                      "flex items-center justify-center gap-2"
+                                    )}
                                   >
-                                    <path
-                                      strokeLinecap="round"
-                                      strokeLinejoin="round"
-                                      strokeWidth={2}
-                                      d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                                    />
-                                  </svg>
-                                  Add a card
-                                </button>
+                                    <svg
+                                      className="size-4"
+                                      fill="none"
+                                      viewBox="0 0 24 24"
+                                      stroke="currentColor"
+                                    >
+                                      <path
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                        strokeWidth={2}
+                                        d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                                      />
+                                    </svg>
+                                    Add a card
+                                  </button>
+                                )}
                               </div>
                             )}
                           </Droppable>
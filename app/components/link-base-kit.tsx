@@ -0,0 +1,12 @@
+import { BaseLinkPlugin } from '@platejs/link';
+
+import { LinkElementStatic } from '~/components/ui/link-node-static';
+
+export const BaseLinkKit = [
+  BaseLinkPlugin.configure({
+    node: { component: LinkElementStatic },
+    options: {
+      defaultLinkAttributes: { rel: 'noopener noreferrer', target: '_blank' },
+    },
+  }),
+];
@@ -1,13 +1,54 @@
 import { MarkdownPlugin, remarkMdx, remarkMention } from '@platejs/markdown';
 import { KEYS } from 'platejs';
+import type { TMentionElement } from 'platejs';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 
+import {
+  getPageLinkHref,
+  PAGE_EMBED_KEY,
+} from '~/lib/document-page-links';
+
 export const MarkdownKit = [
   MarkdownPlugin.configure({
     options: {
       disallowedNodes: [KEYS.suggestion],
       remarkPlugins: [remarkMath, remarkGfm, remarkMdx, remarkMention],
+      rules: {
+        // Attachments export as a plain link rather than an MDX <file> tag
+        [KEYS.file]: {
+          serialize: (node: { name?: string; url: string }) => ({
+            type: 'paragraph',
+            children: [
+              {
+                type: 'link',
+                url: node.url,
+                children: [{ type: 'text', value: node.name || node.url }],
+              },
+            ],
+          }),
+        },
+        // Page mentions and embeds link to the page
+        [KEYS.mention]: {
+          serialize: (node: TMentionElement) => ({
+            type: 'link',
+            url: getPageLinkHref(String(node.key)),
+            children: [{ type: 'text', value: node.value || 'Untitled' }],
+          }),
+        },
+        [PAGE_EMBED_KEY]: {
+          serialize: (node: { pageId: string; title?: string }) => ({
+            type: 'paragraph',
+            children: [
+              {
+                type: 'link',
+                url: getPageLinkHref(node.pageId),
+                children: [{ type: 'text', value: node.title || 'Untitled' }],
+              },
+            ],
+          }),
+        },
+      },
     },
   }),
 ];
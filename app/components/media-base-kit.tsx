@@ -0,0 +1,14 @@
+import { BaseCaptionPlugin } from '@platejs/caption';
+import { BaseFilePlugin, BaseImagePlugin } from '@platejs/media';
+import { KEYS } from 'platejs';
+
+import { FileElementStatic } from '~/components/ui/media-file-node-static';
+import { ImageElementStatic } from '~/components/ui/image-node-static';
+
+export const BaseMediaKit = [
+  BaseImagePlugin.withComponent(ImageElementStatic),
+  BaseFilePlugin.withComponent(FileElementStatic),
+  BaseCaptionPlugin.configure({
+    options: { query: { allow: [KEYS.img] } },
+  }),
+];
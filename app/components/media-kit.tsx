@@ -0,0 +1,49 @@
+'use client';
+
+import { CaptionPlugin } from '@platejs/caption/react';
+import {
+  FilePlugin,
+  ImagePlugin,
+  PlaceholderPlugin,
+} from '@platejs/media/react';
+import { KEYS } from 'platejs';
+
+import { MediaUploadErrorNotice } from '~/components/ui/media-toolbar-button';
+import { FileElement } from '~/components/ui/media-file-node';
+import { ImageElement } from '~/components/ui/image-node';
+import { PlaceholderElement } from '~/components/ui/media-placeholder-node';
+
+// Matches DOCUMENT_FILE_LIMITS in ~/lib/document-files
+const IMAGE_MAX_SIZE = '16MB';
+const FILE_MAX_SIZE = '32MB';
+
+export const MediaKit = [
+  ImagePlugin.configure({
+    // Pasted or dropped images go through the placeholder upload instead of
+    // being inlined as data URLs
+    options: { disableUploadInsert: true },
+    node: { component: ImageElement },
+  }),
+  FilePlugin.withComponent(FileElement),
+  CaptionPlugin.configure({
+    options: { query: { allow: [KEYS.img] } },
+  }),
+  PlaceholderPlugin.configure({
+    options: {
+      maxFileCount: 5,
+      uploadConfig: {
+        image: { mediaType: KEYS.img, maxFileCount: 5, maxFileSize: IMAGE_MAX_SIZE },
+        // Everything else becomes an attachment
+        audio: { mediaType: KEYS.file, maxFileCount: 5, maxFileSize: FILE_MAX_SIZE },
+        video: { mediaType: KEYS.file, maxFileCount: 5, maxFileSize: FILE_MAX_SIZE },
+        pdf: { mediaType: KEYS.file, maxFileCount: 5, maxFileSize: FILE_MAX_SIZE },
+        text: { mediaType: KEYS.file, maxFileCount: 5, maxFileSize: FILE_MAX_SIZE },
+        blob: { mediaType: KEYS.file, maxFileCount: 5, maxFileSize: FILE_MAX_SIZE },
+      },
+    },
+    render: {
+      afterEditable: MediaUploadErrorNotice,
+      node: PlaceholderElement,
+    },
+  }),
+];
@@ -0,0 +1,7 @@
+import { BaseMentionPlugin } from '@platejs/mention';
+
+import { MentionElementStatic } from '~/components/ui/mention-node-static';
+
+export const BaseMentionKit = [
+  BaseMentionPlugin.withComponent(MentionElementStatic),
+];
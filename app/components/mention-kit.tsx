@@ -0,0 +1,56 @@
+'use client';
+
+import { MentionInputPlugin, MentionPlugin } from '@platejs/mention/react';
+import { KEYS } from 'platejs';
+
+import {
+  MentionElement,
+  MentionInputElement,
+} from '~/components/ui/mention-node';
+
+export const MentionKit = [
+  MentionPlugin.configure({
+    options: {
+      insertSpaceAfterMention: true,
+      triggerPreviousCharPattern: /^$|^[\s"'(]$/,
+      triggerQuery: (editor) =>
+        !editor.api.some({ match: { type: editor.getType(KEYS.codeBlock) } }),
+    },
+  })
+    .overrideEditor(({ editor, getOptions, tf: { insertText } }) => ({
+      transforms: {
+        // "[[" opens the page picker too, like "@"
+        insertText(text, options) {
+          const { triggerQuery } = getOptions();
+
+          if (
+            text === '[' &&
+            !options?.at &&
+            editor.selection &&
+            editor.api.isCollapsed() &&
+            (!triggerQuery || triggerQuery(editor))
+          ) {
+            const previous = editor.api.before(editor.selection);
+            const previousChar =
+              previous &&
+              editor.api.string({ anchor: previous, focus: editor.selection.anchor });
+
+            if (previousChar === '[') {
+              editor.tf.withoutNormalizing(() => {
+                editor.tf.deleteBackward('character');
+                editor.tf.insertNodes(
+                  { type: KEYS.mentionInput, trigger: '[[', children: [{ text: '' }] },
+                  { select: true }
+                );
+              });
+              return;
+            }
+          }
+
+          insertText(text, options);
+        },
+      },
+    }))
+    .withComponent(MentionElement),
+  MentionInputPlugin.withComponent(MentionInputElement),
+];
@@ -9,6 +9,7 @@ import {
   ZoomIn,
   ZoomOut,
   RotateCcw,
+  MousePointer2,
 } from "lucide-react";
 import { Button } from "~/components/ui/button";
 import {
@@ -20,6 +21,8 @@ import {
 import { MoodboardItem } from "~/components/ui/moodboard-item";
 import { cn } from "~/lib/utils";
 import { useMoodboardData } from "~/hooks/use-moodboard-data";
+import { usePageCursors } from "~/hooks/use-page-cursors";
+import { useSearchFocus } from "~/hooks/use-search-focus";
 import type { MoodboardItem as MoodboardItemType } from "~/lib/space-utils";
 import { handleImageUpload, isValidImageFile } from "~/lib/space-utils";
 
@@ -36,11 +39,21 @@ interface DragState {
   startCanvasY: number;
 }
 
+// What others see of us on the canvas; point is in canvas coordinates
+interface MoodboardCursor {
+  point: { x: number; y: number } | null;
+  selectedItemId: string | null;
+}
+
 interface MoodboardEditorProps {
   pageId: string;
+  readOnly?: boolean;
 }
 
-export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
+export default function MoodboardEditor({
+  pageId,
+  readOnly = false,
+}: MoodboardEditorProps) {
   const [canvasPosition, setCanvasPosition] = useState<CanvasPosition>({
     x: 0,
     y: 0,
@@ -64,13 +77,63 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
     items,
     selectedItemId,
     isLoading,
+    isLive,
     setSelectedItemId,
+    beginItemInteraction,
     createItem,
     updateItem,
     deleteSelectedItem,
     deleteItem,
   } = useMoodboardData(pageId);
 
+  // Opened from a search result: center the matching text box and select it
+  const { focusId, reveal } = useSearchFocus();
+
+  useEffect(() => {
+    if (!focusId || isLoading) return;
+
+    reveal();
+    const item = items.find((item) => item.id === focusId);
+    const container = containerRef.current;
+    if (!item || !container) return;
+
+    setCanvasPosition({
+      x: container.clientWidth / 2 - (item.x + item.width / 2) * zoom,
+      y: container.clientHeight / 2 - (item.y + item.height / 2) * zoom,
+    });
+    setSelectedItemId(item.id);
+  }, [focusId, isLoading]);
+
+  // Live cursors and selections of other participants
+  const { remoteCursors, updateCursor } =
+    usePageCursors<MoodboardCursor>(pageId);
+  const cursorPointRef = useRef<MoodboardCursor["point"]>(null);
+
+  const handleCursorMove = useCallback(
+    (clientX: number, clientY: number) => {
+      const canvasRect = canvasRef.current?.getBoundingClientRect();
+      if (!canvasRect) return;
+
+      // The canvas is scaled, so divide by zoom to get unscaled coordinates
+      cursorPointRef.current = {
+        x: (clientX - canvasRect.left) / zoom,
+        y: (clientY - canvasRect.top) / zoom,
+      };
+      updateCursor({ point: cursorPointRef.current, selectedItemId });
+    },
+    [zoom, selectedItemId, updateCursor]
+  );
+
+  const handleCursorLeave = useCallback(() => {
+    cursorPointRef.current = null;
+    updateCursor({ point: null, selectedItemId });
+  }, [selectedItemId, updateCursor]);
+
+  // Share selection changes even when the pointer doesn't move
+  useEffect(() => {
+    updateCursor({ point: cursorPointRef.current, selectedItemId });
+  }, [selectedItemId, updateCursor]);
+
   // Handle mouse down - start dragging
   const handleMouseDown = useCallback(
     (e: React.MouseEvent) => {
@@ -124,8 +187,9 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
       handleMove(e.clientX, e.clientY);
+      handleCursorMove(e.clientX, e.clientY);
     },
-    [handleMove]
+    [handleMove, handleCursorMove]
   );
 
   const handleTouchMove = useCallback(
@@ -300,11 +364,13 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
 
   // Add global paste event listener
   useEffect(() => {
+    if (readOnly) return;
+
     document.addEventListener("paste", handleGlobalPaste);
     return () => {
       document.removeEventListener("paste", handleGlobalPaste);
     };
-  }, [handleGlobalPaste]);
+  }, [handleGlobalPaste, readOnly]);
 
   // Handle image file selection from toolbar
   const handleImageFileSelect = useCallback(
@@ -472,36 +538,38 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
       <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10">
         <div className=" rounded-lg shadow-lg border bg-sidebar p-2">
           <Toolbar className="gap-1">
-            <ToolbarGroup>
-              {/*
-              <ToolbarButton
-                pressed={selectedTool === "select"}
-                onClick={() => handleToolSelect("select")}
-                tooltip="Select Tool"
-                size="sm"
-              >
-                <Plus className="h-4 w-4" />
-              </ToolbarButton>
-              */}
-
-              <ToolbarButton
-                pressed={false}
-                onClick={() => handleToolSelect("image")}
-                tooltip="Add Image"
-                size="sm"
-              >
-                <Image className="h-4 w-4" />
-              </ToolbarButton>
-
-              <ToolbarButton
-                pressed={selectedTool === "text"}
-                onClick={() => handleToolSelect("text")}
-                tooltip="Add Text"
-                size="sm"
-              >
-                <Type className="h-4 w-4" />
-              </ToolbarButton>
-            </ToolbarGroup>
+            {!readOnly && (
+              <ToolbarGroup>
+                {/*
+                <ToolbarButton
+                  pressed={selectedTool === "select"}
+                  onClick={() => handleToolSelect("select")}
+                  tooltip="Select Tool"
+                  size="sm"
+                >
+                  <Plus className="h-4 w-4" />
+                </ToolbarButton>
+                */}
+
+                <ToolbarButton
+                  pressed={false}
+                  onClick={() => handleToolSelect("image")}
+                  tooltip="Add Image"
+                  size="sm"
+                >
+                  <Image className="h-4 w-4" />
+                </ToolbarButton>
+
+                <ToolbarButton
+                  pressed={selectedTool === "text"}
+                  onClick={() => handleToolSelect("text")}
+                  tooltip="Add Text"
+                  size="sm"
+                >
+                  <Type className="h-4 w-4" />
+                </ToolbarButton>
+              </ToolbarGroup>
+            )}
 
             <ToolbarGroup>
               <ToolbarButton onClick={handleZoomIn} tooltip="Zoom In" size="sm">
@@ -525,16 +593,18 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
               </ToolbarButton>
             </ToolbarGroup>
 
-            <ToolbarGroup>
-              <ToolbarButton
-                onClick={deleteSelectedItem}
-                tooltip="Delete Selected"
-                size="sm"
-                disabled={!selectedItemId}
-              >
-                <Trash2 className="h-4 w-4 text-destructive" />
-              </ToolbarButton>
-            </ToolbarGroup>
+            {!readOnly && (
+              <ToolbarGroup>
+                <ToolbarButton
+                  onClick={deleteSelectedItem}
+                  tooltip="Delete Selected"
+                  size="sm"
+                  disabled={!selectedItemId}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </ToolbarButton>
+              </ToolbarGroup>
+            )}
           </Toolbar>
         </div>
       </div>
@@ -550,13 +620,14 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleEnd}
+        onMouseLeave={handleCursorLeave}
         onWheel={handleWheel}
         onTouchStart={handleTouchStart}
         onTouchMove={handleTouchMove}
         onTouchEnd={handleEnd}
-        onDragOver={handleCanvasDragOver}
-        onDragLeave={handleCanvasDragLeave}
-        onDrop={handleCanvasDrop}
+        onDragOver={readOnly ? undefined : handleCanvasDragOver}
+        onDragLeave={readOnly ? undefined : handleCanvasDragLeave}
+        onDrop={readOnly ? undefined : handleCanvasDrop}
       >
         {/* Pannable Canvas */}
         <div
@@ -614,7 +685,9 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
                 <div className="text-center text-gray-500 dark:text-gray-400">
                   <div className="text-lg font-medium mb-2">Your Moodboard</div>
                   <div className="text-sm">
-                    {selectedTool ? (
+                    {readOnly ? (
+                      "This moodboard is empty"
+                    ) : selectedTool ? (
                       <>
                         Selected tool:{" "}
                         <span className="capitalize font-medium">
@@ -644,10 +717,43 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
                 item={item}
                 isSelected={selectedItemId === item.id}
                 onSelect={() => setSelectedItemId(item.id)}
+                onInteractionStart={() => beginItemInteraction(item.id)}
                 onUpdate={(updates) => updateItem(item.id, updates)}
                 onDelete={() => deleteItem(item.id)}
+                remoteSelections={remoteCursors
+                  .filter((cursor) => cursor.data?.selectedItemId === item.id)
+                  .map(({ name, color }) => ({ name, color }))}
+                readOnly={readOnly}
               />
             ))}
+
+            {/* Other participants' cursors */}
+            {remoteCursors.map(
+              (cursor) =>
+                cursor.data?.point && (
+                  <div
+                    key={cursor.participantId}
+                    className="pointer-events-none absolute left-0 top-0 z-20 transition-transform duration-75 ease-linear"
+                    style={{
+                      transform: `translate(${cursor.data.point.x}px, ${
+                        cursor.data.point.y
+                      }px) scale(${1 / zoom})`,
+                      transformOrigin: "top left",
+                    }}
+                  >
+                    <MousePointer2
+                      className="h-4 w-4"
+                      style={{ color: cursor.color, fill: cursor.color }}
+                    />
+                    <span
+                      className="ml-3 whitespace-nowrap rounded px-1.5 py-0.5 text-xs font-medium text-white"
+                      style={{ backgroundColor: cursor.color }}
+                    >
+                      {cursor.name}
+                    </span>
+                  </div>
+                )
+            )}
           </div>
         </div>
 
@@ -671,7 +777,8 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
       <div className="absolute bottom-4 left-4 bg-white dark:bg-gray-800 rounded-md shadow-sm border border-gray-200 dark:border-gray-700 px-3 py-1">
         <div className="text-xs text-gray-600 dark:text-gray-400">
           Zoom: {Math.round(zoom * 100)}% | Position: (
-          {Math.round(canvasPosition.x)}, {Math.round(canvasPosition.y)})
+          {Math.round(canvasPosition.x)}, {Math.round(canvasPosition.y)}) |{" "}
+          {isLive ? "Live" : "Offline"}
         </div>
       </div>
 
@@ -681,7 +788,11 @@ export default function MoodboardEditor({ pageId }: MoodboardEditorProps) {
           <div className="font-medium mb-1">How to use:</div>
           <div>• Middle-click and drag to pan around the canvas</div>
           <div>• Scroll wheel to zoom in/out</div>
-          <div>• Use toolbar to select tools</div>
+          <div>
+            {readOnly
+              ? "• You can view this moodboard but not change it"
+              : "• Use toolbar to select tools"}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,6 @@
+import { PageEmbedElementStatic } from '~/components/ui/page-embed-node-static';
+import { BasePageEmbedPlugin } from '~/lib/document-page-links';
+
+export const BasePageEmbedKit = [
+  BasePageEmbedPlugin.withComponent(PageEmbedElementStatic),
+];
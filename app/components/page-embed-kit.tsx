@@ -0,0 +1,10 @@
+'use client';
+
+import { toPlatePlugin } from 'platejs/react';
+
+import { PageEmbedElement } from '~/components/ui/page-embed-node';
+import { BasePageEmbedPlugin } from '~/lib/document-page-links';
+
+export const PageEmbedKit = [
+  toPlatePlugin(BasePageEmbedPlugin).withComponent(PageEmbedElement),
+];
@@ -0,0 +1,19 @@
+'use client';
+
+import { SlashInputPlugin, SlashPlugin } from '@platejs/slash-command/react';
+import { KEYS } from 'platejs';
+
+import { SlashInputElement } from '~/components/ui/slash-node';
+
+export const SlashKit = [
+  SlashPlugin.configure({
+    options: {
+      // A "/" in code or a table cell is just a slash
+      triggerQuery: (editor) =>
+        !editor.api.some({
+          match: { type: [editor.getType(KEYS.codeBlock), KEYS.td, KEYS.th] },
+        }),
+    },
+  }),
+  SlashInputPlugin.withComponent(SlashInputElement),
+];
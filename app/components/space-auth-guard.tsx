@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from "react";
 import { SpacePasswordModal } from "~/components/ui/space-password-modal";
-import { joinSpaceSecure } from "~/lib/space-utils";
+import { checkSpaceSession, joinSpaceSecure } from "~/lib/space-utils";
 import type { Tables } from "../../database.types";
 
-type Space = Tables<"spaces">;
+type Space = Omit<Tables<"spaces">, "password">;
 
 interface SpaceAuthGuardProps {
   space: Space;
@@ -11,22 +11,6 @@ interface SpaceAuthGuardProps {
   onAuthenticationRequired?: () => void;
 }
 
-// Helper to manage authenticated spaces in localStorage
-const getAuthenticatedSpaces = (): Set<string> => {
-  if (typeof window === "undefined") return new Set();
-  try {
-    const stored = localStorage.getItem("wrkinspace_authenticated");
-    return new Set(stored ? JSON.parse(stored) : []);
-  } catch {
-    return new Set();
-  }
-};
-
-const saveAuthenticatedSpaces = (spaces: Set<string>) => {
-  if (typeof window === "undefined") return;
-  localStorage.setItem("wrkinspace_authenticated", JSON.stringify([...spaces]));
-};
-
 export function SpaceAuthGuard({
   space,
   children,
@@ -38,8 +22,8 @@ export function SpaceAuthGuard({
 
   // Check authentication status on mount
   useEffect(() => {
-    const checkAuth = () => {
-      const requiresPassword = !!space.password;
+    const checkAuth = async () => {
+      const requiresPassword = !!space.has_password;
 
       if (!requiresPassword) {
         setIsAuthenticated(true);
@@ -47,8 +31,9 @@ export function SpaceAuthGuard({
         return;
       }
 
-      const authenticatedSpaces = getAuthenticatedSpaces();
-      const isSpaceAuthenticated = authenticatedSpaces.has(space.id);
+      // The session cookie is httpOnly, so ask the server
+      const session = await checkSpaceSession(space.id);
+      const isSpaceAuthenticated = session.isAuthenticated;
 
       setIsAuthenticated(isSpaceAuthenticated);
       setIsLoading(false);
@@ -60,18 +45,14 @@ export function SpaceAuthGuard({
     };
 
     checkAuth();
-  }, [space.id, space.password, onAuthenticationRequired]);
+  }, [space.id, space.has_password, onAuthenticationRequired]);
 
   const handlePasswordSubmit = async (password: string): Promise<boolean> => {
     try {
       const result = await joinSpaceSecure(space.id, password);
 
       if (result.success) {
-        // Add to authenticated spaces
-        const authenticatedSpaces = getAuthenticatedSpaces();
-        authenticatedSpaces.add(space.id);
-        saveAuthenticatedSpaces(authenticatedSpaces);
-
+        // The server has set the session cookie
         setIsAuthenticated(true);
         setShowPasswordModal(false);
         return true;
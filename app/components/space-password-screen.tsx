@@ -5,7 +5,9 @@ import { Input } from "./ui/input";
 interface SpacePasswordScreenProps {
   spaceTitle?: string;
   spaceId: string;
-  onPasswordSubmit: (password: string) => Promise<boolean>;
+  onPasswordSubmit: (
+    password: string
+  ) => Promise<{ success: boolean; error?: string }>;
   isLoading?: boolean;
 }
 
@@ -32,17 +34,17 @@ export function SpacePasswordScreen({
     setError("");
 
     try {
-      const success = await onPasswordSubmit(password);
-      console.log("Authentication result:", success);
+      const result = await onPasswordSubmit(password);
+      console.log("Authentication result:", result.success);
 
-      if (success) {
+      if (result.success) {
         // Reset form on success
         setPassword("");
         setError("");
         console.log("Authentication successful!");
       } else {
-        setError("Incorrect password. Please try again.");
-        console.log("Authentication failed - incorrect password");
+        setError(result.error || "Incorrect password. Please try again.");
+        console.log("Authentication failed:", result.error || "incorrect password");
       }
     } catch (err) {
       console.error("Authentication error:", err);
@@ -8,7 +8,6 @@ import {
   BlockMenuPlugin,
   BlockSelectionPlugin,
 } from "@platejs/selection/react";
-import { KEYS } from "platejs";
 import { useEditorPlugin, usePlateState } from "platejs/react";
 
 import {
@@ -22,6 +21,11 @@ import {
   ContextMenuTrigger,
 } from "~/components/ui/context-menu";
 import { useIsTouchDevice } from "~/hooks/use-is-touch-device";
+import {
+  DOCUMENT_BLOCK_ITEMS,
+  setDocumentBlockType,
+} from "~/lib/document-blocks";
+import type { DocumentBlockKey } from "~/lib/document-blocks";
 
 type Value = "askAI" | null;
 
@@ -32,18 +36,12 @@ export function BlockContextMenu({ children }: { children: React.ReactNode }) {
   const [readOnly] = usePlateState("readOnly");
 
   const handleTurnInto = React.useCallback(
-    (type: string) => {
+    (type: DocumentBlockKey) => {
       editor
         .getApi(BlockSelectionPlugin)
         .blockSelection.getNodes()
-        .forEach(([node, path]) => {
-          if (node[KEYS.listType]) {
-            editor.tf.unsetNodes([KEYS.listType, "indent"], {
-              at: path,
-            });
-          }
-
-          editor.tf.toggleBlock(type, { at: path });
+        .forEach(([, path]) => {
+          setDocumentBlockType(editor, type, { at: path });
         });
     },
     [editor]
@@ -137,22 +135,17 @@ export function BlockContextMenu({ children }: { children: React.ReactNode }) {
           <ContextMenuSub>
             <ContextMenuSubTrigger>Turn into</ContextMenuSubTrigger>
             <ContextMenuSubContent className="w-48">
-              <ContextMenuItem onClick={() => handleTurnInto(KEYS.p)}>
-                Paragraph
-              </ContextMenuItem>
-
-              <ContextMenuItem onClick={() => handleTurnInto(KEYS.h1)}>
-                Heading 1
-              </ContextMenuItem>
-              <ContextMenuItem onClick={() => handleTurnInto(KEYS.h2)}>
-                Heading 2
-              </ContextMenuItem>
-              <ContextMenuItem onClick={() => handleTurnInto(KEYS.h3)}>
-                Heading 3
-              </ContextMenuItem>
-              <ContextMenuItem onClick={() => handleTurnInto(KEYS.blockquote)}>
-                Blockquote
-              </ContextMenuItem>
+              {DOCUMENT_BLOCK_ITEMS.filter((item) => item.canTurnInto).map(
+                (item) => (
+                  <ContextMenuItem
+                    key={item.key}
+                    onClick={() => handleTurnInto(item.key)}
+                  >
+                    <item.icon />
+                    {item.label}
+                  </ContextMenuItem>
+                )
+              )}
             </ContextMenuSubContent>
           </ContextMenuSub>
         </ContextMenuGroup>
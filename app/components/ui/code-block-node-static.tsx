@@ -0,0 +1,40 @@
+import * as React from 'react';
+
+import type {
+  SlateElementProps,
+  SlateLeafProps,
+  TCodeBlockElement,
+} from 'platejs';
+
+import { SlateElement, SlateLeaf } from 'platejs';
+
+import { cn } from '~/lib/utils';
+
+import { codeBlockSyntaxClassName } from './code-block-node';
+
+export function CodeBlockElementStatic(
+  props: SlateElementProps<TCodeBlockElement>
+) {
+  return (
+    <SlateElement
+      className={cn('py-1', codeBlockSyntaxClassName)}
+      {...props}
+    >
+      <div className="relative rounded-md bg-muted/50">
+        <pre className="overflow-x-auto p-8 pr-4 font-mono text-sm leading-[normal] [tab-size:2] print:break-inside-avoid">
+          <code>{props.children}</code>
+        </pre>
+      </div>
+    </SlateElement>
+  );
+}
+
+export function CodeLineElementStatic(props: SlateElementProps) {
+  return <SlateElement {...props} />;
+}
+
+export function CodeSyntaxLeafStatic(props: SlateLeafProps) {
+  const tokenClassName = props.leaf.className as string;
+
+  return <SlateLeaf className={tokenClassName} {...props} />;
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import * as React from 'react';
+
+import type { TCodeBlockElement } from 'platejs';
+import type { PlateElementProps, PlateLeafProps } from 'platejs/react';
+
+import {
+  PlateElement,
+  PlateLeaf,
+  useReadOnly,
+} from 'platejs/react';
+
+import { cn } from '~/lib/utils';
+
+// Languages offered in the picker. Highlighting comes from lowlight's
+// `common` grammars (see code-block-kit).
+export const CODE_BLOCK_LANGUAGES: { label: string; value: string }[] = [
+  { label: 'Plain text', value: 'plaintext' },
+  { label: 'Bash', value: 'bash' },
+  { label: 'C', value: 'c' },
+  { label: 'C++', value: 'cpp' },
+  { label: 'C#', value: 'csharp' },
+  { label: 'CSS', value: 'css' },
+  { label: 'Diff', value: 'diff' },
+  { label: 'Go', value: 'go' },
+  { label: 'HTML', value: 'xml' },
+  { label: 'Java', value: 'java' },
+  { label: 'JavaScript', value: 'javascript' },
+  { label: 'JSON', value: 'json' },
+  { label: 'Kotlin', value: 'kotlin' },
+  { label: 'Markdown', value: 'markdown' },
+  { label: 'PHP', value: 'php' },
+  { label: 'Python', value: 'python' },
+  { label: 'Ruby', value: 'ruby' },
+  { label: 'Rust', value: 'rust' },
+  { label: 'SQL', value: 'sql' },
+  { label: 'Swift', value: 'swift' },
+  { label: 'TypeScript', value: 'typescript' },
+  { label: 'YAML', value: 'yaml' },
+];
+
+// highlight.js token colours, shared with the static element
+export const codeBlockSyntaxClassName = cn(
+  '**:[.hljs-comment,.hljs-code,.hljs-formula]:text-[#6a737d]',
+  '**:[.hljs-keyword,.hljs-doctag,.hljs-template-tag,.hljs-template-variable,.hljs-type,.hljs-variable.language_]:text-[#d73a49]',
+  '**:[.hljs-title,.hljs-title.class_,.hljs-title.class_.inherited__,.hljs-title.function_]:text-[#6f42c1]',
+  '**:[.hljs-attr,.hljs-attribute,.hljs-literal,.hljs-meta,.hljs-number,.hljs-operator,.hljs-selector-attr,.hljs-selector-class,.hljs-selector-id,.hljs-variable]:text-[#005cc5]',
+  '**:[.hljs-regexp,.hljs-string]:text-[#032f62]',
+  '**:[.hljs-built_in,.hljs-symbol]:text-[#e36209]',
+  '**:[.hljs-name,.hljs-quote,.hljs-selector-pseudo,.hljs-selector-tag]:text-[#22863a]',
+  '**:[.hljs-emphasis]:italic **:[.hljs-strong]:font-bold',
+  '**:[.hljs-addition]:bg-[#f0fff4] **:[.hljs-addition]:text-[#22863a]',
+  '**:[.hljs-deletion]:bg-[#ffeef0] **:[.hljs-deletion]:text-[#b31d28]'
+);
+
+export function CodeBlockElement(props: PlateElementProps<TCodeBlockElement>) {
+  const { editor, element } = props;
+
+  return (
+    <PlateElement
+      className={cn('py-1', codeBlockSyntaxClassName)}
+      {...props}
+    >
+      <div className="relative rounded-md bg-muted/50">
+        <pre className="overflow-x-auto p-8 pr-4 font-mono text-sm leading-[normal] [tab-size:2] print:break-inside-avoid">
+          <code>{props.children}</code>
+        </pre>
+
+        <div
+          className="absolute top-1 right-1 z-10 select-none"
+          contentEditable={false}
+        >
+          <CodeBlockLanguageSelect
+            lang={element.lang}
+            onChange={(lang) =>
+              editor.tf.setNodes<TCodeBlockElement>({ lang }, { at: element })
+            }
+          />
+        </div>
+      </div>
+    </PlateElement>
+  );
+}
+
+function CodeBlockLanguageSelect({
+  lang,
+  onChange,
+}: {
+  lang?: string;
+  onChange: (lang: string) => void;
+}) {
+  const readOnly = useReadOnly();
+  const value = lang || 'plaintext';
+  const label =
+    CODE_BLOCK_LANGUAGES.find((language) => language.value === value)?.label ??
+    value;
+
+  if (readOnly) {
+    return <span className="px-2 text-xs text-muted-foreground">{label}</span>;
+  }
+
+  return (
+    <select
+      aria-label="Code language"
+      className="h-6 rounded-sm bg-transparent px-1 text-xs text-muted-foreground hover:bg-muted focus:outline-none"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {!CODE_BLOCK_LANGUAGES.some((language) => language.value === value) && (
+        <option value={value}>{value}</option>
+      )}
+      {CODE_BLOCK_LANGUAGES.map((language) => (
+        <option key={language.value} value={language.value}>
+          {language.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function CodeLineElement(props: PlateElementProps) {
+  return <PlateElement {...props} />;
+}
+
+export function CodeSyntaxLeaf({ leaf, ...props }: PlateLeafProps) {
+  const tokenClassName = leaf.className as string;
+
+  return <PlateLeaf className={tokenClassName} leaf={leaf} {...props} />;
+}
+
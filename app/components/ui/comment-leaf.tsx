@@ -0,0 +1,35 @@
+'use client';
+
+import * as React from 'react';
+
+import type { PlateLeafProps } from 'platejs/react';
+
+import { PlateLeaf } from 'platejs/react';
+
+import { cn } from '~/lib/utils';
+
+// Text a comment thread is anchored to. Clicking it opens the thread in the
+// comments panel.
+export function CommentLeaf(props: PlateLeafProps) {
+  const { leaf, setOptions } = props;
+  const threadId = leaf.commentThreadId as string | null;
+
+  return (
+    <PlateLeaf
+      {...props}
+      className={cn(
+        'border-b-2 border-amber-400 bg-amber-200/40 text-inherit transition-colors dark:bg-amber-500/20',
+        !!leaf.commentActive && 'bg-amber-300/70 dark:bg-amber-500/40',
+        threadId && 'cursor-pointer'
+      )}
+      attributes={{
+        ...props.attributes,
+        onClick: () => {
+          if (threadId) setOptions({ activeThreadId: threadId, panelOpen: true });
+        },
+      }}
+    >
+      {props.children}
+    </PlateLeaf>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import * as React from 'react';
+
+import { useEditorRef } from 'platejs/react';
+
+import { DocumentCommentsPlugin } from '~/components/comment-kit';
+import { getCommentAnchor } from '~/lib/document-comments';
+
+import { ToolbarButton } from './toolbar';
+
+// Starts a comment thread on the selected text, or on the block at the
+// cursor, in the comments panel
+export function CommentToolbarButton(
+  props: React.ComponentProps<typeof ToolbarButton>
+) {
+  const editor = useEditorRef();
+
+  return (
+    <ToolbarButton
+      {...props}
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={() => {
+        editor.setOptions(DocumentCommentsPlugin, {
+          draft: getCommentAnchor(editor),
+          activeThreadId: null,
+          panelOpen: true,
+        });
+      }}
+    />
+  );
+}
@@ -1,5 +1,11 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useSpaceActions } from "~/hooks/use-space-actions";
+import { getRecentlyVisitedSpaces } from "~/lib/space-utils";
+import {
+  SPACE_ARCHIVE_FILE_ACCEPT,
+  SPACE_ARCHIVE_LIMITS,
+  SPACE_ARCHIVE_MAX_SIZE_LABEL,
+} from "~/lib/space-archive";
 import {
   Dialog,
   DialogContent,
@@ -11,6 +17,7 @@ import {
 } from "./dialog";
 import { Button } from "./button";
 import { Input } from "./input";
+import { TemplatePicker } from "./template-picker";
 
 interface CreateSpaceModalProps {
   children: React.ReactNode;
@@ -19,18 +26,38 @@ interface CreateSpaceModalProps {
 export function CreateSpaceModal({ children }: CreateSpaceModalProps) {
   const [title, setTitle] = useState("");
   const [password, setPassword] = useState("");
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  // A space export to import instead of starting from a template
+  const [archive, setArchive] = useState<File | null>(null);
   const [isOpen, setIsOpen] = useState(false);
   const [error, setError] = useState("");
   const { isCreating, handleCreateSpace } = useSpaceActions();
 
+  // Saved space templates come from the spaces visited recently
+  const recentSpaceIds = useMemo(
+    () => (isOpen ? getRecentlyVisitedSpaces().map((space) => space.id) : []),
+    [isOpen]
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // Clear any previous errors
     setError("");
 
+    // Checked here too, before uploading the whole file for nothing
+    if (archive && archive.size > SPACE_ARCHIVE_LIMITS.maxArchiveBytes) {
+      setError(`Archives of up to ${SPACE_ARCHIVE_MAX_SIZE_LABEL} can be imported`);
+      return;
+    }
+
     try {
-      const options: { title?: string; password?: string } = {};
+      const options: {
+        title?: string;
+        password?: string;
+        templateId?: string;
+        archive?: File;
+      } = {};
 
       // Only include title if user provided one
       if (title.trim()) {
@@ -42,6 +69,12 @@ export function CreateSpaceModal({ children }: CreateSpaceModalProps) {
         options.password = password.trim();
       }
 
+      if (archive) {
+        options.archive = archive;
+      } else if (templateId) {
+        options.templateId = templateId;
+      }
+
       // Use the existing handleCreateSpace function
       const result = await handleCreateSpace(options);
 
@@ -50,6 +83,8 @@ export function CreateSpaceModal({ children }: CreateSpaceModalProps) {
         setIsOpen(false);
         setTitle("");
         setPassword("");
+        setTemplateId(null);
+        setArchive(null);
         setError("");
       } else {
         // Handle rate limiting with more specific error message
@@ -75,6 +110,8 @@ export function CreateSpaceModal({ children }: CreateSpaceModalProps) {
       // Reset form when modal closes
       setTitle("");
       setPassword("");
+      setTemplateId(null);
+      setArchive(null);
       setError("");
     }
   };
@@ -82,12 +119,12 @@ export function CreateSpaceModal({ children }: CreateSpaceModalProps) {
   return (
     <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>{children}</DialogTrigger>
-      <DialogContent className="sm:max-w-md max-w-[calc(100vw-1rem)] mx-2">
+      <DialogContent className="sm:max-w-md max-w-[calc(100vw-1rem)] mx-2 max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Space</DialogTitle>
           <DialogDescription>
-            Create a new collaborative workspace. Title and password are
-            optional.
+            Create a new collaborative workspace. Title, password and
+            template are optional.
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
@@ -128,6 +165,44 @@ export function CreateSpaceModal({ children }: CreateSpaceModalProps) {
               </p>
             </div>
 
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Template (Optional)</span>
+              {isOpen && !archive && (
+                <TemplatePicker
+                  kind="space"
+                  spaceIds={recentSpaceIds}
+                  value={templateId}
+                  onChange={setTemplateId}
+                  blankLabel="Empty space"
+                  disabled={isCreating}
+                />
+              )}
+              <p className="text-xs text-muted-foreground">
+                {archive
+                  ? "The space is created from the imported export instead"
+                  : "Start with the pages of a template"}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="space-archive" className="text-sm font-medium">
+                Import a Space Export (Optional)
+              </label>
+              <Input
+                id="space-archive"
+                type="file"
+                accept={SPACE_ARCHIVE_FILE_ACCEPT}
+                onChange={(e) => setArchive(e.target.files?.[0] ?? null)}
+                disabled={isCreating}
+                className="min-h-11"
+              />
+              <p className="text-xs text-muted-foreground">
+                A .zip of up to {SPACE_ARCHIVE_MAX_SIZE_LABEL} downloaded from
+                Space Settings. Its pages and files are copied into the new
+                space, which keeps the exported title unless you enter one.
+              </p>
+            </div>
+
             {error && (
               <div className="p-3 bg-red-50 border border-red-200 rounded-md">
                 <p className="text-sm text-red-700">{error}</p>
@@ -152,7 +227,13 @@ export function CreateSpaceModal({ children }: CreateSpaceModalProps) {
               Cancel
             </Button>
             <Button type="submit" disabled={isCreating} className="min-h-11">
-              {isCreating ? "Creating..." : "Create Space"}
+              {isCreating
+                ? archive
+                  ? "Importing..."
+                  : "Creating..."
+                : archive
+                  ? "Import Space"
+                  : "Create Space"}
             </Button>
           </DialogFooter>
         </form>
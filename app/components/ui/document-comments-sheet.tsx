@@ -0,0 +1,351 @@
+import React, { useState } from "react";
+import { useEditorRef, useEditorSelector, usePluginOption } from "platejs/react";
+import type { PlateEditor } from "platejs/react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "./sheet";
+import { Button } from "./button";
+import { CheckCircle2, RotateCcw } from "lucide-react";
+import { DocumentCommentsPlugin } from "~/components/comment-kit";
+import { useSpace } from "~/contexts/space-context";
+import {
+  COMMENT_MAX_LENGTH,
+  findCommentBlock,
+  findCommentRange,
+} from "~/lib/document-comments";
+import type { CommentAnchor, CommentThread } from "~/lib/document-comments";
+import type {
+  DocumentComment,
+  NewDocumentComment,
+} from "~/lib/space-utils";
+import { cn } from "~/lib/utils";
+
+interface DocumentCommentsSheetProps {
+  threads: CommentThread[];
+  isLoading: boolean;
+  error: string | null;
+  addComment: (
+    comment: NewDocumentComment
+  ) => Promise<{ comment: DocumentComment | null; error?: string }>;
+  setResolved: (
+    threadId: string,
+    resolved: boolean
+  ) => Promise<{ comment: DocumentComment | null; error?: string }>;
+}
+
+function formatCommentTime(createdAt: string) {
+  return new Date(createdAt).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+// Threads whose block was deleted, or whose quote was edited away
+function isDetached(editor: PlateEditor, thread: CommentThread) {
+  const entry = thread.comment.block_id
+    ? findCommentBlock(editor, thread.comment.block_id)
+    : null;
+  if (!entry) return true;
+
+  return !findCommentRange(editor, entry[0], [...entry[1]], {
+    quote: thread.comment.quote,
+    quoteOffset: thread.comment.quote_offset,
+  });
+}
+
+function CommentQuote({ quote }: { quote: string | null }) {
+  return (
+    <p className="line-clamp-3 border-l-2 border-amber-400 pl-2 text-xs text-muted-foreground">
+      {quote || "Comment on the whole block"}
+    </p>
+  );
+}
+
+interface CommentComposerProps {
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+function CommentComposer({
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  autoFocus,
+}: CommentComposerProps) {
+  const [content, setContent] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!content.trim() || isPosting) return;
+
+    setIsPosting(true);
+    const posted = await onSubmit(content.trim());
+    setIsPosting(false);
+    if (posted) setContent("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        placeholder={placeholder}
+        maxLength={COMMENT_MAX_LENGTH}
+        autoFocus={autoFocus}
+        rows={2}
+        className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 w-full resize-none rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={!content.trim() || isPosting}
+        >
+          {isPosting ? "Posting..." : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function CommentEntry({ comment }: { comment: DocumentComment }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">
+          {comment.author_name}
+        </span>{" "}
+        · {formatCommentTime(comment.created_at)}
+      </p>
+      <p className="whitespace-pre-wrap break-words text-sm">
+        {comment.content}
+      </p>
+    </div>
+  );
+}
+
+// Side panel listing the page's comment threads, open and resolved. Threads
+// are started from the editor's Comment button (on the selected text, or the
+// block at the cursor) and clicking a highlight opens its thread here. The
+// panel doesn't block the page, so the document stays usable next to it.
+export function DocumentCommentsSheet({
+  threads,
+  isLoading,
+  error,
+  addComment,
+  setResolved,
+}: DocumentCommentsSheetProps) {
+  const editor = useEditorRef();
+  const { participant, canComment } = useSpace();
+  const isOpen = usePluginOption(DocumentCommentsPlugin, "panelOpen");
+  const activeThreadId = usePluginOption(DocumentCommentsPlugin, "activeThreadId");
+  const draft = usePluginOption(DocumentCommentsPlugin, "draft");
+  const [showResolved, setShowResolved] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Recomputed as the document changes, so threads show as detached (and
+  // attached again) as their text is edited
+  const detachedIds = useEditorSelector(
+    (editor) =>
+      threads
+        .filter((thread) => isDetached(editor, thread))
+        .map((thread) => thread.id)
+        .join(","),
+    [threads]
+  );
+
+  const openThreads = threads.filter((thread) => !thread.resolved);
+  const resolvedThreads = threads.filter((thread) => thread.resolved);
+  const shown = showResolved ? resolvedThreads : openThreads;
+
+  const setOpen = (open: boolean) => {
+    editor.setOptions(DocumentCommentsPlugin, {
+      panelOpen: open,
+      ...(!open && { activeThreadId: null, draft: null }),
+    });
+  };
+
+  const handleSelectThread = (thread: CommentThread) => {
+    if (thread.id === activeThreadId) return;
+    editor.setOption(DocumentCommentsPlugin, "activeThreadId", thread.id);
+
+    const entry = thread.comment.block_id
+      ? findCommentBlock(editor, thread.comment.block_id)
+      : null;
+    if (entry) {
+      editor.api
+        .toDOMNode(entry[0])
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  };
+
+  const post = async (comment: NewDocumentComment) => {
+    if (!participant) {
+      setActionError("Join the space with a name before commenting");
+      return false;
+    }
+
+    setActionError(null);
+    const result = await addComment(comment);
+    if (!result.comment) {
+      setActionError(result.error || "Failed to post comment");
+      return false;
+    }
+    return true;
+  };
+
+  const handleStartThread = async (anchor: CommentAnchor, content: string) => {
+    const posted = await post({ ...anchor, content });
+    if (posted) {
+      editor.setOption(DocumentCommentsPlugin, "draft", null);
+      setShowResolved(false);
+    }
+    return posted;
+  };
+
+  const handleSetResolved = async (thread: CommentThread) => {
+    setActionError(null);
+    const result = await setResolved(thread.id, !thread.resolved);
+    if (!result.comment) {
+      setActionError(result.error || "Failed to update thread");
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setOpen} modal={false}>
+      <SheetContent
+        className="w-full sm:max-w-sm"
+        // Stay open while the document is selected and edited next to it
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <SheetHeader>
+          <SheetTitle>Comments</SheetTitle>
+          <SheetDescription>
+            Select text or place the cursor in a block, then use the Comment
+            button to start a thread.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4">
+          {(error || actionError) && (
+            <p className="mb-2 text-sm text-red-600">{actionError || error}</p>
+          )}
+
+          {draft && canComment && (
+            <div className="mb-4 space-y-2 rounded-md border p-3">
+              <CommentQuote quote={draft.quote} />
+              <CommentComposer
+                placeholder="Add a comment..."
+                submitLabel="Comment"
+                autoFocus
+                onSubmit={(content) => handleStartThread(draft, content)}
+                onCancel={() =>
+                  editor.setOption(DocumentCommentsPlugin, "draft", null)
+                }
+              />
+            </div>
+          )}
+
+          <div className="mb-3 flex gap-1">
+            <Button
+              variant={showResolved ? "ghost" : "secondary"}
+              size="sm"
+              onClick={() => setShowResolved(false)}
+            >
+              Open ({openThreads.length})
+            </Button>
+            <Button
+              variant={showResolved ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setShowResolved(true)}
+            >
+              Resolved ({resolvedThreads.length})
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading comments...</p>
+          ) : shown.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {showResolved ? "No resolved threads." : "No open threads."}
+            </p>
+          ) : (
+            <div className="flex flex-col gap-3">
+              {shown.map((thread) => (
+                <div
+                  key={thread.id}
+                  className={cn(
+                    "space-y-3 rounded-md border p-3",
+                    thread.id === activeThreadId && "border-amber-400"
+                  )}
+                  onClick={() => handleSelectThread(thread)}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <CommentQuote quote={thread.comment.quote} />
+                    {canComment && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="shrink-0"
+                        title={thread.resolved ? "Reopen" : "Resolve"}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleSetResolved(thread);
+                        }}
+                      >
+                        {thread.resolved ? (
+                          <RotateCcw className="h-4 w-4" />
+                        ) : (
+                          <CheckCircle2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                  {detachedIds.split(",").includes(thread.id) && (
+                    <p className="text-xs text-muted-foreground">
+                      The commented text has been changed or removed.
+                    </p>
+                  )}
+
+                  <CommentEntry comment={thread.comment} />
+                  {thread.replies.map((reply) => (
+                    <CommentEntry key={reply.id} comment={reply} />
+                  ))}
+
+                  {canComment && !thread.resolved && thread.id === activeThreadId && (
+                    <CommentComposer
+                      placeholder="Reply..."
+                      submitLabel="Reply"
+                      onSubmit={(content) =>
+                        post({ threadId: thread.id, content })
+                      }
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { Value } from "platejs";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "./sheet";
+import { Button } from "./button";
+import { ArrowLeft, RotateCcw } from "lucide-react";
+import { useSpace } from "~/contexts/space-context";
+import {
+  loadDocumentVersion,
+  loadDocumentVersions,
+  saveVersionBeforeRestore,
+} from "~/lib/space-utils";
+import type { DocumentVersion } from "~/lib/space-utils";
+import {
+  DOCUMENT_VERSION_REASON_LABELS,
+  diffDocumentValues,
+} from "~/lib/document-versions";
+import type {
+  DocumentDiffEntry,
+  DocumentVersionReason,
+} from "~/lib/document-versions";
+import { cn } from "~/lib/utils";
+
+interface DocumentHistorySheetProps {
+  pageId: string;
+  children: React.ReactNode;
+  // What the editor shows right now, to diff against and to keep before restoring
+  getCurrentValue: () => Value;
+  onRestore: (value: Value) => void;
+}
+
+// Runs of unchanged blocks longer than this are folded in the preview
+const UNCHANGED_CONTEXT = 2;
+
+function formatVersionTime(createdAt: string) {
+  return new Date(createdAt).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function DiffPreview({ entries }: { entries: DocumentDiffEntry[] }) {
+  const changes = entries.filter((entry) => entry.kind !== "same").length;
+
+  if (changes === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This version is the same as the current document.
+      </p>
+    );
+  }
+
+  const rows: React.ReactNode[] = [];
+  let unchanged: string[] = [];
+
+  const flushUnchanged = () => {
+    const shown =
+      unchanged.length > UNCHANGED_CONTEXT * 2
+        ? [
+            ...unchanged.slice(0, UNCHANGED_CONTEXT),
+            null,
+            ...unchanged.slice(-UNCHANGED_CONTEXT),
+          ]
+        : unchanged;
+
+    shown.forEach((text, index) => {
+      rows.push(
+        text === null ? (
+          <p key={`fold-${rows.length}`} className="text-xs text-muted-foreground">
+            ... {unchanged.length - UNCHANGED_CONTEXT * 2} unchanged blocks
+          </p>
+        ) : (
+          <p key={`same-${rows.length}-${index}`} className="text-muted-foreground">
+            {text || "\u00a0"}
+          </p>
+        )
+      );
+    });
+    unchanged = [];
+  };
+
+  entries.forEach((entry) => {
+    if (entry.kind === "same") {
+      unchanged.push(entry.text);
+      return;
+    }
+
+    flushUnchanged();
+    if (entry.kind === "changed") {
+      rows.push(
+        <div key={`changed-${rows.length}`}>
+          <p className="bg-red-500/10 text-red-700 line-through dark:text-red-400">
+            {entry.before || "\u00a0"}
+          </p>
+          <p className="bg-green-500/10 text-green-700 dark:text-green-400">
+            {entry.after || "\u00a0"}
+          </p>
+        </div>
+      );
+    } else {
+      rows.push(
+        <p
+          key={`${entry.kind}-${rows.length}`}
+          className={cn(
+            entry.kind === "added"
+              ? "bg-green-500/10 text-green-700 dark:text-green-400"
+              : "bg-red-500/10 text-red-700 line-through dark:text-red-400"
+          )}
+        >
+          {entry.text || "\u00a0"}
+        </p>
+      );
+    }
+  });
+  flushUnchanged();
+
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="text-xs text-muted-foreground">
+        Restoring changes {changes} block{changes !== 1 ? "s" : ""}: removed
+        text is struck through, restored text is green.
+      </p>
+      {rows}
+    </div>
+  );
+}
+
+export function DocumentHistorySheet({
+  pageId,
+  children,
+  getCurrentValue,
+  onRestore,
+}: DocumentHistorySheetProps) {
+  const { participant } = useSpace();
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<DocumentVersion | null>(null);
+  const [selectedContent, setSelectedContent] = useState<Value | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Load the list when the panel opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    setSelected(null);
+    setSelectedContent(null);
+    loadDocumentVersions(pageId).then((result) => {
+      setVersions(result.versions);
+      setError(result.error ?? null);
+      setIsLoading(false);
+    });
+  }, [pageId, isOpen]);
+
+  const handleSelect = async (version: DocumentVersion) => {
+    setSelected(version);
+    setSelectedContent(null);
+    setError(null);
+
+    const result = await loadDocumentVersion(pageId, version.id);
+    if (result.error || !result.content) {
+      setError(result.error || "Failed to load version");
+      return;
+    }
+    setSelectedContent(result.content as Value);
+  };
+
+  const diff = useMemo(
+    () =>
+      selectedContent
+        ? diffDocumentValues(getCurrentValue(), selectedContent)
+        : null,
+    [selectedContent]
+  );
+
+  const handleRestore = async () => {
+    if (!selected || !selectedContent) return;
+    if (
+      !confirm(
+        `Restore the version from ${formatVersionTime(selected.created_at)}? The current content is kept in the history.`
+      )
+    ) {
+      return;
+    }
+
+    setIsRestoring(true);
+    const saved = await saveVersionBeforeRestore(
+      pageId,
+      getCurrentValue(),
+      participant?.id
+    );
+    setIsRestoring(false);
+
+    if (!saved.success) {
+      setError(saved.error || "Failed to keep the current content");
+      return;
+    }
+
+    onRestore(selectedContent);
+    setIsOpen(false);
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>{children}</SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Version history</SheetTitle>
+          <SheetDescription>
+            Snapshots are taken every few minutes while editing and before
+            large changes.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4">
+          {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+          {selected ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setSelected(null);
+                    setSelectedContent(null);
+                  }}
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  All versions
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleRestore}
+                  disabled={!selectedContent || isRestoring}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  {isRestoring ? "Restoring..." : "Restore"}
+                </Button>
+              </div>
+              <p className="text-sm font-medium">
+                {formatVersionTime(selected.created_at)}
+              </p>
+              {diff ? (
+                <DiffPreview entries={diff} />
+              ) : (
+                !error && (
+                  <p className="text-sm text-muted-foreground">
+                    Loading version...
+                  </p>
+                )
+              )}
+            </div>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading history...</p>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No versions yet. The first one is saved after a few edits.
+            </p>
+          ) : (
+            <div className="flex flex-col gap-1">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  className="rounded-md px-2 py-2 text-left hover:bg-accent"
+                  onClick={() => handleSelect(version)}
+                >
+                  <p className="text-sm font-medium">
+                    {formatVersionTime(version.created_at)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {version.participant_name || "Unknown participant"} ·{" "}
+                    {DOCUMENT_VERSION_REASON_LABELS[
+                      version.reason as DocumentVersionReason
+                    ] ?? version.reason}{" "}
+                    · {version.char_count} characters
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
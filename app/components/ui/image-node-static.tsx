@@ -0,0 +1,54 @@
+import * as React from 'react';
+
+import type {
+  SlateElementProps,
+  TCaptionElement,
+  TImageElement,
+  TResizableProps,
+} from 'platejs';
+
+import { NodeApi, SlateElement } from 'platejs';
+
+import { cn } from '~/lib/utils';
+
+const alignClassName = {
+  center: 'mx-auto',
+  left: 'mr-auto',
+  right: 'ml-auto',
+} as const;
+
+export function ImageElementStatic(
+  props: SlateElementProps<TImageElement & TCaptionElement & TResizableProps>
+) {
+  const { align = 'center', caption, name, url, width } = props.element;
+  const captionText = caption?.length ? NodeApi.string(caption[0]) : '';
+
+  return (
+    <SlateElement {...props} className="py-2.5">
+      <figure className="group relative m-0 inline-block w-full">
+        <div
+          className={cn('relative max-w-full min-w-[92px]', alignClassName[align])}
+          style={{ width }}
+        >
+          <img
+            className="w-full max-w-full cursor-default rounded-sm object-cover px-0"
+            alt={name ?? ''}
+            src={url}
+          />
+        </div>
+        {captionText && (
+          <figcaption
+            className={cn(
+              'mt-2 max-w-full text-center text-sm text-muted-foreground',
+              alignClassName[align]
+            )}
+            style={{ width }}
+          >
+            {captionText}
+          </figcaption>
+        )}
+      </figure>
+      {props.children}
+    </SlateElement>
+  );
+}
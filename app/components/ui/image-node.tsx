@@ -0,0 +1,84 @@
+'use client';
+
+import * as React from 'react';
+
+import type { TCaptionElement, TImageElement } from 'platejs';
+import type { PlateElementProps } from 'platejs/react';
+
+import { Caption, CaptionTextarea, showCaption } from '@platejs/caption/react';
+import { Image, useMediaState } from '@platejs/media/react';
+import {
+  Resizable,
+  ResizableProvider,
+  useResizableValue,
+} from '@platejs/resizable';
+import { NodeApi } from 'platejs';
+import { PlateElement, withHOC } from 'platejs/react';
+
+import { cn } from '~/lib/utils';
+
+import { Button } from './button';
+import { ResizeHandle } from './resize-handle';
+
+const mediaAlignClassName = {
+  center: 'mx-auto',
+  left: 'mr-auto',
+  right: 'ml-auto',
+} as const;
+
+export const ImageElement = withHOC(
+  ResizableProvider,
+  function ImageElement(
+    props: PlateElementProps<TImageElement & TCaptionElement>
+  ) {
+    const { editor, element } = props;
+    const { align = 'center', focused, readOnly, selected } = useMediaState();
+    const width = useResizableValue('width');
+    const hasCaption =
+      !!element.caption?.length && NodeApi.string(element.caption[0]) !== '';
+
+    return (
+      <PlateElement {...props} className="py-2.5">
+        <figure className="group relative m-0" contentEditable={false}>
+          <Resizable
+            className={mediaAlignClassName[align]}
+            options={{ align, readOnly, minWidth: 92, maxWidth: '100%' }}
+          >
+            <ResizeHandle options={{ direction: 'left' }} />
+            <Image
+              className={cn(
+                'block w-full max-w-full cursor-pointer rounded-sm object-cover px-0',
+                focused && selected && 'ring-2 ring-ring ring-offset-2'
+              )}
+              alt={element.name}
+            />
+            <ResizeHandle options={{ direction: 'right' }} />
+
+            {!readOnly && selected && !hasCaption && (
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                className="absolute top-2 right-2 h-7 px-2 text-xs opacity-90"
+                onClick={() => showCaption(editor, element)}
+              >
+                Add caption
+              </Button>
+            )}
+          </Resizable>
+
+          <Caption style={{ width }} className={cn('mt-2', mediaAlignClassName[align])}>
+            <CaptionTextarea
+              readOnly={readOnly}
+              placeholder="Write a caption..."
+              className="w-full resize-none border-none bg-inherit p-0 text-center text-sm text-muted-foreground focus:outline-none"
+              onFocus={(e) => e.preventDefault()}
+            />
+          </Caption>
+        </figure>
+
+        {props.children}
+      </PlateElement>
+    );
+  }
+);
@@ -0,0 +1,32 @@
+'use client';
+
+import * as React from 'react';
+
+import { KEYS } from 'platejs';
+import { useEditorRef } from 'platejs/react';
+
+import { ToolbarButton } from './toolbar';
+
+// Opens the slash menu at the cursor, for touch keyboards where typing "/"
+// is awkward
+export function InsertBlockToolbarButton(
+  props: React.ComponentProps<typeof ToolbarButton>
+) {
+  const editor = useEditorRef();
+
+  return (
+    <ToolbarButton
+      {...props}
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={() => {
+        if (!editor.selection) {
+          editor.tf.select(editor.api.end([]));
+        }
+        editor.tf.insertNodes(
+          { type: KEYS.slashInput, children: [{ text: '' }] },
+          { select: true }
+        );
+      }}
+    />
+  );
+}
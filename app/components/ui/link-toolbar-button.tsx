@@ -0,0 +1,110 @@
+'use client';
+
+import * as React from 'react';
+
+import type { TLinkElement } from 'platejs';
+
+import { unwrapLink, upsertLink } from '@platejs/link';
+import { KEYS } from 'platejs';
+import { useEditorRef } from 'platejs/react';
+
+import { Button } from './button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './dialog';
+import { Input } from './input';
+import { ToolbarButton } from './toolbar';
+
+// Adds a link to the selected text, or edits the link at the cursor. The
+// editor keeps its selection while the dialog has focus, so the link lands
+// where the user left off.
+export function LinkToolbarButton(
+  props: React.ComponentProps<typeof ToolbarButton>
+) {
+  const editor = useEditorRef();
+  const [open, setOpen] = React.useState(false);
+  const [url, setUrl] = React.useState('');
+  const [text, setText] = React.useState('');
+  const [isEditing, setIsEditing] = React.useState(false);
+
+  const handleOpen = () => {
+    const link = editor.api.above<TLinkElement>({
+      match: { type: editor.getType(KEYS.link) },
+    });
+
+    setIsEditing(!!link);
+    setUrl(link?.[0].url ?? '');
+    setText(
+      editor.selection && editor.api.isExpanded()
+        ? editor.api.string(editor.selection)
+        : ''
+    );
+    setOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const href = url.trim();
+    if (!href) return;
+
+    upsertLink(editor, {
+      url: /^[a-z][a-z0-9+.-]*:/i.test(href) ? href : `https://${href}`,
+      text: text.trim() || undefined,
+    });
+    setOpen(false);
+    editor.tf.focus();
+  };
+
+  const handleRemove = () => {
+    unwrapLink(editor);
+    setOpen(false);
+    editor.tf.focus();
+  };
+
+  return (
+    <>
+      <ToolbarButton {...props} onClick={handleOpen} />
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{isEditing ? 'Edit link' : 'Add link'}</DialogTitle>
+              <DialogDescription>
+                Links open in a new tab.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              autoFocus
+              placeholder="https://example.com"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            {!isEditing && (
+              <Input
+                placeholder="Text to show (optional)"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+              />
+            )}
+            <DialogFooter>
+              {isEditing && (
+                <Button type="button" variant="outline" onClick={handleRemove}>
+                  Remove link
+                </Button>
+              )}
+              <Button type="submit" disabled={!url.trim()}>
+                {isEditing ? 'Save' : 'Add link'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+import { Button } from "./button";
+import { FileUp } from "lucide-react";
+import {
+  MARKDOWN_FILE_ACCEPT,
+  MARKDOWN_IMPORT_LIMITS,
+} from "~/lib/document-import";
+
+interface MarkdownImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Receives the Markdown to add to the document
+  onImport: (markdown: string) => void;
+}
+
+export function MarkdownImportDialog({
+  open,
+  onOpenChange,
+  onImport,
+}: MarkdownImportDialogProps) {
+  const [markdown, setMarkdown] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setMarkdown("");
+      setError(null);
+    }
+    onOpenChange(next);
+  };
+
+  // Load a .md file into the text area so it can be checked before importing
+  const handleFileSelected = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (file.size > MARKDOWN_IMPORT_LIMITS.maxFileBytes) {
+      setError("That file is too large to import (1 MB max).");
+      return;
+    }
+
+    setError(null);
+    setMarkdown(await file.text());
+  };
+
+  const handleImport = () => {
+    if (!markdown.trim()) return;
+    onImport(markdown);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Markdown</DialogTitle>
+          <DialogDescription>
+            Paste Markdown or choose a .md file. Headings, lists, tables,
+            task lists and math keep their structure. The content is added to
+            the end of this document.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <textarea
+            value={markdown}
+            onChange={(e) => setMarkdown(e.target.value)}
+            placeholder={"# Meeting notes\n\n- [ ] Follow up"}
+            className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 h-64 w-full resize-none rounded-md border bg-transparent px-3 py-2 font-mono text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <input
+            ref={fileInput}
+            type="file"
+            accept={MARKDOWN_FILE_ACCEPT}
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <div className="flex justify-between gap-2">
+            <Button variant="outline" onClick={() => fileInput.current?.click()}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Choose file
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={!markdown.trim()}>
+                Import
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
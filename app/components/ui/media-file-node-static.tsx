@@ -0,0 +1,37 @@
+import * as React from 'react';
+
+import type { SlateElementProps, TFileElement } from 'platejs';
+
+import { SlateElement } from 'platejs';
+import { Paperclip } from 'lucide-react';
+
+import { formatFileSize } from '~/lib/document-files';
+
+export function FileElementStatic(
+  props: SlateElementProps<TFileElement & { size?: number }>
+) {
+  const { name, size, url } = props.element;
+
+  return (
+    <SlateElement className="my-px rounded-sm" {...props}>
+      <a
+        className="group relative m-0 flex cursor-pointer items-center gap-2 rounded px-2 py-1.5 hover:bg-muted"
+        contentEditable={false}
+        download={name}
+        href={url}
+        rel="noopener noreferrer"
+        role="button"
+        target="_blank"
+      >
+        <Paperclip className="size-4 shrink-0 text-muted-foreground" />
+        <span className="truncate">{name || 'Attachment'}</span>
+        {typeof size === 'number' && (
+          <span className="shrink-0 text-xs text-muted-foreground">
+            {formatFileSize(size)}
+          </span>
+        )}
+      </a>
+      {props.children}
+    </SlateElement>
+  );
+}
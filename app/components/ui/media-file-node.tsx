@@ -0,0 +1,46 @@
+'use client';
+
+import * as React from 'react';
+
+import type { TFileElement } from 'platejs';
+import type { PlateElementProps } from 'platejs/react';
+
+import { useMediaState } from '@platejs/media/react';
+import { PlateElement } from 'platejs/react';
+import { Paperclip } from 'lucide-react';
+
+import { formatFileSize } from '~/lib/document-files';
+import { cn } from '~/lib/utils';
+
+export function FileElement(
+  props: PlateElementProps<TFileElement & { size?: number }>
+) {
+  const { focused, name, selected, unsafeUrl } = useMediaState();
+  const { size } = props.element;
+
+  return (
+    <PlateElement className="my-px rounded-sm" {...props}>
+      <a
+        className={cn(
+          'group relative m-0 flex cursor-pointer items-center gap-2 rounded px-2 py-1.5 hover:bg-muted',
+          focused && selected && 'ring-2 ring-ring'
+        )}
+        contentEditable={false}
+        download={name}
+        href={unsafeUrl}
+        rel="noopener noreferrer"
+        role="button"
+        target="_blank"
+      >
+        <Paperclip className="size-4 shrink-0 text-muted-foreground" />
+        <span className="truncate">{name || 'Attachment'}</span>
+        {typeof size === 'number' && (
+          <span className="shrink-0 text-xs text-muted-foreground">
+            {formatFileSize(size)}
+          </span>
+        )}
+      </a>
+      {props.children}
+    </PlateElement>
+  );
+}
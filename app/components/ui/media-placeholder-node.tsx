@@ -0,0 +1,110 @@
+'use client';
+
+import * as React from 'react';
+
+import type { TPlaceholderElement } from 'platejs';
+import type { PlateElementProps } from 'platejs/react';
+
+import { PlaceholderPlugin } from '@platejs/media/react';
+import { KEYS } from 'platejs';
+import {
+  PlateElement,
+  useEditorPlugin,
+  usePluginOption,
+  useReadOnly,
+} from 'platejs/react';
+import { FileUp, ImageIcon, Loader2 } from 'lucide-react';
+
+import { DocumentPagePlugin } from '~/components/document-page-kit';
+import { uploadDocumentFile } from '~/lib/space-utils';
+import { cn } from '~/lib/utils';
+
+import { Button } from './button';
+
+// Stands in for an image or attachment while it uploads. Only the editor that
+// added the file has it, so that one uploads and swaps in the finished node;
+// everyone else sees the placeholder until then.
+export function PlaceholderElement(
+  props: PlateElementProps<TPlaceholderElement>
+) {
+  const { editor, element } = props;
+  const { api } = useEditorPlugin(PlaceholderPlugin);
+  const pageId = usePluginOption(DocumentPagePlugin, 'pageId');
+  const readOnly = useReadOnly();
+  const [error, setError] = React.useState<string | null>(null);
+  const started = React.useRef(false);
+
+  const file = api.placeholder.getUploadingFile(element.id as string) as
+    | File
+    | undefined;
+  const isImage = element.mediaType === KEYS.img;
+
+  React.useEffect(() => {
+    if (!file || !pageId || started.current) return;
+    started.current = true;
+
+    uploadDocumentFile(pageId, file).then((result) => {
+      api.placeholder.removeUploadingFile(element.id as string);
+
+      if (!result.file) {
+        setError(result.error || 'Upload failed');
+        return;
+      }
+
+      const path = editor.api.findPath(element);
+      if (!path) return;
+
+      editor.tf.withoutNormalizing(() => {
+        editor.tf.removeNodes({ at: path });
+        editor.tf.insertNodes(
+          {
+            type: element.mediaType,
+            url: result.file!.url,
+            name: result.file!.name,
+            ...(isImage ? {} : { size: result.file!.size }),
+            children: [{ text: '' }],
+          },
+          { at: path }
+        );
+      });
+    });
+  }, [file, pageId]);
+
+  const Icon = isImage ? ImageIcon : FileUp;
+  const label = error
+    ? `Couldn't upload ${file?.name ?? 'the file'}: ${error}`
+    : file
+      ? `Uploading ${file.name}...`
+      : 'Waiting for the upload to finish...';
+
+  return (
+    <PlateElement className="my-1" {...props}>
+      <div
+        className={cn(
+          'flex items-center gap-3 rounded-sm bg-muted px-3 py-3 text-sm text-muted-foreground select-none',
+          error && 'text-red-600'
+        )}
+        contentEditable={false}
+      >
+        {!error && file ? (
+          <Loader2 className="size-4 shrink-0 animate-spin" />
+        ) : (
+          <Icon className="size-4 shrink-0" />
+        )}
+        <span className="flex-1 truncate">{label}</span>
+        {!readOnly && (error || !file) && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => editor.tf.removeNodes({ at: element })}
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+      {props.children}
+    </PlateElement>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import * as React from 'react';
+
+import type { UploadError } from '@platejs/media/react';
+import type { PlateEditor } from 'platejs/react';
+
+import { PlaceholderPlugin, UploadErrorCode } from '@platejs/media/react';
+import { useEditorPlugin, useEditorRef, usePluginOption } from 'platejs/react';
+import { X } from 'lucide-react';
+
+import { ToolbarButton } from './toolbar';
+
+// Open the file picker and upload the chosen files into the document at the
+// cursor. Images become image blocks, anything else an attachment.
+export function pickDocumentFiles(editor: PlateEditor, accept?: string) {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.multiple = true;
+  if (accept) input.accept = accept;
+
+  input.onchange = () => {
+    if (input.files && input.files.length > 0) {
+      editor.getTransforms(PlaceholderPlugin).insert.media(input.files);
+      editor.tf.focus();
+    }
+  };
+  input.click();
+}
+
+export function MediaToolbarButton({
+  accept,
+  ...props
+}: React.ComponentProps<typeof ToolbarButton> & { accept?: string }) {
+  const editor = useEditorRef();
+
+  return (
+    <ToolbarButton
+      {...props}
+      onClick={() => pickDocumentFiles(editor, accept)}
+      onMouseDown={(e) => e.preventDefault()}
+    />
+  );
+}
+
+function describeUploadError(error: UploadError): string {
+  switch (error.code) {
+    case UploadErrorCode.TOO_LARGE:
+      return `${error.data.files.map((file) => file.name).join(', ')} is larger than ${error.data.maxFileSize}.`;
+    case UploadErrorCode.TOO_MANY_FILES:
+      return `You can upload up to ${error.data.maxFileCount} files at once.`;
+    case UploadErrorCode.INVALID_FILE_TYPE:
+      return "This type of file can't be added to a document.";
+    default:
+      return "These files couldn't be added.";
+  }
+}
+
+// Why the last paste, drop or pick was rejected before uploading
+export function MediaUploadErrorNotice() {
+  const { setOption } = useEditorPlugin(PlaceholderPlugin);
+  const error = usePluginOption(PlaceholderPlugin, 'error');
+
+  if (!error) return null;
+
+  return (
+    <div className="mx-auto mt-2 flex w-full max-w-2xl items-center gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+      <span className="flex-1">{describeUploadError(error)}</span>
+      <button
+        type="button"
+        className="rounded-sm p-0.5 hover:bg-red-100 dark:hover:bg-red-900"
+        aria-label="Dismiss"
+        onClick={() => setOption('error', null)}
+      >
+        <X className="size-4" />
+      </button>
+    </div>
+  );
+}
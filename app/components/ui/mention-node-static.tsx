@@ -0,0 +1,31 @@
+import * as React from 'react';
+
+import type { SlateElementProps, TMentionElement } from 'platejs';
+
+import { SlateElement } from 'platejs';
+
+import { getPageLinkHref } from '~/lib/document-page-links';
+
+export function MentionElementStatic(
+  props: SlateElementProps<TMentionElement>
+) {
+  const { element } = props;
+
+  return (
+    <SlateElement
+      {...props}
+      className="inline-block rounded-md bg-muted px-1.5 py-0 align-baseline text-sm font-medium"
+      attributes={{
+        ...props.attributes,
+        'data-slate-value': element.value,
+      }}
+    >
+      <React.Fragment>
+        {props.children}
+        <a href={getPageLinkHref(element.key as string)}>
+          {element.value || 'Untitled'}
+        </a>
+      </React.Fragment>
+    </SlateElement>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import * as React from 'react';
+
+import type { TComboboxInputElement, TMentionElement } from 'platejs';
+import type { PlateElementProps } from 'platejs/react';
+
+import { filterWords } from '@platejs/combobox';
+import { getMentionOnSelectItem } from '@platejs/mention';
+import { PlateElement, useFocused, usePluginOption, useSelected } from 'platejs/react';
+import { Link } from 'react-router';
+import { FileText } from 'lucide-react';
+
+import { DocumentPagePlugin } from '~/components/document-page-kit';
+import { useSpace } from '~/contexts/space-context';
+import { PAGE_TYPE_ICONS } from '~/lib/document-page-links';
+import { cn } from '~/lib/utils';
+
+import {
+  InlineCombobox,
+  InlineComboboxContent,
+  InlineComboboxEmpty,
+  InlineComboboxGroup,
+  InlineComboboxInput,
+  InlineComboboxItem,
+} from './inline-combobox';
+
+// A link to another page of the space. Shows the page's current title, so
+// renames show up right away; a deleted page is shown struck through with the
+// title it had when it was mentioned.
+export function MentionElement(props: PlateElementProps<TMentionElement>) {
+  const { element } = props;
+  const { space, pages } = useSpace();
+  const selected = useSelected();
+  const focused = useFocused();
+
+  const page = pages.find((page) => page.id === element.key);
+  const Icon = PAGE_TYPE_ICONS[page?.type ?? 'document'] ?? FileText;
+
+  return (
+    <PlateElement
+      {...props}
+      className={cn(
+        'inline-block rounded-md px-1.5 py-0 align-baseline text-sm font-medium',
+        page ? 'bg-muted' : 'bg-red-500/10 text-red-700 dark:text-red-400',
+        selected && focused && 'ring-2 ring-ring'
+      )}
+      attributes={{
+        ...props.attributes,
+        contentEditable: false,
+        'data-slate-value': element.value,
+        draggable: true,
+      }}
+    >
+      <React.Fragment>
+        {props.children}
+        {page && space ? (
+          <Link
+            to={`/space/${space.id}/page/${page.id}`}
+            className="inline-flex items-center gap-1 hover:underline"
+            draggable={false}
+          >
+            <Icon className="size-3.5 shrink-0 text-muted-foreground" />
+            {page.title || 'Untitled'}
+          </Link>
+        ) : (
+          <span className="line-through" title="This page was deleted">
+            {element.value || 'Untitled'}
+          </span>
+        )}
+      </React.Fragment>
+    </PlateElement>
+  );
+}
+
+const onSelectItem = getMentionOnSelectItem();
+
+// Items are keyed by page id; only match the title and page type
+const filterPages = (
+  { keywords = [], label }: { keywords?: string[]; label?: string },
+  search: string
+) => [label, ...keywords].some((term) => !!term && filterWords(term, search));
+
+// The page picker typed after "@" or "[["
+export function MentionInputElement(
+  props: PlateElementProps<TComboboxInputElement>
+) {
+  const { editor, element } = props;
+  const { pages } = useSpace();
+  const pageId = usePluginOption(DocumentPagePlugin, 'pageId');
+  const [search, setSearch] = React.useState('');
+
+  return (
+    <PlateElement {...props} as="span">
+      <InlineCombobox
+        value={search}
+        element={element}
+        filter={filterPages}
+        setValue={setSearch}
+        showTrigger
+        trigger={(element.trigger as string | undefined) ?? '@'}
+      >
+        <span className="inline-block rounded-md bg-muted px-1.5 py-0 align-baseline text-sm">
+          <InlineComboboxInput />
+        </span>
+
+        <InlineComboboxContent className="my-1.5">
+          <InlineComboboxEmpty>No pages found</InlineComboboxEmpty>
+
+          <InlineComboboxGroup>
+            {pages
+              .filter((page) => page.id !== pageId)
+              .map((page) => {
+                const Icon = PAGE_TYPE_ICONS[page.type] ?? FileText;
+
+                return (
+                  <InlineComboboxItem
+                    key={page.id}
+                    value={page.id}
+                    label={page.title}
+                    keywords={[page.type]}
+                    onClick={() =>
+                      onSelectItem(
+                        editor,
+                        { key: page.id, text: page.title },
+                        search
+                      )
+                    }
+                  >
+                    <Icon />
+                    <span className="truncate">{page.title || 'Untitled'}</span>
+                  </InlineComboboxItem>
+                );
+              })}
+          </InlineComboboxGroup>
+        </InlineComboboxContent>
+      </InlineCombobox>
+
+      {props.children}
+    </PlateElement>
+  );
+}
@@ -8,16 +8,24 @@ interface MoodboardItemProps {
   item: MoodboardItemType;
   isSelected: boolean;
   onSelect: () => void;
+  onInteractionStart: () => void;
   onUpdate: (updates: Partial<MoodboardItemType>) => void;
   onDelete: () => void;
+  // Other participants who have this item selected
+  remoteSelections?: { name: string; color: string }[];
+  // Locks the item in place and disables editing
+  readOnly?: boolean;
 }
 
 export function MoodboardItem({
   item,
   isSelected,
   onSelect,
+  onInteractionStart,
   onUpdate,
   onDelete,
+  remoteSelections = [],
+  readOnly = false,
 }: MoodboardItemProps) {
   const [isHovered, setIsHovered] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -41,14 +49,14 @@ export function MoodboardItem({
       );
 
       // Update item height if it changed significantly (avoid micro-adjustments)
-      if (Math.abs(newHeight - item.height) > 5) {
+      if (!readOnly && Math.abs(newHeight - item.height) > 5) {
         onUpdate({ height: newHeight });
       }
 
       // Set the textarea height immediately for smooth user experience
       textarea.style.height = `${newHeight - padding}px`;
     }
-  }, [item.type, item.height, onUpdate]);
+  }, [item.type, item.height, onUpdate, readOnly]);
 
   // Update height when content changes
   useEffect(() => {
@@ -69,6 +77,8 @@ export function MoodboardItem({
     <Rnd
       size={{ width: item.width, height: item.height }}
       position={{ x: item.x, y: item.y }}
+      onDragStart={onInteractionStart}
+      onResizeStart={onInteractionStart}
       onDragStop={(_e, d) => {
         onUpdate({ x: d.x, y: d.y });
       }}
@@ -111,9 +121,11 @@ export function MoodboardItem({
       }}
       className={cn("group relative", isSelected && "z-10")}
       dragHandleClassName="drag-handle"
-      disableDragging={false}
+      disableDragging={readOnly}
       enableResizing={
-        item.type === "text"
+        readOnly
+          ? false
+          : item.type === "text"
           ? {
               // For text items, only allow horizontal resizing since height is auto
               top: false,
@@ -157,6 +169,21 @@ export function MoodboardItem({
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
+      {/* Outline for items selected by other participants */}
+      {remoteSelections.length > 0 && (
+        <div
+          className="pointer-events-none absolute -inset-1 rounded-lg border-2"
+          style={{ borderColor: remoteSelections[0].color }}
+        >
+          <span
+            className="absolute -top-5 left-0 whitespace-nowrap rounded px-1 text-[10px] font-medium text-white"
+            style={{ backgroundColor: remoteSelections[0].color }}
+          >
+            {remoteSelections.map((selection) => selection.name).join(", ")}
+          </span>
+        </div>
+      )}
+
       {/* Main content container */}
       <div
         className={cn(
@@ -182,6 +209,7 @@ export function MoodboardItem({
                 : "border-2 border-gray-200 dark:border-gray-700"
             )}
             value={item.content || ""}
+            readOnly={readOnly}
             onChange={(e) => {
               onUpdate({ content: e.target.value });
               // Trigger height update on next tick
@@ -214,7 +242,7 @@ export function MoodboardItem({
       </div>
 
       {/* Hover controls */}
-      {(isHovered || isSelected) && (
+      {!readOnly && (isHovered || isSelected) && (
         <>
           <div className="flex flex-row absolute -top-8 left-0 gap-1 bg-muted-foreground/50 rounded-lg p-1">
             {/* Handle in top center (left of center) */}
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router";
+import { useSpace } from "~/contexts/space-context";
+import {
+  checkSpaceRequirements,
+  checkSpaceSession,
+  joinSpaceSecure,
+  movePageToSpace,
+} from "~/lib/space-utils";
+import { roleAllows } from "~/lib/space-roles";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+import { Button } from "./button";
+import { Input } from "./input";
+
+interface MovePageDialogProps {
+  // The page to move; the dialog is open while it's set
+  page: { id: string; title: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// "Move to space…": moves a page and its subpages to another space by ID.
+// A password-protected target asks for its password first, which unlocks
+// it in this browser the same way as joining it; the server checks edit
+// access to the target again before moving.
+export function MovePageDialog({ page, onOpenChange }: MovePageDialogProps) {
+  const { space, loadPages } = useSpace();
+  const navigate = useNavigate();
+  const { pageId: activePageId } = useParams();
+  const [spaceId, setSpaceId] = useState("");
+  const [password, setPassword] = useState("");
+  const [target, setTarget] = useState<{ title?: string } | null>(null);
+  const [error, setError] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setSpaceId("");
+    setPassword("");
+    setTarget(null);
+    setError("");
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) reset();
+    onOpenChange(open);
+  };
+
+  const move = async (targetSpaceId: string) => {
+    if (!page) return;
+
+    const result = await movePageToSpace(page.id, targetSpaceId);
+    if (!result.success) {
+      setError(result.error || "Failed to move the page. Please try again.");
+      return;
+    }
+
+    await loadPages();
+    handleOpenChange(false);
+
+    // Follow the open page to its new space
+    if (activePageId && result.movedPageIds.includes(activePageId)) {
+      navigate(`/space/${targetSpaceId}/page/${activePageId}`);
+    }
+  };
+
+  const handleCheckSpace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const targetSpaceId = spaceId.trim();
+    if (!targetSpaceId) {
+      setError("Please enter a space ID");
+      return;
+    }
+
+    if (targetSpaceId === space?.id) {
+      setError("The page is already in this space");
+      return;
+    }
+
+    setIsWorking(true);
+
+    try {
+      const result = await checkSpaceRequirements(targetSpaceId);
+      if (!result.exists) {
+        setError(result.error || "Space not found. Please check the space ID.");
+        return;
+      }
+
+      const session = await checkSpaceSession(targetSpaceId);
+      const isUnlocked = session.isAuthenticated || !result.requiresPassword;
+
+      if (!isUnlocked) {
+        setTarget({ title: result.title });
+        return;
+      }
+
+      // Unlocked, but maybe only through a view or comment share link
+      if (session.role && !roleAllows(session.role, "editor")) {
+        setError("You can't add pages to that space.");
+        return;
+      }
+
+      await move(targetSpaceId);
+    } catch (err) {
+      setError("Failed to check space. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMoveWithPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!password.trim()) {
+      setError("Please enter the password for this space");
+      return;
+    }
+
+    setIsWorking(true);
+
+    try {
+      const result = await joinSpaceSecure(spaceId.trim(), password.trim());
+      if (!result.success) {
+        setError(
+          result.rateLimited
+            ? result.error || "Too many attempts. Please try again later."
+            : "Incorrect password. Please try again."
+        );
+        return;
+      }
+
+      await move(spaceId.trim());
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={page !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md max-w-[calc(100vw-1rem)] mx-2">
+        <DialogHeader>
+          <DialogTitle>Move "{page?.title}" to another space</DialogTitle>
+          <DialogDescription>
+            {!target
+              ? "Enter the ID of the space to move this page and its subpages to."
+              : `Enter the password for ${
+                  target.title ? `"${target.title}"` : "that space"
+                } to move the page there.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!target ? (
+          <form onSubmit={handleCheckSpace}>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="move-space-id" className="text-sm font-medium">
+                  Space ID
+                </label>
+                <Input
+                  id="move-space-id"
+                  type="text"
+                  placeholder="Enter space ID..."
+                  value={spaceId}
+                  onChange={(e) => setSpaceId(e.target.value)}
+                  className={error ? "border-red-500 min-h-11" : "min-h-11"}
+                  disabled={isWorking}
+                  autoFocus
+                />
+              </div>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+            <DialogFooter className="mt-6 gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={isWorking}
+                className="min-h-11"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isWorking} className="min-h-11">
+                {isWorking ? "Moving..." : "Move Page"}
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <form onSubmit={handleMoveWithPassword}>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="move-password" className="text-sm font-medium">
+                  Password <span className="text-red-500">*</span>
+                </label>
+                <Input
+                  id="move-password"
+                  type="password"
+                  placeholder="Enter space password..."
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className={error ? "border-red-500 min-h-11" : "min-h-11"}
+                  disabled={isWorking}
+                  autoFocus
+                />
+              </div>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+            <DialogFooter className="mt-6 gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setTarget(null);
+                  setPassword("");
+                  setError("");
+                }}
+                disabled={isWorking}
+                className="min-h-11"
+              >
+                Back
+              </Button>
+              <Button type="submit" disabled={isWorking} className="min-h-11">
+                {isWorking ? "Moving..." : "Move Page"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
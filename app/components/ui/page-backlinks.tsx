@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router";
+import { FileText } from "lucide-react";
+import { useSpace } from "~/contexts/space-context";
+import { PAGE_TYPE_ICONS } from "~/lib/document-page-links";
+import { loadPageBacklinks } from "~/lib/space-utils";
+import type { PageBacklink } from "~/lib/space-utils";
+import { cn } from "~/lib/utils";
+
+interface PageBacklinksProps {
+  pageId: string;
+  className?: string;
+}
+
+// "Linked from": the pages of the space that mention or embed this one, as
+// of their last save. Titles follow renames; deleted pages drop out.
+export function PageBacklinks({ pageId, className }: PageBacklinksProps) {
+  const { space, pages } = useSpace();
+  const [backlinks, setBacklinks] = useState<PageBacklink[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadPageBacklinks(pageId).then((result) => {
+      if (!cancelled) setBacklinks(result.backlinks);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pageId]);
+
+  const linkedFrom = backlinks
+    .map((backlink) => pages.find((page) => page.id === backlink.id))
+    .filter((page) => page !== undefined);
+
+  if (!space || linkedFrom.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-1.5 pt-2 text-sm text-muted-foreground",
+        className
+      )}
+    >
+      <span>Linked from</span>
+      {linkedFrom.map((page) => {
+        const Icon = PAGE_TYPE_ICONS[page.type] ?? FileText;
+
+        return (
+          <Link
+            key={page.id}
+            to={`/space/${space.id}/page/${page.id}`}
+            className="inline-flex items-center gap-1 rounded-md bg-muted px-1.5 py-0.5 font-medium text-foreground hover:bg-accent"
+          >
+            <Icon className="h-3.5 w-3.5" />
+            {page.title || "Untitled"}
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
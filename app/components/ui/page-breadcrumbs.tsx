@@ -0,0 +1,66 @@
+import { Fragment } from "react";
+import { Link } from "react-router";
+import { ChevronRight, FileText } from "lucide-react";
+import { useSpace } from "~/contexts/space-context";
+import { PAGE_TYPE_ICONS } from "~/lib/document-page-links";
+import { getPageAncestors } from "~/lib/page-tree";
+import { cn } from "~/lib/utils";
+
+interface PageBreadcrumbsProps {
+  pageId: string;
+  className?: string;
+}
+
+// The space title is left out on small screens (it's in the mobile header),
+// and with it the separator after it
+function Separator({ first }: { first: boolean }) {
+  return (
+    <ChevronRight
+      className={cn("h-3.5 w-3.5 shrink-0", first && "hidden sm:block")}
+    />
+  );
+}
+
+// Space / parent pages / this page, shown above every page
+export function PageBreadcrumbs({ pageId, className }: PageBreadcrumbsProps) {
+  const { space, pages } = useSpace();
+  const page = pages.find((p) => p.id === pageId);
+
+  if (!space || !page) return null;
+
+  const ancestors = getPageAncestors(pages, pageId);
+  const Icon = PAGE_TYPE_ICONS[page.type] ?? FileText;
+
+  return (
+    <nav
+      aria-label="Breadcrumb"
+      className={cn(
+        "flex min-w-0 items-center gap-1 px-4 py-2 text-sm text-muted-foreground",
+        className
+      )}
+    >
+      <span className="hidden shrink-0 truncate sm:inline">
+        {space.title || "Untitled Space"}
+      </span>
+      {ancestors.map((ancestor, index) => (
+        <Fragment key={ancestor.id}>
+          <Separator first={index === 0} />
+          <Link
+            to={`/space/${space.id}/page/${ancestor.id}`}
+            className="truncate rounded-md px-1 hover:bg-accent hover:text-foreground"
+          >
+            {ancestor.title || "Untitled"}
+          </Link>
+        </Fragment>
+      ))}
+      <Separator first={ancestors.length === 0} />
+      <span
+        aria-current="page"
+        className="flex min-w-0 items-center gap-1 px-1 font-medium text-foreground"
+      >
+        <Icon className="h-3.5 w-3.5 shrink-0" />
+        <span className="truncate">{page.title || "Untitled"}</span>
+      </span>
+    </nav>
+  );
+}
@@ -0,0 +1,32 @@
+import * as React from 'react';
+
+import type { SlateElementProps } from 'platejs';
+
+import { SlateElement } from 'platejs';
+import { FileText } from 'lucide-react';
+
+import {
+  getPageLinkHref,
+  PAGE_TYPE_ICONS,
+} from '~/lib/document-page-links';
+import type { TPageEmbedElement } from '~/lib/document-page-links';
+
+export function PageEmbedElementStatic(
+  props: SlateElementProps<TPageEmbedElement>
+) {
+  const { pageId, pageType, title } = props.element;
+  const Icon = PAGE_TYPE_ICONS[pageType] ?? FileText;
+
+  return (
+    <SlateElement className="my-1" {...props}>
+      <a
+        className="flex items-center gap-3 rounded-md border px-3 py-3 text-sm"
+        href={getPageLinkHref(pageId)}
+      >
+        <Icon className="size-4 shrink-0 text-muted-foreground" />
+        <span className="truncate font-medium">{title || 'Untitled'}</span>
+      </a>
+      {props.children}
+    </SlateElement>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import * as React from 'react';
+
+import type { PlateElementProps } from 'platejs/react';
+
+import { PlateElement, useFocused, useSelected } from 'platejs/react';
+import { Link } from 'react-router';
+import { FileText } from 'lucide-react';
+
+import { useSpace } from '~/contexts/space-context';
+import { PAGE_TYPE_ICONS } from '~/lib/document-page-links';
+import type { TPageEmbedElement } from '~/lib/document-page-links';
+import { cn } from '~/lib/utils';
+
+// Shows the embedded page as it is now (renamed pages update live) and opens
+// it on click. Pages that were deleted keep their title, greyed out.
+export function PageEmbedElement(props: PlateElementProps<TPageEmbedElement>) {
+  const { element } = props;
+  const { space, pages } = useSpace();
+  const selected = useSelected();
+  const focused = useFocused();
+
+  const page = pages.find((page) => page.id === element.pageId);
+  const Icon = PAGE_TYPE_ICONS[page?.type ?? element.pageType] ?? FileText;
+  const title = page?.title || element.title || 'Untitled';
+
+  const className = cn(
+    'flex items-center gap-3 rounded-md border px-3 py-3 text-sm',
+    selected && focused && 'ring-2 ring-ring ring-offset-2'
+  );
+
+  return (
+    <PlateElement className="my-1" {...props}>
+      <div contentEditable={false}>
+        {page && space ? (
+          <Link
+            to={`/space/${space.id}/page/${page.id}`}
+            className={cn(className, 'hover:bg-muted')}
+            draggable={false}
+          >
+            <Icon className="size-4 shrink-0 text-muted-foreground" />
+            <span className="truncate font-medium">{title}</span>
+          </Link>
+        ) : (
+          <div className={cn(className, 'text-muted-foreground')}>
+            <Icon className="size-4 shrink-0" />
+            <span className="truncate line-through">{title}</span>
+            <span className="ml-auto shrink-0 text-xs">Page not found</span>
+          </div>
+        )}
+      </div>
+      {props.children}
+    </PlateElement>
+  );
+}
@@ -0,0 +1,121 @@
+import { useMemo, useState } from "react";
+import { useSpace } from "~/contexts/space-context";
+import {
+  createPagesFromTemplate,
+  getRecentlyVisitedSpaces,
+} from "~/lib/space-utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+import { Button } from "./button";
+import { TemplatePicker } from "./template-picker";
+
+interface PageTemplateDialogProps {
+  open: boolean;
+  // Page to add the new page under; null for a top-level page
+  parentId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// "New page from template": the template's page, with its content and any
+// subpages, is added to the space (or under parentId).
+export function PageTemplateDialog({
+  open,
+  parentId,
+  onOpenChange,
+}: PageTemplateDialogProps) {
+  const { space, loadPages } = useSpace();
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Templates saved in this space and the other spaces visited recently
+  const spaceIds = useMemo(
+    () =>
+      space && open
+        ? [
+            space.id,
+            ...getRecentlyVisitedSpaces()
+              .map((recent) => recent.id)
+              .filter((id) => id !== space.id),
+          ]
+        : [],
+    [space?.id, open]
+  );
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setTemplateId(null);
+      setError("");
+    }
+    onOpenChange(next);
+  };
+
+  const handleCreate = async () => {
+    if (!space || !templateId) return;
+
+    setIsCreating(true);
+    setError("");
+    const result = await createPagesFromTemplate(space.id, templateId, parentId);
+    setIsCreating(false);
+
+    if (result.pages.length > 0) await loadPages();
+
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md max-w-[calc(100vw-1rem)] mx-2">
+        <DialogHeader>
+          <DialogTitle>
+            {parentId ? "New subpage from template" : "New page from template"}
+          </DialogTitle>
+          <DialogDescription>
+            The new page starts with the template's content and subpages.
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && (
+          <TemplatePicker
+            kind="page"
+            spaceIds={spaceIds}
+            value={templateId}
+            onChange={setTemplateId}
+            disabled={isCreating}
+          />
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <DialogFooter className="gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isCreating}
+            className="min-h-11"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={!templateId || isCreating}
+            className="min-h-11"
+          >
+            {isCreating ? "Creating..." : "Create Page"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import * as React from 'react';
+
+import {
+  type CursorOverlayData,
+  useRemoteCursorOverlayPositions,
+} from '@slate-yjs/react';
+import { YjsPlugin } from '@platejs/yjs/react';
+import { useEditorContainerRef, usePluginOption } from 'platejs/react';
+
+export type CursorData = {
+  color: string;
+  name: string;
+};
+
+export function RemoteCursorOverlay() {
+  const isSynced = usePluginOption(YjsPlugin, '_isSynced');
+
+  if (!isSynced) {
+    return null;
+  }
+
+  return <RemoteCursorOverlayContent />;
+}
+
+function RemoteCursorOverlayContent() {
+  const containerRef = useEditorContainerRef();
+  const [cursors] = useRemoteCursorOverlayPositions<CursorData>({
+    containerRef: containerRef as React.RefObject<HTMLDivElement>,
+  });
+
+  return (
+    <>
+      {cursors.map((cursor) => (
+        <RemoteSelection key={cursor.clientId} {...cursor} />
+      ))}
+    </>
+  );
+}
+
+function RemoteSelection({
+  caretPosition,
+  data,
+  selectionRects,
+}: CursorOverlayData<CursorData>) {
+  if (!data) {
+    return null;
+  }
+
+  return (
+    <>
+      {selectionRects.map((position, i) => (
+        <div
+          key={i}
+          className="pointer-events-none absolute"
+          style={{
+            ...position,
+            backgroundColor: data.color,
+            opacity: 0.25,
+          }}
+        />
+      ))}
+      {caretPosition && (
+        <div
+          className="pointer-events-none absolute w-0.5"
+          style={{ ...caretPosition, backgroundColor: data.color }}
+        >
+          <div
+            className="absolute top-0 left-0 -translate-y-full rounded rounded-bl-none px-1.5 py-0.5 text-xs whitespace-nowrap text-white"
+            style={{ backgroundColor: data.color }}
+          >
+            {data.name}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import * as React from 'react';
+
+import type { ResizeHandleProps } from '@platejs/resizable';
+
+import { ResizeHandle as ResizeHandlePrimitive } from '@platejs/resizable';
+
+import { cn } from '~/lib/utils';
+
+// Bar on either side of a resizable media node, shown on hover
+export function ResizeHandle({
+  className,
+  options,
+  ...props
+}: ResizeHandleProps) {
+  const direction = options?.direction ?? 'left';
+
+  return (
+    <ResizeHandlePrimitive
+      className={cn(
+        'absolute top-0 z-40 flex h-full w-6 flex-col justify-center select-none',
+        'opacity-0 transition-opacity group-hover:opacity-100',
+        "after:flex after:h-16 after:w-[3px] after:rounded-[6px] after:bg-ring after:content-['.']",
+        direction === 'left' && '-left-3 -ml-3 pl-3',
+        direction === 'right' && '-right-3 -mr-3 items-end pr-3',
+        className
+      )}
+      options={options}
+      {...props}
+    />
+  );
+}
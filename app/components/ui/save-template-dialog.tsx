@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { useSpace } from "~/contexts/space-context";
+import { saveTemplate } from "~/lib/space-utils";
+import { TEMPLATE_LIMITS } from "~/lib/templates";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+import { Button } from "./button";
+import { Input } from "./input";
+
+// What to save: one page (with its subpages) or the whole space
+export type SaveTemplateTarget =
+  | { kind: "page"; page: { id: string; title: string } }
+  | { kind: "space" };
+
+interface SaveTemplateDialogProps {
+  target: SaveTemplateTarget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Save a page or the space as a template. The template is a copy of the
+// content as it is now; later edits to the page don't change it.
+export function SaveTemplateDialog({ target, onOpenChange }: SaveTemplateDialogProps) {
+  const { space } = useSpace();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+    setName(
+      target.kind === "page" ? target.page.title : space?.title || "Untitled Space"
+    );
+    setDescription("");
+    setError("");
+  }, [target]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!space || !target) return;
+
+    if (!name.trim()) {
+      setError("Please enter a name for the template");
+      return;
+    }
+
+    setIsSaving(true);
+    setError("");
+    const result = await saveTemplate(space.id, {
+      kind: target.kind,
+      name: name.trim(),
+      description: description.trim() || undefined,
+      pageId: target.kind === "page" ? target.page.id : undefined,
+    });
+    setIsSaving(false);
+
+    if (!result.template) {
+      setError(result.error || "Failed to save the template");
+      return;
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-w-[calc(100vw-1rem)] mx-2">
+        <DialogHeader>
+          <DialogTitle>
+            {target?.kind === "page"
+              ? `Save "${target.page.title}" as a template`
+              : "Save space as a template"}
+          </DialogTitle>
+          <DialogDescription>
+            {target?.kind === "page"
+              ? "The page and its subpages, with their content, can then be added to any space from New Page."
+              : "Every page of the space, with its content, can then be used to start a new space."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="template-name" className="text-sm font-medium">
+                Name
+              </label>
+              <Input
+                id="template-name"
+                value={name}
+                maxLength={TEMPLATE_LIMITS.maxNameLength}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSaving}
+                className="min-h-11"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="template-description" className="text-sm font-medium">
+                Description (Optional)
+              </label>
+              <Input
+                id="template-description"
+                value={description}
+                maxLength={TEMPLATE_LIMITS.maxDescriptionLength}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What is this template for?"
+                disabled={isSaving}
+                className="min-h-11"
+              />
+            </div>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+          <DialogFooter className="mt-6 gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+              className="min-h-11"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} className="min-h-11">
+              {isSaving ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,14 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useSpace } from "~/contexts/space-context";
+import {
+  loadShareLinks,
+  createShareLink,
+  revokeShareLink,
+  getShareLinkUrl,
+} from "~/lib/space-utils";
+import type { ShareLink } from "~/lib/space-utils";
+import { SPACE_ROLES, SPACE_ROLE_LABELS, isSpaceRole } from "~/lib/space-roles";
+import type { SpaceRole } from "~/lib/space-roles";
 import {
   Dialog,
   DialogContent,
@@ -11,16 +20,39 @@ import {
 import { Button } from "./button";
 import { Input } from "./input";
 import QRCode from "react-qr-code";
-import { Copy, Check } from "lucide-react";
+import { Copy, Check, QrCode, Trash2 } from "lucide-react";
 
 interface ShareSpaceModalProps {
   children: React.ReactNode;
 }
 
+const EXPIRY_OPTIONS = [
+  { value: "", label: "Never expires" },
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+];
+
+const selectClassName =
+  "border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+const formatExpiry = (expiresAt: string | null) =>
+  expiresAt
+    ? `until ${new Date(expiresAt).toLocaleDateString()}`
+    : "no expiry";
+
 export function ShareSpaceModal({ children }: ShareSpaceModalProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [copiedSpaceId, setCopiedSpaceId] = useState(false);
   const [copiedUrl, setCopiedUrl] = useState(false);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [linkRole, setLinkRole] = useState<SpaceRole>("viewer");
+  const [linkExpiry, setLinkExpiry] = useState("");
+  const [isCreatingLink, setIsCreatingLink] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  // Link shown in the QR code; the plain space URL when null
+  const [qrLinkId, setQrLinkId] = useState<string | null>(null);
   const { space } = useSpace();
 
   const currentSpaceId = space?.id;
@@ -30,6 +62,69 @@ export function ShareSpaceModal({ children }: ShareSpaceModalProps) {
       ? `${window.location.origin}/space/${currentSpaceId}`
       : "");
 
+  const qrLink = links.find((link) => link.id === qrLinkId);
+  const qrValue = qrLink ? getShareLinkUrl(qrLink.token) : spaceUrl;
+
+  // Load the space's share links whenever the modal opens
+  useEffect(() => {
+    if (!isOpen || !currentSpaceId) return;
+
+    loadShareLinks(currentSpaceId).then((result) => {
+      if (result.error) {
+        setLinkError(result.error);
+        return;
+      }
+      setLinks(result.links);
+    });
+  }, [isOpen, currentSpaceId]);
+
+  const handleCreateLink = async () => {
+    if (!currentSpaceId) return;
+
+    setIsCreatingLink(true);
+    setLinkError(null);
+    const result = await createShareLink(
+      currentSpaceId,
+      linkRole,
+      linkExpiry ? Number(linkExpiry) : undefined
+    );
+    setIsCreatingLink(false);
+
+    if (result.error || !result.link) {
+      setLinkError(result.error || "Failed to create share link");
+      return;
+    }
+
+    setLinks((prevLinks) => [result.link!, ...prevLinks]);
+    setQrLinkId(result.link.id);
+  };
+
+  const handleRevokeLink = async (linkId: string) => {
+    if (!currentSpaceId) return;
+
+    setLinkError(null);
+    const result = await revokeShareLink(currentSpaceId, linkId);
+    if (!result.success) {
+      setLinkError(result.error || "Failed to revoke share link");
+      return;
+    }
+
+    setLinks((prevLinks) => prevLinks.filter((link) => link.id !== linkId));
+    if (qrLinkId === linkId) {
+      setQrLinkId(null);
+    }
+  };
+
+  const handleCopyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link.token));
+      setCopiedLinkId(link.id);
+      setTimeout(() => setCopiedLinkId(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy share link:", err);
+    }
+  };
+
   const handleCopySpaceId = async () => {
     if (!currentSpaceId || typeof window === "undefined") return;
 
@@ -60,6 +155,9 @@ export function ShareSpaceModal({ children }: ShareSpaceModalProps) {
       // Reset copied states when modal closes
       setCopiedSpaceId(false);
       setCopiedUrl(false);
+      setCopiedLinkId(null);
+      setQrLinkId(null);
+      setLinkError(null);
     }
   };
 
@@ -70,11 +168,12 @@ export function ShareSpaceModal({ children }: ShareSpaceModalProps) {
   return (
     <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>{children}</DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Share Space</DialogTitle>
           <DialogDescription>
-            Share this space with others using the QR code or space ID below.
+            Share this space with others using the QR code or space ID below,
+            or create a link that only lets people view or comment.
           </DialogDescription>
         </DialogHeader>
 
@@ -83,14 +182,18 @@ export function ShareSpaceModal({ children }: ShareSpaceModalProps) {
           <div className="flex flex-col items-center space-y-4">
             <div className="bg-white p-4 rounded-lg border">
               <QRCode
-                value={spaceUrl}
+                value={qrValue}
                 size={200}
                 level="M"
                 style={{ height: "auto", maxWidth: "100%", width: "100%" }}
               />
             </div>
             <p className="text-sm text-muted-foreground text-center">
-              Scan this QR code to join the space instantly
+              {qrLink
+                ? `Scan this QR code to join with the "${
+                    SPACE_ROLE_LABELS[qrLink.role as SpaceRole]
+                  }" link`
+                : "Scan this QR code to join the space instantly"}
             </p>
           </div>
 
@@ -150,6 +253,120 @@ export function ShareSpaceModal({ children }: ShareSpaceModalProps) {
                 )}
               </Button>
             </div>
+            {!space?.has_password && (
+              <p className="text-xs text-muted-foreground">
+                Anyone with this URL can edit the space.
+              </p>
+            )}
+          </div>
+
+          {/* Share Links Section */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Share links</label>
+            {!space?.has_password && (
+              <p className="text-xs text-muted-foreground">
+                Share links need a space password, set when the space is
+                created. Without one, anyone with the space URL can edit it,
+                whatever role their link gives.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <select
+                aria-label="Link role"
+                value={linkRole}
+                onChange={(e) => {
+                  if (isSpaceRole(e.target.value)) {
+                    setLinkRole(e.target.value);
+                  }
+                }}
+                className={selectClassName}
+              >
+                {SPACE_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {SPACE_ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Link expiry"
+                value={linkExpiry}
+                onChange={(e) => setLinkExpiry(e.target.value)}
+                className={`${selectClassName} flex-1`}
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <Button
+                type="button"
+                onClick={handleCreateLink}
+                disabled={isCreatingLink || !space?.has_password}
+              >
+                {isCreatingLink ? "Creating..." : "Create"}
+              </Button>
+            </div>
+
+            {linkError && (
+              <div className="text-sm text-red-600 bg-red-50 p-2 rounded">
+                {linkError}
+              </div>
+            )}
+
+            {links.length > 0 && (
+              <div className="space-y-1">
+                {links.map((link) => (
+                  <div
+                    key={link.id}
+                    className="flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm"
+                  >
+                    <span className="font-medium">
+                      {SPACE_ROLE_LABELS[link.role as SpaceRole] ?? link.role}
+                    </span>
+                    <span className="flex-1 truncate text-xs text-muted-foreground">
+                      {formatExpiry(link.expires_at)}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => handleCopyLink(link)}
+                      title="Copy link"
+                    >
+                      {copiedLinkId === link.id ? (
+                        <Check className="w-4 h-4 text-green-500" />
+                      ) : (
+                        <Copy className="w-4 h-4" />
+                      )}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={qrLinkId === link.id ? "secondary" : "ghost"}
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() =>
+                        setQrLinkId(qrLinkId === link.id ? null : link.id)
+                      }
+                      title="Show QR code"
+                    >
+                      <QrCode className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => handleRevokeLink(link.id)}
+                      title="Revoke link"
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </DialogContent>
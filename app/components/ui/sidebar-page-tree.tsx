@@ -0,0 +1,363 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router";
+import { DragDropContext, Draggable, Droppable } from "@hello-pangea/dnd";
+import type { DropResult } from "@hello-pangea/dnd";
+import type { Tables } from "../../../database.types";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuTrigger,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+} from "./context-menu";
+import { Button } from "./button";
+import {
+  ChevronRight,
+  Copy,
+  Download,
+  Edit,
+  FileInput,
+  FilePlus,
+  FileText,
+  GripVertical,
+  LayoutTemplate,
+  Trash,
+} from "lucide-react";
+import {
+  DOCUMENT_EXPORT_FORMATS,
+  DOCUMENT_EXPORT_LABELS,
+  getDocumentExportUrl,
+} from "~/lib/document-export";
+import { PAGE_TYPE_ICONS } from "~/lib/document-page-links";
+import {
+  buildPageTree,
+  getCollapsedPageIds,
+  getPageAncestors,
+  storeCollapsedPageIds,
+} from "~/lib/page-tree";
+import type { PageTreeNode } from "~/lib/page-tree";
+import { cn } from "~/lib/utils";
+
+type Page = Tables<"pages">;
+type PageType = "document" | "moodboard" | "kanban";
+
+interface SidebarPageTreeProps {
+  spaceId: string;
+  pages: Page[];
+  activePageId?: string;
+  canEdit: boolean;
+  onRename: (page: Page) => void;
+  onDelete: (page: Page) => void;
+  onDuplicate: (page: Page) => void;
+  onMove: (page: Page) => void;
+  onSaveAsTemplate: (page: Page) => void;
+  onCreateSubpage: (parentId: string, type: PageType) => void;
+  onCreateSubpageFromTemplate: (parentId: string) => void;
+  onReorder: (parentId: string | null, pageIds: string[]) => void;
+}
+
+interface PageTreeListProps
+  extends Omit<SidebarPageTreeProps, "pages" | "onReorder"> {
+  parentId: string | null;
+  nodes: PageTreeNode<Page>[];
+  depth: number;
+  collapsed: string[];
+  onToggle: (pageId: string) => void;
+}
+
+interface PageTreeItemProps extends Omit<PageTreeListProps, "parentId" | "nodes"> {
+  node: PageTreeNode<Page>;
+  index: number;
+}
+
+// Droppable id (and type) of the list of pages under a parent. Each list has
+// its own type, so pages are only dragged among their siblings.
+const ROOT_LIST_ID = "root";
+const getListId = (parentId: string | null) => parentId ?? ROOT_LIST_ID;
+
+function findPageNode(
+  nodes: PageTreeNode<Page>[],
+  pageId: string
+): PageTreeNode<Page> | undefined {
+  for (const node of nodes) {
+    if (node.page.id === pageId) return node;
+    const found = findPageNode(node.children, pageId);
+    if (found) return found;
+  }
+}
+
+const SUBPAGE_TYPES: { type: PageType; label: string }[] = [
+  { type: "document", label: "Document" },
+  { type: "moodboard", label: "Mood Board" },
+  { type: "kanban", label: "Planning Board" },
+];
+
+function PageTreeList({ parentId, nodes, ...props }: PageTreeListProps) {
+  const listId = getListId(parentId);
+
+  return (
+    <Droppable droppableId={listId} type={listId}>
+      {(provided) => (
+        <div
+          ref={provided.innerRef}
+          {...provided.droppableProps}
+          className="flex flex-col gap-1"
+        >
+          {nodes.map((node, index) => (
+            <PageTreeItem
+              key={node.page.id}
+              node={node}
+              index={index}
+              {...props}
+            />
+          ))}
+          {provided.placeholder}
+        </div>
+      )}
+    </Droppable>
+  );
+}
+
+function PageTreeItem({
+  node,
+  index,
+  depth,
+  collapsed,
+  onToggle,
+  ...props
+}: PageTreeItemProps) {
+  const {
+    spaceId,
+    activePageId,
+    canEdit,
+    onRename,
+    onDelete,
+    onDuplicate,
+    onMove,
+    onSaveAsTemplate,
+    onCreateSubpage,
+    onCreateSubpageFromTemplate,
+  } = props;
+  const { page, children } = node;
+  const Icon = PAGE_TYPE_ICONS[page.type] ?? FileText;
+  const isCollapsed = collapsed.includes(page.id);
+
+  return (
+    <Draggable draggableId={page.id} index={index} isDragDisabled={!canEdit}>
+      {(provided, snapshot) => (
+        <div
+          ref={provided.innerRef}
+          {...provided.draggableProps}
+          className={cn(
+            "flex flex-col gap-1 rounded-md",
+            snapshot.isDragging && "bg-sidebar shadow-lg"
+          )}
+        >
+          <ContextMenu>
+            <ContextMenuTrigger disabled={!canEdit && page.type !== "document"}>
+              <div className="group relative">
+                <Button
+                  variant={page.id === activePageId ? "secondary" : "ghost"}
+                  className={cn("w-full justify-start", canEdit && "pr-8")}
+                  style={{ paddingLeft: `${1.75 + depth}rem` }}
+                  asChild
+                >
+                  <Link to={`/space/${spaceId}/page/${page.id}`}>
+                    <Icon className="h-4 w-4 mr-2" />
+                    <span className="truncate">{page.title}</span>
+                  </Link>
+                </Button>
+                {children.length > 0 && (
+                  <button
+                    type="button"
+                    className="absolute top-1/2 -translate-y-1/2 rounded p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+                    style={{ left: `${0.25 + depth}rem` }}
+                    onClick={() => onToggle(page.id)}
+                    title={isCollapsed ? "Show subpages" : "Hide subpages"}
+                    aria-expanded={!isCollapsed}
+                  >
+                    <ChevronRight
+                      className={cn(
+                        "h-4 w-4 transition-transform",
+                        !isCollapsed && "rotate-90"
+                      )}
+                    />
+                  </button>
+                )}
+                {canEdit && (
+                  <div
+                    {...provided.dragHandleProps}
+                    className="absolute right-1 top-1/2 -translate-y-1/2 cursor-grab rounded p-0.5 text-muted-foreground opacity-0 hover:bg-accent focus-visible:opacity-100 group-hover:opacity-100 active:cursor-grabbing"
+                    title="Drag to reorder (or focus and press Space, then the arrow keys)"
+                  >
+                    <GripVertical className="h-4 w-4" />
+                  </div>
+                )}
+              </div>
+            </ContextMenuTrigger>
+            <ContextMenuContent>
+              {page.type === "document" && (
+                <ContextMenuSub>
+                  <ContextMenuSubTrigger>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </ContextMenuSubTrigger>
+                  <ContextMenuSubContent>
+                    {DOCUMENT_EXPORT_FORMATS.map((format) => (
+                      <ContextMenuItem key={format} asChild>
+                        <a href={getDocumentExportUrl(page.id, format)} download>
+                          {DOCUMENT_EXPORT_LABELS[format]}
+                        </a>
+                      </ContextMenuItem>
+                    ))}
+                  </ContextMenuSubContent>
+                </ContextMenuSub>
+              )}
+              {page.type === "document" && canEdit && <ContextMenuSeparator />}
+              {canEdit && (
+                <>
+                  <ContextMenuSub>
+                    <ContextMenuSubTrigger>
+                      <FilePlus className="h-4 w-4 mr-2" />
+                      Add subpage
+                    </ContextMenuSubTrigger>
+                    <ContextMenuSubContent>
+                      {SUBPAGE_TYPES.map(({ type, label }) => {
+                        const TypeIcon = PAGE_TYPE_ICONS[type];
+
+                        return (
+                          <ContextMenuItem
+                            key={type}
+                            onClick={() => onCreateSubpage(page.id, type)}
+                          >
+                            <TypeIcon className="h-4 w-4 mr-2" />
+                            {label}
+                          </ContextMenuItem>
+                        );
+                      })}
+                      <ContextMenuSeparator />
+                      <ContextMenuItem
+                        onClick={() => onCreateSubpageFromTemplate(page.id)}
+                      >
+                        <LayoutTemplate className="h-4 w-4 mr-2" />
+                        From template…
+                      </ContextMenuItem>
+                    </ContextMenuSubContent>
+                  </ContextMenuSub>
+                  <ContextMenuItem onClick={() => onDuplicate(page)}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Duplicate
+                  </ContextMenuItem>
+                  <ContextMenuItem onClick={() => onMove(page)}>
+                    <FileInput className="h-4 w-4 mr-2" />
+                    Move to space…
+                  </ContextMenuItem>
+                  <ContextMenuItem onClick={() => onSaveAsTemplate(page)}>
+                    <LayoutTemplate className="h-4 w-4 mr-2" />
+                    Save as template
+                  </ContextMenuItem>
+                  <ContextMenuItem onClick={() => onRename(page)}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Rename
+                  </ContextMenuItem>
+                  <ContextMenuItem
+                    variant="destructive"
+                    onClick={() => onDelete(page)}
+                  >
+                    <Trash className="h-4 w-4 mr-2" />
+                    Delete
+                  </ContextMenuItem>
+                </>
+              )}
+            </ContextMenuContent>
+          </ContextMenu>
+          {!isCollapsed && children.length > 0 && (
+            <PageTreeList
+              parentId={page.id}
+              nodes={children}
+              depth={depth + 1}
+              collapsed={collapsed}
+              onToggle={onToggle}
+              {...props}
+            />
+          )}
+        </div>
+      )}
+    </Draggable>
+  );
+}
+
+// The pages of the space as a tree: subpages sit below their page and can be
+// collapsed. What's collapsed is remembered per space, and the pages above the
+// open page are always expanded so it stays visible. Editors can drag pages
+// (or move them with the keyboard) to reorder them among their siblings.
+export function SidebarPageTree({
+  pages,
+  onReorder,
+  ...props
+}: SidebarPageTreeProps) {
+  const { spaceId, activePageId } = props;
+  const tree = useMemo(() => buildPageTree(pages), [pages]);
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+
+  useEffect(() => {
+    setCollapsed(getCollapsedPageIds(spaceId));
+  }, [spaceId]);
+
+  const updateCollapsed = (next: string[]) => {
+    setCollapsed(next);
+    storeCollapsedPageIds(spaceId, next);
+  };
+
+  useEffect(() => {
+    if (!activePageId) return;
+
+    const ancestorIds = getPageAncestors(pages, activePageId).map(
+      (page) => page.id
+    );
+    setCollapsed((current) => {
+      if (!current.some((id) => ancestorIds.includes(id))) return current;
+      const next = current.filter((id) => !ancestorIds.includes(id));
+      storeCollapsedPageIds(spaceId, next);
+      return next;
+    });
+  }, [spaceId, pages, activePageId]);
+
+  const handleToggle = (pageId: string) => {
+    updateCollapsed(
+      collapsed.includes(pageId)
+        ? collapsed.filter((id) => id !== pageId)
+        : [...collapsed, pageId]
+    );
+  };
+
+  const handleDragEnd = ({ source, destination }: DropResult) => {
+    if (!destination || destination.index === source.index) return;
+
+    const parentId =
+      source.droppableId === ROOT_LIST_ID ? null : source.droppableId;
+    const siblingIds = (
+      parentId === null ? tree : findPageNode(tree, parentId)?.children ?? []
+    ).map((node) => node.page.id);
+
+    const [moved] = siblingIds.splice(source.index, 1);
+    siblingIds.splice(destination.index, 0, moved);
+    onReorder(parentId, siblingIds);
+  };
+
+  return (
+    <DragDropContext onDragEnd={handleDragEnd}>
+      <PageTreeList
+        parentId={null}
+        nodes={tree}
+        depth={0}
+        collapsed={collapsed}
+        onToggle={handleToggle}
+        {...props}
+      />
+    </DragDropContext>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronRight, FileText, RotateCcw, Trash, Trash2 } from "lucide-react";
+import { useSpace } from "~/contexts/space-context";
+import { PAGE_TYPE_ICONS } from "~/lib/document-page-links";
+import { getPageDescendantIds } from "~/lib/page-tree";
+import { PAGE_TRASH_CONFIG, getDaysUntilPurge } from "~/lib/page-trash";
+import {
+  loadTrashedPages,
+  purgeExpiredPages,
+  purgePage,
+  restorePage,
+} from "~/lib/space-utils";
+import type { TrashedPage } from "~/lib/space-utils";
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+} from "./sidebar";
+import { Button } from "./button";
+import { cn } from "~/lib/utils";
+
+// "Trash" section of the sidebar, for editors: pages deleted in the last
+// PAGE_TRASH_CONFIG.retentionDays days, with restore and delete forever.
+// Subpages trashed along with a page are listed (and restored) with it.
+export function SidebarTrash() {
+  const { space, pages, loadPages } = useSpace();
+  const [open, setOpen] = useState(false);
+  const [trashed, setTrashed] = useState<TrashedPage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busyPageId, setBusyPageId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    if (!space) return;
+    const result = await loadTrashedPages(space.id);
+    setTrashed(result.pages);
+    setError(result.error ?? null);
+  };
+
+  // Pages past their time in the trash are purged when an editor opens the
+  // space; a failed purge is only logged and tried again next time
+  useEffect(() => {
+    if (space) purgeExpiredPages(space.id);
+  }, [space?.id]);
+
+  // Reload while open: deleting a page from the sidebar changes the pages
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, space?.id, pages]);
+
+  // Only the pages that were deleted themselves, not with a parent
+  const entries = useMemo(
+    () =>
+      trashed
+        .filter(
+          (page) =>
+            !trashed.some(
+              (parent) =>
+                parent.id === page.parent_id &&
+                parent.deleted_at === page.deleted_at
+            )
+        )
+        .map((page) => ({
+          page,
+          subpageCount: getPageDescendantIds(
+            trashed.filter((p) => p.deleted_at === page.deleted_at),
+            page.id
+          ).length,
+        })),
+    [trashed]
+  );
+
+  if (!space) return null;
+
+  const handleRestore = async (page: TrashedPage) => {
+    setBusyPageId(page.id);
+    const result = await restorePage(space.id, page.id);
+    setBusyPageId(null);
+
+    if (!result.success) {
+      setError(result.error || "Failed to restore the page");
+      return;
+    }
+    await loadPages();
+  };
+
+  const handlePurge = async (page: TrashedPage, subpageCount: number) => {
+    const subpages =
+      subpageCount > 0
+        ? ` and its ${subpageCount} subpage${subpageCount !== 1 ? "s" : ""}`
+        : "";
+    if (
+      !confirm(
+        `Delete "${page.title}"${subpages} forever? This action cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    setBusyPageId(page.id);
+    const result = await purgePage(space.id, page.id);
+    setBusyPageId(null);
+
+    if (!result.success) {
+      setError(result.error || "Failed to delete the page");
+      return;
+    }
+    await refresh();
+  };
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel asChild>
+        <button
+          type="button"
+          className="w-full hover:bg-sidebar-accent"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+        >
+          <ChevronRight
+            className={cn("h-4 w-4 mr-1 transition-transform", open && "rotate-90")}
+          />
+          <Trash className="h-4 w-4 mr-2" />
+          Trash
+          {open && entries.length > 0 && ` (${entries.length})`}
+        </button>
+      </SidebarGroupLabel>
+      {open && (
+        <SidebarGroupContent className="flex flex-col gap-1">
+          {error && <p className="text-xs text-red-600 p-2">{error}</p>}
+          {entries.length === 0 ? (
+            <p className="text-xs text-muted-foreground p-2">
+              Deleted pages stay here for {PAGE_TRASH_CONFIG.retentionDays} days.
+            </p>
+          ) : (
+            entries.map(({ page, subpageCount }) => {
+              const Icon = PAGE_TYPE_ICONS[page.type] ?? FileText;
+              const daysLeft = getDaysUntilPurge(page.deleted_at);
+
+              return (
+                <div
+                  key={page.id}
+                  className="flex items-center gap-2 rounded-md px-2 py-1 text-sm"
+                >
+                  <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate">{page.title}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {subpageCount > 0 &&
+                        `With ${subpageCount} subpage${subpageCount !== 1 ? "s" : ""} · `}
+                      {daysLeft > 0
+                        ? `Deleted for good in ${daysLeft} day${daysLeft !== 1 ? "s" : ""}`
+                        : "Deleted for good today"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    disabled={busyPageId !== null}
+                    onClick={() => handleRestore(page)}
+                    title="Restore"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0 text-red-600"
+                    disabled={busyPageId !== null}
+                    onClick={() => handlePurge(page, subpageCount)}
+                    title="Delete forever"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </SidebarGroupContent>
+      )}
+    </SidebarGroup>
+  );
+}
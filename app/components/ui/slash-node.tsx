@@ -0,0 +1,136 @@
+'use client';
+
+import * as React from 'react';
+
+import type { PlateEditor, PlateElementProps } from 'platejs/react';
+import type { LucideIcon } from 'lucide-react';
+import type { TComboboxInputElement } from 'platejs';
+
+import { PlateElement, usePluginOption } from 'platejs/react';
+import { FileText, ImageIcon, Paperclip } from 'lucide-react';
+
+import { DocumentPagePlugin } from '~/components/document-page-kit';
+import { useSpace } from '~/contexts/space-context';
+import { useIsTouchDevice } from '~/hooks/use-is-touch-device';
+import {
+  DOCUMENT_BLOCK_ITEMS,
+  insertDocumentBlock,
+} from '~/lib/document-blocks';
+import { insertPageEmbed, PAGE_TYPE_ICONS } from '~/lib/document-page-links';
+import { cn } from '~/lib/utils';
+
+import {
+  InlineCombobox,
+  InlineComboboxContent,
+  InlineComboboxEmpty,
+  InlineComboboxGroup,
+  InlineComboboxGroupLabel,
+  InlineComboboxInput,
+  InlineComboboxItem,
+} from './inline-combobox';
+import { pickDocumentFiles } from './media-toolbar-button';
+
+interface SlashItem {
+  value: string;
+  label: string;
+  icon: LucideIcon;
+  keywords?: string[];
+  onSelect: (editor: PlateEditor) => void;
+}
+
+const blockItems: SlashItem[] = DOCUMENT_BLOCK_ITEMS.map((item) => ({
+  value: item.key,
+  label: item.label,
+  icon: item.icon,
+  keywords: item.keywords,
+  onSelect: (editor) => insertDocumentBlock(editor, item.key),
+}));
+
+const mediaItems: SlashItem[] = [
+  {
+    value: 'image',
+    label: 'Image',
+    icon: ImageIcon,
+    keywords: ['picture', 'photo', 'upload'],
+    onSelect: (editor) => pickDocumentFiles(editor, 'image/*'),
+  },
+  {
+    value: 'file',
+    label: 'File',
+    icon: Paperclip,
+    keywords: ['attachment', 'upload', 'pdf'],
+    onSelect: (editor) => pickDocumentFiles(editor),
+  },
+];
+
+// The menu typed after "/": block types, uploads and the other pages of the
+// space to embed. Also opened from the toolbar's insert button on touch
+// devices, where it gets larger tap targets.
+export function SlashInputElement(
+  props: PlateElementProps<TComboboxInputElement>
+) {
+  const { editor, element } = props;
+  const { pages } = useSpace();
+  const pageId = usePluginOption(DocumentPagePlugin, 'pageId');
+  const isTouch = useIsTouchDevice();
+
+  const pageItems: SlashItem[] = React.useMemo(
+    () =>
+      pages
+        .filter((page) => page.id !== pageId)
+        .map((page) => ({
+          value: `page:${page.id}`,
+          label: page.title || 'Untitled',
+          icon: PAGE_TYPE_ICONS[page.type] ?? FileText,
+          keywords: ['page', 'embed', page.type],
+          onSelect: (editor) =>
+            insertPageEmbed(editor, {
+              id: page.id,
+              title: page.title,
+              type: page.type,
+            }),
+        })),
+    [pages, pageId]
+  );
+
+  const groups = [
+    { group: 'Basic blocks', items: blockItems },
+    { group: 'Media', items: mediaItems },
+    { group: 'Pages', items: pageItems },
+  ];
+
+  return (
+    <PlateElement {...props} as="span">
+      <InlineCombobox element={element} trigger="/">
+        <InlineComboboxInput />
+
+        <InlineComboboxContent className={cn(isTouch && 'max-h-[50vh]')}>
+          <InlineComboboxEmpty>No results</InlineComboboxEmpty>
+
+          {groups.map(({ group, items }) => (
+            <InlineComboboxGroup key={group}>
+              <InlineComboboxGroupLabel>{group}</InlineComboboxGroupLabel>
+
+              {items.map(({ icon: Icon, keywords, label, onSelect, value }) => (
+                <InlineComboboxItem
+                  key={value}
+                  value={value}
+                  className={cn(isTouch && 'h-10')}
+                  onClick={() => onSelect(editor)}
+                  label={label}
+                  group={group}
+                  keywords={keywords}
+                >
+                  <Icon />
+                  <span className="truncate">{label}</span>
+                </InlineComboboxItem>
+              ))}
+            </InlineComboboxGroup>
+          ))}
+        </InlineComboboxContent>
+      </InlineCombobox>
+
+      {props.children}
+    </PlateElement>
+  );
+}
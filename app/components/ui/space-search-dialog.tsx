@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent as ReactKeyboardEvent } from "react";
+import { useNavigate } from "react-router";
+import { useSpace } from "~/contexts/space-context";
+import { useDebounce } from "~/hooks/use-debounce";
+import { searchSpace } from "~/lib/space-utils";
+import type { SpaceSearchResult } from "~/lib/space-utils";
+import {
+  SPACE_SEARCH_LIMITS,
+  getSearchResultHref,
+  getSnippetParts,
+  groupSearchResults,
+} from "~/lib/space-search";
+import { PAGE_TYPE_ICONS } from "~/lib/document-page-links";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+import { FileText, Search } from "lucide-react";
+import { cn } from "~/lib/utils";
+
+interface SpaceSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RESULT_KIND_LABELS: Record<SpaceSearchResult["kind"], string> = {
+  page: "Title",
+  block: "Text",
+  card: "Card",
+  item: "Text box",
+};
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {getSnippetParts(snippet).map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-highlight/40 px-0.5 text-inherit"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// Search every page of the space, opened with Cmd/Ctrl+K or the sidebar
+// button. Results are grouped by page; picking one opens the page at the
+// matching block, card or text box.
+export function SpaceSearchDialog({ open, onOpenChange }: SpaceSearchDialogProps) {
+  const { space } = useSpace();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SpaceSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const debouncedQuery = useDebounce(query.trim(), 200);
+  const groups = useMemo(() => groupSearchResults(results), [results]);
+  // Keyboard order, which is the order they're listed in
+  const ordered = useMemo(() => groups.flatMap((group) => group.results), [groups]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!space || debouncedQuery.length < SPACE_SEARCH_LIMITS.minQueryLength) {
+      setResults([]);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    // Drop the previous search when typing on
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    searchSpace(space.id, debouncedQuery, controller.signal).then((result) => {
+      if (controller.signal.aborted) return;
+      setResults(result.results);
+      setError(result.error ?? null);
+      setActiveIndex(0);
+      setIsSearching(false);
+    });
+
+    return () => controller.abort();
+  }, [space, debouncedQuery]);
+
+  // Keep the active result in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-result-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setQuery("");
+      setResults([]);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSelect = (result: SpaceSearchResult) => {
+    if (!space) return;
+    handleOpenChange(false);
+    navigate(getSearchResultHref(space.id, result));
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, ordered.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === "Enter" && ordered[activeIndex]) {
+      event.preventDefault();
+      handleSelect(ordered[activeIndex]);
+    }
+  };
+
+  const hasQuery = debouncedQuery.length >= SPACE_SEARCH_LIMITS.minQueryLength;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent
+        className="top-[15%] translate-y-0 gap-0 overflow-hidden p-0 sm:max-w-xl"
+        showCloseButton={false}
+      >
+        <DialogHeader className="sr-only">
+          <DialogTitle>Search</DialogTitle>
+          <DialogDescription>
+            Search documents, boards and mood boards in this space
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 border-b px-3">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search this space..."
+            maxLength={SPACE_SEARCH_LIMITS.maxQueryLength}
+            className="h-12 w-full bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            autoFocus
+          />
+          <kbd className="hidden shrink-0 rounded border px-1.5 text-xs text-muted-foreground sm:block">
+            Esc
+          </kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto p-2">
+          {error ? (
+            <p className="p-2 text-sm text-red-600">{error}</p>
+          ) : !hasQuery ? (
+            <p className="p-2 text-sm text-muted-foreground">
+              Type at least {SPACE_SEARCH_LIMITS.minQueryLength} characters to
+              search page titles, documents, cards and text boxes.
+            </p>
+          ) : ordered.length === 0 ? (
+            <p className="p-2 text-sm text-muted-foreground">
+              {isSearching ? "Searching..." : "No results"}
+            </p>
+          ) : (
+            groups.map((group) => {
+              const Icon = PAGE_TYPE_ICONS[group.pageType] ?? FileText;
+
+              return (
+                <div key={group.pageId} className="mb-2">
+                  <p className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-muted-foreground">
+                    <Icon className="h-3.5 w-3.5" />
+                    {group.pageTitle || "Untitled"}
+                  </p>
+                  {group.results.map((result) => {
+                    const index = ordered.indexOf(result);
+
+                    return (
+                      <button
+                        key={`${result.kind}-${result.target_id ?? result.page_id}`}
+                        type="button"
+                        data-result-index={index}
+                        className={cn(
+                          "flex w-full items-baseline gap-2 rounded-md px-2 py-1.5 text-left text-sm",
+                          index === activeIndex && "bg-accent text-accent-foreground"
+                        )}
+                        onMouseMove={() => setActiveIndex(index)}
+                        onClick={() => handleSelect(result)}
+                      >
+                        <span className="w-14 shrink-0 text-xs text-muted-foreground">
+                          {RESULT_KIND_LABELS[result.kind]}
+                        </span>
+                        <span className="line-clamp-2 min-w-0">
+                          <Snippet snippet={result.snippet} />
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
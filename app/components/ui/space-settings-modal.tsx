@@ -10,12 +10,25 @@ import { Input } from "./input";
 import { Button } from "./button";
 import { useSpaceSettings } from "~/hooks/use-space-settings";
 import { useSpace } from "~/contexts/space-context";
-import { Eye, EyeOff } from "lucide-react";
+import { downloadSpaceArchive, loadAuthEvents } from "~/lib/space-utils";
+import type { AuthEvent } from "~/lib/space-utils";
+import { Download, Eye, EyeOff } from "lucide-react";
 
 interface SpaceSettingsModalProps {
   children: React.ReactNode;
 }
 
+const AUTH_OUTCOME_LABELS: Record<string, { label: string; className: string }> = {
+  success: { label: "Joined", className: "text-green-600" },
+  failure: { label: "Wrong password", className: "text-red-600" },
+  locked: { label: "Locked out", className: "text-amber-600" },
+};
+
+const AUTH_METHOD_LABELS: Record<string, string> = {
+  password: "password",
+  share_link: "share link",
+};
+
 export function SpaceSettingsModal({ children }: SpaceSettingsModalProps) {
   const { space } = useSpace();
   const [isOpen, setIsOpen] = useState(false);
@@ -23,6 +36,10 @@ export function SpaceSettingsModal({ children }: SpaceSettingsModalProps) {
   // const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [authEvents, setAuthEvents] = useState<AuthEvent[]>([]);
+  const [authEventsError, setAuthEventsError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   const { updateTitle, /* updatePassword, */ isLoading, error, clearError } =
     useSpaceSettings(space?.id || "");
@@ -36,6 +53,16 @@ export function SpaceSettingsModal({ children }: SpaceSettingsModalProps) {
     }
   }, [space, isOpen]);
 
+  // Load the access log when the modal opens
+  useEffect(() => {
+    if (!space || !isOpen) return;
+
+    loadAuthEvents(space.id).then((result) => {
+      setAuthEvents(result.events);
+      setAuthEventsError(result.error ?? null);
+    });
+  }, [space?.id, isOpen]);
+
   // Track changes
   useEffect(() => {
     if (space) {
@@ -71,6 +98,19 @@ export function SpaceSettingsModal({ children }: SpaceSettingsModalProps) {
     }
   };
 
+  const handleExport = async () => {
+    if (!space) return;
+
+    setIsExporting(true);
+    setExportError(null);
+    const result = await downloadSpaceArchive(space.id);
+    setIsExporting(false);
+
+    if (!result.success) {
+      setExportError(result.error || "Failed to export the space");
+    }
+  };
+
   const handleCancel = () => {
     if (space) {
       setTitle(space.title || "");
@@ -84,7 +124,7 @@ export function SpaceSettingsModal({ children }: SpaceSettingsModalProps) {
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>{children}</DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Space Settings</DialogTitle>
         </DialogHeader>
@@ -107,6 +147,66 @@ export function SpaceSettingsModal({ children }: SpaceSettingsModalProps) {
             </div>
           )}
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Export</label>
+            <p className="text-xs text-muted-foreground">
+              Spaces are deleted after 30 days without visits. Download every
+              page with its content, files and images as a .zip, which can be
+              imported as a new space from Create New Space.
+            </p>
+            {space && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={isExporting}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {isExporting ? "Exporting..." : "Export Space"}
+              </Button>
+            )}
+            {exportError && (
+              <p className="text-sm text-red-600">{exportError}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Recent access</label>
+            {authEventsError ? (
+              <p className="text-sm text-red-600">{authEventsError}</p>
+            ) : authEvents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Password attempts and share link joins will show up here.
+              </p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                {authEvents.map((event) => {
+                  const outcome = AUTH_OUTCOME_LABELS[event.outcome];
+
+                  return (
+                    <div
+                      key={event.id}
+                      className="flex items-center gap-2 px-3 py-1.5 text-xs"
+                    >
+                      <span
+                        className={`font-medium ${outcome?.className ?? ""}`}
+                      >
+                        {outcome?.label ?? event.outcome}
+                      </span>
+                      <span className="text-muted-foreground">
+                        via {AUTH_METHOD_LABELS[event.method] ?? event.method}
+                      </span>
+                      <span className="flex-1 truncate text-right text-muted-foreground">
+                        {event.origin || "unknown"} ·{" "}
+                        {new Date(event.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
           <div className="flex justify-end space-x-2 pt-4">
             <Button
               variant="outline"
@@ -0,0 +1,113 @@
+'use client';
+
+import * as React from 'react';
+
+import type {
+  TTableCellElement,
+  TTableElement,
+  TTableRowElement,
+} from 'platejs';
+import type { PlateElementProps } from 'platejs/react';
+
+import { getRowSpan } from '@platejs/table';
+import {
+  TableProvider,
+  useTableCellElement,
+  useTableColSizes,
+  useTableElement,
+} from '@platejs/table/react';
+import { PlateElement, useReadOnly, withHOC } from 'platejs/react';
+
+import { cn } from '~/lib/utils';
+
+export const TableElement = withHOC(
+  TableProvider,
+  function TableElement({
+    children,
+    ...props
+  }: PlateElementProps<TTableElement>) {
+    const readOnly = useReadOnly();
+    const { isSelectingCell, props: tableProps } = useTableElement();
+    const colSizes = useTableColSizes();
+
+    return (
+      <PlateElement {...props} className="overflow-x-auto py-5">
+        <table
+          className={cn(
+            'mr-0 ml-px table h-px table-fixed border-collapse',
+            isSelectingCell && 'selection:bg-transparent'
+          )}
+          {...(readOnly ? {} : tableProps)}
+        >
+          {colSizes.some(Boolean) && (
+            <colgroup>
+              {colSizes.map((width, index) => (
+                <col
+                  key={index}
+                  style={width ? { width, minWidth: width } : undefined}
+                />
+              ))}
+            </colgroup>
+          )}
+          <tbody className="min-w-full">{children}</tbody>
+        </table>
+      </PlateElement>
+    );
+  }
+);
+
+export function TableRowElement(props: PlateElementProps<TTableRowElement>) {
+  return (
+    <PlateElement {...props} as="tr" className="h-full">
+      {props.children}
+    </PlateElement>
+  );
+}
+
+export function TableCellElement({
+  isHeader,
+  ...props
+}: PlateElementProps<TTableCellElement> & {
+  isHeader?: boolean;
+}) {
+  const { element } = props;
+  const { colSpan, minHeight, selected, width } = useTableCellElement();
+
+  return (
+    <PlateElement
+      {...props}
+      as={isHeader ? 'th' : 'td'}
+      className={cn(
+        'h-full overflow-visible border border-border bg-background p-0',
+        element.background ? 'bg-(--cellBackground)' : 'bg-background',
+        isHeader && 'text-left font-normal *:m-0',
+        selected && 'bg-primary/5 ring-2 ring-ring ring-inset'
+      )}
+      style={
+        {
+          '--cellBackground': element.background,
+          maxWidth: width || 240,
+          minWidth: width || 120,
+        } as React.CSSProperties
+      }
+      attributes={{
+        ...props.attributes,
+        colSpan,
+        rowSpan: getRowSpan(element),
+      }}
+    >
+      <div
+        className="relative z-20 box-border h-full px-3 py-2"
+        style={{ minHeight }}
+      >
+        {props.children}
+      </div>
+    </PlateElement>
+  );
+}
+
+export function TableCellHeaderElement(
+  props: React.ComponentProps<typeof TableCellElement>
+) {
+  return <TableCellElement {...props} isHeader />;
+}
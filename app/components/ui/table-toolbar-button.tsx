@@ -0,0 +1,81 @@
+'use client';
+
+import * as React from 'react';
+
+import { TablePlugin } from '@platejs/table/react';
+import { KEYS } from 'platejs';
+import { useEditorPlugin, useEditorSelector } from 'platejs/react';
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './dropdown-menu';
+import { ToolbarButton } from './toolbar';
+
+// Insert a table, or add and remove rows and columns of the table at the cursor
+export function TableToolbarButton(
+  props: React.ComponentProps<typeof ToolbarButton>
+) {
+  const { editor, tf } = useEditorPlugin(TablePlugin);
+  const inTable = useEditorSelector(
+    (editor) => editor.api.some({ match: { type: KEYS.table } }),
+    []
+  );
+
+  const run = (transform: () => void) => () => {
+    transform();
+    editor.tf.focus();
+  };
+
+  return (
+    <DropdownMenu modal={false}>
+      <DropdownMenuTrigger asChild>
+        <ToolbarButton isDropdown {...props} />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        <DropdownMenuItem
+          onSelect={run(() =>
+            tf.insert.table({ colCount: 3, rowCount: 3 }, { select: true })
+          )}
+        >
+          Insert table
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          disabled={!inTable}
+          onSelect={run(() => tf.insert.tableRow())}
+        >
+          Add row below
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={!inTable}
+          onSelect={run(() => tf.insert.tableColumn())}
+        >
+          Add column right
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          disabled={!inTable}
+          onSelect={run(() => tf.remove.tableRow())}
+        >
+          Delete row
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={!inTable}
+          onSelect={run(() => tf.remove.tableColumn())}
+        >
+          Delete column
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={!inTable}
+          onSelect={run(() => tf.remove.table())}
+        >
+          Delete table
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
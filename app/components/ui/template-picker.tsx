@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { FileText, LayoutTemplate, Trash2 } from "lucide-react";
+import { BUILT_IN_TEMPLATES } from "~/lib/templates";
+import type { TemplateKind, TemplateSummary } from "~/lib/templates";
+import { deleteTemplate, loadTemplates } from "~/lib/space-utils";
+import { Button } from "./button";
+import { cn } from "~/lib/utils";
+
+interface TemplatePickerProps {
+  kind: TemplateKind;
+  // Spaces whose saved templates are offered (those this browser can open)
+  spaceIds: string[];
+  value: string | null;
+  onChange: (templateId: string | null) => void;
+  // Label of the "no template" choice; leave out to require a template
+  blankLabel?: string;
+  disabled?: boolean;
+}
+
+function TemplateOption({
+  template,
+  selected,
+  disabled,
+  onSelect,
+  onDelete,
+}: {
+  template: Pick<TemplateSummary, "name" | "description">;
+  selected: boolean;
+  disabled?: boolean;
+  onSelect: () => void;
+  onDelete?: () => void;
+}) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 rounded-md border px-3 py-2 text-sm",
+        selected ? "border-primary bg-accent" : "hover:bg-accent/50"
+      )}
+    >
+      <button
+        type="button"
+        role="radio"
+        aria-checked={selected}
+        className="min-w-0 flex-1 text-left"
+        onClick={onSelect}
+        disabled={disabled}
+      >
+        <p className="truncate font-medium">{template.name}</p>
+        {template.description && (
+          <p className="truncate text-xs text-muted-foreground">
+            {template.description}
+          </p>
+        )}
+      </button>
+      {onDelete && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0 text-red-600"
+          onClick={onDelete}
+          disabled={disabled}
+          title="Delete template"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Choose a template: the built-in ones, then the ones saved in the given
+// spaces, newest first. Saved templates can be deleted from here; the server
+// only allows it for editors of the space they were saved from.
+export function TemplatePicker({
+  kind,
+  spaceIds,
+  value,
+  onChange,
+  blankLabel,
+  disabled,
+}: TemplatePickerProps) {
+  const [saved, setSaved] = useState<TemplateSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const builtIn = BUILT_IN_TEMPLATES.filter((template) => template.kind === kind);
+  const spaceIdsKey = spaceIds.join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    loadTemplates(spaceIds, kind).then((result) => {
+      if (cancelled) return;
+      setSaved(result.templates);
+      setError(result.error ?? null);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, spaceIdsKey]);
+
+  const handleDelete = async (template: TemplateSummary) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+
+    const result = await deleteTemplate(template.id);
+    if (!result.success) {
+      setError(result.error || "Failed to delete the template");
+      return;
+    }
+
+    setSaved((current) => current.filter((t) => t.id !== template.id));
+    if (value === template.id) onChange(null);
+  };
+
+  return (
+    <div role="radiogroup" className="flex max-h-72 flex-col gap-2 overflow-y-auto">
+      {blankLabel && (
+        <TemplateOption
+          template={{ name: blankLabel, description: null }}
+          selected={value === null}
+          disabled={disabled}
+          onSelect={() => onChange(null)}
+        />
+      )}
+      <p className="flex items-center gap-1 pt-1 text-xs font-medium text-muted-foreground">
+        <LayoutTemplate className="h-3 w-3" />
+        Built-in templates
+      </p>
+      {builtIn.map((template) => (
+        <TemplateOption
+          key={template.id}
+          template={template}
+          selected={value === template.id}
+          disabled={disabled}
+          onSelect={() => onChange(template.id)}
+        />
+      ))}
+      <p className="flex items-center gap-1 pt-1 text-xs font-medium text-muted-foreground">
+        <FileText className="h-3 w-3" />
+        Saved templates
+      </p>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Loading templates...</p>
+      ) : saved.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {kind === "page"
+            ? "Right-click a page and choose Save as template to add one here."
+            : "Save a space as a template from its sidebar to add one here."}
+        </p>
+      ) : (
+        saved.map((template) => (
+          <TemplateOption
+            key={template.id}
+            template={template}
+            selected={value === template.id}
+            disabled={disabled}
+            onSelect={() => onChange(template.id)}
+            onDelete={() => handleDelete(template)}
+          />
+        ))
+      )}
+    </div>
+  );
+}
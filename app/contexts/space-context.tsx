@@ -1,14 +1,39 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+} from "react";
+import { useParams } from "react-router";
 import type { Tables } from "../../database.types";
 import {
   checkSpaceRequirements,
+  checkSpaceSession,
   joinSpaceSecure,
   loadPagesForSpace,
   createPage as createPageUtil,
   renamePage as renamePageUtil,
   deletePage as deletePageUtil,
+  duplicatePage as duplicatePageUtil,
+  reorderPages as reorderPagesUtil,
+  subscribeToPageChanges,
   addRecentlyVisitedSpace,
+  registerParticipant,
+  getParticipant,
+  updateParticipantName,
 } from "~/lib/space-utils";
+import type { Participant } from "~/lib/space-utils";
+import {
+  generateParticipantName,
+  getParticipantColor,
+  joinSpacePresence,
+} from "~/lib/presence";
+import type { OnlineParticipant } from "~/lib/presence";
+import { roleAllows } from "~/lib/space-roles";
+import type { SpaceRole } from "~/lib/space-roles";
+import { applyPageOrder } from "~/lib/page-tree";
+import type { SubpageDeletion } from "~/lib/page-tree";
 
 type Space = Tables<"spaces">;
 type Page = Tables<"pages">;
@@ -20,38 +45,37 @@ interface SpaceContextType {
   error: string | null;
   requiresPassword: boolean;
   isAuthenticated: boolean;
+  // Role of this browser in the space (from password entry or a share link)
+  role: SpaceRole | null;
+  canEdit: boolean;
+  canComment: boolean;
   loadSpace: (spaceId: string) => Promise<void>;
-  authenticateSpace: (password: string) => Promise<boolean>;
+  // error is only set when the server refuses to check the password (lockout)
+  authenticateSpace: (
+    password: string
+  ) => Promise<{ success: boolean; error?: string }>;
   clearSpace: () => void;
   createPage: (
     title: string,
-    type: "document" | "moodboard" | "kanban"
+    type: "document" | "moodboard" | "kanban",
+    parentId?: string | null
   ) => Promise<boolean>;
   renamePage: (pageId: string, newTitle: string) => Promise<boolean>;
-  deletePage: (pageId: string) => Promise<boolean>;
+  deletePage: (pageId: string, subpages?: SubpageDeletion) => Promise<boolean>;
+  duplicatePage: (pageId: string) => Promise<boolean>;
+  // Put the pages under one parent (null: top level) in the given order
+  reorderPages: (parentId: string | null, pageIds: string[]) => Promise<boolean>;
   loadPages: () => Promise<void>;
+  participant: Participant | null;
+  participantColor: string;
+  onlineParticipants: OnlineParticipant[];
+  renameParticipant: (name: string) => Promise<boolean>;
 }
 
 const SpaceContext = createContext<SpaceContextType | undefined>(undefined);
 
 export { SpaceContext };
 
-// Helper to manage authenticated spaces in localStorage
-const getAuthenticatedSpaces = (): Set<string> => {
-  if (typeof window === "undefined") return new Set();
-  try {
-    const stored = localStorage.getItem("wrkinspace_authenticated");
-    return new Set(stored ? JSON.parse(stored) : []);
-  } catch {
-    return new Set();
-  }
-};
-
-const saveAuthenticatedSpaces = (spaces: Set<string>) => {
-  if (typeof window === "undefined") return;
-  localStorage.setItem("wrkinspace_authenticated", JSON.stringify([...spaces]));
-};
-
 export function useSpace() {
   const context = useContext(SpaceContext);
   if (context === undefined) {
@@ -75,6 +99,15 @@ export function SpaceProvider({
   const [error, setError] = useState<string | null>(null);
   const [requiresPassword, setRequiresPassword] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [role, setRole] = useState<SpaceRole | null>(null);
+  const [participant, setParticipant] = useState<Participant | null>(null);
+  const [onlineParticipants, setOnlineParticipants] = useState<
+    OnlineParticipant[]
+  >([]);
+  const presenceRef = useRef<ReturnType<typeof joinSpacePresence> | null>(
+    null
+  );
+  const { pageId } = useParams();
 
   const loadPages = async () => {
     if (!space) return;
@@ -102,7 +135,8 @@ export function SpaceProvider({
 
   const createPage = async (
     title: string,
-    type: "document" | "moodboard" | "kanban"
+    type: "document" | "moodboard" | "kanban",
+    parentId: string | null = null
   ): Promise<boolean> => {
     if (!space) {
       console.error("No space available for creating page");
@@ -110,7 +144,7 @@ export function SpaceProvider({
     }
 
     try {
-      const result = await createPageUtil(space.id, title, type);
+      const result = await createPageUtil(space.id, title, type, parentId);
       if (result.error || !result.page) {
         console.error("Error creating page:", result.error);
         setError(result.error || "Failed to create page");
@@ -157,17 +191,30 @@ export function SpaceProvider({
     }
   };
 
-  const deletePage = async (pageId: string): Promise<boolean> => {
+  const deletePage = async (
+    pageId: string,
+    subpages: SubpageDeletion = "move_up"
+  ): Promise<boolean> => {
     try {
-      const result = await deletePageUtil(pageId);
+      const result = await deletePageUtil(pageId, subpages);
       if (!result.success) {
         console.error("Error deleting page:", result.error);
         setError(result.error || "Failed to delete page");
         return false;
       }
 
-      // Remove the page from the pages state
-      setPages((prevPages) => prevPages.filter((page) => page.id !== pageId));
+      // Remove the deleted pages; subpages that were kept now hang off the
+      // deleted page's parent
+      setPages((prevPages) => {
+        const deleted = prevPages.find((page) => page.id === pageId);
+        return prevPages
+          .filter((page) => !result.deletedPageIds.includes(page.id))
+          .map((page) =>
+            page.parent_id === pageId
+              ? { ...page, parent_id: deleted?.parent_id ?? null }
+              : page
+          );
+      });
       return true;
     } catch (err) {
       const errorMessage =
@@ -178,6 +225,53 @@ export function SpaceProvider({
     }
   };
 
+  const duplicatePage = async (pageId: string): Promise<boolean> => {
+    try {
+      const result = await duplicatePageUtil(pageId);
+      if (result.error || !result.page) {
+        console.error("Error duplicating page:", result.error);
+        setError(result.error || "Failed to duplicate page");
+        return false;
+      }
+
+      // The copy is placed right after the original, which moves the pages
+      // after it down; load them again rather than redo that here
+      await loadPages();
+      return true;
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to duplicate page";
+      console.error("Error duplicating page:", err);
+      setError(errorMessage);
+      return false;
+    }
+  };
+
+  const reorderPages = async (
+    parentId: string | null,
+    pageIds: string[]
+  ): Promise<boolean> => {
+    if (!space) return false;
+
+    // Show the new order right away; reload the pages if it didn't stick
+    const order = pageIds.map((id, index) => ({ id, order: index + 1 }));
+    setPages((prevPages) => applyPageOrder(prevPages, order));
+
+    try {
+      const result = await reorderPagesUtil(space.id, parentId, pageIds);
+      if (!result.success) {
+        console.error("Error reordering pages:", result.error);
+        await loadPages();
+        return false;
+      }
+      return true;
+    } catch (err) {
+      console.error("Error reordering pages:", err);
+      await loadPages();
+      return false;
+    }
+  };
+
   const loadSpace = async (spaceId: string) => {
     if (!spaceId) return;
 
@@ -199,6 +293,7 @@ export function SpaceProvider({
         id: spaceId,
         title: result.title || null,
         password: null, // We don't expose the actual password
+        has_password: result.requiresPassword,
         qr_code_data: "", // This would need to be fetched separately if needed
         created_at: null, // This would need to be fetched separately if needed
         last_accessed: null, // This would need to be fetched separately if needed
@@ -210,13 +305,16 @@ export function SpaceProvider({
       // Add to recently visited spaces
       addRecentlyVisitedSpace(spaceId, result.title);
 
-      // Check authentication status
-      if (result.requiresPassword) {
-        const authenticatedSpaces = getAuthenticatedSpaces();
-        setIsAuthenticated(authenticatedSpaces.has(spaceId));
-      } else {
-        setIsAuthenticated(true);
+      // Check authentication status and role against the server-issued
+      // session cookie. Open spaces are editable unless opened through a
+      // share link with a narrower role.
+      const session = await checkSpaceSession(spaceId);
+      if (session.error) {
+        console.error("Error checking space session:", session.error);
       }
+      const isOpen = !result.requiresPassword;
+      setIsAuthenticated(session.isAuthenticated || isOpen);
+      setRole(session.role ?? (isOpen ? "editor" : null));
 
       // Load pages for this space - but only after setting space
       // We'll call loadPages after space is set using useEffect
@@ -228,34 +326,37 @@ export function SpaceProvider({
       setSpace(null);
       setRequiresPassword(false);
       setIsAuthenticated(false);
+      setRole(null);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const authenticateSpace = async (password: string): Promise<boolean> => {
+  const authenticateSpace = async (
+    password: string
+  ): Promise<{ success: boolean; error?: string }> => {
     if (!space) {
       console.error("No space available for authentication");
-      return false;
+      return { success: false };
     }
 
     try {
       const result = await joinSpaceSecure(space.id, password);
 
       if (result.success) {
-        // Add to authenticated spaces
-        const authenticatedSpaces = getAuthenticatedSpaces();
-        authenticatedSpaces.add(space.id);
-        saveAuthenticatedSpaces(authenticatedSpaces);
-
+        // The server has set the session cookie
         setIsAuthenticated(true);
-        return true;
+        setRole("editor");
+        return { success: true };
       }
 
-      return false;
+      return {
+        success: false,
+        error: result.rateLimited ? result.error : undefined,
+      };
     } catch (error) {
       console.error("Authentication failed with exception:", error);
-      return false;
+      return { success: false };
     }
   };
 
@@ -265,8 +366,67 @@ export function SpaceProvider({
     setError(null);
     setRequiresPassword(false);
     setIsAuthenticated(false);
+    setRole(null);
+    setParticipant(null);
+    setOnlineParticipants([]);
   };
 
+  // Join the space as a participant, reusing the one this session joined as
+  const loadParticipant = async (spaceId: string) => {
+    try {
+      const existing = await getParticipant(spaceId);
+      if (existing.participant) {
+        setParticipant(existing.participant);
+        return;
+      }
+
+      const result = await registerParticipant(
+        spaceId,
+        generateParticipantName()
+      );
+      if (result.error || !result.participant) {
+        console.error("Error registering participant:", result.error);
+        return;
+      }
+
+      setParticipant(result.participant);
+    } catch (err) {
+      console.error("Exception loading participant:", err);
+    }
+  };
+
+  const renameParticipant = async (name: string): Promise<boolean> => {
+    if (!participant || !name.trim()) return false;
+
+    try {
+      const result = await updateParticipantName(participant.space_id, name.trim());
+      if (!result.success) {
+        console.error("Error renaming participant:", result.error);
+        return false;
+      }
+
+      setParticipant({ ...participant, name: name.trim(), anonymous: false });
+      return true;
+    } catch (err) {
+      console.error("Error renaming participant:", err);
+      return false;
+    }
+  };
+
+  const participantColor = participant
+    ? getParticipantColor(participant.id)
+    : "#6b7280";
+
+  const getPresence = (): OnlineParticipant | null =>
+    participant
+      ? {
+          participantId: participant.id,
+          name: participant.name || "Anonymous",
+          color: participantColor,
+          pageId: pageId || null,
+        }
+      : null;
+
   // Load pages when space is loaded and user is authenticated
   useEffect(() => {
     if (space && isAuthenticated) {
@@ -274,6 +434,50 @@ export function SpaceProvider({
     }
   }, [space, isAuthenticated]);
 
+  // Follow page changes made in other sessions
+  useEffect(() => {
+    if (!space || !isAuthenticated) return;
+
+    return subscribeToPageChanges(space.id, (event) => {
+      if (event.type === "reorder") {
+        setPages((prevPages) => applyPageOrder(prevPages, event.pages));
+      }
+    });
+  }, [space?.id, isAuthenticated]);
+
+  // Register as a participant once we're allowed into the space
+  useEffect(() => {
+    if (space && isAuthenticated) {
+      loadParticipant(space.id);
+    }
+  }, [space?.id, isAuthenticated]);
+
+  // Show up as online for as long as the space is open
+  useEffect(() => {
+    const presence = getPresence();
+    if (!space || !presence) return;
+
+    presenceRef.current = joinSpacePresence(
+      space.id,
+      presence,
+      setOnlineParticipants
+    );
+
+    return () => {
+      presenceRef.current?.leave();
+      presenceRef.current = null;
+      setOnlineParticipants([]);
+    };
+  }, [space?.id, participant?.id]);
+
+  // Let others know which page we're on and what we're called
+  useEffect(() => {
+    const presence = getPresence();
+    if (presence) {
+      presenceRef.current?.update(presence);
+    }
+  }, [pageId, participant?.name]);
+
   // Load initial space if provided
   useEffect(() => {
     if (initialSpaceId) {
@@ -288,13 +492,22 @@ export function SpaceProvider({
     error,
     requiresPassword,
     isAuthenticated,
+    role,
+    canEdit: roleAllows(role, "editor"),
+    canComment: roleAllows(role, "commenter"),
     loadSpace,
     authenticateSpace,
     clearSpace,
     createPage,
     renamePage,
     deletePage,
+    duplicatePage,
+    reorderPages,
     loadPages,
+    participant,
+    participantColor,
+    onlineParticipants,
+    renameParticipant,
   };
 
   return (
@@ -0,0 +1,78 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { PlateEditor } from 'platejs/react';
+import { usePluginOption } from 'platejs/react';
+import { DocumentCommentsPlugin } from '~/components/comment-kit';
+import {
+  loadComments,
+  createComment,
+  setCommentThreadResolved,
+  subscribeToCommentChanges
+} from '~/lib/space-utils';
+import type { DocumentComment, NewDocumentComment } from '~/lib/space-utils';
+import { groupCommentThreads, upsertComment } from '~/lib/document-comments';
+
+// Comment threads of a document page, kept live over realtime. The threads
+// are also handed to the editor's DocumentCommentsPlugin, which highlights
+// what they're anchored to.
+export function useDocumentComments(editor: PlateEditor, pageId: string) {
+  const [comments, setComments] = useState<DocumentComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const threads = useMemo(() => groupCommentThreads(comments), [comments]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    loadComments(pageId).then((result) => {
+      if (cancelled) return;
+      // Anything that arrived over realtime while loading is in the result too
+      setComments(result.comments);
+      setError(result.error ?? null);
+      setIsLoading(false);
+    });
+
+    const unsubscribe = subscribeToCommentChanges(pageId, ({ comment }) => {
+      setComments((prev) => upsertComment(prev, comment));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [pageId]);
+
+  // Redraw the highlights when threads change or another one is picked
+  const activeThreadId = usePluginOption(DocumentCommentsPlugin, 'activeThreadId', editor);
+  const draft = usePluginOption(DocumentCommentsPlugin, 'draft', editor);
+
+  useEffect(() => {
+    editor.setOption(DocumentCommentsPlugin, 'threads', threads);
+    editor.api.redecorate();
+  }, [editor, threads, activeThreadId, draft]);
+
+  const addComment = useCallback(async (comment: NewDocumentComment) => {
+    const result = await createComment(pageId, comment);
+    if (result.comment) {
+      setComments((prev) => upsertComment(prev, result.comment!));
+    }
+    return result;
+  }, [pageId]);
+
+  const setResolved = useCallback(async (threadId: string, resolved: boolean) => {
+    const result = await setCommentThreadResolved(pageId, threadId, resolved);
+    if (result.comment) {
+      setComments((prev) => upsertComment(prev, result.comment!));
+    }
+    return result;
+  }, [pageId]);
+
+  return {
+    threads,
+    isLoading,
+    error,
+    addComment,
+    setResolved,
+  };
+}
@@ -1,19 +1,24 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { Value } from 'platejs';
 import { 
   loadDocumentBlocks, 
   saveDocumentBlocks, 
-  convertBlocksToPlateValue,
-  autoSaveDocumentBlocks
+  convertBlocksToPlateValue
 } from '~/lib/space-utils';
 
 // Helper function to check if we should log (not in production)
 const shouldLog = () => false
 
+// A failed save is retried after 2s, 4s and 8s before giving up until the
+// next edit or a manual save
+const SAVE_RETRY_DELAYS_MS = [2000, 4000, 8000];
+
 interface UseDocumentDataOptions {
   pageId: string;
   autoSaveEnabled?: boolean;
   autoSaveDelayMs?: number;
+  // Credited in the version history for snapshots taken by our saves
+  participantId?: string | null;
 }
 
 interface UseDocumentDataReturn {
@@ -22,7 +27,13 @@ interface UseDocumentDataReturn {
   error: string | null;
   isSaving: boolean;
   lastSaved: string | null;
-  setValue: (newValue: Value) => void;
+  // Error of the latest save, cleared once a save succeeds
+  saveError: string | null;
+  // Which retry of a failed save is scheduled (0 when none)
+  saveRetry: number;
+  // Pass autoSave = false for content that another client saves (edits
+  // relayed from collaborators), so each change is written once
+  setValue: (newValue: Value, autoSave?: boolean) => void;
   saveNow: () => Promise<boolean>;
   refetch: () => Promise<void>;
 }
@@ -30,7 +41,8 @@ interface UseDocumentDataReturn {
 export function useDocumentData({
   pageId,
   autoSaveEnabled = true,
-  autoSaveDelayMs = 2000
+  autoSaveDelayMs = 2000,
+  participantId = null
 }: UseDocumentDataOptions): UseDocumentDataReturn {
   const [value, setValue] = useState<Value>([
     {
@@ -42,6 +54,17 @@ export function useDocumentData({
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveRetry, setSaveRetry] = useState(0);
+
+  // The save timers and latest value live in refs so autosave always sends
+  // the newest content and never runs two saves of the page at once
+  const latestValue = useRef<Value>(value);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const saveInFlight = useRef<Promise<boolean> | null>(null);
+  const saveQueued = useRef(false);
+  const saveParticipantId = useRef(participantId);
+  saveParticipantId.current = participantId;
 
   // Load document blocks from database
   const loadData = useCallback(async () => {
@@ -66,6 +89,7 @@ export function useDocumentData({
       if (shouldLog()) console.log('Converted blocks to Plate value (detailed):', JSON.stringify(plateValue, null, 2));
       if (shouldLog()) console.log('Setting editor value to:', plateValue);
       setValue(plateValue);
+      latestValue.current = plateValue;
       
       if (result.blocks.length > 0) {
         setLastSaved('Loaded from database');
@@ -82,49 +106,89 @@ export function useDocumentData({
     }
   }, [pageId]);
 
-  // Save document blocks to database
-  const saveNow = useCallback(async (): Promise<boolean> => {
+  const clearSaveTimer = () => {
+    if (saveTimer.current) {
+      clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+  };
+
+  // Save the latest value, retrying with backoff when it fails
+  const runSave = useCallback(async (attempt: number = 0): Promise<boolean> => {
     if (!pageId) {
       console.warn('Cannot save: no pageId provided');
       return false;
     }
 
-    if (shouldLog()) console.log('Saving document data for page:', pageId);
+    // Edits made while a save is running are saved right after it
+    if (saveInFlight.current) {
+      saveQueued.current = true;
+      return saveInFlight.current;
+    }
+
+    clearSaveTimer();
+    if (shouldLog()) console.log('Saving document data for page:', pageId, 'attempt:', attempt);
     setIsSaving(true);
-    setError(null);
 
-    try {
-      const result = await saveDocumentBlocks(pageId, value);
-      
-      if (result.error) {
-        console.error('Error saving document blocks:', result.error);
-        setError(result.error);
+    const save = (async () => {
+      try {
+        const result = await saveDocumentBlocks(pageId, latestValue.current, saveParticipantId.current);
+        if (result.error) throw new Error(result.error);
+
+        if (shouldLog()) console.log('Document saved successfully');
+        setSaveError(null);
+        setSaveRetry(0);
+        setLastSaved(new Date().toLocaleTimeString());
+        return true;
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to save document';
+        console.error('Error saving document blocks:', errorMessage);
+        setSaveError(errorMessage);
+
+        if (attempt < SAVE_RETRY_DELAYS_MS.length) {
+          setSaveRetry(attempt + 1);
+          saveTimer.current = setTimeout(() => runSave(attempt + 1), SAVE_RETRY_DELAYS_MS[attempt]);
+        } else {
+          setSaveRetry(0);
+        }
         return false;
       }
+    })();
 
-      if (shouldLog()) console.log('Document saved successfully');
-      setLastSaved(new Date().toLocaleTimeString());
-      return true;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to save document';
-      console.error('Exception saving document data:', err);
-      setError(errorMessage);
-      return false;
-    } finally {
-      setIsSaving(false);
+    saveInFlight.current = save;
+    const success = await save;
+    saveInFlight.current = null;
+    setIsSaving(false);
+
+    if (saveQueued.current) {
+      saveQueued.current = false;
+      return runSave();
     }
-  }, [pageId, value]);
+
+    return success;
+  }, [pageId]);
+
+  // Save right away (manual save, or retrying after autosave gave up)
+  const saveNow = useCallback(() => runSave(), [runSave]);
 
   // Handle value changes with auto-save
-  const handleValueChange = useCallback((newValue: Value) => {
+  const handleValueChange = useCallback((newValue: Value, autoSave: boolean = true) => {
     setValue(newValue);
+    latestValue.current = newValue;
     
-    if (autoSaveEnabled && pageId) {
-      // Trigger auto-save
-      autoSaveDocumentBlocks(pageId, newValue, autoSaveDelayMs);
+    if (autoSave && autoSaveEnabled && pageId) {
+      // Debounce: restart the timer on every change (this also replaces a
+      // scheduled retry, which would have saved older content)
+      clearSaveTimer();
+      saveTimer.current = setTimeout(() => runSave(), autoSaveDelayMs);
       setLastSaved('Auto-saving...');
     }
-  }, [pageId, autoSaveEnabled, autoSaveDelayMs]);
+  }, [pageId, autoSaveEnabled, autoSaveDelayMs, runSave]);
+
+  // Save pending edits right away when the editor closes instead of dropping them
+  useEffect(() => () => {
+    if (saveTimer.current) runSave();
+  }, [runSave]);
 
   // Load initial data
   useEffect(() => {
@@ -137,6 +201,8 @@ export function useDocumentData({
     error,
     isSaving,
     lastSaved,
+    saveError,
+    saveRetry,
     setValue: handleValueChange,
     saveNow,
     refetch: loadData
@@ -1,12 +1,13 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { 
   loadMoodboardItems, 
   createMoodboardItem,
   updateMoodboardItem, 
   deleteMoodboardItem,
-  deleteMoodboardItems 
+  deleteMoodboardItems,
+  subscribeToMoodboardChanges
 } from '~/lib/space-utils';
-import type { MoodboardItem } from '~/lib/space-utils';
+import type { MoodboardItem, MoodboardRealtimeEvent } from '~/lib/space-utils';
 
 interface CanvasPosition {
   x: number;
@@ -17,6 +18,16 @@ export function useMoodboardData(pageId: string) {
   const [items, setItems] = useState<MoodboardItem[]>([]);
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLive, setIsLive] = useState(false);
+
+  // Items currently being dragged or resized here; remote updates to them are
+  // ignored until the drop, which writes our final position anyway
+  const interactingIdsRef = useRef(new Set<string>());
+  // Writes whose realtime echo hasn't come back yet, oldest first
+  const pendingWritesRef = useRef(new Map<string, MoodboardItem[]>());
+  // Items created in this session; only these are cleaned up when left empty,
+  // so a teammate's freshly placed text box isn't deleted under them
+  const createdIdsRef = useRef(new Set<string>());
 
   // Load items from database
   const loadItems = useCallback(async () => {
@@ -65,7 +76,11 @@ export function useMoodboardData(pageId: string) {
 
     if (result.item) {
       // Update local state with the item that has the DB-generated ID
-      setItems((prev) => [...prev, result.item!]);
+      // (the realtime echo may already have added it)
+      createdIdsRef.current.add(result.item.id);
+      setItems((prev) =>
+        prev.some((item) => item.id === result.item!.id) ? prev : [...prev, result.item!]
+      );
       setSelectedItemId(result.item.id);
       return result.item;
     }
@@ -88,15 +103,76 @@ export function useMoodboardData(pageId: string) {
       return newItems;
     });
 
+    interactingIdsRef.current.delete(id);
+
     // Save to database
     if (updatedItem) {
-      const result = await updateMoodboardItem(updatedItem, pageId);
+      const written: MoodboardItem = updatedItem;
+      const pending = pendingWritesRef.current;
+      pending.set(id, [...(pending.get(id) || []), written]);
+
+      const result = await updateMoodboardItem(written, pageId);
       if (result.error) {
         console.error('Failed to update item:', result.error);
+        // No echo will come for a failed write
+        const remaining = (pending.get(id) || []).filter((item) => item !== written);
+        if (remaining.length > 0) {
+          pending.set(id, remaining);
+        } else {
+          pending.delete(id);
+        }
       }
     }
   }, [pageId]);
 
+  // Mark an item as being dragged or resized; cleared by the next updateItem
+  const beginItemInteraction = useCallback((id: string) => {
+    interactingIdsRef.current.add(id);
+  }, []);
+
+  // Apply an item change made by someone else on this board
+  const handleRealtimeEvent = useCallback((event: MoodboardRealtimeEvent) => {
+    if (event.eventType === 'DELETE') {
+      interactingIdsRef.current.delete(event.id);
+      pendingWritesRef.current.delete(event.id);
+      createdIdsRef.current.delete(event.id);
+      setItems((prev) => prev.filter((item) => item.id !== event.id));
+      setSelectedItemId((prev) => (prev === event.id ? null : prev));
+      return;
+    }
+
+    const remoteItem = event.item;
+
+    if (event.eventType === 'INSERT') {
+      setItems((prev) =>
+        prev.some((item) => item.id === remoteItem.id) ? prev : [...prev, remoteItem]
+      );
+      return;
+    }
+
+    // Our own writes come back as updates. Once the echo of a write arrives,
+    // everything queued before it is stale; anything that doesn't match a
+    // pending write was written before ours landed, so ours wins.
+    const pending = pendingWritesRef.current.get(remoteItem.id);
+    if (pending) {
+      const echoIndex = pending.findIndex((item) => isSameItem(item, remoteItem));
+      const remaining = echoIndex >= 0 ? pending.slice(echoIndex + 1) : pending;
+      if (remaining.length > 0) {
+        pendingWritesRef.current.set(remoteItem.id, remaining);
+      } else {
+        pendingWritesRef.current.delete(remoteItem.id);
+      }
+      return;
+    }
+
+    // Don't yank an item out from under the pointer
+    if (interactingIdsRef.current.has(remoteItem.id)) return;
+
+    setItems((prev) =>
+      prev.map((item) => (item.id === remoteItem.id ? remoteItem : item))
+    );
+  }, []);
+
   // Delete item
   const deleteItem = useCallback(async (itemId: string) => {
     // Update local state immediately
@@ -107,11 +183,11 @@ export function useMoodboardData(pageId: string) {
     }
     
     // Delete from database
-    const result = await deleteMoodboardItem(itemId);
+    const result = await deleteMoodboardItem(pageId, itemId);
     if (result.error) {
       console.error('Failed to delete item:', result.error);
     }
-  }, [selectedItemId]);
+  }, [pageId, selectedItemId]);
 
   // Delete selected item
   const deleteSelectedItem = useCallback(async () => {
@@ -127,6 +203,9 @@ export function useMoodboardData(pageId: string) {
       const filteredItems = prev.filter((item) => {
         // Keep non-text items
         if (item.type !== "text") return true;
+
+        // Keep items someone else is still filling in
+        if (!createdIdsRef.current.has(item.id)) return true;
         
         // Keep selected items (even if empty)
         if (item.id === selectedItemId) return true;
@@ -144,25 +223,36 @@ export function useMoodboardData(pageId: string) {
       
       // Delete empty items from database
       if (itemsToDelete.length > 0) {
-        deleteMoodboardItems(itemsToDelete).catch(error => {
+        deleteMoodboardItems(pageId, itemsToDelete).catch(error => {
           console.error('Failed to delete empty items:', error);
         });
       }
       
       return filteredItems;
     });
-  }, [selectedItemId]);
+  }, [pageId, selectedItemId]);
 
   // Load items on mount
   useEffect(() => {
     loadItems();
   }, [loadItems]);
 
+  // Subscribe to item changes made by other people on this board
+  useEffect(() => {
+    if (!pageId) return;
+
+    interactingIdsRef.current.clear();
+    pendingWritesRef.current.clear();
+    return subscribeToMoodboardChanges(pageId, handleRealtimeEvent, setIsLive);
+  }, [pageId, handleRealtimeEvent]);
+
   return {
     items,
     selectedItemId,
     isLoading,
+    isLive,
     setSelectedItemId,
+    beginItemInteraction,
     createItem,
     updateItem,
     deleteItem,
@@ -171,6 +261,18 @@ export function useMoodboardData(pageId: string) {
   };
 }
 
+// Compare the persisted fields of two items
+function isSameItem(a: MoodboardItem, b: MoodboardItem): boolean {
+  return (
+    a.x === b.x &&
+    a.y === b.y &&
+    a.width === b.width &&
+    a.height === b.height &&
+    (a.content || '') === (b.content || '') &&
+    JSON.stringify(a.style || {}) === JSON.stringify(b.style || {})
+  );
+}
+
 // Get default style for item type
 function getDefaultStyle(type: MoodboardItem["type"]): React.CSSProperties {
   switch (type) {
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSpace } from '~/contexts/space-context';
+import { joinPageCursors } from '~/lib/presence';
+import type { RemoteCursor } from '~/lib/presence';
+
+// Minimum time between two cursor broadcasts; the latest value is always sent
+const CURSOR_THROTTLE_MS = 50;
+
+// Share our cursor on a page and follow everyone else's.
+// Cursors of participants who went offline or moved to another page are
+// dropped via space presence, in case their final hide message got lost.
+export function usePageCursors<T>(pageId: string) {
+  const { participant, participantColor, onlineParticipants } = useSpace();
+  const [cursors, setCursors] = useState<Record<string, RemoteCursor<T>>>({});
+
+  const channelRef = useRef<ReturnType<typeof joinPageCursors<T>> | null>(null);
+  const pendingDataRef = useRef<T | null | undefined>(undefined);
+  const throttleRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const participantId = participant?.id;
+  const name = participant?.name || 'Anonymous';
+
+  const sendCursor = useCallback((data: T | null) => {
+    if (!participantId) return;
+    channelRef.current?.send({ participantId, name, color: participantColor, data });
+  }, [participantId, name, participantColor]);
+
+  // Broadcast our cursor (null hides it), throttled
+  const updateCursor = useCallback((data: T | null) => {
+    pendingDataRef.current = data;
+    if (throttleRef.current) return;
+
+    sendCursor(data);
+    pendingDataRef.current = undefined;
+
+    throttleRef.current = setTimeout(() => {
+      throttleRef.current = null;
+      if (pendingDataRef.current !== undefined) {
+        sendCursor(pendingDataRef.current);
+        pendingDataRef.current = undefined;
+      }
+    }, CURSOR_THROTTLE_MS);
+  }, [sendCursor]);
+
+  useEffect(() => {
+    if (!pageId || !participantId) return;
+
+    const channel = joinPageCursors<T>(pageId, (cursor) => {
+      setCursors((prev) => {
+        if (cursor.data === null) {
+          const { [cursor.participantId]: _removed, ...rest } = prev;
+          return rest;
+        }
+        return { ...prev, [cursor.participantId]: cursor };
+      });
+    });
+    channelRef.current = channel;
+
+    return () => {
+      if (throttleRef.current) {
+        clearTimeout(throttleRef.current);
+        throttleRef.current = null;
+      }
+      pendingDataRef.current = undefined;
+      // Hide our cursor for everyone before leaving
+      channel.send({ participantId, name, color: participantColor, data: null });
+      channel.leave();
+      channelRef.current = null;
+      setCursors({});
+    };
+  }, [pageId, participantId]);
+
+  const onlineIds = new Set(
+    onlineParticipants.filter((p) => p.pageId === pageId).map((p) => p.participantId)
+  );
+  const remoteCursors = Object.values(cursors).filter(
+    (cursor) => cursor.participantId !== participantId && onlineIds.has(cursor.participantId)
+  );
+
+  return { remoteCursors, updateCursor };
+}
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router';
+import { SEARCH_FOCUS_PARAM } from '~/lib/space-search';
+
+// How long a search result stays highlighted after being scrolled to
+const FOCUS_HIGHLIGHT_MS = 2500;
+
+// The block, card or item a search result pointed at (?focus=<id>). Editors
+// call reveal() once they've scrolled to it; that drops the parameter, so a
+// reload or the back button doesn't jump again, and highlightedId stays set
+// for a moment so the result can be picked out.
+export function useSearchFocus() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const focusId = searchParams.get(SEARCH_FOCUS_PARAM);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  const reveal = useCallback(() => {
+    setHighlightedId(focusId);
+    setSearchParams((params) => {
+      params.delete(SEARCH_FOCUS_PARAM);
+      return params;
+    }, { replace: true });
+  }, [focusId, setSearchParams]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+
+    const timeout = setTimeout(() => setHighlightedId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  return { focusId, highlightedId, reveal };
+}
@@ -1,6 +1,8 @@
 import { useState, useContext } from 'react'
 import { useNavigate } from 'react-router'
-import { createSpace } from '~/lib/space-utils'
+import { createSpace, importMarkdownPages, importSpace } from '~/lib/space-utils'
+import { readMarkdownFiles } from '~/lib/document-import'
+import type { SubpageDeletion } from '~/lib/page-tree'
 import { SpaceContext } from "~/contexts/space-context";
 
 // Helper function to check if we should log (not in production)
@@ -15,12 +17,18 @@ export function useSpaceActions() {
 
   if (shouldLog()) console.log('useSpaceActions hook initialized')
 
-  const handleCreateSpace = async (options: { title?: string; password?: string } = {}) => {
+  const handleCreateSpace = async (
+    options: { title?: string; password?: string; templateId?: string; archive?: File } = {}
+  ) => {
     if (shouldLog()) console.log('handleCreateSpace called with options:', options)
     setIsCreating(true)
     try {
       if (shouldLog()) console.log('Creating space...')
-      const { spaceId, error, rateLimited } = await createSpace(options)
+      // An archive is a space export to recreate under a new ID
+      const { archive, ...spaceOptions } = options
+      const { spaceId, error, rateLimited } = archive
+        ? await importSpace(archive, spaceOptions)
+        : await createSpace(spaceOptions)
       
       if (error) {
         console.error('Failed to create space:', error)
@@ -36,19 +44,8 @@ export function useSpaceActions() {
 
       if (shouldLog()) console.log('Space created successfully with ID:', spaceId)
       
-      // If space was created with a password, automatically authenticate the creator
-      if (options.password && typeof window !== "undefined") {
-        try {
-          const stored = localStorage.getItem("wrkinspace_authenticated");
-          const authenticatedSpaces = new Set(stored ? JSON.parse(stored) : []);
-          authenticatedSpaces.add(spaceId);
-          localStorage.setItem("wrkinspace_authenticated", JSON.stringify([...authenticatedSpaces]));
-          if (shouldLog()) console.log('Creator automatically authenticated for new password-protected space:', spaceId);
-        } catch (err) {
-          console.error('Failed to save authentication state for new space:', err);
-          // Don't fail the whole operation for localStorage issues
-        }
-      }
+      // The creator of a password-protected space already got a session
+      // cookie from /api/create-space
       
       // Navigate to the new space
       navigate(`/space/${spaceId}`)
@@ -81,19 +78,7 @@ export function useSpaceActions() {
         throw new Error(result.error || 'Failed to join space')
       }
 
-      // Save authentication state to localStorage (same as other auth flows)
-      if (typeof window !== "undefined") {
-        try {
-          const stored = localStorage.getItem("wrkinspace_authenticated");
-          const authenticatedSpaces = new Set(stored ? JSON.parse(stored) : []);
-          authenticatedSpaces.add(spaceId);
-          localStorage.setItem("wrkinspace_authenticated", JSON.stringify([...authenticatedSpaces]));
-          if (shouldLog()) console.log('Authentication state saved for space:', spaceId);
-        } catch (err) {
-          console.error('Failed to save authentication state:', err);
-          // Don't fail the whole operation for localStorage issues
-        }
-      }
+      // The server has set the session cookie for protected spaces
 
       if (shouldLog()) console.log('Successfully validated space access, navigating to space:', spaceId)
       navigate(`/space/${spaceId}`)
@@ -105,7 +90,8 @@ export function useSpaceActions() {
   }
 
   const handleCreatePage = async (
-    type: "document" | "moodboard" | "kanban"
+    type: "document" | "moodboard" | "kanban",
+    parentId: string | null = null
   ) => {
     // Only allow page creation if we have space context
     if (!spaceContext) {
@@ -125,7 +111,7 @@ export function useSpaceActions() {
       pages.filter((p: any) => p.type === type).length + 1
     }`;
 
-    const success = await createPage(title, type);
+    const success = await createPage(title, type, parentId);
     if (success) {
       if (shouldLog()) console.log(`${typeNames[type]} created successfully`);
     }
@@ -133,6 +119,38 @@ export function useSpaceActions() {
     return success;
   };
 
+  // Bulk import: each selected .md file becomes a document page
+  const handleImportMarkdown = async (
+    selected: Iterable<File>
+  ): Promise<{ imported: number; error?: string }> => {
+    if (!spaceContext?.space) {
+      console.error('Cannot import Markdown: not within a space context');
+      return { imported: 0, error: 'Not within a space' };
+    }
+
+    const { space, loadPages } = spaceContext;
+    const { files, skipped } = await readMarkdownFiles(selected);
+
+    if (files.length === 0) {
+      return { imported: 0, error: 'No Markdown (.md) files were selected' };
+    }
+
+    const result = await importMarkdownPages(space.id, files);
+    if (result.pages.length > 0) {
+      await loadPages();
+    }
+
+    const errors = [
+      result.error,
+      skipped.length > 0 ? `Skipped (too large or too many): ${skipped.join(', ')}` : undefined,
+    ].filter(Boolean);
+
+    return {
+      imported: result.pages.length,
+      error: errors.length > 0 ? errors.join('. ') : undefined,
+    };
+  };
+
   const handleRenamePage = async (pageId: string, newTitle: string) => {
     if (!spaceContext) {
       console.error('Cannot rename page: not within a space context');
@@ -154,7 +172,10 @@ export function useSpaceActions() {
     return success;
   };
 
-  const handleDeletePage = async (pageId: string) => {
+  const handleDeletePage = async (
+    pageId: string,
+    subpages: SubpageDeletion = 'move_up'
+  ) => {
     if (!spaceContext) {
       console.error('Cannot delete page: not within a space context');
       return false;
@@ -162,7 +183,7 @@ export function useSpaceActions() {
 
     const { deletePage } = spaceContext;
     
-    const success = await deletePage(pageId);
+    const success = await deletePage(pageId, subpages);
     if (success) {
       if (shouldLog()) console.log('Page deleted successfully');
     }
@@ -170,12 +191,30 @@ export function useSpaceActions() {
     return success;
   };
 
+  const handleDuplicatePage = async (pageId: string) => {
+    if (!spaceContext) {
+      console.error('Cannot duplicate page: not within a space context');
+      return false;
+    }
+
+    const { duplicatePage } = spaceContext;
+
+    const success = await duplicatePage(pageId);
+    if (success) {
+      if (shouldLog()) console.log('Page duplicated successfully');
+    }
+
+    return success;
+  };
+
   return {
     isCreating,
     handleCreateSpace,
     handleJoinSpace,
     handleCreatePage,
+    handleImportMarkdown,
     handleRenamePage,
-    handleDeletePage
+    handleDeletePage,
+    handleDuplicatePage
   }
 } 
\ No newline at end of file
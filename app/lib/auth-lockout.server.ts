@@ -0,0 +1,144 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../database.types';
+import { AUTH_LOCKOUT_CONFIG } from './rate-limit-config';
+import { getClientIP } from './rate-limit.server';
+
+// Failed password counting with exponential backoff, and the auth_events log
+// shown in space settings. Counters live in auth_failures and are updated by
+// the record_auth_failure function (see sql-migration-auth-lockout.sql).
+
+type Db = SupabaseClient<Database>;
+
+export type AuthEventOutcome = 'success' | 'failure' | 'locked';
+export type AuthEventMethod = 'password' | 'share_link';
+
+const ipKey = (ip: string) => `ip:${ip}`;
+const spaceKey = (spaceId: string) => `space:${spaceId}`;
+
+// When the latest lock on this IP or space ends, or null if neither is locked.
+// Lookup errors don't block sign-in.
+export async function getAuthLockout(
+  db: Db,
+  request: Request,
+  spaceId: string
+): Promise<number | null> {
+  const { data, error } = await db
+    .from('auth_failures')
+    .select('locked_until')
+    .in('key', [ipKey(getClientIP(request)), spaceKey(spaceId)])
+    .gt('locked_until', new Date().toISOString());
+
+  if (error) {
+    console.error('Error checking auth lockout:', error);
+    return null;
+  }
+
+  const lockedUntil = (data || [])
+    .map((row) => (row.locked_until ? new Date(row.locked_until).getTime() : 0))
+    .reduce((latest, time) => Math.max(latest, time), 0);
+
+  return lockedUntil > Date.now() ? lockedUntil : null;
+}
+
+// Count a wrong password against the IP and the space. Returns when the
+// resulting lock ends, or null while still within the free attempts.
+export async function recordAuthFailure(
+  db: Db,
+  request: Request,
+  spaceId: string
+): Promise<number | null> {
+  const counters = [
+    { key: ipKey(getClientIP(request)), freeAttempts: AUTH_LOCKOUT_CONFIG.ipFreeAttempts },
+    { key: spaceKey(spaceId), freeAttempts: AUTH_LOCKOUT_CONFIG.spaceFreeAttempts },
+  ];
+
+  const results = await Promise.all(
+    counters.map(({ key, freeAttempts }) =>
+      db.rpc('record_auth_failure', {
+        p_key: key,
+        p_free_attempts: freeAttempts,
+        p_base_ms: AUTH_LOCKOUT_CONFIG.baseLockMs,
+        p_max_ms: AUTH_LOCKOUT_CONFIG.maxLockMs,
+        p_reset_after_ms: AUTH_LOCKOUT_CONFIG.resetAfterMs,
+      })
+    )
+  );
+
+  let lockedUntil = 0;
+  for (const { data, error } of results) {
+    if (error) {
+      console.error('Error recording auth failure:', error);
+      continue;
+    }
+    if (data) lockedUntil = Math.max(lockedUntil, new Date(data).getTime());
+  }
+
+  return lockedUntil || null;
+}
+
+// A correct password clears the counters, so the owner of the space isn't
+// kept out by someone else's guessing once they got in
+export async function clearAuthFailures(db: Db, request: Request, spaceId: string) {
+  const { error } = await db
+    .from('auth_failures')
+    .delete()
+    .in('key', [ipKey(getClientIP(request)), spaceKey(spaceId)]);
+
+  if (error) {
+    console.error('Error clearing auth failures:', error);
+  }
+}
+
+// The 429 for a locked IP or space
+export function lockoutResponse(lockedUntil: number): Response {
+  const seconds = Math.max(Math.ceil((lockedUntil - Date.now()) / 1000), 1);
+  const waitMinutes = Math.ceil(seconds / 60);
+
+  return Response.json(
+    {
+      success: false,
+      error: `Too many failed password attempts. Try again in ${waitMinutes} minute${waitMinutes !== 1 ? 's' : ''}.`,
+      rateLimited: true,
+      resetTime: lockedUntil
+    },
+    { status: 429, headers: { 'Retry-After': seconds.toString() } }
+  );
+}
+
+// Where a request came from, without keeping the full address: the IPv4 /24
+// or IPv6 /48 network plus the country when the host provides it
+export function getCoarseOrigin(request: Request): string {
+  const ip = getClientIP(request);
+  let network = 'unknown network';
+
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ip)) {
+    network = ip.split('.').slice(0, 3).join('.') + '.x';
+  } else if (ip.includes(':')) {
+    network = ip.split(':').slice(0, 3).join(':') + '::/48';
+  }
+
+  const country =
+    request.headers.get('x-country') || request.headers.get('cf-ipcountry');
+
+  return country ? `${network} (${country})` : network;
+}
+
+// Append to the space's auth_events log. Logging never fails the sign-in.
+export async function logAuthEvent(
+  db: Db,
+  request: Request,
+  spaceId: string,
+  outcome: AuthEventOutcome,
+  method: AuthEventMethod = 'password'
+) {
+  const { error } = await db.from('auth_events').insert({
+    space_id: spaceId,
+    outcome,
+    method,
+    origin: getCoarseOrigin(request),
+  });
+
+  if (error) {
+    console.error('Error logging auth event:', error);
+  }
+}
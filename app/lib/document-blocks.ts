@@ -0,0 +1,156 @@
+import { BaseTablePlugin } from '@platejs/table';
+import { KEYS, PathApi } from 'platejs';
+import type { Path, SlateEditor, TElement } from 'platejs';
+import type { LucideIcon } from 'lucide-react';
+import {
+  Code2,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  ListTodo,
+  Minus,
+  Pilcrow,
+  Quote,
+  Table,
+} from 'lucide-react';
+
+// Block types offered by the document editor's toolbar, block menu and slash
+// menu. Lists are paragraphs (or headings) with a listStyleType rather than
+// wrapper nodes, so they're keyed by their list style.
+
+export type DocumentBlockKey =
+  | 'p'
+  | 'h1'
+  | 'h2'
+  | 'h3'
+  | 'blockquote'
+  | 'disc'
+  | 'decimal'
+  | 'todo'
+  | 'code_block'
+  | 'hr'
+  | 'table';
+
+export interface DocumentBlockItem {
+  key: DocumentBlockKey;
+  label: string;
+  icon: LucideIcon;
+  // Extra words the menus match when filtering
+  keywords: string[];
+  // Whether an existing block can be turned into this type
+  canTurnInto: boolean;
+}
+
+export const DOCUMENT_BLOCK_ITEMS: DocumentBlockItem[] = [
+  { key: 'p', label: 'Text', icon: Pilcrow, keywords: ['paragraph', 'plain'], canTurnInto: true },
+  { key: 'h1', label: 'Heading 1', icon: Heading1, keywords: ['title', 'h1'], canTurnInto: true },
+  { key: 'h2', label: 'Heading 2', icon: Heading2, keywords: ['subtitle', 'h2'], canTurnInto: true },
+  { key: 'h3', label: 'Heading 3', icon: Heading3, keywords: ['h3'], canTurnInto: true },
+  { key: 'blockquote', label: 'Quote', icon: Quote, keywords: ['blockquote', 'citation'], canTurnInto: true },
+  { key: 'disc', label: 'Bulleted list', icon: List, keywords: ['unordered', 'ul', 'bullet'], canTurnInto: true },
+  { key: 'decimal', label: 'Numbered list', icon: ListOrdered, keywords: ['ordered', 'ol', 'number'], canTurnInto: true },
+  { key: 'todo', label: 'To-do list', icon: ListTodo, keywords: ['checkbox', 'task', 'checklist'], canTurnInto: true },
+  { key: 'code_block', label: 'Code block', icon: Code2, keywords: ['code', 'snippet', 'pre'], canTurnInto: false },
+  { key: 'hr', label: 'Divider', icon: Minus, keywords: ['horizontal rule', 'separator', 'hr'], canTurnInto: false },
+  { key: 'table', label: 'Table', icon: Table, keywords: ['grid', 'rows', 'columns'], canTurnInto: false },
+];
+
+const LIST_STYLE_TYPES: DocumentBlockKey[] = ['disc', 'decimal', 'todo'];
+
+const isListKey = (key: DocumentBlockKey) => LIST_STYLE_TYPES.includes(key);
+
+function createDocumentBlock(editor: SlateEditor, key: DocumentBlockKey): TElement | TElement[] {
+  switch (key) {
+    case 'code_block':
+      return {
+        type: KEYS.codeBlock,
+        children: [{ type: KEYS.codeLine, children: [{ text: '' }] }],
+      };
+    case 'hr':
+      // Followed by an empty paragraph so there's somewhere to keep typing
+      return [
+        { type: KEYS.hr, children: [{ text: '' }] },
+        editor.api.create.block(),
+      ];
+    case 'table':
+      return editor.getApi(BaseTablePlugin).create.table({ rowCount: 3, colCount: 3 });
+    case 'disc':
+    case 'decimal':
+    case 'todo':
+      return editor.api.create.block({
+        indent: 1,
+        listStyleType: key,
+        ...(key === 'todo' && { checked: false }),
+      });
+    default:
+      return editor.api.create.block({ type: key });
+  }
+}
+
+// Insert nodes below the block at the cursor and move the cursor into the
+// last one. An empty paragraph at the cursor (like the one a slash command
+// was typed into) is replaced instead of left behind.
+export function insertDocumentNodes(editor: SlateEditor, nodes: TElement | TElement[]) {
+  const entry = editor.api.block<TElement>({ highest: true });
+  const replace =
+    !!entry &&
+    entry[0].type === KEYS.p &&
+    !entry[0][KEYS.listType] &&
+    editor.api.isEmpty(entry[0]);
+  const at: Path = entry
+    ? replace ? entry[1] : PathApi.next(entry[1])
+    : [editor.children.length];
+
+  const last = Array.isArray(nodes) ? nodes.length - 1 : 0;
+
+  editor.tf.withoutNormalizing(() => {
+    if (replace) editor.tf.removeNodes({ at });
+    editor.tf.insertNodes(nodes, { at });
+    editor.tf.select([...at.slice(0, -1), at[at.length - 1] + last], { edge: 'start' });
+  });
+  editor.tf.focus();
+}
+
+// Insert a new block of the given type below the block at the cursor and
+// move the cursor into it.
+export function insertDocumentBlock(editor: SlateEditor, key: DocumentBlockKey) {
+  insertDocumentNodes(editor, createDocumentBlock(editor, key));
+}
+
+// Turn existing text blocks into the given type, keeping their content. Acts
+// on the block at `at`, or every block in the selection. List items stop
+// being list items unless the new type is a list.
+export function setDocumentBlockType(
+  editor: SlateEditor,
+  key: DocumentBlockKey,
+  { at }: { at?: Path } = {}
+) {
+  const entry = at && editor.api.node<TElement>(at);
+  const entries = at
+    ? entry ? [entry] : []
+    : editor.api.blocks<TElement>({ mode: 'lowest' });
+
+  editor.tf.withoutNormalizing(() => {
+    entries.forEach(([node, path]) => {
+      if (node[KEYS.listType]) {
+        editor.tf.unsetNodes([KEYS.listType, KEYS.indent, KEYS.listChecked], { at: path });
+      }
+
+      if (isListKey(key)) {
+        editor.tf.setNodes(
+          {
+            indent: 1,
+            listStyleType: key,
+            ...(key === 'todo' && { checked: false }),
+          },
+          { at: path }
+        );
+      } else if (node.type !== key) {
+        editor.tf.setNodes({ type: key }, { at: path });
+      }
+    });
+  });
+}
+
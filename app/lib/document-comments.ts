@@ -0,0 +1,135 @@
+import { NodeApi, PointApi, RangeApi } from 'platejs';
+import type { Path, Point, SlateEditor, TElement, TRange } from 'platejs';
+
+import type { DocumentComment } from '~/lib/space-utils';
+
+// Comment threads on document pages (see sql-migration-comments.sql). A
+// thread is anchored to a top-level block by its id and, when text was
+// selected, to a quote from the block's text and where it started. Anchors
+// live in the comments table rather than in the document, so they're found
+// again by looking for the quote in the block as it is now, nearest to where
+// it used to be. Edits elsewhere don't move them; a thread whose quote or
+// block is gone is still listed, as detached.
+
+export const COMMENT_MAX_LENGTH = 5000; // same as the comments.content check
+
+export interface CommentAnchor {
+  blockId: string;
+  quote: string | null;
+  quoteOffset: number | null;
+}
+
+export interface CommentThread {
+  id: string;
+  comment: DocumentComment; // the first comment, holding the anchor
+  replies: DocumentComment[];
+  resolved: boolean;
+}
+
+// Group a page's comments (oldest first) into threads, oldest first
+export function groupCommentThreads(comments: DocumentComment[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+
+  comments.forEach((comment) => {
+    if (!comment.thread_id) {
+      threads.set(comment.id, {
+        id: comment.id,
+        comment,
+        replies: [],
+        resolved: !!comment.resolved_at,
+      });
+    }
+  });
+
+  comments.forEach((comment) => {
+    if (comment.thread_id) threads.get(comment.thread_id)?.replies.push(comment);
+  });
+
+  return Array.from(threads.values());
+}
+
+// Add a comment to the list, or replace it when it's already there (our own
+// comments come back through realtime too)
+export function upsertComment(comments: DocumentComment[], comment: DocumentComment): DocumentComment[] {
+  return comments.some((c) => c.id === comment.id)
+    ? comments.map((c) => (c.id === comment.id ? comment : c))
+    : [...comments, comment];
+}
+
+// Anchor for a new thread at the selection: the top-level block it starts in,
+// and the selected text of that block if any
+export function getCommentAnchor(editor: SlateEditor): CommentAnchor | null {
+  if (!editor.selection) return null;
+
+  const [start, end] = RangeApi.edges(editor.selection);
+  const entry = editor.api.block<TElement>({ at: start, highest: true });
+  if (!entry || typeof entry[0].id !== 'string') return null;
+
+  const [block, path] = entry;
+  const blockEnd = editor.api.end(path)!;
+  const quoteEnd = PointApi.isAfter(end, blockEnd) ? blockEnd : end;
+  const quote = RangeApi.isExpanded(editor.selection)
+    ? editor.api.string({ anchor: start, focus: quoteEnd })
+    : '';
+
+  if (!quote.trim()) {
+    return { blockId: block.id as string, quote: null, quoteOffset: null };
+  }
+
+  return {
+    blockId: block.id as string,
+    quote,
+    quoteOffset: editor.api.string({ anchor: editor.api.start(path)!, focus: start }).length,
+  };
+}
+
+// Offset in a block's text to a point. At the boundary between two text
+// nodes the earlier one is used for ends, the later one for starts.
+function pointAtOffset(block: TElement, path: Path, offset: number, isEnd: boolean): Point | null {
+  let remaining = offset;
+
+  for (const [text, textPath] of NodeApi.texts(block)) {
+    const length = text.text.length;
+    if (remaining < length || (isEnd && remaining === length)) {
+      return { path: [...path, ...textPath], offset: remaining };
+    }
+    remaining -= length;
+  }
+
+  return null;
+}
+
+// Where a thread's anchor is in a top-level block now: the occurrence of the
+// quote nearest to where it was, or the whole block when there's no quote.
+// Null when the quote isn't in the block anymore.
+export function findCommentRange(
+  editor: SlateEditor,
+  block: TElement,
+  path: Path,
+  anchor: Pick<CommentAnchor, 'quote' | 'quoteOffset'>
+): TRange | null {
+  if (!anchor.quote) {
+    const start = editor.api.start(path);
+    const end = editor.api.end(path);
+    return start && end ? { anchor: start, focus: end } : null;
+  }
+
+  const text = NodeApi.string(block);
+  const target = anchor.quoteOffset ?? 0;
+  let best = -1;
+
+  for (let index = text.indexOf(anchor.quote); index !== -1; index = text.indexOf(anchor.quote, index + 1)) {
+    if (best === -1 || Math.abs(index - target) < Math.abs(best - target)) best = index;
+  }
+  if (best === -1) return null;
+
+  const start = pointAtOffset(block, path, best, false);
+  const end = pointAtOffset(block, path, best + anchor.quote.length, true);
+  return start && end ? { anchor: start, focus: end } : null;
+}
+
+// The top-level block a thread is anchored to, if it's still in the document
+export function findCommentBlock(editor: SlateEditor, blockId: string) {
+  const index = editor.children.findIndex((node) => node.id === blockId);
+  return index === -1 ? null : ([editor.children[index] as TElement, [index]] as const);
+}
@@ -0,0 +1,160 @@
+import { createSlateEditor, NodeApi, serializeHtml } from 'platejs';
+import type { Value } from 'platejs';
+
+import { BaseBasicBlocksKit } from '~/components/basic-blocks-base-kit';
+import { BaseBasicMarksKit } from '~/components/basic-marks-base-kit';
+import { BaseCodeBlockKit } from '~/components/code-block-base-kit';
+import { BaseLinkKit } from '~/components/link-base-kit';
+import { BaseListKit } from '~/components/list-base-kit';
+import { BaseMediaKit } from '~/components/media-base-kit';
+import { BaseMentionKit } from '~/components/mention-base-kit';
+import { BasePageEmbedKit } from '~/components/page-embed-base-kit';
+import { BaseTableKit } from '~/components/table-base-kit';
+import { MarkdownKit } from '~/components/markdown-kit';
+import { EditorStatic } from '~/components/ui/editor-static';
+
+// Turns a document's Plate value into a downloadable file. Used by the
+// document toolbar (in the browser) and by the api/page/:id/export route that
+// the sidebar links to, so both produce the same output.
+
+export const DOCUMENT_EXPORT_FORMATS = ['markdown', 'html', 'text'] as const;
+
+export type DocumentExportFormat = (typeof DOCUMENT_EXPORT_FORMATS)[number];
+
+export const DOCUMENT_EXPORT_LABELS: Record<DocumentExportFormat, string> = {
+  markdown: 'Markdown (.md)',
+  html: 'HTML (.html)',
+  text: 'Plain text (.txt)',
+};
+
+const EXPORT_FILE_TYPES: Record<DocumentExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown; charset=utf-8' },
+  html: { extension: 'html', mimeType: 'text/html; charset=utf-8' },
+  text: { extension: 'txt', mimeType: 'text/plain; charset=utf-8' },
+};
+
+export interface DocumentExport {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+export function isDocumentExportFormat(value: unknown): value is DocumentExportFormat {
+  return typeof value === 'string' && (DOCUMENT_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// Static editor with the same nodes and marks as the document editor. Also
+// used by document-import to parse Markdown outside of a mounted editor.
+export function createStaticDocumentEditor(value: Value = []) {
+  return createSlateEditor({
+    plugins: [
+      ...BaseBasicBlocksKit,
+      ...BaseBasicMarksKit,
+      ...BaseListKit,
+      ...BaseCodeBlockKit,
+      ...BaseTableKit,
+      ...BaseLinkKit,
+      ...BaseMediaKit,
+      ...BasePageEmbedKit,
+      ...BaseMentionKit,
+      ...MarkdownKit,
+    ],
+    value,
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// The exported file has no Tailwind, so give the semantic tags readable defaults
+const HTML_EXPORT_STYLES = `
+  body { max-width: 720px; margin: 40px auto; padding: 0 16px; font-family: system-ui, sans-serif; line-height: 1.6; color: #111; }
+  blockquote { margin: 0; padding-left: 1em; border-left: 3px solid #ddd; color: #555; }
+  code, kbd { font-family: ui-monospace, monospace; font-size: 0.9em; background: #f3f3f3; padding: 0.1em 0.3em; border-radius: 3px; }
+  kbd { border: 1px solid #ccc; }
+  mark { background: #fef08a; }
+  hr { border: none; border-top: 1px solid #ddd; margin: 2em 0; }
+  pre { background: #f6f8fa; padding: 1em; border-radius: 6px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  .hljs-comment { color: #6a737d; }
+  .hljs-keyword, .hljs-type { color: #d73a49; }
+  .hljs-title { color: #6f42c1; }
+  .hljs-attr, .hljs-literal, .hljs-number, .hljs-variable { color: #005cc5; }
+  .hljs-string, .hljs-regexp { color: #032f62; }
+  .hljs-built_in, .hljs-symbol { color: #e36209; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ddd; padding: 0.4em 0.8em; text-align: left; }
+  figure { margin: 1em 0; }
+  img { max-width: 100%; height: auto; }
+  figcaption { font-size: 0.9em; color: #555; text-align: center; }
+`;
+
+// A file name from the page title, keeping it readable on every OS
+export function getExportFileName(title: string, format: DocumentExportFormat): string {
+  const base =
+    title
+      .trim()
+      .replace(/[\\/:*?"<>|]+/g, '')
+      .replace(/\s+/g, '-')
+      .slice(0, 100) || 'document';
+
+  return `${base}.${EXPORT_FILE_TYPES[format].extension}`;
+}
+
+export async function exportDocument(
+  value: Value,
+  format: DocumentExportFormat,
+  title: string
+): Promise<DocumentExport> {
+  const editor = createStaticDocumentEditor(value);
+  let content: string;
+
+  if (format === 'markdown') {
+    content = editor.api.markdown.serialize();
+  } else if (format === 'html') {
+    const body = await serializeHtml(editor, {
+      editorComponent: EditorStatic,
+      props: { variant: 'none' },
+    });
+    content = [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(title)}</title>`,
+      `<style>${HTML_EXPORT_STYLES}</style>`,
+      '</head>',
+      `<body>${body}</body>`,
+      '</html>',
+    ].join('\n');
+  } else {
+    // One paragraph per block
+    content = editor.children.map((node) => NodeApi.string(node)).join('\n\n');
+  }
+
+  return {
+    content,
+    fileName: getExportFileName(title, format),
+    mimeType: EXPORT_FILE_TYPES[format].mimeType,
+  };
+}
+
+// Server-rendered export of the last saved version of a page
+export function getDocumentExportUrl(pageId: string, format: DocumentExportFormat): string {
+  return `/api/page/${pageId}/export?format=${format}`;
+}
+
+// Save an export through the browser's download prompt
+export function downloadDocumentExport({ content, fileName, mimeType }: DocumentExport) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
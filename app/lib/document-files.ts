@@ -0,0 +1,62 @@
+// Images and attachments in document pages. Files live in the document-files
+// storage bucket under a folder per page (<page id>/<uuid>-<name>). The
+// api/page/:id/files route checks access and hands out a signed upload URL;
+// the browser then uploads straight to storage, so large files don't pass
+// through the server. A page's folder is removed when the page is deleted.
+
+export const DOCUMENT_FILES_BUCKET = 'document-files';
+
+export const DOCUMENT_FILE_LIMITS = {
+  // Powers of two so the editor's upload config (media-kit.tsx) can use them
+  maxImageBytes: 16 * 1024 * 1024, // 16 MB, checked again after WebP conversion
+  maxFileBytes: 32 * 1024 * 1024, // 32 MB for any other attachment
+} as const;
+
+// Raster images that get converted to WebP before upload. GIFs would lose
+// their animation and SVGs their scalability, so they're uploaded as is.
+const CONVERTIBLE_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/bmp'];
+
+export interface DocumentFile {
+  url: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+export interface DocumentFileUpload {
+  path: string;
+  token: string;
+  url: string; // public URL of the file once uploaded
+}
+
+export function isDocumentImageType(type: string): boolean {
+  return type.startsWith('image/');
+}
+
+export function shouldConvertToWebP(type: string): boolean {
+  return CONVERTIBLE_IMAGE_TYPES.includes(type) && type !== 'image/webp';
+}
+
+export function getDocumentFileSizeLimit(type: string): number {
+  return isDocumentImageType(type)
+    ? DOCUMENT_FILE_LIMITS.maxImageBytes
+    : DOCUMENT_FILE_LIMITS.maxFileBytes;
+}
+
+// "Q3 report (final).pdf" -> "Q3-report-final.pdf"; keeps storage keys valid
+export function getStorageFileName(name: string): string {
+  const safe = name
+    .normalize('NFKD')
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^[-.]+|-+$/g, '')
+    .slice(-100);
+
+  return safe || 'file';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
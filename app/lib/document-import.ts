@@ -0,0 +1,71 @@
+import type { Value } from 'platejs';
+
+import { createStaticDocumentEditor } from './document-export';
+
+// Markdown going into documents. The editor's "Import Markdown" dialog
+// deserializes in the browser and inserts into the open document; bulk imports
+// send the raw files to api/space/:id/import-markdown, which deserializes them
+// the same way and saves each one as a new document page.
+
+export const MARKDOWN_FILE_ACCEPT = '.md,.markdown,text/markdown';
+
+export const MARKDOWN_IMPORT_LIMITS = {
+  maxFiles: 50, // files per bulk import
+  maxFileBytes: 1024 * 1024, // 1 MB per file
+} as const;
+
+export interface MarkdownImportFile {
+  title: string;
+  markdown: string;
+}
+
+export function isMarkdownFile(fileName: string): boolean {
+  return /\.(md|markdown)$/i.test(fileName);
+}
+
+// "notes/Weekly sync.md" -> "Weekly sync"
+export function getImportPageTitle(fileName: string): string {
+  const name = fileName.split('/').pop() || fileName;
+  return name.replace(/\.(md|markdown)$/i, '').trim() || 'Imported document';
+}
+
+// Parse Markdown with the MarkdownPlugin configuration the document editor
+// uses (GFM tables and task lists, math). Read as plain Markdown rather than
+// MDX so braces and angle brackets in notes come through as text. Blank input
+// gives an empty value.
+export function markdownToDocumentValue(markdown: string): Value {
+  if (!markdown.trim()) return [];
+
+  const editor = createStaticDocumentEditor();
+  return editor.api.markdown.deserialize(markdown, { withoutMdx: true });
+}
+
+// Read the Markdown files out of a file picker or folder selection, in path
+// order. Other files and files over the size limit are skipped and named in
+// `skipped` so the caller can say why they're missing.
+export async function readMarkdownFiles(files: Iterable<File>): Promise<{
+  files: MarkdownImportFile[];
+  skipped: string[];
+}> {
+  const path = (file: File) => file.webkitRelativePath || file.name;
+  const sorted = Array.from(files).sort((a, b) => path(a).localeCompare(path(b)));
+
+  const result: MarkdownImportFile[] = [];
+  const skipped: string[] = [];
+
+  for (const file of sorted) {
+    if (!isMarkdownFile(file.name)) continue;
+
+    if (
+      file.size > MARKDOWN_IMPORT_LIMITS.maxFileBytes ||
+      result.length >= MARKDOWN_IMPORT_LIMITS.maxFiles
+    ) {
+      skipped.push(path(file));
+      continue;
+    }
+
+    result.push({ title: getImportPageTitle(file.name), markdown: await file.text() });
+  }
+
+  return { files: result, skipped };
+}
@@ -0,0 +1,55 @@
+import { createSlatePlugin } from 'platejs';
+import type { SlateEditor, TElement } from 'platejs';
+import type { LucideIcon } from 'lucide-react';
+import { Columns3, FileText, Image } from 'lucide-react';
+
+import { insertDocumentNodes } from '~/lib/document-blocks';
+
+// Links from documents to other pages of the space:
+//   * page mentions, typed inline after "@" or "[[". Plate's mention element,
+//     with the page id as its key and the title as its value.
+//   * page embeds, a block of their own inserted from the slash menu.
+// Both keep the page's title (and an embed its type) from when they were
+// added, for exports and for when the page is gone, but the editor shows the
+// page as it is now. get_page_backlinks (sql-migration-page-backlinks.sql)
+// finds them in saved blocks for the "Linked from" section.
+
+export const PAGE_EMBED_KEY = 'page_embed';
+
+export interface TPageEmbedElement extends TElement {
+  type: typeof PAGE_EMBED_KEY;
+  pageId: string;
+  title: string;
+  pageType: string;
+}
+
+// Same icons as the sidebar
+export const PAGE_TYPE_ICONS: Record<string, LucideIcon> = {
+  document: FileText,
+  moodboard: Image,
+  kanban: Columns3,
+};
+
+export const BasePageEmbedPlugin = createSlatePlugin({
+  key: PAGE_EMBED_KEY,
+  node: { isElement: true, isVoid: true },
+});
+
+export function insertPageEmbed(
+  editor: SlateEditor,
+  page: { id: string; title: string; type: string }
+) {
+  const embed: TPageEmbedElement = {
+    type: PAGE_EMBED_KEY,
+    pageId: page.id,
+    title: page.title,
+    pageType: page.type,
+    children: [{ text: '' }],
+  };
+
+  // Followed by an empty paragraph so there's somewhere to keep typing
+  insertDocumentNodes(editor, [embed, editor.api.create.block()]);
+}
+
+// Relative to the linking page's URL (/space/:id/page/:pageId)
+export const getPageLinkHref = (pageId: string) => `./${pageId}`;
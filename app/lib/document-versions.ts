@@ -0,0 +1,73 @@
+import { NodeApi } from 'platejs';
+import type { Descendant, Value } from 'platejs';
+
+// Version history of document pages. Snapshots are written by the
+// save_document_blocks function (see sql-migration-document-versions.sql) with
+// these settings, and listed, previewed and restored from the history panel.
+
+export const DOCUMENT_VERSION_CONFIG = {
+  intervalMs: 10 * 60 * 1000, // a snapshot at most every 10 minutes while editing
+  largeChangeChars: 200, // saves adding or removing this much text keep the previous content
+  maxVersions: 100, // per page, oldest are dropped
+} as const;
+
+export type DocumentVersionReason = 'auto' | 'before_change' | 'before_restore';
+
+export const DOCUMENT_VERSION_REASON_LABELS: Record<DocumentVersionReason, string> = {
+  auto: 'Autosave',
+  before_change: 'Before a large change',
+  before_restore: 'Before restoring a version',
+};
+
+export type DocumentDiffEntry =
+  | { kind: 'same' | 'added' | 'removed'; text: string }
+  | { kind: 'changed'; before: string; after: string };
+
+const blockKey = (block: Descendant, index: number) =>
+  typeof block.id === 'string' ? block.id : `index:${index}`;
+
+const blockText = (block: Descendant) => NodeApi.string(block);
+
+// Block-by-block differences between two versions of a document, matching
+// blocks by id and keeping the order of `after`. Used to preview what
+// restoring a version changes (before = current content, after = version).
+export function diffDocumentValues(before: Value, after: Value): DocumentDiffEntry[] {
+  const a = before.map(blockKey);
+  const b = after.map(blockKey);
+
+  // Longest common subsequence of block ids
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const entries: DocumentDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      const beforeText = blockText(before[i]);
+      const afterText = blockText(after[j]);
+      entries.push(
+        beforeText === afterText && JSON.stringify(before[i]) === JSON.stringify(after[j])
+          ? { kind: 'same', text: afterText }
+          : { kind: 'changed', before: beforeText, after: afterText }
+      );
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      entries.push({ kind: 'added', text: blockText(after[j]) });
+      j++;
+    } else {
+      entries.push({ kind: 'removed', text: blockText(before[i]) });
+      i++;
+    }
+  }
+
+  return entries;
+}
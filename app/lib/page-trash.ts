@@ -0,0 +1,25 @@
+// Deleted pages go to the trash of their space (pages.deleted_at, see
+// sql-migration-page-trash.sql). They can be restored from the sidebar until
+// the server purges them.
+
+// VITE_PAGE_TRASH_RETENTION_DAYS overrides the default. It's read at build
+// time, so the sidebar and the server agree on it.
+const configuredRetentionDays = Number(import.meta.env.VITE_PAGE_TRASH_RETENTION_DAYS);
+
+export const PAGE_TRASH_CONFIG = {
+  // Pages are deleted for good after this long in the trash
+  retentionDays: configuredRetentionDays > 0 ? configuredRetentionDays : 30,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pages moved to the trash before this are due to be purged
+export function getTrashPurgeCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - PAGE_TRASH_CONFIG.retentionDays * DAY_MS);
+}
+
+// Whole days a trashed page has left before it's purged (0 on its last day)
+export function getDaysUntilPurge(deletedAt: string, now: Date = new Date()): number {
+  const purgeAt = new Date(deletedAt).getTime() + PAGE_TRASH_CONFIG.retentionDays * DAY_MS;
+  return Math.max(0, Math.floor((purgeAt - now.getTime()) / DAY_MS));
+}
@@ -0,0 +1,113 @@
+import type { Tables } from '../../database.types';
+
+// Pages form a tree through pages.parent_id (see sql-migration-nested-pages.sql).
+// A page whose parent isn't in the list (e.g. not loaded yet) is shown at the
+// top level rather than hidden.
+
+type TreePage = Pick<Tables<'pages'>, 'id' | 'parent_id'>;
+
+export type SubpageDeletion = 'delete' | 'move_up';
+
+export const SUBPAGE_DELETIONS: SubpageDeletion[] = ['delete', 'move_up'];
+
+export interface PageTreeNode<P extends TreePage> {
+  page: P;
+  children: PageTreeNode<P>[];
+}
+
+// Nest pages under their parents, keeping the order of the list among siblings
+export function buildPageTree<P extends TreePage>(pages: P[]): PageTreeNode<P>[] {
+  const nodes = new Map(pages.map((page) => [page.id, { page, children: [] } as PageTreeNode<P>]));
+  const roots: PageTreeNode<P>[] = [];
+
+  pages.forEach((page) => {
+    const node = nodes.get(page.id)!;
+    const parent = page.parent_id ? nodes.get(page.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  return roots;
+}
+
+// Parent, grandparent, ... of a page, top-level page first. Stops at a
+// missing parent, and at a cycle should one ever get in.
+export function getPageAncestors<P extends TreePage>(pages: P[], pageId: string): P[] {
+  const byId = new Map(pages.map((page) => [page.id, page]));
+  const ancestors: P[] = [];
+  let parentId = byId.get(pageId)?.parent_id;
+
+  while (parentId && byId.has(parentId) && !ancestors.some((page) => page.id === parentId)) {
+    const parent = byId.get(parentId)!;
+    ancestors.unshift(parent);
+    parentId = parent.parent_id;
+  }
+
+  return ancestors;
+}
+
+// Ids of all pages below a page (children, their children, ...)
+export function getPageDescendantIds(pages: TreePage[], pageId: string): string[] {
+  const descendants: string[] = [];
+  const queue = [pageId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    pages.forEach((page) => {
+      if (page.parent_id === id && page.id !== pageId && !descendants.includes(page.id)) {
+        descendants.push(page.id);
+        queue.push(page.id);
+      }
+    });
+  }
+
+  return descendants;
+}
+
+// Give pages new order values and sort the list again the way
+// loadPagesForSpace does: by order (pages without one last), then title
+export function applyPageOrder<P extends Pick<Tables<'pages'>, 'id' | 'order' | 'title'>>(
+  pages: P[],
+  order: Array<{ id: string; order: number }>
+): P[] {
+  const orderById = new Map(order.map((entry) => [entry.id, entry.order]));
+
+  return pages
+    .map((page) => (orderById.has(page.id) ? { ...page, order: orderById.get(page.id)! } : page))
+    .sort((a, b) => {
+      if (a.order !== b.order) {
+        if (a.order === null) return 1;
+        if (b.order === null) return -1;
+        return a.order - b.order;
+      }
+      return a.title.localeCompare(b.title);
+    });
+}
+
+// Collapsed pages of the sidebar tree, per space, kept in localStorage so the
+// tree looks the same on the next visit
+export function getCollapsedPageIds(spaceId: string): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem('wrkinspace_collapsed_pages');
+    const collapsed: Record<string, string[]> = stored ? JSON.parse(stored) : {};
+    return Array.isArray(collapsed[spaceId]) ? collapsed[spaceId] : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeCollapsedPageIds(spaceId: string, pageIds: string[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    const stored = localStorage.getItem('wrkinspace_collapsed_pages');
+    const collapsed: Record<string, string[]> = stored ? JSON.parse(stored) : {};
+    if (pageIds.length > 0) {
+      collapsed[spaceId] = pageIds;
+    } else {
+      delete collapsed[spaceId];
+    }
+    localStorage.setItem('wrkinspace_collapsed_pages', JSON.stringify(collapsed));
+  } catch (error) {
+    console.error('Error storing collapsed pages:', error);
+  }
+}
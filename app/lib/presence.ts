@@ -0,0 +1,129 @@
+import { supabase } from './supabase';
+
+// Helper function to check if we should log (not in production)
+const shouldLog = () => false
+
+// A participant as seen by everyone else in the space right now
+export interface OnlineParticipant {
+  participantId: string;
+  name: string;
+  color: string;
+  pageId: string | null;
+}
+
+// Latest cursor of another participant on a page. `data` is page-type
+// specific (canvas position, dragged card, ...) and null once they leave.
+export interface RemoteCursor<T> {
+  participantId: string;
+  name: string;
+  color: string;
+  data: T | null;
+}
+
+const PARTICIPANT_COLORS = [
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+];
+
+const NAME_ADJECTIVES = ['Quiet', 'Swift', 'Bright', 'Curious', 'Gentle', 'Bold', 'Clever', 'Calm'];
+const NAME_ANIMALS = ['Otter', 'Fox', 'Heron', 'Panda', 'Lynx', 'Koala', 'Falcon', 'Badger'];
+
+// Stable color for a participant so they look the same to everyone
+export function getParticipantColor(participantId: string): string {
+  let hash = 0;
+  for (let i = 0; i < participantId.length; i++) {
+    hash = (hash * 31 + participantId.charCodeAt(i)) | 0;
+  }
+  return PARTICIPANT_COLORS[Math.abs(hash) % PARTICIPANT_COLORS.length];
+}
+
+// Name given to participants who haven't picked one
+export function generateParticipantName(): string {
+  const adjective = NAME_ADJECTIVES[Math.floor(Math.random() * NAME_ADJECTIVES.length)];
+  const animal = NAME_ANIMALS[Math.floor(Math.random() * NAME_ANIMALS.length)];
+  return `${adjective} ${animal}`;
+}
+
+// Announce ourselves in a space and follow who else is online.
+// The same participant may be online from several tabs; they're listed once.
+export function joinSpacePresence(
+  spaceId: string,
+  self: OnlineParticipant,
+  onSync: (participants: OnlineParticipant[]) => void
+): { update: (self: OnlineParticipant) => void; leave: () => void } {
+  let current = self;
+  let isSubscribed = false;
+
+  const channel = supabase.channel(`presence:${spaceId}`, {
+    config: { presence: { key: self.participantId } },
+  });
+
+  const track = () => {
+    channel.track({ ...current }).catch((err) => {
+      console.error('Failed to update presence:', err);
+    });
+  };
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<OnlineParticipant>();
+      const participants = Object.values(state)
+        .map((presences) => presences[presences.length - 1])
+        .filter(Boolean)
+        .map(({ participantId, name, color, pageId }) => ({ participantId, name, color, pageId }));
+      onSync(participants);
+    })
+    .subscribe((status) => {
+      if (shouldLog()) console.log('Presence channel status:', status);
+      if (status === 'SUBSCRIBED') {
+        isSubscribed = true;
+        track();
+      }
+    });
+
+  return {
+    update: (self) => {
+      current = self;
+      if (isSubscribed) track();
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+}
+
+// Exchange cursors with everyone else on a page. Cursors are broadcast only,
+// never stored.
+export function joinPageCursors<T>(
+  pageId: string,
+  onCursor: (cursor: RemoteCursor<T>) => void
+): { send: (cursor: RemoteCursor<T>) => void; leave: () => void } {
+  const channel = supabase.channel(`cursors:${pageId}`, {
+    config: { broadcast: { self: false } },
+  });
+
+  channel
+    .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+      onCursor(payload as RemoteCursor<T>);
+    })
+    .subscribe((status) => {
+      if (shouldLog()) console.log('Cursor channel status:', status);
+    });
+
+  return {
+    send: (cursor) => {
+      channel.send({ type: 'broadcast', event: 'cursor', payload: cursor }).catch((err) => {
+        console.error('Failed to broadcast cursor:', err);
+      });
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+}
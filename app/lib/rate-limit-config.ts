@@ -6,18 +6,87 @@ export const RATE_LIMIT_CONFIG = {
     maxRequests: 5, // 5 spaces per 15 minutes per IP
     message: "You can create up to {maxRequests} spaces per {windowMinutes} minutes. Please try again later."
   },
-  
-  // Future rate limiting rules can be added here
-  // For example:
-  // pageCreation: {
-  //   windowMs: 5 * 60 * 1000, // 5 minutes
-  //   maxRequests: 20, // 20 pages per 5 minutes per IP
-  // },
-  
+
+  // Password attempts against protected spaces (brute-force protection)
+  passwordAttempts: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 10, // 10 attempts per 15 minutes per IP
+    message: "Too many password attempts. You can try up to {maxRequests} times per {windowMinutes} minutes."
+  },
+
+  pageCreation: {
+    windowMs: 5 * 60 * 1000, // 5 minutes
+    maxRequests: 20, // 20 pages per 5 minutes per IP
+    message: "You can create up to {maxRequests} pages per {windowMinutes} minutes. Please try again later."
+  },
+
+  shareLinkCreation: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 20, // 20 share link changes per 15 minutes per IP
+    message: "You can change share links up to {maxRequests} times per {windowMinutes} minutes. Please try again later."
+  },
+
+  participantWrites: {
+    windowMs: 5 * 60 * 1000, // 5 minutes
+    maxRequests: 30, // 30 joins or renames per 5 minutes per IP
+    message: "Too many participant changes. Please try again later."
+  },
+
+  // Edits to page content (documents, boards, moodboards, titles). Autosave
+  // and drags are frequent, so this only stops runaway clients.
+  contentWrites: {
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 300, // 300 writes per minute per IP
+    message: "Too many changes in a short time. Please slow down and try again."
+  },
+
+  // Collaborative editing messages relayed by the server. Clients batch their
+  // keystrokes, but several people typing behind one IP add up.
+  documentSync: {
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 1200, // 1200 messages per minute per IP
+    message: "Too many changes in a short time. Please slow down and try again."
+  },
+
+  // Images and attachments added to documents
+  fileUploads: {
+    windowMs: 5 * 60 * 1000, // 5 minutes
+    maxRequests: 60, // 60 uploads per 5 minutes per IP
+    message: "You can upload up to {maxRequests} files per {windowMinutes} minutes. Please try again later."
+  },
+
+  // New comments, replies and resolving threads
+  commentWrites: {
+    windowMs: 5 * 60 * 1000, // 5 minutes
+    maxRequests: 60, // 60 comment changes per 5 minutes per IP
+    message: "You can post up to {maxRequests} comments per {windowMinutes} minutes. Please try again later."
+  },
+
+  // Space exports and archive uploads to import. Each one moves every file
+  // of a space through the server's memory.
+  spaceArchives: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 5, // 5 exports or uploads per 15 minutes per IP
+    message: "You can export or import up to {maxRequests} spaces per {windowMinutes} minutes. Please try again later."
+  },
+
   // General settings
   cleanupIntervalMs: 60 * 60 * 1000, // Clean up expired entries every hour
 } as const;
 
+// Lockout after failed space passwords. Failures are counted per IP and per
+// space; past the free attempts every further failure locks the key for
+// twice as long as the previous one, up to maxLockMs.
+export const AUTH_LOCKOUT_CONFIG = {
+  ipFreeAttempts: 5,
+  spaceFreeAttempts: 20, // higher, so one attacker can't easily lock out a whole space
+  baseLockMs: 30 * 1000, // 30 seconds
+  maxLockMs: 60 * 60 * 1000, // 1 hour
+  resetAfterMs: 24 * 60 * 60 * 1000, // failures are forgotten after a quiet day
+} as const;
+
+export type RateLimitRule = Exclude<keyof typeof RATE_LIMIT_CONFIG, 'cleanupIntervalMs'>;
+
 export function formatRateLimitMessage(
   config: { maxRequests: number; windowMs: number; message: string },
   timeRemaining?: number
@@ -26,11 +95,11 @@ export function formatRateLimitMessage(
   let message = config.message
     .replace('{maxRequests}', config.maxRequests.toString())
     .replace('{windowMinutes}', windowMinutes.toString());
-  
+
   if (timeRemaining) {
     const waitMinutes = Math.ceil(timeRemaining / (1000 * 60));
     message += ` Try again in ${waitMinutes} minute${waitMinutes !== 1 ? 's' : ''}.`;
   }
-  
+
   return message;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,158 @@
+import { createServerSupabaseClient } from './supabase.server';
+import { RATE_LIMIT_CONFIG, formatRateLimitMessage } from './rate-limit-config';
+import type { RateLimitRule } from './rate-limit-config';
+
+// Counter state of one key after a hit
+export interface RateLimitHit {
+  count: number;
+  resetTime: number; // ms since epoch
+}
+
+// Where request counts are kept. hit() counts one request against the key's
+// current fixed window, starting a new window when the old one has run out.
+// Implement this to back rate limits with any KV store.
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+// Per-process counters. Fine for development and single long-lived servers;
+// on serverless functions every instance (and cold start) counts separately.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitHit>();
+  private lastCleanup = Date.now();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.cleanup(now);
+
+    const existing = this.entries.get(key);
+    if (!existing || now > existing.resetTime) {
+      const entry = { count: 1, resetTime: now + windowMs };
+      this.entries.set(key, entry);
+      return { ...entry };
+    }
+
+    existing.count++;
+    return { ...existing };
+  }
+
+  // Drop expired entries so the map doesn't grow with every IP ever seen
+  private cleanup(now: number) {
+    if (now - this.lastCleanup < RATE_LIMIT_CONFIG.cleanupIntervalMs) return;
+
+    this.lastCleanup = now;
+    for (const [key, entry] of this.entries) {
+      if (now > entry.resetTime) this.entries.delete(key);
+    }
+  }
+}
+
+// Counters in the rate_limits table, shared by every server instance. The
+// rate_limit_hit function increments atomically (see sql-migration-rate-limits.sql).
+export class SupabaseRateLimitStore implements RateLimitStore {
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const supabase = createServerSupabaseClient();
+    const { data, error } = await supabase
+      .rpc('rate_limit_hit', { p_key: key, p_window_ms: windowMs })
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Rate limit counter unavailable');
+    }
+
+    return { count: data.hits, resetTime: new Date(data.reset_at).getTime() };
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE picks the store ('memory' or 'supabase'); production uses
+// the database unless told otherwise
+function createDefaultStore(): RateLimitStore {
+  const configured =
+    process.env.RATE_LIMIT_STORE ||
+    (process.env.NODE_ENV === 'production' ? 'supabase' : 'memory');
+
+  return configured === 'supabase'
+    ? new SupabaseRateLimitStore()
+    : new MemoryRateLimitStore();
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) store = createDefaultStore();
+  return store;
+}
+
+// Swap in another store (e.g. Redis or Netlify Blobs) at startup
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+// Client IP for rate limits and lockouts. Only headers a proxy sets can be
+// trusted: Netlify puts the connecting IP in x-nf-client-connection-ip, and
+// other proxies append it to x-forwarded-for. Earlier x-forwarded-for entries
+// come from the client and could be rotated to dodge per-IP limits.
+export function getClientIP(request: Request): string {
+  const netlifyIP = request.headers.get('x-nf-client-connection-ip');
+  if (netlifyIP) return netlifyIP.trim();
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const lastHop = forwardedFor.split(',').pop()?.trim();
+    if (lastHop) return lastHop;
+  }
+
+  // Fallback - requests that didn't come through a proxy (local development)
+  return 'unknown';
+}
+
+// The 429 every rate-limited route answers with
+export function rateLimitResponse(rule: RateLimitRule, resetTime: number): Response {
+  const timeRemaining = Math.max(resetTime - Date.now(), 0);
+
+  return Response.json(
+    {
+      success: false,
+      error: formatRateLimitMessage(RATE_LIMIT_CONFIG[rule], timeRemaining),
+      rateLimited: true,
+      resetTime
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': Math.max(Math.ceil(timeRemaining / 1000), 1).toString()
+      }
+    }
+  );
+}
+
+// Count a request from this client against a rule. Returns the 429 response
+// once the limit is reached, or null when the request may go ahead. If the
+// store is unreachable the request is let through rather than failing the route.
+export async function checkRateLimit(
+  request: Request,
+  rule: RateLimitRule
+): Promise<Response | null> {
+  const config = RATE_LIMIT_CONFIG[rule];
+  const key = `${rule}:${getClientIP(request)}`;
+
+  try {
+    const { count, resetTime } = await getRateLimitStore().hit(key, config.windowMs);
+    return count > config.maxRequests ? rateLimitResponse(rule, resetTime) : null;
+  } catch (error) {
+    console.error('Rate limit check failed:', error);
+    return null;
+  }
+}
+
+// Wrap a route action so every request to it is counted against a rule:
+//   export const action = withRateLimit('pageCreation', async ({ request }) => ...)
+export function withRateLimit<Args extends { request: Request }>(
+  rule: RateLimitRule,
+  handler: (args: Args) => Promise<Response>
+): (args: Args) => Promise<Response> {
+  return async (args) => {
+    const limited = await checkRateLimit(args.request, rule);
+    return limited ?? handler(args);
+  };
+}
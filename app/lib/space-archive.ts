@@ -0,0 +1,189 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { Zippable } from 'fflate';
+import type { MoodboardItem } from './space-utils';
+import { isUuid } from './utils';
+
+// A whole space in one zip, to keep a copy (spaces are deleted after 30 days
+// without visits, see sql-migration-last-accessed.sql) or to recreate it as a
+// new space. The zip holds manifest.json (SpaceArchiveManifest) and the files
+// it references under assets/: document uploads and moodboard images.
+// api/space/:id/export builds it; api/create-space imports it.
+
+export const SPACE_ARCHIVE_FORMAT = 'wrkinspace-space';
+
+// Bump when the manifest changes shape; older archives must keep importing
+export const SPACE_ARCHIVE_VERSION = 1;
+
+export const SPACE_ARCHIVE_FILE_ACCEPT = '.zip,application/zip';
+
+// Zips are passed through this private storage bucket rather than function
+// request and response bodies, which Netlify caps at 6 MB: exports are
+// stored under exports/<space id>/ and downloaded by signed URL, imports are
+// uploaded by the browser under imports/. The server still builds or reads
+// the whole zip in memory, which bounds maxArchiveBytes.
+export const SPACE_ARCHIVES_BUCKET = 'space-archives';
+
+export const SPACE_ARCHIVE_LIMITS = {
+  maxArchiveBytes: 100 * 1024 * 1024, // exported or uploaded zip
+  maxUnpackedBytes: 200 * 1024 * 1024, // everything in it, uncompressed
+  maxPages: 1000,
+} as const;
+
+const MANIFEST_PATH = 'manifest.json';
+
+const PAGE_TYPES = ['document', 'moodboard', 'kanban'] as const;
+
+// A file in the archive: where it goes in its storage folder and where it is
+// in the zip
+export interface SpaceArchiveAsset {
+  name: string;
+  path: string;
+  contentType?: string;
+}
+
+export type SpaceArchiveMoodboardItem = Omit<MoodboardItem, 'id'> & {
+  // Image items: the image, when it was stored in moodboard-images
+  asset?: string;
+};
+
+export interface SpaceArchivePage {
+  // Id in the exported space; parent_id and links in documents refer to it
+  id: string;
+  parent_id: string | null;
+  title: string;
+  type: (typeof PAGE_TYPES)[number];
+  order: number | null;
+  // Documents: saved blocks, and the files uploaded to the page, whose URLs
+  // in the blocks start with filesUrl
+  blocks?: unknown[];
+  filesUrl?: string;
+  files?: SpaceArchiveAsset[];
+  columns?: { title: string; cards: { title: string; description?: string }[] }[];
+  items?: SpaceArchiveMoodboardItem[];
+}
+
+export interface SpaceArchiveManifest {
+  format: typeof SPACE_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  space: { id: string; title: string | null; created_at: string | null };
+  // Pages of the space (not the trash), parents before their subpages
+  pages: SpaceArchivePage[];
+}
+
+export interface SpaceArchive {
+  manifest: SpaceArchiveManifest;
+  // Zip path -> file contents
+  assets: Record<string, Uint8Array>;
+}
+
+// "100 MB", for messages about maxArchiveBytes
+export const SPACE_ARCHIVE_MAX_SIZE_LABEL = `${SPACE_ARCHIVE_LIMITS.maxArchiveBytes / (1024 * 1024)} MB`;
+
+export function getSpaceArchiveUrl(spaceId: string): string {
+  return `/api/space/${spaceId}/export`;
+}
+
+// "Team notes" -> "team-notes-<space id>.zip"
+export function getSpaceArchiveFileName(title: string | null, spaceId: string): string {
+  const slug = (title || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+
+  return `${slug ? `${slug}-` : ''}${spaceId}.zip`;
+}
+
+// Images and uploads are mostly compressed already, so only the manifest is
+export function packSpaceArchive(archive: SpaceArchive): Uint8Array {
+  const files: Zippable = {
+    [MANIFEST_PATH]: [strToU8(JSON.stringify(archive.manifest, null, 2)), { level: 6 }],
+  };
+
+  for (const [path, data] of Object.entries(archive.assets)) {
+    files[path] = [data, { level: 0 }];
+  }
+
+  return zipSync(files);
+}
+
+// An http(s) URL of a folder, like the public URL of a page's document files
+function isFolderUrl(value: unknown): boolean {
+  if (typeof value !== 'string' || !value.endsWith('/')) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// Ids and filesUrl are matched against values in the blocks when importing,
+// so they must be what an export writes: page UUIDs and a storage folder URL
+function isArchivePage(page: any): page is SpaceArchivePage {
+  return (
+    !!page &&
+    isUuid(page.id) &&
+    (page.parent_id === null || isUuid(page.parent_id)) &&
+    typeof page.title === 'string' &&
+    PAGE_TYPES.includes(page.type) &&
+    (page.filesUrl === undefined || isFolderUrl(page.filesUrl)) &&
+    (page.blocks === undefined || Array.isArray(page.blocks)) &&
+    (page.files === undefined || Array.isArray(page.files)) &&
+    (page.columns === undefined || Array.isArray(page.columns)) &&
+    (page.items === undefined || Array.isArray(page.items))
+  );
+}
+
+// Read an archive made by packSpaceArchive, checking its format and version
+export function unpackSpaceArchive(data: Uint8Array): SpaceArchive | { error: string } {
+  let entries: Record<string, Uint8Array>;
+  try {
+    let unpackedBytes = 0;
+    entries = unzipSync(data, {
+      filter: (file) => {
+        unpackedBytes += file.originalSize;
+        if (unpackedBytes > SPACE_ARCHIVE_LIMITS.maxUnpackedBytes) {
+          throw new Error('Archive is too large');
+        }
+        return true;
+      },
+    });
+  } catch (err) {
+    return { error: err instanceof Error && err.message === 'Archive is too large'
+      ? 'This archive is too large to import'
+      : 'This file is not a zip archive' };
+  }
+
+  const manifestData = entries[MANIFEST_PATH];
+  if (!manifestData) {
+    return { error: 'This zip is not a space export (manifest.json is missing)' };
+  }
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(strFromU8(manifestData));
+  } catch {
+    return { error: 'The archive manifest is not valid JSON' };
+  }
+
+  if (manifest?.format !== SPACE_ARCHIVE_FORMAT || typeof manifest.version !== 'number') {
+    return { error: 'This zip is not a space export' };
+  }
+
+  if (manifest.version > SPACE_ARCHIVE_VERSION) {
+    return { error: 'This archive was made by a newer version of the app' };
+  }
+
+  if (!Array.isArray(manifest.pages) || !manifest.pages.every(isArchivePage)) {
+    return { error: 'The archive manifest has invalid pages' };
+  }
+
+  if (manifest.pages.length > SPACE_ARCHIVE_LIMITS.maxPages) {
+    return { error: `An archive can have up to ${SPACE_ARCHIVE_LIMITS.maxPages} pages` };
+  }
+
+  delete entries[MANIFEST_PATH];
+  return { manifest: manifest as SpaceArchiveManifest, assets: entries };
+}
@@ -0,0 +1,305 @@
+import bcrypt from 'bcryptjs';
+import { createCookie } from 'react-router';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../database.types';
+import { isSpaceRole, roleAllows } from './space-roles';
+import type { SpaceRole } from './space-roles';
+import { getBuiltInTemplate } from './templates';
+
+// How long a successful password entry keeps a space unlocked
+export const SPACE_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const BCRYPT_ROUNDS = 10;
+
+// Signed, httpOnly cookie listing the spaces this browser has unlocked (by
+// password or share link), with which role and until when, and the participant
+// it joined each space as. The signature (HMAC with SESSION_SECRET) means it
+// can't be forged or extended client-side, and scripts can't read it.
+const spaceSessionCookie = createCookie('wrkinspace_session', {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge: SPACE_SESSION_TTL_MS / 1000,
+  secrets: process.env.SESSION_SECRET ? [process.env.SESSION_SECRET] : [],
+});
+
+// Access to one space: the role it grants and when it runs out. Grants made
+// through a share link keep the link id so revoking the link ends them.
+interface SpaceGrant {
+  role: SpaceRole;
+  expiresAt: number; // ms since epoch
+  linkId?: string;
+}
+
+interface SpaceSession {
+  spaces: Record<string, SpaceGrant>;
+  participants: Record<string, string>; // space id -> participant id
+}
+
+export async function hashSpacePassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+// Stored passwords are bcrypt hashes (see sql-migration-hashed-passwords.sql)
+export async function verifySpacePassword(password: string, hash: string): Promise<boolean> {
+  try {
+    return await bcrypt.compare(password, hash);
+  } catch (error) {
+    console.error('Error verifying space password:', error);
+    return false;
+  }
+}
+
+async function readSpaceSession(request: Request): Promise<SpaceSession> {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error('Missing SESSION_SECRET environment variable');
+  }
+
+  const value = await spaceSessionCookie.parse(request.headers.get('Cookie'));
+  const now = Date.now();
+  const spaces: Record<string, SpaceGrant> = {};
+  const participants: Record<string, string> = {};
+
+  // Drop anything malformed or expired
+  if (value && typeof value === 'object' && value.spaces && typeof value.spaces === 'object') {
+    for (const [spaceId, grant] of Object.entries<any>(value.spaces)) {
+      // Cookies issued before roles existed hold just the expiry (password entry)
+      if (typeof grant === 'number') {
+        if (grant > now) spaces[spaceId] = { role: 'editor', expiresAt: grant };
+        continue;
+      }
+
+      if (
+        grant &&
+        typeof grant.expiresAt === 'number' &&
+        grant.expiresAt > now &&
+        isSpaceRole(grant.role)
+      ) {
+        spaces[spaceId] = {
+          role: grant.role,
+          expiresAt: grant.expiresAt,
+          ...(typeof grant.linkId === 'string' && { linkId: grant.linkId }),
+        };
+      }
+    }
+  }
+
+  if (value && typeof value === 'object' && value.participants && typeof value.participants === 'object') {
+    for (const [spaceId, participantId] of Object.entries<any>(value.participants)) {
+      if (typeof participantId === 'string') participants[spaceId] = participantId;
+    }
+  }
+
+  return { spaces, participants };
+}
+
+// Whether this request carries a valid session for the space
+export async function hasSpaceSession(request: Request, spaceId: string): Promise<boolean> {
+  const session = await readSpaceSession(request);
+  return spaceId in session.spaces;
+}
+
+// Participant this request joined the space as, if any. Participants are
+// only acted for through the session, so nobody can post or rename as
+// someone else by sending their id.
+export async function getSessionParticipantId(request: Request, spaceId: string): Promise<string | null> {
+  const session = await readSpaceSession(request);
+  return session.participants[spaceId] ?? null;
+}
+
+// Set-Cookie header value recording the participant this browser joined a
+// space as (open spaces included, where there's no grant)
+export async function setSessionParticipant(
+  request: Request,
+  spaceId: string,
+  participantId: string
+): Promise<string> {
+  const session = await readSpaceSession(request);
+  session.participants[spaceId] = participantId;
+  return spaceSessionCookie.serialize(session);
+}
+
+// Set-Cookie header value granting access to a space, keeping other grants.
+// Password entry grants editor access for SPACE_SESSION_TTL_MS; share links
+// pass their own role, id and (possibly earlier) expiry.
+export async function grantSpaceSession(
+  request: Request,
+  spaceId: string,
+  grant: Partial<SpaceGrant> = {}
+): Promise<string> {
+  const session = await readSpaceSession(request);
+  const maxExpiresAt = Date.now() + SPACE_SESSION_TTL_MS;
+
+  session.spaces[spaceId] = {
+    role: grant.role ?? 'editor',
+    expiresAt: Math.min(grant.expiresAt ?? maxExpiresAt, maxExpiresAt),
+    ...(grant.linkId && { linkId: grant.linkId }),
+  };
+  return spaceSessionCookie.serialize(session);
+}
+
+// Set-Cookie header value removing access to a space
+export async function revokeSpaceSession(request: Request, spaceId: string): Promise<string> {
+  const session = await readSpaceSession(request);
+  delete session.spaces[spaceId];
+  return spaceSessionCookie.serialize(session);
+}
+
+// Role this request has in a space, or an error response (404 for unknown
+// spaces, 401 when a protected space has no valid session). linkId is set
+// when the role comes from a share link.
+// Open spaces give editor access to anyone, with or without a session, so
+// share links can only be created for spaces with a password (see
+// createShareLink); there a link session is the only way in without it.
+export async function getSpaceRole(
+  request: Request,
+  supabase: SupabaseClient<Database>,
+  spaceId: string
+): Promise<
+  | { role: SpaceRole; linkId?: string; response?: never }
+  | { role?: never; linkId?: never; response: Response }
+> {
+  const { data: space, error } = await supabase
+    .from('spaces')
+    .select('id, password')
+    .eq('id', spaceId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking space access:', error);
+    return { response: Response.json({ success: false, error: 'Failed to check space access' }, { status: 500 }) };
+  }
+
+  if (!space) {
+    return { response: Response.json({ success: false, error: 'Space not found' }, { status: 404 }) };
+  }
+
+  const session = await readSpaceSession(request);
+  let grant: SpaceGrant | undefined = session.spaces[spaceId];
+
+  // Links can be revoked or shortened after the cookie was issued
+  if (grant?.linkId) {
+    const { data: link } = await supabase
+      .from('share_links')
+      .select('id, revoked_at, expires_at')
+      .eq('id', grant.linkId)
+      .eq('space_id', spaceId)
+      .maybeSingle();
+
+    const isValid =
+      !!link &&
+      !link.revoked_at &&
+      (!link.expires_at || new Date(link.expires_at).getTime() > Date.now());
+    if (!isValid) grant = undefined;
+  }
+
+  if (grant) {
+    return { role: grant.role, linkId: grant.linkId };
+  }
+
+  if (space.password) {
+    return { response: Response.json({ success: false, error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  return { role: 'editor' };
+}
+
+// Check that a request may access a space with at least the given role.
+// Returns an error response to send back, or null when access is allowed.
+export async function requireSpaceAccess(
+  request: Request,
+  supabase: SupabaseClient<Database>,
+  spaceId: string,
+  requiredRole: SpaceRole = 'viewer'
+): Promise<Response | null> {
+  const { role, response } = await getSpaceRole(request, supabase, spaceId);
+  if (response) return response;
+
+  if (!roleAllows(role, requiredRole)) {
+    return Response.json({ success: false, error: 'You do not have permission to do this' }, { status: 403 });
+  }
+
+  return null;
+}
+
+// Check that a request has editor access it didn't get through a share link:
+// the space password, or any editor of an open space. Owner-level things are
+// kept to them: managing share links (so a link's holders can't mint links
+// that outlive the revocation of their own) and reading the access log.
+export async function requirePasswordEditor(
+  request: Request,
+  supabase: SupabaseClient<Database>,
+  spaceId: string
+): Promise<Response | null> {
+  const { role, linkId, response } = await getSpaceRole(request, supabase, spaceId);
+  if (response) return response;
+
+  if (role !== 'editor' || linkId) {
+    return Response.json(
+      { success: false, error: 'Only people who entered the space password can do this' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Same as requireSpaceAccess, for routes addressed by page id. Pages in the
+// trash are treated as not found; the trash routes are addressed by space.
+export async function requirePageAccess(
+  request: Request,
+  supabase: SupabaseClient<Database>,
+  pageId: string,
+  requiredRole: SpaceRole = 'viewer'
+): Promise<Response | null> {
+  const { data: page, error } = await supabase
+    .from('pages')
+    .select('space_id')
+    .eq('id', pageId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking page access:', error);
+    return Response.json({ success: false, error: 'Failed to check page access' }, { status: 500 });
+  }
+
+  if (!page) {
+    return Response.json({ success: false, error: 'Page not found' }, { status: 404 });
+  }
+
+  return requireSpaceAccess(request, supabase, page.space_id, requiredRole);
+}
+
+// Same as requireSpaceAccess, for a saved template: access to the space it
+// was saved from. Built-in templates can be used by anyone.
+export async function requireTemplateAccess(
+  request: Request,
+  supabase: SupabaseClient<Database>,
+  templateId: string,
+  requiredRole: SpaceRole = 'viewer'
+): Promise<Response | null> {
+  if (getBuiltInTemplate(templateId)) {
+    return requiredRole === 'viewer'
+      ? null
+      : Response.json({ success: false, error: 'Built-in templates cannot be changed' }, { status: 403 });
+  }
+
+  const { data: template, error } = await supabase
+    .from('templates')
+    .select('space_id')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking template access:', error);
+    return Response.json({ success: false, error: 'Failed to check template access' }, { status: 500 });
+  }
+
+  if (!template) {
+    return Response.json({ success: false, error: 'Template not found' }, { status: 404 });
+  }
+
+  return requireSpaceAccess(request, supabase, template.space_id, requiredRole);
+}
@@ -0,0 +1,2968 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json, Tables, TablesInsert } from '../../database.types';
+import type {
+  AuthEvent,
+  CommentRealtimeEvent,
+  DocumentComment,
+  DocumentSyncMessage,
+  DocumentVersion,
+  KanbanRealtimeEvent,
+  MoodboardItem,
+  MoodboardRealtimeEvent,
+  NewDocumentComment,
+  PageBacklink,
+  PageRealtimeEvent,
+  ShareLink,
+  SpaceSearchResult,
+  TrashedPage,
+} from './space-utils';
+import type { SpaceRole } from './space-roles';
+import { DOCUMENT_VERSION_CONFIG } from './document-versions';
+import { DOCUMENT_FILES_BUCKET, getStorageFileName } from './document-files';
+import type { DocumentFileUpload } from './document-files';
+import type { DocumentVersionReason } from './document-versions';
+import { buildPageTree, getPageDescendantIds } from './page-tree';
+import type { PageTreeNode, SubpageDeletion } from './page-tree';
+import { getTrashPurgeCutoff } from './page-trash';
+import { markdownToDocumentValue } from './document-import';
+import { PAGE_EMBED_KEY, getPageLinkHref } from './document-page-links';
+import { TEMPLATE_LIMITS, getBuiltInTemplate } from './templates';
+import {
+  SPACE_ARCHIVES_BUCKET,
+  SPACE_ARCHIVE_FORMAT,
+  SPACE_ARCHIVE_LIMITS,
+  SPACE_ARCHIVE_MAX_SIZE_LABEL,
+  SPACE_ARCHIVE_VERSION,
+  getSpaceArchiveFileName,
+  packSpaceArchive,
+  unpackSpaceArchive,
+} from './space-archive';
+import type {
+  SpaceArchive,
+  SpaceArchiveAsset,
+  SpaceArchiveMoodboardItem,
+  SpaceArchivePage,
+} from './space-archive';
+import type {
+  TemplateContent,
+  TemplateKind,
+  TemplatePage,
+  TemplatePageType,
+  TemplateSummary,
+} from './templates';
+
+// Server-side data access for the api.* resource routes. Every function takes
+// the service-role client from createServerSupabaseClient(); callers must have
+// checked space/page access first (see space-auth.server.ts). Ids coming from
+// the request body are always scoped to the page or space from the URL so a
+// session for one space can't be used to touch rows of another.
+
+type Db = SupabaseClient<Database>;
+
+// Helper function to check if we should log (not in production)
+const shouldLog = () => false
+
+// Spaces
+
+// Update space title
+export async function updateSpaceTitle(
+  db: Db,
+  spaceId: string,
+  newTitle: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await db
+      .from('spaces')
+      .update({ title: newTitle || null })
+      .eq('id', spaceId);
+
+    if (error) {
+      console.error('Error updating space title:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating space title:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Pages
+
+// Load all pages for a space
+export async function loadPagesForSpace(db: Db, spaceId: string): Promise<{
+  pages: Tables<'pages'>[];
+  error?: string;
+}> {
+  try {
+    const { data: pages, error } = await db
+      .from('pages')
+      .select('id, title, type, space_id, parent_id, order, deleted_at')
+      .eq('space_id', spaceId)
+      .is('deleted_at', null)
+      .order('order', { ascending: true, nullsFirst: false })
+      .order('title', { ascending: true });
+
+    if (error) {
+      console.error('Error loading pages:', error);
+      return { pages: [], error: `Failed to load pages: ${error.message}` };
+    }
+
+    if (shouldLog()) console.log('Successfully loaded pages:', pages?.length || 0);
+    return { pages: pages || [] };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading pages:', err);
+    return { pages: [], error: `Exception loading pages: ${errorMessage}` };
+  }
+}
+
+// Load a single page
+export async function getPage(db: Db, pageId: string): Promise<{
+  page: Tables<'pages'> | null;
+  error?: string;
+}> {
+  try {
+    const { data: page, error } = await db
+      .from('pages')
+      .select('id, title, type, space_id, parent_id, order, deleted_at')
+      .eq('id', pageId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading page:', error);
+      return { page: null, error: `Failed to load page: ${error.message}` };
+    }
+
+    return { page };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading page:', err);
+    return { page: null, error: `Exception loading page: ${errorMessage}` };
+  }
+}
+
+// Create a new page in a space, optionally as a subpage of one of its pages.
+// notFound is set when the parent isn't a page of the space.
+export async function createPage(
+  db: Db,
+  spaceId: string,
+  title: string,
+  type: 'document' | 'moodboard' | 'kanban',
+  parentId: string | null = null
+): Promise<{ page: Tables<'pages'> | null; error?: string; notFound?: boolean }> {
+  try {
+    if (parentId) {
+      const { data: parent, error: parentError } = await db
+        .from('pages')
+        .select('id')
+        .eq('id', parentId)
+        .eq('space_id', spaceId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (parentError) {
+        console.error('Error loading parent page:', parentError);
+        return { page: null, error: parentError.message };
+      }
+
+      if (!parent) {
+        return { page: null, error: 'Parent page not found', notFound: true };
+      }
+    }
+
+    // Get the current max order for this space
+    const { data: existingPages } = await db
+      .from('pages')
+      .select('order')
+      .eq('space_id', spaceId)
+      .order('order', { ascending: false, nullsFirst: false })
+      .limit(1);
+
+    const nextOrder = existingPages && existingPages.length > 0
+      ? (existingPages[0].order || 0) + 1
+      : 1;
+
+    const pageData: TablesInsert<'pages'> = {
+      space_id: spaceId,
+      parent_id: parentId,
+      title,
+      type,
+      order: nextOrder
+    };
+
+    const { data: page, error } = await db
+      .from('pages')
+      .insert(pageData)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating page:', error);
+      return { page: null, error: error.message };
+    }
+
+    return { page };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating page:', err);
+    return { page: null, error: errorMessage };
+  }
+}
+
+// Rename a page
+export async function renamePage(
+  db: Db,
+  pageId: string,
+  newTitle: string
+): Promise<{ page: Tables<'pages'> | null; error?: string }> {
+  try {
+    const { data: page, error } = await db
+      .from('pages')
+      .update({ title: newTitle })
+      .eq('id', pageId)
+      .is('deleted_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error renaming page:', error);
+      return { page: null, error: error.message };
+    }
+
+    if (!page) {
+      return { page: null, error: 'Page not found or could not be updated' };
+    }
+
+    return { page };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error renaming page:', err);
+    return { page: null, error: errorMessage };
+  }
+}
+
+// Put the pages under one parent (null: the top-level pages) in a new order.
+// pageIds must list exactly those pages; they're numbered 1, 2, 3, ... in a
+// single write and everyone in the space is told the new order.
+export async function reorderPages(
+  db: Db,
+  spaceId: string,
+  parentId: string | null,
+  pageIds: string[]
+): Promise<{ success: boolean; error?: string; invalid?: boolean }> {
+  try {
+    const { data: siblings, error: siblingsError } = await db
+      .from('pages')
+      .select('id, parent_id')
+      .eq('space_id', spaceId)
+      .is('deleted_at', null);
+
+    if (siblingsError) {
+      console.error('Error loading pages to reorder:', siblingsError);
+      return { success: false, error: siblingsError.message };
+    }
+
+    const siblingIds = new Set(
+      siblings.filter((page) => page.parent_id === parentId).map((page) => page.id)
+    );
+
+    if (
+      new Set(pageIds).size !== pageIds.length ||
+      pageIds.length !== siblingIds.size ||
+      pageIds.some((id) => !siblingIds.has(id))
+    ) {
+      return { success: false, error: 'The pages have changed, reload and try again', invalid: true };
+    }
+
+    const { error } = await db.rpc('reorder_pages', {
+      p_space_id: spaceId,
+      p_page_ids: pageIds,
+    });
+
+    if (error) {
+      console.error('Error reordering pages:', error);
+      return { success: false, error: error.message };
+    }
+
+    await broadcastPageEvents(db, spaceId, [
+      { type: 'reorder', pages: pageIds.map((id, index) => ({ id, order: index + 1 })) },
+    ]);
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error reordering pages:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Move a page to the trash (see trash_page). Its subpages either go with it
+// or are first moved up to its parent. Returns the ids of every page that
+// was trashed.
+export async function deletePage(
+  db: Db,
+  pageId: string,
+  subpages: SubpageDeletion = 'move_up'
+): Promise<{ success: boolean; deletedPageIds: string[]; error?: string }> {
+  try {
+    const { data, error } = await db.rpc('trash_page', {
+      p_page_id: pageId,
+      p_move_subpages_up: subpages === 'move_up',
+    });
+
+    if (error) {
+      console.error('Error deleting page:', error);
+      return { success: false, deletedPageIds: [], error: error.message };
+    }
+
+    return { success: true, deletedPageIds: (data || []).map((row) => row.id) };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error deleting page:', err);
+    return { success: false, deletedPageIds: [], error: errorMessage };
+  }
+}
+
+// Copy a page with all of its content (see duplicate_page) into a new page
+// right after it, titled "<title> (copy)". A document's uploaded files are
+// copied to the new page's folder, so deleting either page keeps the other's.
+export async function duplicatePage(db: Db, pageId: string): Promise<{
+  page: Tables<'pages'> | null;
+  error?: string;
+}> {
+  try {
+    const { data: original, error: pageError } = await db
+      .from('pages')
+      .select('title, type')
+      .eq('id', pageId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (pageError || !original) {
+      console.error('Error loading page to duplicate:', pageError);
+      return { page: null, error: pageError?.message || 'Page not found' };
+    }
+
+    const newPageId = randomUUID();
+    let fileUrls = { from: '', to: '' };
+
+    if (original.type === 'document') {
+      const copied = await copyDocumentFiles(db, pageId, newPageId);
+      if (!copied.success) {
+        await deleteDocumentFiles(db, newPageId);
+        return { page: null, error: `Failed to copy files: ${copied.error}` };
+      }
+      fileUrls = {
+        from: getDocumentFolderUrl(db, pageId),
+        to: getDocumentFolderUrl(db, newPageId),
+      };
+    }
+
+    const { data: page, error } = await db
+      .rpc('duplicate_page', {
+        p_page_id: pageId,
+        p_new_page_id: newPageId,
+        p_title: `${original.title} (copy)`,
+        p_file_url_from: fileUrls.from,
+        p_file_url_to: fileUrls.to,
+      })
+      .single();
+
+    if (error) {
+      console.error('Error duplicating page:', error);
+      await deleteDocumentFiles(db, newPageId);
+      return { page: null, error: error.message };
+    }
+
+    return { page };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error duplicating page:', err);
+    return { page: null, error: errorMessage };
+  }
+}
+
+// Move a page, with its subpages, to another space (see move_page_to_space).
+// Callers check access to both spaces. Returns the ids of the moved pages.
+export async function movePageToSpace(db: Db, pageId: string, targetSpaceId: string): Promise<{
+  success: boolean;
+  movedPageIds: string[];
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db.rpc('move_page_to_space', {
+      p_page_id: pageId,
+      p_space_id: targetSpaceId,
+    });
+
+    if (error) {
+      console.error('Error moving page to space:', error);
+      return { success: false, movedPageIds: [], error: error.message };
+    }
+
+    return { success: true, movedPageIds: (data || []).map((row) => row.id) };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error moving page to space:', err);
+    return { success: false, movedPageIds: [], error: errorMessage };
+  }
+}
+
+// Trash
+
+// Pages in the trash of a space, most recently trashed first
+export async function loadTrashedPages(db: Db, spaceId: string): Promise<{
+  pages: TrashedPage[];
+  error?: string;
+}> {
+  try {
+    const { data: pages, error } = await db
+      .from('pages')
+      .select('id, title, type, parent_id, deleted_at')
+      .eq('space_id', spaceId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .order('title', { ascending: true });
+
+    if (error) {
+      console.error('Error loading trashed pages:', error);
+      return { pages: [], error: `Failed to load the trash: ${error.message}` };
+    }
+
+    return { pages: (pages || []) as TrashedPage[] };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading trashed pages:', err);
+    return { pages: [], error: `Exception loading the trash: ${errorMessage}` };
+  }
+}
+
+// A trashed page of the space and the subpages trashed along with it.
+// notFound is set when the page isn't in the trash of the space.
+async function loadTrashedGroup(db: Db, spaceId: string, pageId: string): Promise<{
+  page: TrashedPage | null;
+  pageIds: string[];
+  error?: string;
+  notFound?: boolean;
+}> {
+  const { data: trashed, error } = await db
+    .from('pages')
+    .select('id, title, type, parent_id, deleted_at')
+    .eq('space_id', spaceId)
+    .not('deleted_at', 'is', null);
+
+  if (error) {
+    console.error('Error loading trashed pages:', error);
+    return { page: null, pageIds: [], error: error.message };
+  }
+
+  const page = (trashed as TrashedPage[]).find((p) => p.id === pageId);
+  if (!page) {
+    return { page: null, pageIds: [], error: 'Page not found in the trash', notFound: true };
+  }
+
+  const group = trashed.filter((p) => p.deleted_at === page.deleted_at);
+  return { page, pageIds: [pageId, ...getPageDescendantIds(group, pageId)] };
+}
+
+// Take a page (and the subpages trashed with it) out of the trash. It goes
+// back under its parent, or to the top level when the parent is gone or
+// still in the trash. Returns the ids of the restored pages.
+export async function restorePage(db: Db, spaceId: string, pageId: string): Promise<{
+  success: boolean;
+  restoredPageIds: string[];
+  error?: string;
+  notFound?: boolean;
+}> {
+  try {
+    const { page, pageIds, error, notFound } = await loadTrashedGroup(db, spaceId, pageId);
+    if (!page) {
+      return { success: false, restoredPageIds: [], error, notFound };
+    }
+
+    if (page.parent_id) {
+      const { data: parent, error: parentError } = await db
+        .from('pages')
+        .select('id')
+        .eq('id', page.parent_id)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (parentError) {
+        console.error('Error loading parent page:', parentError);
+        return { success: false, restoredPageIds: [], error: parentError.message };
+      }
+
+      if (!parent) {
+        const { error: moveError } = await db
+          .from('pages')
+          .update({ parent_id: null })
+          .eq('id', pageId);
+
+        if (moveError) {
+          console.error('Error moving restored page to the top level:', moveError);
+          return { success: false, restoredPageIds: [], error: moveError.message };
+        }
+      }
+    }
+
+    const { error: restoreError } = await db
+      .from('pages')
+      .update({ deleted_at: null })
+      .in('id', pageIds);
+
+    if (restoreError) {
+      console.error('Error restoring page:', restoreError);
+      return { success: false, restoredPageIds: [], error: restoreError.message };
+    }
+
+    return { success: true, restoredPageIds: pageIds };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error restoring page:', err);
+    return { success: false, restoredPageIds: [], error: errorMessage };
+  }
+}
+
+// Delete pages of a space for good: their rows (subpages, blocks, cards and
+// items go with them through ON DELETE CASCADE) and the uploaded files of
+// the pages and every subpage below them
+async function purgePages(
+  db: Db,
+  spaceId: string,
+  pageIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+  // The cascade doesn't reach storage, so find the subpages' folders first
+  const { data: spacePages, error: loadError } = await db
+    .from('pages')
+    .select('id, parent_id')
+    .eq('space_id', spaceId);
+
+  if (loadError) {
+    console.error('Error loading pages to purge:', loadError);
+    return { success: false, error: loadError.message };
+  }
+
+  const purgedIds = new Set(pageIds);
+  for (const id of pageIds) {
+    getPageDescendantIds(spacePages ?? [], id).forEach((descendantId) => purgedIds.add(descendantId));
+  }
+
+  const { error } = await db
+    .from('pages')
+    .delete()
+    .in('id', pageIds);
+
+  if (error) {
+    console.error('Error purging pages:', error);
+    return { success: false, error: error.message };
+  }
+
+  // The pages are gone either way; leftover files are only logged
+  for (const id of purgedIds) {
+    await deleteDocumentFiles(db, id);
+  }
+
+  return { success: true };
+}
+
+// Permanently delete a page from the trash, with the subpages trashed with it
+export async function purgePage(db: Db, spaceId: string, pageId: string): Promise<{
+  success: boolean;
+  error?: string;
+  notFound?: boolean;
+}> {
+  try {
+    const { page, pageIds, error, notFound } = await loadTrashedGroup(db, spaceId, pageId);
+    if (!page) {
+      return { success: false, error, notFound };
+    }
+
+    return await purgePages(db, spaceId, pageIds);
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error purging page:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Purge the pages of a space that have been in the trash for longer than
+// PAGE_TRASH_CONFIG.retentionDays
+export async function purgeExpiredPages(db: Db, spaceId: string): Promise<{
+  purged: number;
+  error?: string;
+}> {
+  try {
+    const { data: expired, error } = await db
+      .from('pages')
+      .select('id')
+      .eq('space_id', spaceId)
+      .lt('deleted_at', getTrashPurgeCutoff().toISOString());
+
+    if (error) {
+      console.error('Error loading expired trashed pages:', error);
+      return { purged: 0, error: error.message };
+    }
+
+    if (!expired || expired.length === 0) {
+      return { purged: 0 };
+    }
+
+    const result = await purgePages(db, spaceId, expired.map((page) => page.id));
+    return { purged: result.success ? expired.length : 0, error: result.error };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error purging expired pages:', err);
+    return { purged: 0, error: errorMessage };
+  }
+}
+
+// Templates
+
+const TEMPLATE_COLUMNS = 'id, kind, name, description, space_id, created_at';
+
+// Saved templates of some spaces, newest first, without their content
+export async function loadTemplates(db: Db, spaceIds: string[], kind?: TemplateKind): Promise<{
+  templates: TemplateSummary[];
+  error?: string;
+}> {
+  try {
+    if (spaceIds.length === 0) return { templates: [] };
+
+    let query = db
+      .from('templates')
+      .select(TEMPLATE_COLUMNS)
+      .in('space_id', spaceIds);
+
+    if (kind) query = query.eq('kind', kind);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading templates:', error);
+      return { templates: [], error: `Failed to load templates: ${error.message}` };
+    }
+
+    return { templates: (data || []) as TemplateSummary[] };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading templates:', err);
+    return { templates: [], error: `Exception loading templates: ${errorMessage}` };
+  }
+}
+
+// Load a saved template with its content
+export async function getTemplate(db: Db, templateId: string): Promise<{
+  template: (TemplateSummary & { content: TemplateContent }) | null;
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db
+      .from('templates')
+      .select(`${TEMPLATE_COLUMNS}, content`)
+      .eq('id', templateId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading template:', error);
+      return { template: null, error: `Failed to load template: ${error.message}` };
+    }
+
+    return { template: data as (TemplateSummary & { content: TemplateContent }) | null };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading template:', err);
+    return { template: null, error: `Exception loading template: ${errorMessage}` };
+  }
+}
+
+// Content of a built-in or saved template. notFound is set when there's no
+// template with that id.
+export async function getTemplateContent(db: Db, templateId: string): Promise<{
+  content: TemplateContent | null;
+  error?: string;
+  notFound?: boolean;
+}> {
+  const builtIn = getBuiltInTemplate(templateId);
+  if (builtIn) return { content: builtIn.content };
+
+  const { template, error } = await getTemplate(db, templateId);
+  if (error) return { content: null, error };
+  if (!template) return { content: null, error: 'Template not found', notFound: true };
+
+  return { content: template.content };
+}
+
+// Template content as stored in the jsonb column. Serializing drops anything
+// that isn't JSON (undefined fields), so the result is Json.
+function templateContentToJson(content: TemplateContent): Json {
+  return JSON.parse(JSON.stringify(content)) as Json;
+}
+
+// Folder in the document-files bucket keeping the uploaded files of a saved
+// template's nth document, so the template outlives the pages it came from
+const getTemplateFilesFolder = (templateId: string, index: number) => `templates/${templateId}/${index}`;
+
+// Files folders of a template's documents, subpages included
+function getTemplateFilesFolders(pages: TemplatePage[]): string[] {
+  return pages.flatMap((page) => [
+    ...(page.filesFolder ? [page.filesFolder] : []),
+    ...getTemplateFilesFolders(page.children ?? []),
+  ]);
+}
+
+// Copy a page's content, and its subpages', into a template page. Documents
+// are copied as of their last autosave, with their file URLs pointing at a
+// files folder of the template; the files to copy there are added to copies.
+async function snapshotTemplatePage(
+  db: Db,
+  node: PageTreeNode<Tables<'pages'>>,
+  templateId: string,
+  copies: { from: string; to: string }[]
+): Promise<TemplatePage> {
+  const { page, children } = node;
+  const templatePage: TemplatePage = { title: page.title, type: page.type as TemplatePageType };
+
+  if (page.type === 'document') {
+    const { blocks, error } = await loadDocumentBlocks(db, page.id);
+    if (error) throw new Error(error);
+
+    const folder = getTemplateFilesFolder(templateId, copies.length);
+    copies.push({ from: page.id, to: folder });
+    templatePage.filesFolder = folder;
+    templatePage.blocks = remapDocumentBlocks(
+      blocks.map((block) => block.content),
+      new Map(),
+      { from: getDocumentFolderUrl(db, page.id), to: getDocumentFolderUrl(db, folder) }
+    ) as unknown[];
+  } else if (page.type === 'kanban') {
+    const { columns, error } = await loadKanbanData(db, page.id);
+    if (error) throw new Error(error);
+    templatePage.columns = columns.map((column) => ({
+      title: column.title,
+      cards: column.cards.map(({ title, description }) => ({ title, description })),
+    }));
+  } else if (page.type === 'moodboard') {
+    const { items, error } = await loadMoodboardItems(db, page.id);
+    if (error) throw new Error(error);
+    templatePage.items = items.map(({ id, ...item }) => item);
+  }
+
+  if (children.length > 0) {
+    templatePage.children = [];
+    for (const child of children) {
+      templatePage.children.push(await snapshotTemplatePage(db, child, templateId, copies));
+    }
+  }
+
+  return templatePage;
+}
+
+// Save a page of the space (with its subpages) or the whole space as a
+// template. notFound is set when the page isn't in the space, invalid when
+// the space has no pages, and tooLarge when the snapshot is over
+// TEMPLATE_LIMITS.maxContentBytes.
+export async function saveTemplate(
+  db: Db,
+  spaceId: string,
+  template: { kind: TemplateKind; name: string; description: string | null; pageId?: string | null }
+): Promise<{
+  template: TemplateSummary | null;
+  error?: string;
+  notFound?: boolean;
+  invalid?: boolean;
+  tooLarge?: boolean;
+}> {
+  try {
+    const { pages, error: pagesError } = await loadPagesForSpace(db, spaceId);
+    if (pagesError) {
+      return { template: null, error: pagesError };
+    }
+
+    if (pages.length === 0) {
+      return { template: null, error: 'There are no pages to save', invalid: true };
+    }
+
+    let templatePages = pages;
+    if (template.kind === 'page') {
+      if (!template.pageId || !pages.some((page) => page.id === template.pageId)) {
+        return { template: null, error: 'Page not found', notFound: true };
+      }
+
+      const pageIds = [template.pageId, ...getPageDescendantIds(pages, template.pageId)];
+      templatePages = pages.filter((page) => pageIds.includes(page.id));
+    }
+
+    const templateId = randomUUID();
+    const copies: { from: string; to: string }[] = [];
+    const content: TemplateContent = { pages: [] };
+    for (const node of buildPageTree(templatePages)) {
+      content.pages.push(await snapshotTemplatePage(db, node, templateId, copies));
+    }
+
+    if (Buffer.byteLength(JSON.stringify(content)) > TEMPLATE_LIMITS.maxContentBytes) {
+      return { template: null, error: 'This is too much content for a template', tooLarge: true };
+    }
+
+    const removeFiles = async () => {
+      for (const { to } of copies) await deleteDocumentFiles(db, to);
+    };
+
+    for (const { from, to } of copies) {
+      const copied = await copyDocumentFiles(db, from, to);
+      if (!copied.success) {
+        await removeFiles();
+        return { template: null, error: `Failed to copy files: ${copied.error}` };
+      }
+    }
+
+    const { data, error } = await db
+      .from('templates')
+      .insert({
+        id: templateId,
+        space_id: spaceId,
+        kind: template.kind,
+        name: template.name,
+        description: template.description,
+        content: templateContentToJson(content),
+      })
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error saving template:', error);
+      await removeFiles();
+      return { template: null, error: error.message };
+    }
+
+    return { template: data as TemplateSummary };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error saving template:', err);
+    return { template: null, error: errorMessage };
+  }
+}
+
+// Delete a saved template and the files of its documents
+export async function deleteTemplate(db: Db, templateId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await db
+      .from('templates')
+      .delete()
+      .eq('id', templateId)
+      .select('content')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error deleting template:', error);
+      return { success: false, error: error.message };
+    }
+
+    // The template is gone either way; leftover files are only logged
+    const content = data?.content as TemplateContent | undefined;
+    for (const folder of getTemplateFilesFolders(content?.pages ?? [])) {
+      await deleteDocumentFiles(db, folder);
+    }
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error deleting template:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Write a template page's content into a new, empty page
+async function fillPageFromTemplate(db: Db, pageId: string, templatePage: TemplatePage): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  if (templatePage.type === 'document') {
+    let blocks: unknown[] = templatePage.blocks ?? markdownToDocumentValue(templatePage.markdown ?? '');
+
+    // Saved templates keep their own copies of the files; each page gets its own
+    if (templatePage.filesFolder) {
+      const copied = await copyDocumentFiles(db, templatePage.filesFolder, pageId);
+      if (!copied.success) return { success: false, error: `Failed to copy files: ${copied.error}` };
+
+      blocks = remapDocumentBlocks(blocks, new Map(), {
+        from: getDocumentFolderUrl(db, templatePage.filesFolder),
+        to: getDocumentFolderUrl(db, pageId),
+      }) as unknown[];
+    }
+
+    return saveDocumentBlocks(db, pageId, blocks);
+  }
+
+  if (templatePage.type === 'kanban') {
+    const columns = templatePage.columns ?? [];
+    for (const [index, column] of columns.entries()) {
+      const { data: created, error } = await db
+        .from('kanban_columns')
+        .insert({ page_id: pageId, title: column.title, order: index + 1 })
+        .select('id')
+        .single();
+
+      if (error) return { success: false, error: error.message };
+      if (column.cards.length === 0) continue;
+
+      const { error: cardsError } = await db
+        .from('kanban_cards')
+        .insert(column.cards.map((card, cardIndex) => ({
+          column_id: created.id,
+          content: JSON.stringify({ title: card.title, description: card.description || undefined }),
+          order: cardIndex + 1
+        })));
+
+      if (cardsError) return { success: false, error: cardsError.message };
+    }
+    return { success: true };
+  }
+
+  const items = templatePage.items ?? [];
+  if (items.length > 0) {
+    const { error } = await db
+      .from('moodboard_items')
+      .insert(items.map((item) => itemToDbItem(item, pageId)));
+
+    if (error) return { success: false, error: error.message };
+  }
+  return { success: true };
+}
+
+// Create the pages of a template, with their content and subpages, in a
+// space: at the top level, or under parentId. notFound is set when the parent
+// isn't a page of the space. Pages that fail to be filled in are kept (empty)
+// and named in error.
+export async function createPagesFromTemplate(
+  db: Db,
+  spaceId: string,
+  content: TemplateContent,
+  parentId: string | null = null
+): Promise<{ pages: Tables<'pages'>[]; error?: string; notFound?: boolean }> {
+  const pages: Tables<'pages'>[] = [];
+  const failed: string[] = [];
+
+  const createAll = async (templatePages: TemplatePage[], parent: string | null) => {
+    for (const templatePage of templatePages) {
+      const { page, error, notFound } = await createPage(db, spaceId, templatePage.title, templatePage.type, parent);
+      if (notFound) return { notFound };
+      if (error || !page) {
+        failed.push(templatePage.title);
+        continue;
+      }
+
+      pages.push(page);
+      const filled = await fillPageFromTemplate(db, page.id, templatePage);
+      if (!filled.success) {
+        console.error('Error filling page from template:', filled.error);
+        failed.push(templatePage.title);
+      }
+
+      await createAll(templatePage.children ?? [], page.id);
+    }
+    return {};
+  };
+
+  try {
+    const { notFound } = await createAll(content.pages, parentId);
+    if (notFound) {
+      return { pages, error: 'Parent page not found', notFound: true };
+    }
+
+    return failed.length > 0
+      ? { pages, error: `Some pages could not be created: ${failed.join(', ')}` }
+      : { pages };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating pages from template:', err);
+    return { pages, error: errorMessage };
+  }
+}
+
+// Space archives
+
+const MOODBOARD_IMAGES_BUCKET = 'moodboard-images';
+
+// How long the download link of an export works
+const SPACE_EXPORT_URL_TTL_SECONDS = 60 * 60;
+
+// imports/<uuid>.zip, as handed out by createSpaceArchiveUpload
+const SPACE_ARCHIVE_UPLOAD_PATH = /^imports\/[0-9a-f-]{36}\.zip$/;
+
+// Storage file names from an archive must stay inside the page's folder
+const isSafeFileName = (name: string) => /^[\w-][\w.-]*$/.test(name);
+
+// "<page id>/123-abc.webp" -> "123-abc.webp"
+const getFileName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+async function downloadFile(db: Db, bucket: string, path: string): Promise<Uint8Array> {
+  const { data, error } = await db.storage.from(bucket).download(path);
+  if (error) throw new Error(`Failed to download ${path}: ${error.message}`);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+// Add the files uploaded to a document page to the archive's assets
+async function exportDocumentFiles(
+  db: Db,
+  pageId: string,
+  assets: Record<string, Uint8Array>
+): Promise<SpaceArchiveAsset[]> {
+  const bucket = db.storage.from(DOCUMENT_FILES_BUCKET);
+  const files: SpaceArchiveAsset[] = [];
+
+  // Listing is paged
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await bucket.list(pageId, { limit: 1000, offset });
+
+    if (error) throw new Error(`Failed to list document files: ${error.message}`);
+    if (!data || data.length === 0) break;
+
+    for (const file of data) {
+      const path = `assets/files/${pageId}/${file.name}`;
+      assets[path] = await downloadFile(db, DOCUMENT_FILES_BUCKET, `${pageId}/${file.name}`);
+      files.push({ name: file.name, path, contentType: file.metadata?.mimetype });
+    }
+
+    if (data.length < 1000) break;
+  }
+
+  return files;
+}
+
+// Add the images of a moodboard that are stored in moodboard-images to the
+// archive's assets. An image that can't be downloaded keeps only its URL.
+async function exportMoodboardItems(
+  db: Db,
+  pageId: string,
+  items: MoodboardItem[],
+  assets: Record<string, Uint8Array>
+): Promise<SpaceArchiveMoodboardItem[]> {
+  const imagesUrl = db.storage.from(MOODBOARD_IMAGES_BUCKET).getPublicUrl('').data.publicUrl;
+
+  const exported: SpaceArchiveMoodboardItem[] = [];
+  for (const [index, { id, ...item }] of items.entries()) {
+    if (item.type !== 'image' || !item.content?.startsWith(imagesUrl)) {
+      exported.push(item);
+      continue;
+    }
+
+    const storagePath = decodeURIComponent(item.content.slice(imagesUrl.length).split('?')[0]);
+    // Prefixed with the item's position: images on one board can share a name
+    const path = `assets/moodboard/${pageId}/${index}-${getFileName(storagePath)}`;
+    try {
+      assets[path] = await downloadFile(db, MOODBOARD_IMAGES_BUCKET, storagePath);
+      exported.push({ ...item, asset: path });
+    } catch (err) {
+      console.error('Error exporting moodboard image:', err);
+      exported.push(item);
+    }
+  }
+
+  return exported;
+}
+
+// Everything in a space (not its trash) as a zip, see space-archive.ts, stored
+// in the space-archives bucket in place of the space's previous export.
+// Returns a signed download URL. notFound is set when the space doesn't
+// exist, tooLarge when the zip is over SPACE_ARCHIVE_LIMITS.maxArchiveBytes.
+export async function exportSpace(db: Db, spaceId: string): Promise<{
+  url: string | null;
+  error?: string;
+  notFound?: boolean;
+  tooLarge?: boolean;
+}> {
+  try {
+    const { data: space, error: spaceError } = await db
+      .from('spaces')
+      .select('id, title, created_at')
+      .eq('id', spaceId)
+      .maybeSingle();
+
+    if (spaceError) {
+      console.error('Error loading space to export:', spaceError);
+      return { url: null, error: spaceError.message };
+    }
+
+    if (!space) {
+      return { url: null, error: 'Space not found', notFound: true };
+    }
+
+    const { pages, error: pagesError } = await loadPagesForSpace(db, spaceId);
+    if (pagesError) {
+      return { url: null, error: pagesError };
+    }
+
+    const assets: Record<string, Uint8Array> = {};
+    const archivePages: SpaceArchivePage[] = [];
+
+    for (const page of pages) {
+      const archivePage: SpaceArchivePage = {
+        id: page.id,
+        parent_id: page.parent_id,
+        title: page.title,
+        type: page.type as SpaceArchivePage['type'],
+        order: page.order,
+      };
+
+      if (page.type === 'document') {
+        const { blocks, error } = await loadDocumentBlocks(db, page.id);
+        if (error) throw new Error(error);
+        archivePage.blocks = blocks.map((block) => block.content);
+        archivePage.filesUrl = getDocumentFolderUrl(db, page.id);
+        archivePage.files = await exportDocumentFiles(db, page.id, assets);
+      } else if (page.type === 'kanban') {
+        const { columns, error } = await loadKanbanData(db, page.id);
+        if (error) throw new Error(error);
+        archivePage.columns = columns.map((column) => ({
+          title: column.title,
+          cards: column.cards.map(({ title, description }) => ({ title, description })),
+        }));
+      } else if (page.type === 'moodboard') {
+        const { items, error } = await loadMoodboardItems(db, page.id);
+        if (error) throw new Error(error);
+        archivePage.items = await exportMoodboardItems(db, page.id, items, assets);
+      }
+
+      archivePages.push(archivePage);
+    }
+
+    const archive = packSpaceArchive({
+      manifest: {
+        format: SPACE_ARCHIVE_FORMAT,
+        version: SPACE_ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        space: { id: space.id, title: space.title, created_at: space.created_at },
+        pages: archivePages,
+      },
+      assets,
+    });
+
+    if (archive.byteLength > SPACE_ARCHIVE_LIMITS.maxArchiveBytes) {
+      return {
+        url: null,
+        error: `This space is too large to export (the limit is ${SPACE_ARCHIVE_MAX_SIZE_LABEL}, files and images included)`,
+        tooLarge: true,
+      };
+    }
+
+    const folder = `exports/${spaceId}`;
+    const bucket = db.storage.from(SPACE_ARCHIVES_BUCKET);
+
+    const { data: previous } = await bucket.list(folder);
+    if (previous && previous.length > 0) {
+      await bucket.remove(previous.map((file) => `${folder}/${file.name}`));
+    }
+
+    const path = `${folder}/${randomUUID()}.zip`;
+    const { error: uploadError } = await bucket.upload(path, archive, { contentType: 'application/zip' });
+    if (uploadError) {
+      console.error('Error storing space export:', uploadError);
+      return { url: null, error: uploadError.message };
+    }
+
+    const { data: signed, error: signError } = await bucket.createSignedUrl(path, SPACE_EXPORT_URL_TTL_SECONDS, {
+      download: getSpaceArchiveFileName(space.title, space.id),
+    });
+    if (signError) {
+      console.error('Error signing space export:', signError);
+      return { url: null, error: signError.message };
+    }
+
+    return { url: signed.signedUrl };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error exporting space:', err);
+    return { url: null, error: errorMessage };
+  }
+}
+
+async function uploadArchiveAsset(
+  db: Db,
+  bucket: string,
+  path: string,
+  data: Uint8Array,
+  contentType?: string
+): Promise<string> {
+  const storage = db.storage.from(bucket);
+  const { error } = await storage.upload(path, data, { contentType, upsert: true });
+  if (error) throw new Error(`Failed to upload ${path}: ${error.message}`);
+  return storage.getPublicUrl(path).data.publicUrl;
+}
+
+// Fill a new page with the content of an archived page, uploading its files
+// and images again. idMap maps page ids in the archive to the new pages, to
+// repoint links and embeds in documents.
+async function fillPageFromArchive(
+  db: Db,
+  pageId: string,
+  page: SpaceArchivePage,
+  assets: Record<string, Uint8Array>,
+  idMap: Map<string, string>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const templatePage: TemplatePage = { title: page.title, type: page.type, columns: page.columns };
+
+    if (page.type === 'document') {
+      for (const file of page.files ?? []) {
+        const data = assets[file.path];
+        if (!data || !isSafeFileName(file.name)) continue;
+        await uploadArchiveAsset(db, DOCUMENT_FILES_BUCKET, `${pageId}/${file.name}`, data, file.contentType);
+      }
+
+      const files = page.filesUrl
+        ? { from: page.filesUrl, to: getDocumentFolderUrl(db, pageId) }
+        : null;
+      templatePage.blocks = remapDocumentBlocks(page.blocks ?? [], idMap, files) as unknown[];
+    }
+
+    if (page.type === 'moodboard') {
+      templatePage.items = [];
+      for (const { asset, ...item } of page.items ?? []) {
+        const data = asset ? assets[asset] : undefined;
+        const fileName = asset ? getFileName(asset) : '';
+
+        if (data && isSafeFileName(fileName)) {
+          item.content = await uploadArchiveAsset(
+            db,
+            MOODBOARD_IMAGES_BUCKET,
+            `${pageId}/${fileName}`,
+            data,
+            fileName.endsWith('.webp') ? 'image/webp' : undefined
+          );
+        }
+        templatePage.items.push(item);
+      }
+    }
+
+    return await fillPageFromTemplate(db, pageId, templatePage);
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Recreate the pages of an archive in a (new) space, in their order and
+// nesting, with their content, uploaded files and moodboard images. Pages
+// that fail to be filled in are kept (empty) and named in error; subpages of
+// a page that couldn't be created move up a level.
+export async function importSpaceArchive(db: Db, spaceId: string, archive: SpaceArchive): Promise<{
+  pages: number;
+  error?: string;
+}> {
+  const failed: string[] = [];
+  const idMap = new Map<string, string>();
+  const created: { page: SpaceArchivePage; id: string }[] = [];
+
+  const pages = [...archive.manifest.pages].sort(
+    (a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER)
+  );
+
+  // Every page first, so links between them can be repointed when filling
+  const createAll = async (nodes: PageTreeNode<SpaceArchivePage>[], parentId: string | null) => {
+    for (const { page, children } of nodes) {
+      const { page: newPage, error } = await createPage(db, spaceId, page.title, page.type, parentId);
+
+      if (error || !newPage) {
+        console.error('Error creating imported page:', error);
+        failed.push(page.title);
+        await createAll(children, parentId);
+        continue;
+      }
+
+      idMap.set(page.id, newPage.id);
+      created.push({ page, id: newPage.id });
+      await createAll(children, newPage.id);
+    }
+  };
+
+  try {
+    await createAll(buildPageTree(pages), null);
+
+    for (const { page, id } of created) {
+      const filled = await fillPageFromArchive(db, id, page, archive.assets, idMap);
+      if (!filled.success) {
+        console.error('Error filling imported page:', filled.error);
+        failed.push(page.title);
+      }
+    }
+
+    return failed.length > 0
+      ? { pages: created.length, error: `Some pages could not be imported: ${failed.join(', ')}` }
+      : { pages: created.length };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error importing space archive:', err);
+    return { pages: created.length, error: errorMessage };
+  }
+}
+
+// Sign an upload of a space export to import. The browser uploads the zip to
+// the space-archives bucket itself; its size is capped by the bucket.
+export async function createSpaceArchiveUpload(db: Db): Promise<{
+  upload: { path: string; token: string } | null;
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db.storage
+      .from(SPACE_ARCHIVES_BUCKET)
+      .createSignedUploadUrl(`imports/${randomUUID()}.zip`);
+
+    if (error) {
+      console.error('Error creating space archive upload:', error);
+      return { upload: null, error: error.message };
+    }
+
+    return { upload: { path: data.path, token: data.token } };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating space archive upload:', err);
+    return { upload: null, error: errorMessage };
+  }
+}
+
+// Read and remove an archive uploaded through createSpaceArchiveUpload.
+// invalid is set for paths that aren't such an upload and for zips that
+// aren't space exports, tooLarge for zips over maxArchiveBytes.
+export async function takeSpaceArchiveUpload(db: Db, path: string): Promise<{
+  archive: SpaceArchive | null;
+  error?: string;
+  invalid?: boolean;
+  tooLarge?: boolean;
+}> {
+  if (!SPACE_ARCHIVE_UPLOAD_PATH.test(path)) {
+    return { archive: null, error: 'Invalid archive upload', invalid: true };
+  }
+
+  const bucket = db.storage.from(SPACE_ARCHIVES_BUCKET);
+  try {
+    const { data, error } = await bucket.download(path);
+    if (error) {
+      console.error('Error downloading space archive upload:', error);
+      return { archive: null, error: 'The uploaded archive could not be read', invalid: true };
+    }
+
+    if (data.size > SPACE_ARCHIVE_LIMITS.maxArchiveBytes) {
+      return {
+        archive: null,
+        error: `Archives of up to ${SPACE_ARCHIVE_MAX_SIZE_LABEL} can be imported`,
+        tooLarge: true,
+      };
+    }
+
+    const unpacked = unpackSpaceArchive(new Uint8Array(await data.arrayBuffer()));
+    if ('error' in unpacked) {
+      return { archive: null, error: unpacked.error, invalid: true };
+    }
+
+    return { archive: unpacked };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error reading space archive upload:', err);
+    return { archive: null, error: errorMessage };
+  } finally {
+    await bucket.remove([path]);
+  }
+}
+
+// Documents
+
+// Load document blocks for a page
+export async function loadDocumentBlocks(db: Db, pageId: string): Promise<{
+  blocks: Tables<'document_blocks'>[];
+  error?: string;
+}> {
+  try {
+    const { data: blocks, error } = await db
+      .from('document_blocks')
+      .select('id, block_id, content, type, order, page_id')
+      .eq('page_id', pageId)
+      .order('order', { ascending: true, nullsFirst: false })
+      .order('id', { ascending: true }); // Secondary sort for consistency
+
+    if (error) {
+      console.error('Error loading document blocks:', error);
+      return { blocks: [], error: `Failed to load document blocks: ${error.message}` };
+    }
+
+    return { blocks: blocks || [] };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading document blocks:', err);
+    return { blocks: [], error: `Exception loading document blocks: ${errorMessage}` };
+  }
+}
+
+// Map Plate editor blocks to database types. Lists aren't wrapper nodes in
+// Plate: any block with a listStyleType is a list item (bulleted, numbered or
+// to-do), whatever its own type.
+const PLATE_TYPE_TO_DB_TYPE: Record<string, string> = {
+  'p': 'paragraph',
+  'h1': 'heading',
+  'h2': 'heading',
+  'h3': 'heading',
+  'h4': 'heading',
+  'h5': 'heading',
+  'h6': 'heading',
+  'blockquote': 'quote',
+  'hr': 'divider',
+  'code_block': 'code_block',
+  'img': 'image',
+  'file': 'file',
+  'table': 'table',
+  // Older list and code nodes
+  'ul': 'list',
+  'ol': 'list',
+  'li': 'list_item',
+  'code': 'code',
+  'pre': 'code_block',
+  'tr': 'table_row',
+  'td': 'table_cell',
+  'th': 'table_header'
+};
+
+function mapPlateBlockToDbType(block: { type?: string; listStyleType?: string }): string {
+  if (block.listStyleType) return 'list_item';
+
+  return PLATE_TYPE_TO_DB_TYPE[block.type || 'p'] || 'unknown';
+}
+
+// Give every block a unique string id. Plate's node ids are kept; blocks
+// without one (or repeating an earlier one) get a new id written into them.
+function withBlockIds(blocks: any[]): any[] {
+  const seen = new Set<string>();
+
+  return blocks
+    .filter((block) => block && typeof block === 'object' && !Array.isArray(block))
+    .map((block) => {
+      let id = typeof block.id === 'string' && block.id ? block.id : null;
+      if (!id || seen.has(id)) {
+        id = randomUUID();
+        block = { ...block, id };
+      }
+      seen.add(id);
+      return block;
+    });
+}
+
+// Save document blocks for a page. Rows are matched to blocks by block id and
+// the save_document_blocks function inserts, updates, reorders and deletes
+// only what changed, all in one transaction. It also takes the version
+// history snapshots, credited to the participant making the save.
+export async function saveDocumentBlocks(
+  db: Db,
+  pageId: string,
+  blocks: any, // Plate editor value format
+  participantId: string | null = null
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Ensure blocks is an array
+    let blocksArray: any[];
+    if (Array.isArray(blocks)) {
+      blocksArray = blocks;
+    } else if (blocks && typeof blocks === 'object') {
+      blocksArray = [blocks];
+    } else {
+      blocksArray = [];
+    }
+
+    const rows = withBlockIds(blocksArray).map((block, index) => ({
+      block_id: block.id as string,
+      content: block,
+      type: mapPlateBlockToDbType(block),
+      order: index + 1
+    }));
+
+    const { data, error } = await db
+      .rpc('save_document_blocks', {
+        p_page_id: pageId,
+        p_blocks: rows,
+        p_participant_id: participantId,
+        p_version_interval_ms: DOCUMENT_VERSION_CONFIG.intervalMs,
+        p_large_change_chars: DOCUMENT_VERSION_CONFIG.largeChangeChars,
+        p_max_versions: DOCUMENT_VERSION_CONFIG.maxVersions
+      })
+      .single();
+
+    if (error) {
+      console.error('Error saving document blocks:', error);
+      return { success: false, error: `Failed to save blocks: ${error.message}` };
+    }
+
+    if (shouldLog()) console.log('Document blocks saved successfully:', data);
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while saving document blocks:', err);
+    return { success: false, error: `Exception saving document blocks: ${errorMessage}` };
+  }
+}
+
+// Load the persisted Yjs state (base64 encoded) for a document page
+export async function loadDocumentYjsState(db: Db, pageId: string): Promise<{
+  state: string | null;
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db
+      .from('document_yjs_state')
+      .select('state')
+      .eq('page_id', pageId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading document yjs state:', error);
+      return { state: null, error: `Failed to load document state: ${error.message}` };
+    }
+
+    return { state: data?.state ?? null };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading document yjs state:', err);
+    return { state: null, error: `Exception loading document state: ${errorMessage}` };
+  }
+}
+
+// Save the Yjs state (base64 encoded) for a document page
+export async function saveDocumentYjsState(
+  db: Db,
+  pageId: string,
+  state: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await db
+      .from('document_yjs_state')
+      .upsert({
+        page_id: pageId,
+        state,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('Error saving document yjs state:', error);
+      return { success: false, error: `Failed to save document state: ${error.message}` };
+    }
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while saving document yjs state:', err);
+    return { success: false, error: `Exception saving document state: ${errorMessage}` };
+  }
+}
+
+// Document versions
+
+// List the snapshots of a document page, newest first, without their content
+export async function loadDocumentVersions(db: Db, pageId: string): Promise<{
+  versions: DocumentVersion[];
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db
+      .from('document_versions')
+      .select('id, reason, char_count, created_at, participants(name)')
+      .eq('page_id', pageId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading document versions:', error);
+      return { versions: [], error: `Failed to load version history: ${error.message}` };
+    }
+
+    const versions = (data || []).map(({ participants, ...version }) => ({
+      ...version,
+      participant_name: participants?.name ?? null
+    }));
+
+    return { versions };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading document versions:', err);
+    return { versions: [], error: `Exception loading version history: ${errorMessage}` };
+  }
+}
+
+// Load the content of one snapshot (scoped to the page)
+export async function getDocumentVersion(db: Db, pageId: string, versionId: string): Promise<{
+  content: any[] | null;
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db
+      .from('document_versions')
+      .select('content')
+      .eq('id', versionId)
+      .eq('page_id', pageId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading document version:', error);
+      return { content: null, error: error.message };
+    }
+
+    if (!data) {
+      return { content: null, error: 'Version not found' };
+    }
+
+    return { content: Array.isArray(data.content) ? data.content : [] };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error loading document version:', err);
+    return { content: null, error: errorMessage };
+  }
+}
+
+// Record a snapshot of the given content
+export async function createDocumentVersion(
+  db: Db,
+  pageId: string,
+  content: any[],
+  reason: DocumentVersionReason,
+  participantId: string | null = null
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await db.rpc('create_document_version', {
+      p_page_id: pageId,
+      p_content: content,
+      p_reason: reason,
+      p_participant_id: participantId,
+      p_max_versions: DOCUMENT_VERSION_CONFIG.maxVersions
+    });
+
+    if (error) {
+      console.error('Error creating document version:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating document version:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Page links
+
+// Pages of the same space whose saved blocks mention or embed the page
+export async function getPageBacklinks(db: Db, pageId: string): Promise<{
+  backlinks: PageBacklink[];
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db.rpc('get_page_backlinks', { p_page_id: pageId });
+
+    if (error) {
+      console.error('Error loading page backlinks:', error);
+      return { backlinks: [], error: `Failed to load backlinks: ${error.message}` };
+    }
+
+    return { backlinks: data || [] };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading page backlinks:', err);
+    return { backlinks: [], error: `Exception loading backlinks: ${errorMessage}` };
+  }
+}
+
+// Search
+
+// Full-text search over the pages of a space, best matches first
+export async function searchSpace(db: Db, spaceId: string, query: string, limit: number): Promise<{
+  results: SpaceSearchResult[];
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db.rpc('search_space', {
+      p_space_id: spaceId,
+      p_query: query,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.error('Error searching space:', error);
+      return { results: [], error: `Failed to search: ${error.message}` };
+    }
+
+    return { results: (data || []) as SpaceSearchResult[] };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while searching space:', err);
+    return { results: [], error: `Exception searching space: ${errorMessage}` };
+  }
+}
+
+// Document files
+
+// Reserve a storage key in the page's folder and sign an upload to it.
+// Callers check the file's size against DOCUMENT_FILE_LIMITS first.
+export async function createDocumentFileUpload(
+  db: Db,
+  pageId: string,
+  fileName: string
+): Promise<{ upload: DocumentFileUpload | null; error?: string }> {
+  try {
+    const path = `${pageId}/${randomUUID()}-${getStorageFileName(fileName)}`;
+    const bucket = db.storage.from(DOCUMENT_FILES_BUCKET);
+
+    const { data, error } = await bucket.createSignedUploadUrl(path);
+
+    if (error) {
+      console.error('Error creating document file upload:', error);
+      return { upload: null, error: error.message };
+    }
+
+    const { data: urlData } = bucket.getPublicUrl(data.path);
+
+    return { upload: { path: data.path, token: data.token, url: urlData.publicUrl } };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating document file upload:', err);
+    return { upload: null, error: errorMessage };
+  }
+}
+
+// Public URL of a page's folder in the document-files bucket (or of a
+// template's, see getTemplateFilesFolder); the URLs of its files start with it
+function getDocumentFolderUrl(db: Db, folder: string): string {
+  return db.storage.from(DOCUMENT_FILES_BUCKET).getPublicUrl(`${folder}/`).data.publicUrl;
+}
+
+// Point a document's page links and file URLs at other pages and files:
+// idMap maps page ids, files a files folder URL to another. Only the fields
+// that hold them change: mention keys, page embed ids, and link and media URLs.
+function remapDocumentBlocks(
+  node: unknown,
+  idMap: Map<string, string>,
+  files: { from: string; to: string } | null
+): unknown {
+  if (Array.isArray(node)) {
+    return node.map((child) => remapDocumentBlocks(child, idMap, files));
+  }
+  if (!node || typeof node !== 'object') return node;
+
+  const remapped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    remapped[key] = remapDocumentBlocks(value, idMap, files);
+  }
+
+  if (remapped.type === 'mention' && typeof remapped.key === 'string') {
+    remapped.key = idMap.get(remapped.key) ?? remapped.key;
+  }
+  if (remapped.type === PAGE_EMBED_KEY && typeof remapped.pageId === 'string') {
+    remapped.pageId = idMap.get(remapped.pageId) ?? remapped.pageId;
+  }
+
+  const url = remapped.url;
+  if (typeof url === 'string') {
+    if (files && url.startsWith(files.from)) {
+      remapped.url = files.to + url.slice(files.from.length);
+    } else {
+      // Links to pages, as written by getPageLinkHref
+      const linkedId = url.startsWith('./') ? idMap.get(url.slice(2)) : undefined;
+      if (linkedId) remapped.url = getPageLinkHref(linkedId);
+    }
+  }
+
+  return remapped;
+}
+
+// Copy every file in a page's (or template's) folder into another, same names
+async function copyDocumentFiles(
+  db: Db,
+  fromFolder: string,
+  toFolder: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const bucket = db.storage.from(DOCUMENT_FILES_BUCKET);
+
+    // Listing is paged
+    for (let offset = 0; ; offset += 1000) {
+      const { data: files, error } = await bucket.list(fromFolder, { limit: 1000, offset });
+
+      if (error) {
+        console.error('Error listing document files:', error);
+        return { success: false, error: error.message };
+      }
+      if (!files || files.length === 0) break;
+
+      for (const file of files) {
+        const { error: copyError } = await bucket.copy(
+          `${fromFolder}/${file.name}`,
+          `${toFolder}/${file.name}`
+        );
+
+        if (copyError) {
+          console.error('Error copying document file:', copyError);
+          return { success: false, error: copyError.message };
+        }
+      }
+
+      if (files.length < 1000) break;
+    }
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error copying document files:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Remove every file uploaded to a page
+export async function deleteDocumentFiles(db: Db, pageId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const bucket = db.storage.from(DOCUMENT_FILES_BUCKET);
+    let removed = 0;
+
+    // Listing is paged; keep going until the folder is empty
+    for (;;) {
+      const { data: files, error } = await bucket.list(pageId, { limit: 1000 });
+
+      if (error) {
+        console.error('Error listing document files:', error);
+        return { success: false, error: error.message };
+      }
+      if (!files || files.length === 0) break;
+
+      const { error: removeError } = await bucket.remove(files.map((file) => `${pageId}/${file.name}`));
+
+      if (removeError) {
+        console.error('Error deleting document files:', removeError);
+        return { success: false, error: removeError.message };
+      }
+
+      removed += files.length;
+      if (files.length < 1000) break;
+    }
+
+    if (shouldLog()) console.log(`Deleted ${removed} files of page ${pageId}`);
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error deleting document files:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Realtime
+
+// Send events to everyone subscribed to a page or space channel. Clients can't read
+// the tables directly, so the routes announce their own writes. The channels
+// are private and only take messages from the server (see
+// sql-migration-private-yjs-channels.sql).
+async function broadcast(db: Db, topic: string, payload: Record<string, unknown>) {
+  const channel = db.channel(topic, { config: { private: true } });
+  try {
+    await channel.send({ type: 'broadcast', event: 'changes', payload });
+  } catch (err) {
+    console.error(`Failed to broadcast to ${topic}:`, err);
+  } finally {
+    db.removeChannel(channel);
+  }
+}
+
+// Tell everyone in a space about changes to its list of pages
+function broadcastPageEvents(db: Db, spaceId: string, events: PageRealtimeEvent[]) {
+  if (events.length === 0) return Promise.resolve();
+  return broadcast(db, `pages:${spaceId}`, { events });
+}
+
+// Relay a collaborative editing message to everyone on a document page.
+// Clients can only listen on yjs:<page id>, so every update goes through here
+// and its route's role check.
+export function broadcastDocumentSyncMessage(db: Db, pageId: string, message: DocumentSyncMessage) {
+  return broadcast(db, `yjs:${pageId}`, { message });
+}
+
+// Comments
+
+const COMMENT_COLUMNS =
+  'id, block_id, thread_id, participant_id, author_name, content, quote, quote_offset, resolved_at, created_at';
+
+// Tell everyone on a document page about new and resolved comments
+function broadcastCommentEvents(db: Db, pageId: string, events: CommentRealtimeEvent[]) {
+  if (events.length === 0) return Promise.resolve();
+  return broadcast(db, `comments:${pageId}`, { events });
+}
+
+// Load every comment on a page, oldest first
+export async function loadComments(db: Db, pageId: string): Promise<{
+  comments: DocumentComment[];
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db
+      .from('comments')
+      .select(COMMENT_COLUMNS)
+      .eq('page_id', pageId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading comments:', error);
+      return { comments: [], error: `Failed to load comments: ${error.message}` };
+    }
+
+    return { comments: data || [] };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading comments:', err);
+    return { comments: [], error: `Exception loading comments: ${errorMessage}` };
+  }
+}
+
+// Start a thread (anchored to a block, and optionally a quote from its text)
+// or reply to one. The author is a participant of the page's space; replies
+// take the block of their thread. notFound is set when either doesn't exist.
+export async function createComment(
+  db: Db,
+  pageId: string,
+  participantId: string,
+  comment: NewDocumentComment
+): Promise<{ comment: DocumentComment | null; error?: string; notFound?: boolean }> {
+  try {
+    const { data: page, error: pageError } = await db
+      .from('pages')
+      .select('space_id')
+      .eq('id', pageId)
+      .single();
+
+    if (pageError) {
+      console.error('Error loading page for comment:', pageError);
+      return { comment: null, error: pageError.message };
+    }
+
+    const { data: author, error: authorError } = await db
+      .from('participants')
+      .select('name')
+      .eq('id', participantId)
+      .eq('space_id', page.space_id)
+      .maybeSingle();
+
+    if (authorError) {
+      console.error('Error loading comment author:', authorError);
+      return { comment: null, error: authorError.message };
+    }
+
+    if (!author) {
+      return { comment: null, error: 'Participant not found', notFound: true };
+    }
+
+    // Kept on the comment, so it still shows if the participant is renamed or removed
+    const authorName = author.name || 'Anonymous';
+
+    let row: TablesInsert<'comments'>;
+
+    if (comment.threadId) {
+      const { data: thread, error: threadError } = await db
+        .from('comments')
+        .select('block_id')
+        .eq('id', comment.threadId)
+        .eq('page_id', pageId)
+        .is('thread_id', null)
+        .maybeSingle();
+
+      if (threadError) {
+        console.error('Error loading comment thread:', threadError);
+        return { comment: null, error: threadError.message };
+      }
+
+      if (!thread) {
+        return { comment: null, error: 'Thread not found', notFound: true };
+      }
+
+      row = {
+        page_id: pageId,
+        block_id: thread.block_id,
+        thread_id: comment.threadId,
+        participant_id: participantId,
+        author_name: authorName,
+        content: comment.content
+      };
+    } else {
+      row = {
+        page_id: pageId,
+        block_id: comment.blockId!,
+        participant_id: participantId,
+        author_name: authorName,
+        content: comment.content,
+        quote: comment.quote || null,
+        quote_offset: comment.quote ? comment.quoteOffset ?? 0 : null
+      };
+    }
+
+    const { data, error } = await db
+      .from('comments')
+      .insert(row)
+      .select(COMMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating comment:', error);
+      return { comment: null, error: error.message };
+    }
+
+    await broadcastCommentEvents(db, pageId, [{ eventType: 'INSERT', comment: data }]);
+
+    return { comment: data };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating comment:', err);
+    return { comment: null, error: errorMessage };
+  }
+}
+
+// Resolve or reopen a thread (addressed by its first comment)
+export async function setCommentThreadResolved(
+  db: Db,
+  pageId: string,
+  threadId: string,
+  resolved: boolean
+): Promise<{ comment: DocumentComment | null; error?: string; notFound?: boolean }> {
+  try {
+    const { data, error } = await db
+      .from('comments')
+      .update({ resolved_at: resolved ? new Date().toISOString() : null })
+      .eq('id', threadId)
+      .eq('page_id', pageId)
+      .is('thread_id', null)
+      .select(COMMENT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating comment thread:', error);
+      return { comment: null, error: error.message };
+    }
+
+    if (!data) {
+      return { comment: null, error: 'Thread not found', notFound: true };
+    }
+
+    await broadcastCommentEvents(db, pageId, [{ eventType: 'UPDATE', comment: data }]);
+
+    return { comment: data };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating comment thread:', err);
+    return { comment: null, error: errorMessage };
+  }
+}
+
+// Kanban
+
+// Parse the JSON content of a kanban card into its title and description
+function parseKanbanCardContent(content: unknown): { title: string; description?: string } {
+  let title = 'Untitled';
+  let description: string | undefined;
+
+  try {
+    if (typeof content === 'string') {
+      const parsed = JSON.parse(content);
+      title = parsed.title || 'Untitled';
+      description = parsed.description || undefined;
+    } else if (typeof content === 'object' && content !== null) {
+      title = (content as any).title || 'Untitled';
+      description = (content as any).description || undefined;
+    }
+  } catch (err) {
+    if (shouldLog()) console.warn('Failed to parse card content:', content);
+    title = String(content) || 'Untitled';
+  }
+
+  return { title, description };
+}
+
+function kanbanCardEvent(
+  card: Pick<Tables<'kanban_cards'>, 'id' | 'content' | 'column_id' | 'order'>,
+  eventType: 'INSERT' | 'UPDATE'
+): KanbanRealtimeEvent {
+  const { title, description } = parseKanbanCardContent(card.content);
+  return {
+    table: 'kanban_cards',
+    eventType,
+    card: { id: card.id, columnId: card.column_id, title, description, order: card.order }
+  };
+}
+
+function kanbanColumnEvent(
+  column: Pick<Tables<'kanban_columns'>, 'id' | 'title' | 'order'>,
+  eventType: 'INSERT' | 'UPDATE'
+): KanbanRealtimeEvent {
+  return {
+    table: 'kanban_columns',
+    eventType,
+    column: { id: column.id, title: column.title, order: column.order }
+  };
+}
+
+// Tell everyone on a kanban page what changed
+export function broadcastKanbanEvents(db: Db, pageId: string, events: KanbanRealtimeEvent[]) {
+  if (events.length === 0) return Promise.resolve();
+  return broadcast(db, `kanban:${pageId}`, { events });
+}
+
+// Ids of the columns on a kanban page
+async function loadPageColumnIds(db: Db, pageId: string): Promise<Set<string>> {
+  const { data, error } = await db
+    .from('kanban_columns')
+    .select('id')
+    .eq('page_id', pageId);
+
+  if (error) throw new Error(`Failed to load columns: ${error.message}`);
+  return new Set((data || []).map((column) => column.id));
+}
+
+// Make sure every card belongs to one of the page's columns
+async function assertCardsOnPage(db: Db, columnIds: Set<string>, cardIds: string[]) {
+  const { data, error } = await db
+    .from('kanban_cards')
+    .select('id, column_id')
+    .in('id', cardIds);
+
+  if (error) throw new Error(`Failed to load cards: ${error.message}`);
+  if ((data || []).length !== new Set(cardIds).size || data!.some((card) => !columnIds.has(card.column_id))) {
+    throw new Error('Card not found on this page');
+  }
+}
+
+// Load kanban data (columns and cards) for a page
+export async function loadKanbanData(db: Db, pageId: string): Promise<{
+  columns: Array<{
+    id: string;
+    title: string;
+    order: number | null;
+    cards: Array<{ id: string; title: string; description?: string; order: number | null }>;
+  }>;
+  error?: string;
+}> {
+  try {
+    // Load columns
+    const { data: columns, error: columnsError } = await db
+      .from('kanban_columns')
+      .select('id, title, order')
+      .eq('page_id', pageId)
+      .order('order', { ascending: true, nullsFirst: false })
+      .order('title', { ascending: true });
+
+    if (columnsError) {
+      console.error('Error loading kanban columns:', columnsError);
+      return { columns: [], error: `Failed to load columns: ${columnsError.message}` };
+    }
+
+    // Load cards for all columns
+    const { data: cards, error: cardsError } = await db
+      .from('kanban_cards')
+      .select('id, content, column_id, order')
+      .in('column_id', columns?.map(col => col.id) || [])
+      .order('order', { ascending: true, nullsFirst: false })
+      .order('id', { ascending: true });
+
+    if (cardsError) {
+      console.error('Error loading kanban cards:', cardsError);
+      return { columns: [], error: `Failed to load cards: ${cardsError.message}` };
+    }
+
+    // Group cards by column and format the response
+    const columnsWithCards = (columns || []).map(column => ({
+      id: column.id,
+      title: column.title,
+      order: column.order,
+      cards: (cards || [])
+        .filter(card => card.column_id === column.id)
+        .map(card => {
+          const { title, description } = parseKanbanCardContent(card.content);
+          return { id: card.id, title, description, order: card.order };
+        })
+    }));
+
+    return { columns: columnsWithCards };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading kanban data:', err);
+    return { columns: [], error: `Exception loading kanban data: ${errorMessage}` };
+  }
+}
+
+// Create a new kanban column
+export async function createKanbanColumn(
+  db: Db,
+  pageId: string,
+  title: string
+): Promise<{ column: Tables<'kanban_columns'> | null; error?: string }> {
+  try {
+    // Get the current max order for this page
+    const { data: existingColumns } = await db
+      .from('kanban_columns')
+      .select('order')
+      .eq('page_id', pageId)
+      .order('order', { ascending: false, nullsFirst: false })
+      .limit(1);
+
+    const nextOrder = existingColumns && existingColumns.length > 0
+      ? (existingColumns[0].order || 0) + 1
+      : 1;
+
+    const { data: column, error } = await db
+      .from('kanban_columns')
+      .insert({ page_id: pageId, title, order: nextOrder })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating kanban column:', error);
+      return { column: null, error: error.message };
+    }
+
+    await broadcastKanbanEvents(db, pageId, [kanbanColumnEvent(column, 'INSERT')]);
+    return { column };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating kanban column:', err);
+    return { column: null, error: errorMessage };
+  }
+}
+
+// Create a new kanban card
+export async function createKanbanCard(
+  db: Db,
+  pageId: string,
+  columnId: string,
+  title: string,
+  description?: string
+): Promise<{ card: Tables<'kanban_cards'> | null; error?: string }> {
+  try {
+    const columnIds = await loadPageColumnIds(db, pageId);
+    if (!columnIds.has(columnId)) {
+      return { card: null, error: 'Column not found on this page' };
+    }
+
+    // Get the current max order for this column
+    const { data: existingCards } = await db
+      .from('kanban_cards')
+      .select('order')
+      .eq('column_id', columnId)
+      .order('order', { ascending: false, nullsFirst: false })
+      .limit(1);
+
+    const nextOrder = existingCards && existingCards.length > 0
+      ? (existingCards[0].order || 0) + 1
+      : 1;
+
+    const { data: card, error } = await db
+      .from('kanban_cards')
+      .insert({
+        column_id: columnId,
+        content: JSON.stringify({ title, description: description || undefined }),
+        order: nextOrder
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating kanban card:', error);
+      return { card: null, error: error.message };
+    }
+
+    await broadcastKanbanEvents(db, pageId, [kanbanCardEvent(card, 'INSERT')]);
+    return { card };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating kanban card:', err);
+    return { card: null, error: errorMessage };
+  }
+}
+
+// Update kanban column order after drag and drop
+export async function updateKanbanColumnOrder(
+  db: Db,
+  pageId: string,
+  columns: Array<{ id: string; order: number }>
+): Promise<{ success: boolean; error?: string }> {
+  const events: KanbanRealtimeEvent[] = [];
+
+  try {
+    for (const column of columns) {
+      const { data, error } = await db
+        .from('kanban_columns')
+        .update({ order: column.order })
+        .eq('id', column.id)
+        .eq('page_id', pageId)
+        .select('id, title, order')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating column order:', error);
+        return { success: false, error: error.message };
+      }
+      if (data) events.push(kanbanColumnEvent(data, 'UPDATE'));
+    }
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating kanban column order:', err);
+    return { success: false, error: errorMessage };
+  } finally {
+    await broadcastKanbanEvents(db, pageId, events);
+  }
+}
+
+// Update kanban card (including moving between columns)
+export async function updateKanbanCard(
+  db: Db,
+  pageId: string,
+  cardId: string,
+  updates: { columnId?: string; order?: number; title?: string; description?: string }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const columnIds = await loadPageColumnIds(db, pageId);
+    await assertCardsOnPage(db, columnIds, [cardId]);
+
+    const updateData: Partial<Tables<'kanban_cards'>> = {};
+
+    if (updates.columnId !== undefined) {
+      if (!columnIds.has(updates.columnId)) {
+        return { success: false, error: 'Column not found on this page' };
+      }
+      updateData.column_id = updates.columnId;
+    }
+
+    if (updates.order !== undefined) {
+      updateData.order = updates.order;
+    }
+
+    if (updates.title !== undefined || updates.description !== undefined) {
+      // Get current content first if we're only updating title or description
+      const { data: currentCard, error: fetchError } = await db
+        .from('kanban_cards')
+        .select('content')
+        .eq('id', cardId)
+        .single();
+
+      if (fetchError) {
+        console.error('Error fetching current card content:', fetchError);
+        return { success: false, error: fetchError.message };
+      }
+
+      const currentContent = parseKanbanCardContent(currentCard.content);
+      updateData.content = JSON.stringify({
+        title: updates.title !== undefined ? updates.title : currentContent.title,
+        description: updates.description !== undefined ? updates.description : currentContent.description
+      });
+    }
+
+    const { data: card, error } = await db
+      .from('kanban_cards')
+      .update(updateData)
+      .eq('id', cardId)
+      .select('id, content, column_id, order')
+      .single();
+
+    if (error) {
+      console.error('Error updating kanban card:', error);
+      return { success: false, error: error.message };
+    }
+
+    await broadcastKanbanEvents(db, pageId, [kanbanCardEvent(card, 'UPDATE')]);
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating kanban card:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Update multiple cards' order (for reordering within column or moving between columns)
+export async function updateKanbanCardsOrder(
+  db: Db,
+  pageId: string,
+  cards: Array<{ id: string; columnId: string; order: number }>
+): Promise<{ success: boolean; error?: string }> {
+  const events: KanbanRealtimeEvent[] = [];
+
+  try {
+    const columnIds = await loadPageColumnIds(db, pageId);
+    if (cards.some((card) => !columnIds.has(card.columnId))) {
+      return { success: false, error: 'Column not found on this page' };
+    }
+    await assertCardsOnPage(db, columnIds, cards.map((card) => card.id));
+
+    for (const card of cards) {
+      const { data, error } = await db
+        .from('kanban_cards')
+        .update({ column_id: card.columnId, order: card.order })
+        .eq('id', card.id)
+        .select('id, content, column_id, order')
+        .single();
+
+      if (error) {
+        console.error('Error updating card order:', error);
+        return { success: false, error: error.message };
+      }
+      events.push(kanbanCardEvent(data, 'UPDATE'));
+    }
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating kanban cards order:', err);
+    return { success: false, error: errorMessage };
+  } finally {
+    await broadcastKanbanEvents(db, pageId, events);
+  }
+}
+
+// Edit an existing kanban card
+export async function editKanbanCard(
+  db: Db,
+  pageId: string,
+  cardId: string,
+  title: string,
+  description?: string
+): Promise<{ card: Tables<'kanban_cards'> | null; error?: string }> {
+  try {
+    await assertCardsOnPage(db, await loadPageColumnIds(db, pageId), [cardId]);
+
+    const { data: card, error } = await db
+      .from('kanban_cards')
+      .update({ content: JSON.stringify({ title, description: description || undefined }) })
+      .eq('id', cardId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error editing kanban card:', error);
+      return { card: null, error: error.message };
+    }
+
+    await broadcastKanbanEvents(db, pageId, [kanbanCardEvent(card, 'UPDATE')]);
+    return { card };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error editing kanban card:', err);
+    return { card: null, error: errorMessage };
+  }
+}
+
+// Delete a kanban card
+export async function deleteKanbanCard(
+  db: Db,
+  pageId: string,
+  cardId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await assertCardsOnPage(db, await loadPageColumnIds(db, pageId), [cardId]);
+
+    const { error } = await db
+      .from('kanban_cards')
+      .delete()
+      .eq('id', cardId);
+
+    if (error) {
+      console.error('Error deleting kanban card:', error);
+      return { success: false, error: error.message };
+    }
+
+    await broadcastKanbanEvents(db, pageId, [{ table: 'kanban_cards', eventType: 'DELETE', id: cardId }]);
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error deleting kanban card:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Edit an existing kanban column
+export async function editKanbanColumn(
+  db: Db,
+  pageId: string,
+  columnId: string,
+  title: string
+): Promise<{ column: Tables<'kanban_columns'> | null; error?: string }> {
+  try {
+    const { data: column, error } = await db
+      .from('kanban_columns')
+      .update({ title })
+      .eq('id', columnId)
+      .eq('page_id', pageId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error editing kanban column:', error);
+      return { column: null, error: error.message };
+    }
+
+    await broadcastKanbanEvents(db, pageId, [kanbanColumnEvent(column, 'UPDATE')]);
+    return { column };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error editing kanban column:', err);
+    return { column: null, error: errorMessage };
+  }
+}
+
+// Delete a kanban column and all its cards
+export async function deleteKanbanColumn(
+  db: Db,
+  pageId: string,
+  columnId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const columnIds = await loadPageColumnIds(db, pageId);
+    if (!columnIds.has(columnId)) {
+      return { success: false, error: 'Column not found on this page' };
+    }
+
+    // First, delete all cards in the column
+    const { error: cardsError } = await db
+      .from('kanban_cards')
+      .delete()
+      .eq('column_id', columnId);
+
+    if (cardsError) {
+      console.error('Error deleting cards from column:', cardsError);
+      return { success: false, error: `Failed to delete cards: ${cardsError.message}` };
+    }
+
+    // Then, delete the column itself
+    const { error: columnError } = await db
+      .from('kanban_columns')
+      .delete()
+      .eq('id', columnId);
+
+    if (columnError) {
+      console.error('Error deleting kanban column:', columnError);
+      return { success: false, error: `Failed to delete column: ${columnError.message}` };
+    }
+
+    // Removing the column removes its cards on every client too
+    await broadcastKanbanEvents(db, pageId, [{ table: 'kanban_columns', eventType: 'DELETE', id: columnId }]);
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error deleting kanban column:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Moodboards
+
+// Convert between the editor's item shape and the moodboard_items row
+const itemToDbItem = (item: Omit<MoodboardItem, 'id'>, pageId: string): TablesInsert<'moodboard_items'> => ({
+  page_id: pageId,
+  type: item.type,
+  properties: {
+    x: item.x,
+    y: item.y,
+    width: item.width,
+    height: item.height,
+    content: item.content,
+    style: item.style as any,
+    aspectRatio: item.aspectRatio,
+  },
+});
+
+const dbItemToItem = (dbItem: Tables<'moodboard_items'>): MoodboardItem => {
+  const props = dbItem.properties as any;
+  const item: MoodboardItem = {
+    id: dbItem.id,
+    type: dbItem.type as MoodboardItem['type'],
+    x: props.x || 0,
+    y: props.y || 0,
+    width: props.width || 150,
+    height: props.height || 150,
+    content: props.content,
+    style: props.style,
+    aspectRatio: props.aspectRatio,
+  };
+
+  // For existing image items without aspect ratio, calculate it from dimensions
+  if (item.type === 'image' && !item.aspectRatio && item.width && item.height) {
+    item.aspectRatio = item.width / item.height;
+  }
+
+  return item;
+};
+
+// Tell everyone on a moodboard page what changed
+function broadcastMoodboardEvents(db: Db, pageId: string, events: MoodboardRealtimeEvent[]) {
+  if (events.length === 0) return Promise.resolve();
+  return broadcast(db, `moodboard:${pageId}`, { events });
+}
+
+// Load moodboard items for a page
+export async function loadMoodboardItems(db: Db, pageId: string): Promise<{
+  items: MoodboardItem[];
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db
+      .from('moodboard_items')
+      .select('*')
+      .eq('page_id', pageId);
+
+    if (error) {
+      console.error('Error loading moodboard items:', error);
+      return { items: [], error: `Failed to load moodboard items: ${error.message}` };
+    }
+
+    return { items: data.map(dbItemToItem) };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading moodboard items:', err);
+    return { items: [], error: `Exception loading moodboard items: ${errorMessage}` };
+  }
+}
+
+// Create a new moodboard item (returns the created item with DB-generated ID)
+export async function createMoodboardItem(
+  db: Db,
+  pageId: string,
+  item: Omit<MoodboardItem, 'id'>
+): Promise<{ item: MoodboardItem | null; error?: string }> {
+  try {
+    const { data, error } = await db
+      .from('moodboard_items')
+      .insert(itemToDbItem(item, pageId))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating moodboard item:', error);
+      return { item: null, error: error.message };
+    }
+
+    const createdItem = dbItemToItem(data);
+    await broadcastMoodboardEvents(db, pageId, [{ eventType: 'INSERT', item: createdItem }]);
+    return { item: createdItem };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating moodboard item:', err);
+    return { item: null, error: errorMessage };
+  }
+}
+
+// Update an existing moodboard item
+export async function updateMoodboardItem(
+  db: Db,
+  pageId: string,
+  item: MoodboardItem
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data, error } = await db
+      .from('moodboard_items')
+      .update(itemToDbItem(item, pageId))
+      .eq('id', item.id)
+      .eq('page_id', pageId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating moodboard item:', error);
+      return { success: false, error: error.message };
+    }
+
+    if (!data) {
+      return { success: false, error: 'Item not found on this page' };
+    }
+
+    await broadcastMoodboardEvents(db, pageId, [{ eventType: 'UPDATE', item: dbItemToItem(data) }]);
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating moodboard item:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Delete moodboard items
+export async function deleteMoodboardItems(
+  db: Db,
+  pageId: string,
+  itemIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (itemIds.length === 0) {
+      return { success: true };
+    }
+
+    const { data, error } = await db
+      .from('moodboard_items')
+      .delete()
+      .in('id', itemIds)
+      .eq('page_id', pageId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting moodboard items:', error);
+      return { success: false, error: error.message };
+    }
+
+    await broadcastMoodboardEvents(
+      db,
+      pageId,
+      (data || []).map(({ id }) => ({ eventType: 'DELETE' as const, id }))
+    );
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error deleting moodboard items:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Participants
+
+// Register a new participant in a space
+export async function registerParticipant(
+  db: Db,
+  spaceId: string,
+  name: string,
+  anonymous: boolean
+): Promise<{ participant: Tables<'participants'> | null; error?: string }> {
+  try {
+    const { data, error } = await db
+      .from('participants')
+      .insert({ space_id: spaceId, name, anonymous })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error registering participant:', error);
+      return { participant: null, error: error.message };
+    }
+
+    return { participant: data };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error registering participant:', err);
+    return { participant: null, error: errorMessage };
+  }
+}
+
+// Load a participant of a space (null when it no longer exists)
+export async function getParticipant(
+  db: Db,
+  spaceId: string,
+  participantId: string
+): Promise<{ participant: Tables<'participants'> | null; error?: string }> {
+  try {
+    const { data, error } = await db
+      .from('participants')
+      .select('*')
+      .eq('id', participantId)
+      .eq('space_id', spaceId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading participant:', error);
+      return { participant: null, error: error.message };
+    }
+
+    return { participant: data };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error loading participant:', err);
+    return { participant: null, error: errorMessage };
+  }
+}
+
+// Rename a participant (a chosen name is no longer anonymous)
+export async function updateParticipantName(
+  db: Db,
+  spaceId: string,
+  participantId: string,
+  name: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await db
+      .from('participants')
+      .update({ name, anonymous: false })
+      .eq('id', participantId)
+      .eq('space_id', spaceId);
+
+    if (error) {
+      console.error('Error updating participant name:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating participant name:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Share links
+
+// List the active share links of a space, newest first
+export async function loadShareLinks(db: Db, spaceId: string): Promise<{
+  links: ShareLink[];
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db
+      .from('share_links')
+      .select('id, token, role, expires_at, created_at')
+      .eq('space_id', spaceId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading share links:', error);
+      return { links: [], error: `Failed to load share links: ${error.message}` };
+    }
+
+    // Expired links are kept for the record but no longer listed
+    const now = Date.now();
+    const links = (data || []).filter(
+      (link) => !link.expires_at || new Date(link.expires_at).getTime() > now
+    );
+
+    return { links };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading share links:', err);
+    return { links: [], error: `Exception loading share links: ${errorMessage}` };
+  }
+}
+
+// Create a share link granting a role, optionally expiring. invalid is set
+// when the space has no password: anyone with its URL can edit it, so a
+// link's role wouldn't restrict anything.
+export async function createShareLink(
+  db: Db,
+  spaceId: string,
+  role: SpaceRole,
+  expiresAt: string | null
+): Promise<{ link: ShareLink | null; error?: string; invalid?: boolean }> {
+  try {
+    const { data: space, error: spaceError } = await db
+      .from('spaces')
+      .select('password')
+      .eq('id', spaceId)
+      .single();
+
+    if (spaceError) {
+      console.error('Error checking space password:', spaceError);
+      return { link: null, error: spaceError.message };
+    }
+
+    if (!space.password) {
+      return { link: null, error: 'Set a space password before creating share links', invalid: true };
+    }
+
+    const { data, error } = await db
+      .from('share_links')
+      .insert({
+        space_id: spaceId,
+        // 192 bits, unguessable; the token is the only secret in the link
+        token: randomBytes(24).toString('base64url'),
+        role,
+        expires_at: expiresAt
+      })
+      .select('id, token, role, expires_at, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error creating share link:', error);
+      return { link: null, error: error.message };
+    }
+
+    return { link: data };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating share link:', err);
+    return { link: null, error: errorMessage };
+  }
+}
+
+// Revoke a share link; sessions opened with it stop working on their next request
+export async function revokeShareLink(
+  db: Db,
+  spaceId: string,
+  linkId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await db
+      .from('share_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', linkId)
+      .eq('space_id', spaceId);
+
+    if (error) {
+      console.error('Error revoking share link:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error revoking share link:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Find a usable (not revoked, not expired) share link by its token
+export async function findShareLink(db: Db, token: string): Promise<{
+  link: Tables<'share_links'> | null;
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db
+      .from('share_links')
+      .select('*')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading share link:', error);
+      return { link: null, error: error.message };
+    }
+
+    if (!data || (data.expires_at && new Date(data.expires_at).getTime() <= Date.now())) {
+      return { link: null };
+    }
+
+    return { link: data };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error loading share link:', err);
+    return { link: null, error: errorMessage };
+  }
+}
+
+// Auth event functions
+
+// Most recent sign-in attempts of a space, newest first
+export async function loadAuthEvents(db: Db, spaceId: string, limit: number = 50): Promise<{
+  events: AuthEvent[];
+  error?: string;
+}> {
+  try {
+    const { data, error } = await db
+      .from('auth_events')
+      .select('id, outcome, method, origin, created_at')
+      .eq('space_id', spaceId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error loading auth events:', error);
+      return { events: [], error: `Failed to load access log: ${error.message}` };
+    }
+
+    return { events: data || [] };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading auth events:', err);
+    return { events: [], error: `Exception loading access log: ${errorMessage}` };
+  }
+}
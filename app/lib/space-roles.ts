@@ -0,0 +1,21 @@
+// What someone may do in a space, from least to most. Viewers can only read,
+// commenters can also comment, editors can change everything.
+export type SpaceRole = 'viewer' | 'commenter' | 'editor';
+
+export const SPACE_ROLES: SpaceRole[] = ['viewer', 'commenter', 'editor'];
+
+export const SPACE_ROLE_LABELS: Record<SpaceRole, string> = {
+  viewer: 'Can view',
+  commenter: 'Can comment',
+  editor: 'Can edit',
+};
+
+export function isSpaceRole(value: unknown): value is SpaceRole {
+  return typeof value === 'string' && SPACE_ROLES.includes(value as SpaceRole);
+}
+
+// Whether a role includes everything the required role may do
+export function roleAllows(role: SpaceRole | null | undefined, required: SpaceRole): boolean {
+  if (!role) return false;
+  return SPACE_ROLES.indexOf(role) >= SPACE_ROLES.indexOf(required);
+}
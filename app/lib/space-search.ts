@@ -0,0 +1,75 @@
+import type { SpaceSearchResult } from '~/lib/space-utils';
+
+// Space-wide search (see sql-migration-space-search.sql). Results link to
+// their page with ?focus=<block, card or item id>, which the page's editor
+// scrolls to and highlights.
+
+export const SPACE_SEARCH_LIMITS = {
+  minQueryLength: 2,
+  maxQueryLength: 200,
+  maxResults: 50,
+} as const;
+
+export const SEARCH_FOCUS_PARAM = 'focus';
+
+// Markers search_space puts around matched words in snippets
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// "a \u0002road\u0003map" -> [{a, false}, {road, true}, {map, false}]
+export function getSnippetParts(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+
+  snippet.split(MATCH_START).forEach((chunk, index) => {
+    if (index === 0) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      return;
+    }
+
+    const [match, rest = ''] = chunk.split(MATCH_END);
+    if (match) parts.push({ text: match, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  });
+
+  return parts;
+}
+
+export interface SpaceSearchGroup {
+  pageId: string;
+  pageTitle: string;
+  pageType: string;
+  results: SpaceSearchResult[];
+}
+
+// Group results by page, pages in order of their best match
+export function groupSearchResults(results: SpaceSearchResult[]): SpaceSearchGroup[] {
+  const groups = new Map<string, SpaceSearchGroup>();
+
+  results.forEach((result) => {
+    let group = groups.get(result.page_id);
+    if (!group) {
+      group = {
+        pageId: result.page_id,
+        pageTitle: result.page_title,
+        pageType: result.page_type,
+        results: [],
+      };
+      groups.set(result.page_id, group);
+    }
+    group.results.push(result);
+  });
+
+  return Array.from(groups.values());
+}
+
+export function getSearchResultHref(spaceId: string, result: SpaceSearchResult): string {
+  const href = `/space/${spaceId}/page/${result.page_id}`;
+  return result.target_id
+    ? `${href}?${SEARCH_FOCUS_PARAM}=${encodeURIComponent(result.target_id)}`
+    : href;
+}
@@ -1,5 +1,11 @@
 import { supabase } from './supabase'
-import type { TablesInsert, Tables } from '../../database.types'
+import type { Tables } from '../../database.types'
+import type { SpaceRole } from './space-roles'
+import { DOCUMENT_FILES_BUCKET, shouldConvertToWebP } from './document-files'
+import type { DocumentFile, DocumentFileUpload } from './document-files'
+import type { SubpageDeletion } from './page-tree'
+import type { TemplateKind, TemplateSummary } from './templates'
+import { SPACE_ARCHIVES_BUCKET, getSpaceArchiveUrl } from './space-archive'
 
 // Helper function to check if we should log (not in production)
 const shouldLog = () => false
@@ -92,22 +98,17 @@ export function generateSpaceId(): string {
   return result
 }
 
-// Generate QR code data for a space
-export function generateQRCodeData(spaceId: string, password?: string): string {
+// Generate QR code data for a space (never includes the password)
+export function generateQRCodeData(spaceId: string): string {
   const baseUrl = window.location.origin
-  const spaceUrl = `${baseUrl}/space/${spaceId}`
-  
-  if (password) {
-    return `${spaceUrl}?password=${encodeURIComponent(password)}`
-  }
-  
-  return spaceUrl
+  return `${baseUrl}/space/${spaceId}`
 }
 
-// Create a new space via API (with rate limiting)
+// Create a new space via API (with rate limiting), optionally from a template
 export async function createSpace(options: {
   title?: string
   password?: string
+  templateId?: string
 } = {}): Promise<{ spaceId: string; error?: string; rateLimited?: boolean }> {
   if (shouldLog()) console.log('createSpace function called with options:', options)
   
@@ -119,7 +120,8 @@ export async function createSpace(options: {
       },
       body: JSON.stringify({
         title: options.title || undefined,
-        password: options.password || undefined
+        password: options.password || undefined,
+        templateId: options.templateId || undefined
       })
     });
 
@@ -158,6 +160,76 @@ export async function createSpace(options: {
   }
 }
 
+// Recreate an exported space (see space-archive.ts) as a new space
+export async function importSpace(archive: File, options: {
+  title?: string
+  password?: string
+} = {}): Promise<{ spaceId: string; error?: string; rateLimited?: boolean }> {
+  try {
+    // The zip goes to storage first; function bodies can't hold a large one
+    const { upload } = await apiRequest<{ upload: { path: string; token: string } }>(
+      '/api/space-archive-upload',
+      { method: 'POST', body: { size: archive.size } }
+    )
+
+    const { error: uploadError } = await supabase.storage
+      .from(SPACE_ARCHIVES_BUCKET)
+      .uploadToSignedUrl(upload.path, upload.token, archive, { contentType: 'application/zip' })
+
+    if (uploadError) {
+      console.error('Error uploading space archive:', uploadError)
+      return { spaceId: '', error: uploadError.message }
+    }
+
+    const response = await fetch('/api/create-space', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        title: options.title || undefined,
+        password: options.password || undefined,
+        archivePath: upload.path
+      })
+    })
+    const result = await response.json().catch(() => ({}))
+
+    if (!response.ok || !result.success || !result.spaceId) {
+      return {
+        spaceId: '',
+        error: result.error || `Server error: ${response.status}`,
+        rateLimited: response.status === 429
+      }
+    }
+
+    // The space is there even when some pages didn't make it
+    if (result.importError) console.error('Space import incomplete:', result.importError)
+    return { spaceId: result.spaceId }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error importing space:', err)
+    return { spaceId: '', error: errorMessage }
+  }
+}
+
+// Export a space as a zip (see space-archive.ts) and download it from the
+// signed link the server returns
+export async function downloadSpaceArchive(spaceId: string): Promise<{
+  success: boolean
+  error?: string
+}> {
+  try {
+    const { url } = await apiRequest<{ url: string }>(getSpaceArchiveUrl(spaceId), { method: 'POST' })
+
+    const link = document.createElement('a')
+    link.href = url
+    link.click()
+    return { success: true }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error exporting space:', err)
+    return { success: false, error: errorMessage }
+  }
+}
+
 // Update last accessed timestamp for a space
 export async function updateLastAccessed(spaceId: string): Promise<{ 
   success: boolean; 
@@ -190,10 +262,10 @@ export async function checkSpaceRequirements(spaceId: string): Promise<{
   error?: string 
 }> {
   try {
-    // SECURE: First get basic space info without password
+    // SECURE: the password column isn't readable by clients, has_password is
     const { data: space, error } = await supabase
       .from('spaces')
-      .select('id, title')
+      .select('id, title, has_password')
       .eq('id', spaceId)
       .single()
 
@@ -201,14 +273,6 @@ export async function checkSpaceRequirements(spaceId: string): Promise<{
       return { exists: false, requiresPassword: false, error: 'Space not found' }
     }
 
-    // Separate query to check if password exists (without fetching actual password)
-    const { data: passwordCheck } = await supabase
-      .from('spaces')
-      .select('id')
-      .eq('id', spaceId)
-      .not('password', 'is', null)
-      .single()
-
     // Update last_accessed timestamp when space is accessed
     updateLastAccessed(spaceId).catch(err => {
       console.error('Failed to update last_accessed for space', spaceId, ':', err)
@@ -216,7 +280,7 @@ export async function checkSpaceRequirements(spaceId: string): Promise<{
 
     return { 
       exists: true, 
-      requiresPassword: !!passwordCheck, // True if password exists, false if not
+      requiresPassword: !!space.has_password,
       title: space.title || undefined
     }
   } catch (err) {
@@ -226,7 +290,7 @@ export async function checkSpaceRequirements(spaceId: string): Promise<{
 }
 
 // Secure server-side space authentication (NEW)
-export async function joinSpaceSecure(spaceId: string, password?: string): Promise<{ success: boolean; error?: string }> {
+export async function joinSpaceSecure(spaceId: string, password?: string): Promise<{ success: boolean; error?: string; rateLimited?: boolean }> {
   if (shouldLog()) console.log('joinSpaceSecure called for space:', spaceId)
   
   try {
@@ -242,7 +306,11 @@ export async function joinSpaceSecure(spaceId: string, password?: string): Promi
 
     if (!response.ok) {
       if (shouldLog()) console.log('Authentication failed:', result.error);
-      return { success: false, error: result.error || 'Authentication failed' };
+      return {
+        success: false,
+        error: result.error || 'Authentication failed',
+        rateLimited: response.status === 429
+      };
     }
 
     if (shouldLog()) console.log('Authentication successful');
@@ -254,6 +322,34 @@ export async function joinSpaceSecure(spaceId: string, password?: string): Promi
   }
 }
 
+// Ask the server whether this browser's session cookie unlocks a space, and
+// with which role
+export async function checkSpaceSession(spaceId: string): Promise<{
+  requiresPassword: boolean;
+  isAuthenticated: boolean;
+  role: SpaceRole | null;
+  error?: string;
+}> {
+  try {
+    const response = await fetch(`/api/space-session?spaceId=${encodeURIComponent(spaceId)}`);
+    const result = await response.json();
+
+    if (!response.ok) {
+      return { requiresPassword: true, isAuthenticated: false, role: null, error: result.error || 'Failed to check session' };
+    }
+
+    return {
+      requiresPassword: result.requiresPassword,
+      isAuthenticated: result.isAuthenticated,
+      role: result.role ?? null
+    };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Network error occurred';
+    console.error('checkSpaceSession exception:', err);
+    return { requiresPassword: true, isAuthenticated: false, role: null, error: errorMessage };
+  }
+}
+
 // DEPRECATED: VULNERABLE FUNCTION - DO NOT USE!
 // This function has been deprecated due to critical security vulnerabilities.
 // It exposes passwords to the client-side, making them visible in browser dev tools.
@@ -265,28 +361,40 @@ export async function joinSpace(spaceId: string, password?: string): Promise<{ s
   return joinSpaceSecure(spaceId, password);
 }
 
-// Load all pages for a space
+// Call one of the space data routes (app/routes/api.space.* and api.page.*).
+// They check space access server-side; the anon key can't read space data.
+// Throws with the server's error message when the request fails.
+async function apiRequest<T = unknown>(
+  url: string,
+  options: { method?: string; body?: unknown; signal?: AbortSignal } = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    method: options.method || 'GET',
+    headers: options.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    signal: options.signal,
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(result.error || `Server error: ${response.status}`);
+  }
+
+  return result as T;
+}
+
+// Load the pages of a space (not the ones in the trash)
 export async function loadPagesForSpace(spaceId: string): Promise<{ 
   pages: Tables<'pages'>[]; 
   error?: string 
 }> {
   try {
     if (shouldLog()) console.log('Loading pages for space:', spaceId);
-    
-    const { data: pages, error } = await supabase
-      .from('pages')
-      .select('id, title, type, space_id, order')
-      .eq('space_id', spaceId)
-      .order('order', { ascending: true, nullsFirst: false })
-      .order('title', { ascending: true })
-
-    if (shouldLog()) console.log('Pages query result:', { pages, error });
 
-    if (error) {
-      console.error('Error loading pages:', error)
-      // Return empty array instead of error to prevent UI breaking
-      return { pages: [], error: `Failed to load pages: ${error.message}` }
-    }
+    const { pages } = await apiRequest<{ pages: Tables<'pages'>[] }>(
+      `/api/space/${spaceId}/pages`
+    );
 
     if (shouldLog()) console.log('Successfully loaded pages:', pages?.length || 0);
     return { pages: pages || [] }
@@ -298,45 +406,21 @@ export async function loadPagesForSpace(spaceId: string): Promise<{
   }
 }
 
-// Create a new page in a space
+// Create a new page in a space, as a subpage when parentId is given
 export async function createPage(
   spaceId: string, 
   title: string, 
-  type: 'document' | 'moodboard' | 'kanban'
+  type: 'document' | 'moodboard' | 'kanban',
+  parentId: string | null = null
 ): Promise<{ 
   page: Tables<'pages'> | null; 
   error?: string 
 }> {
   try {
-    // Get the current max order for this space
-    const { data: existingPages } = await supabase
-      .from('pages')
-      .select('order')
-      .eq('space_id', spaceId)
-      .order('order', { ascending: false, nullsFirst: false })
-      .limit(1)
-
-    const nextOrder = existingPages && existingPages.length > 0 
-      ? (existingPages[0].order || 0) + 1 
-      : 1
-
-    const pageData: TablesInsert<'pages'> = {
-      space_id: spaceId,
-      title,
-      type,
-      order: nextOrder
-    }
-
-    const { data: page, error } = await supabase
-      .from('pages')
-      .insert(pageData)
-      .select()
-      .single()
-
-    if (error) {
-      console.error('Error creating page:', error)
-      return { page: null, error: error.message }
-    }
+    const { page } = await apiRequest<{ page: Tables<'pages'> }>(`/api/space/${spaceId}/pages`, {
+      method: 'POST',
+      body: { title, type, parentId }
+    })
 
     return { page }
   } catch (err) {
@@ -346,6 +430,58 @@ export async function createPage(
   }
 }
 
+// Create the pages of a template (with their content and subpages) in a
+// space, under parentId when given
+export async function createPagesFromTemplate(
+  spaceId: string,
+  templateId: string,
+  parentId: string | null = null
+): Promise<{
+  pages: Tables<'pages'>[];
+  error?: string;
+}> {
+  try {
+    const { pages, error } = await apiRequest<{ pages: Tables<'pages'>[]; error?: string }>(
+      `/api/space/${spaceId}/pages`,
+      {
+        method: 'POST',
+        body: { templateId, parentId }
+      }
+    )
+
+    return { pages, error }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error creating pages from template:', err)
+    return { pages: [], error: errorMessage }
+  }
+}
+
+// Create a document page from each Markdown file (bulk import)
+export async function importMarkdownPages(
+  spaceId: string,
+  files: { title: string; markdown: string }[]
+): Promise<{
+  pages: Tables<'pages'>[];
+  error?: string;
+}> {
+  try {
+    const { pages, error } = await apiRequest<{ pages: Tables<'pages'>[]; error?: string }>(
+      `/api/space/${spaceId}/import-markdown`,
+      {
+        method: 'POST',
+        body: { files }
+      }
+    )
+
+    return { pages: pages || [], error }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error importing Markdown pages:', err)
+    return { pages: [], error: errorMessage }
+  }
+}
+
 // Rename a page
 export async function renamePage(
   pageId: string,
@@ -355,28 +491,12 @@ export async function renamePage(
   error?: string;
 }> {
   try {
-    const { data: pages, error } = await supabase
-      .from('pages')
-      .update({ title: newTitle })
-      .eq('id', pageId)
-      .select()
-
-    if (error) {
-      console.error('Error renaming page:', error)
-      return { page: null, error: error.message }
-    }
-
-    if (!pages || pages.length === 0) {
-      console.error('Page not found or no rows affected:', pageId)
-      return { page: null, error: 'Page not found or could not be updated' }
-    }
-
-    if (pages.length > 1) {
-      console.error('Multiple pages affected by update (unexpected):', pages.length)
-      return { page: null, error: 'Multiple pages affected by update' }
-    }
+    const { page } = await apiRequest<{ page: Tables<'pages'> }>(`/api/page/${pageId}`, {
+      method: 'PATCH',
+      body: { title: newTitle }
+    })
 
-    return { page: pages[0] }
+    return { page }
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
     console.error('Error renaming page:', err)
@@ -384,958 +504,1355 @@ export async function renamePage(
   }
 }
 
-// Delete a page
+// Move a page to the trash, with its subpages or moving them up to its parent
 export async function deletePage(
-  pageId: string
+  pageId: string,
+  subpages: SubpageDeletion = 'move_up'
 ): Promise<{
   success: boolean;
+  deletedPageIds: string[];
   error?: string;
 }> {
   try {
-    const { error } = await supabase
-      .from('pages')
-      .delete()
-      .eq('id', pageId)
-
-    if (error) {
-      console.error('Error deleting page:', error)
-      return { success: false, error: error.message }
-    }
+    const { deletedPageIds } = await apiRequest<{ deletedPageIds: string[] }>(
+      `/api/page/${pageId}?subpages=${subpages}`,
+      { method: 'DELETE' }
+    )
 
-    return { success: true }
+    return { success: true, deletedPageIds }
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
     console.error('Error deleting page:', err)
-    return { success: false, error: errorMessage }
+    return { success: false, deletedPageIds: [], error: errorMessage }
   }
 }
 
-// Load document blocks for a page
-export async function loadDocumentBlocks(pageId: string): Promise<{
-  blocks: Tables<'document_blocks'>[];
+// Copy a page, with its content, into a new page next to it
+export async function duplicatePage(pageId: string): Promise<{
+  page: Tables<'pages'> | null;
   error?: string;
 }> {
   try {
-    if (shouldLog()) console.log('Loading document blocks for page:', pageId);
-    
-    const { data: blocks, error } = await supabase
-      .from('document_blocks')
-      .select('id, content, type, order, page_id')
-      .eq('page_id', pageId)
-      .order('order', { ascending: true, nullsFirst: false })
-      .order('id', { ascending: true }) // Secondary sort for consistency
-
-    if (shouldLog()) console.log('Document blocks query result:', { blocks, error });
-
-    if (error) {
-      console.error('Error loading document blocks:', error)
-      return { blocks: [], error: `Failed to load document blocks: ${error.message}` }
-    }
+    const { page } = await apiRequest<{ page: Tables<'pages'> }>(`/api/page/${pageId}/duplicate`, {
+      method: 'POST'
+    })
 
-    if (shouldLog()) console.log('Successfully loaded document blocks:', blocks?.length || 0);
-    return { blocks: blocks || [] }
+    return { page }
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
-    console.error('Exception while loading document blocks:', err)
-    return { blocks: [], error: `Exception loading document blocks: ${errorMessage}` }
+    console.error('Error duplicating page:', err)
+    return { page: null, error: errorMessage }
   }
 }
 
-// Save document blocks for a page (replaces all existing blocks)
-export async function saveDocumentBlocks(
-  pageId: string, 
-  blocks: any // Plate editor value format
+// Move a page, with its subpages, to another space. The target space must
+// already be unlocked in this browser (see joinSpaceSecure).
+export async function movePageToSpace(
+  pageId: string,
+  spaceId: string
 ): Promise<{
   success: boolean;
+  movedPageIds: string[];
   error?: string;
 }> {
   try {
-    if (shouldLog()) console.log('Saving document blocks for page:', pageId, 'blocks data:', blocks);
-    if (shouldLog()) console.log('Blocks type:', typeof blocks, 'Is array:', Array.isArray(blocks));
-    
-    // Ensure blocks is an array
-    let blocksArray: any[];
-    if (Array.isArray(blocks)) {
-      blocksArray = blocks;
-    } else if (blocks && typeof blocks === 'object') {
-      // If it's an object, maybe it has a property with the blocks
-      if (shouldLog()) console.log('Blocks object keys:', Object.keys(blocks));
-      // For now, assume the blocks are the object itself wrapped in an array
-      blocksArray = [blocks];
-    } else {
-      if (shouldLog()) console.log('Unexpected blocks format, using empty array');
-      blocksArray = [];
-    }
-    
-    if (shouldLog()) console.log('Processed blocks array length:', blocksArray.length);
-    
-    // Start a transaction by deleting existing blocks first
-    const { error: deleteError } = await supabase
-      .from('document_blocks')
-      .delete()
-      .eq('page_id', pageId)
-
-    if (deleteError) {
-      console.error('Error deleting existing document blocks:', deleteError)
-      return { success: false, error: `Failed to delete existing blocks: ${deleteError.message}` }
-    }
-
-    // If there are no blocks to save, we're done
-    if (blocksArray.length === 0) {
-      if (shouldLog()) console.log('No blocks to save, deletion completed successfully');
-      return { success: true }
-    }
-
-    // Convert blocks to database format
-    const documentBlocks: TablesInsert<'document_blocks'>[] = blocksArray.map((block, index) => {
-      const plateType = block?.type || 'p';
-      const dbType = mapPlateTypeToDbType(plateType);
-      if (shouldLog()) console.log(`Block ${index}: plateType="${plateType}" -> dbType="${dbType}", full block:`, block);
-      
-      return {
-        page_id: pageId,
-        content: block,
-        type: dbType,
-        order: index + 1
-      };
-    });
-
-    if (shouldLog()) console.log('Prepared document blocks for insertion:', documentBlocks.length);
-    if (shouldLog()) console.log('Document blocks to insert:', documentBlocks);
+    const { movedPageIds } = await apiRequest<{ movedPageIds: string[] }>(`/api/page/${pageId}/move`, {
+      method: 'POST',
+      body: { spaceId }
+    })
 
-    // Insert new blocks
-    const { error: insertError } = await supabase
-      .from('document_blocks')
-      .insert(documentBlocks)
+    return { success: true, movedPageIds }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error moving page to space:', err)
+    return { success: false, movedPageIds: [], error: errorMessage }
+  }
+}
 
-    if (insertError) {
-      console.error('Error inserting document blocks:', insertError)
-      return { success: false, error: `Failed to insert blocks: ${insertError.message}` }
-    }
+// Put the pages under one parent (null: top level) in the given order
+export async function reorderPages(
+  spaceId: string,
+  parentId: string | null,
+  pageIds: string[]
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/space/${spaceId}/pages/order`, {
+      method: 'PUT',
+      body: { parentId, pageIds }
+    })
 
-    if (shouldLog()) console.log('Document blocks saved successfully');
     return { success: true }
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
-    console.error('Exception while saving document blocks:', err)
-    return { success: false, error: `Exception saving document blocks: ${errorMessage}` }
+    console.error('Error reordering pages:', err)
+    return { success: false, error: errorMessage }
   }
 }
 
-// Map Plate editor block types to database types
-function mapPlateTypeToDbType(plateType: string): string {
-  const typeMap: Record<string, string> = {
-    'p': 'paragraph',
-    'h1': 'heading',
-    'h2': 'heading', 
-    'h3': 'heading',
-    'h4': 'heading',
-    'h5': 'heading',
-    'h6': 'heading',
-    'blockquote': 'quote',
-    'hr': 'divider',
-    'ul': 'list',
-    'ol': 'list',
-    'li': 'list_item',
-    'code': 'code',
-    'pre': 'code_block',
-    'img': 'image',
-    'table': 'table',
-    'tr': 'table_row',
-    'td': 'table_cell',
-    'th': 'table_header'
-  };
-  
-  return typeMap[plateType] || 'paragraph';
-}
+// Realtime change to the pages of a space
+export type PageRealtimeEvent = {
+  type: 'reorder';
+  pages: Array<{ id: string; order: number }>;
+};
 
-// Convert database blocks to Plate editor format
-export function convertBlocksToPlateValue(blocks: Tables<'document_blocks'>[]): any[] {
-  if (shouldLog()) console.log('Converting blocks to Plate value:', blocks);
-  
-  if (!blocks || blocks.length === 0) {
-    if (shouldLog()) console.log('No blocks found, returning default structure');
-    // Return default empty document structure
-    return [
-      {
-        children: [{ text: "" }],
-        type: "p",
-      }
-    ];
-  }
+// Events of a realtime broadcast that have the expected shape. The data
+// channels are private and only the server sends on them; anything malformed
+// is dropped rather than handed to the editors.
+function getRealtimeEvents<T>(payload: any, isEvent: (event: any) => boolean): T[] {
+  return Array.isArray(payload?.events) ? payload.events.filter(isEvent) : []
+}
 
-  const sortedBlocks = blocks.sort((a, b) => (a.order || 0) - (b.order || 0));
-  if (shouldLog()) console.log('Sorted blocks:', sortedBlocks);
-  
-  const plateValue = sortedBlocks.map((block, index) => {
-    if (shouldLog()) console.log(`Converting block ${index}:`, {
-      id: block.id,
-      type: block.type,
-      order: block.order,
-      content: block.content
-    });
-    
-    const content = block.content as any; // Cast to any for Plate structure
-    
-    // Validate that the content has the expected Plate structure
-    if (typeof content === 'object' && content !== null && !Array.isArray(content)) {
-      if (!content.children || !content.type) {
-        if (shouldLog()) console.warn(`Block ${index} missing required Plate structure:`, content);
-        // Fallback to a basic paragraph if structure is invalid
-        return {
-          children: [{ text: content.text || '' }],
-          type: 'p'
-        };
-      }
-    } else {
-      if (shouldLog()) console.warn(`Block ${index} content is not an object:`, content);
-      return {
-        children: [{ text: '' }],
-        type: 'p'
-      };
-    }
-    
-    return content;
-  });
-  
-  if (shouldLog()) console.log('Final Plate value:', plateValue);
-  if (shouldLog()) console.log('Final Plate value (stringified):', JSON.stringify(plateValue, null, 2));
-  return plateValue;
+function isPageRealtimeEvent(event: any): boolean {
+  return (
+    event?.type === 'reorder' &&
+    Array.isArray(event.pages) &&
+    event.pages.every((page: any) => typeof page?.id === 'string' && typeof page.order === 'number')
+  )
 }
 
-// Auto-save document blocks with debouncing
-export async function autoSaveDocumentBlocks(
-  pageId: string,
-  blocks: any,
-  debounceMs: number = 2000
-): Promise<void> {
-  // Simple debouncing using setTimeout
-  const key = `autosave_${pageId}`;
-  
-  // Clear existing timeout
-  if ((globalThis as any)[key]) {
-    clearTimeout((globalThis as any)[key]);
+// Subscribe to page changes announced by the data routes for a space.
+// Returns a function that removes the subscription.
+export function subscribeToPageChanges(
+  spaceId: string,
+  onEvent: (event: PageRealtimeEvent) => void
+): () => void {
+  const channel = supabase
+    .channel(`pages:${spaceId}`, { config: { private: true } })
+    .on('broadcast', { event: 'changes' }, ({ payload }) => {
+      getRealtimeEvents<PageRealtimeEvent>(payload, isPageRealtimeEvent).forEach(onEvent)
+    })
+    .subscribe((status) => {
+      if (shouldLog()) console.log('Pages channel status:', status)
+    })
+
+  return () => {
+    supabase.removeChannel(channel)
   }
-  
-  // Set new timeout
-  (globalThis as any)[key] = setTimeout(async () => {
-    if (shouldLog()) console.log('Auto-saving document blocks for page:', pageId);
-    const result = await saveDocumentBlocks(pageId, blocks);
-    if (result.error) {
-      console.error('Auto-save failed:', result.error);
-    } else {
-      if (shouldLog()) console.log('Auto-save completed successfully');
-    }
-    delete (globalThis as any)[key];
-  }, debounceMs);
 }
 
-// Kanban utility functions
+// Trash
 
-// Load kanban data (columns and cards) for a page
-export async function loadKanbanData(pageId: string): Promise<{
-  columns: Array<{
-    id: string;
-    title: string;
-    cards: Array<{
-      id: string;
-      title: string;
-      description?: string;
-    }>;
-  }>;
+// A page in the trash of a space
+export interface TrashedPage {
+  id: string;
+  title: string;
+  type: string;
+  parent_id: string | null;
+  deleted_at: string;
+}
+
+// Load the pages in the trash of a space, most recently trashed first
+export async function loadTrashedPages(spaceId: string): Promise<{
+  pages: TrashedPage[];
   error?: string;
 }> {
   try {
-    if (shouldLog()) console.log('Loading kanban data for page:', pageId);
+    const { pages } = await apiRequest<{ pages: TrashedPage[] }>(`/api/space/${spaceId}/trash`)
+
+    return { pages: pages || [] }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error loading trashed pages:', err)
+    return { pages: [], error: errorMessage }
+  }
+}
+
+// Restore a page (and the subpages trashed with it) from the trash
+export async function restorePage(
+  spaceId: string,
+  pageId: string
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/space/${spaceId}/trash`, {
+      method: 'POST',
+      body: { intent: 'restore', pageId }
+    })
+
+    return { success: true }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error restoring page:', err)
+    return { success: false, error: errorMessage }
+  }
+}
+
+// Permanently delete a page (and the subpages trashed with it) from the trash
+export async function purgePage(
+  spaceId: string,
+  pageId: string
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/space/${spaceId}/trash`, {
+      method: 'POST',
+      body: { intent: 'purge', pageId }
+    })
+
+    return { success: true }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error purging page:', err)
+    return { success: false, error: errorMessage }
+  }
+}
+
+// Permanently delete the pages that have been in the trash for longer than
+// PAGE_TRASH_CONFIG.retentionDays (editors only)
+export async function purgeExpiredPages(spaceId: string): Promise<{
+  purged: number;
+  error?: string;
+}> {
+  try {
+    const { purged } = await apiRequest<{ purged: number }>(`/api/space/${spaceId}/trash`, {
+      method: 'POST',
+      body: { intent: 'purge-expired' }
+    })
+
+    return { purged: purged ?? 0 }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error purging expired pages:', err)
+    return { purged: 0, error: errorMessage }
+  }
+}
+
+// Templates
+
+// List the saved templates of some spaces (those this browser can open)
+export async function loadTemplates(
+  spaceIds: string[],
+  kind?: TemplateKind
+): Promise<{
+  templates: TemplateSummary[];
+  error?: string;
+}> {
+  if (spaceIds.length === 0) return { templates: [] }
+
+  try {
+    const params = new URLSearchParams(spaceIds.map((spaceId) => ['spaceId', spaceId]))
+    if (kind) params.set('kind', kind)
+
+    const { templates } = await apiRequest<{ templates: TemplateSummary[] }>(`/api/templates?${params}`)
+
+    return { templates: templates || [] }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error loading templates:', err)
+    return { templates: [], error: errorMessage }
+  }
+}
+
+// Save a page of a space (with its subpages) or the whole space as a template
+export async function saveTemplate(
+  spaceId: string,
+  template: { kind: TemplateKind; name: string; description?: string; pageId?: string }
+): Promise<{
+  template: TemplateSummary | null;
+  error?: string;
+}> {
+  try {
+    const { template: saved } = await apiRequest<{ template: TemplateSummary }>(
+      `/api/space/${spaceId}/templates`,
+      {
+        method: 'POST',
+        body: template
+      }
+    )
+
+    return { template: saved }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error saving template:', err)
+    return { template: null, error: errorMessage }
+  }
+}
+
+// Delete a saved template
+export async function deleteTemplate(templateId: string): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/template/${templateId}`, { method: 'DELETE' })
+
+    return { success: true }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error deleting template:', err)
+    return { success: false, error: errorMessage }
+  }
+}
+
+// Load document blocks for a page
+export async function loadDocumentBlocks(pageId: string): Promise<{
+  blocks: Tables<'document_blocks'>[];
+  error?: string;
+}> {
+  try {
+    if (shouldLog()) console.log('Loading document blocks for page:', pageId);
+
+    const { blocks } = await apiRequest<{ blocks: Tables<'document_blocks'>[] }>(
+      `/api/page/${pageId}/blocks`
+    )
+
+    if (shouldLog()) console.log('Successfully loaded document blocks:', blocks?.length || 0);
+    return { blocks: blocks || [] }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Exception while loading document blocks:', err)
+    return { blocks: [], error: `Exception loading document blocks: ${errorMessage}` }
+  }
+}
+
+// Save document blocks for a page (replaces all existing blocks)
+export async function saveDocumentBlocks(
+  pageId: string, 
+  blocks: any, // Plate editor value format
+  participantId?: string | null
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    if (shouldLog()) console.log('Saving document blocks for page:', pageId, 'blocks data:', blocks);
+
+    await apiRequest(`/api/page/${pageId}/blocks`, {
+      method: 'PUT',
+      body: { blocks, participantId }
+    })
+
+    if (shouldLog()) console.log('Document blocks saved successfully');
+    return { success: true }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Exception while saving document blocks:', err)
+    return { success: false, error: `Exception saving document blocks: ${errorMessage}` }
+  }
+}
+
+// Convert database blocks to Plate editor format
+export function convertBlocksToPlateValue(blocks: Tables<'document_blocks'>[]): any[] {
+  if (shouldLog()) console.log('Converting blocks to Plate value:', blocks);
+  
+  if (!blocks || blocks.length === 0) {
+    if (shouldLog()) console.log('No blocks found, returning default structure');
+    // Return default empty document structure
+    return [
+      {
+        children: [{ text: "" }],
+        type: "p",
+      }
+    ];
+  }
+
+  const sortedBlocks = blocks.sort((a, b) => (a.order || 0) - (b.order || 0));
+  if (shouldLog()) console.log('Sorted blocks:', sortedBlocks);
+  
+  const plateValue = sortedBlocks.map((block, index) => {
+    if (shouldLog()) console.log(`Converting block ${index}:`, {
+      id: block.id,
+      type: block.type,
+      order: block.order,
+      content: block.content
+    });
+    
+    const content = block.content as any; // Cast to any for Plate structure
+    
+    // Validate that the content has the expected Plate structure
+    if (typeof content === 'object' && content !== null && !Array.isArray(content)) {
+      if (!content.children || !content.type) {
+        if (shouldLog()) console.warn(`Block ${index} missing required Plate structure:`, content);
+        // Fallback to a basic paragraph if structure is invalid
+        return {
+          children: [{ text: content.text || '' }],
+          type: 'p'
+        };
+      }
+    } else {
+      if (shouldLog()) console.warn(`Block ${index} content is not an object:`, content);
+      return {
+        children: [{ text: '' }],
+        type: 'p'
+      };
+    }
     
-    // Load columns
-    const { data: columns, error: columnsError } = await supabase
-      .from('kanban_columns')
-      .select('id, title, order')
-      .eq('page_id', pageId)
-      .order('order', { ascending: true, nullsFirst: false })
-      .order('title', { ascending: true });
-
-    if (columnsError) {
-      console.error('Error loading kanban columns:', columnsError);
-      return { columns: [], error: `Failed to load columns: ${columnsError.message}` };
+    return content;
+  });
+  
+  if (shouldLog()) console.log('Final Plate value:', plateValue);
+  if (shouldLog()) console.log('Final Plate value (stringified):', JSON.stringify(plateValue, null, 2));
+  return plateValue;
+}
+
+// Load the persisted Yjs state (base64 encoded) for a document page
+export async function loadDocumentYjsState(pageId: string): Promise<{
+  state: string | null;
+  error?: string;
+}> {
+  try {
+    const { state } = await apiRequest<{ state: string | null }>(`/api/page/${pageId}/yjs-state`);
+
+    return { state: state ?? null };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading document yjs state:', err);
+    return { state: null, error: `Exception loading document state: ${errorMessage}` };
+  }
+}
+
+// Save the Yjs state (base64 encoded) for a document page
+export async function saveDocumentYjsState(
+  pageId: string,
+  state: string
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/page/${pageId}/yjs-state`, {
+      method: 'PUT',
+      body: { state }
+    });
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while saving document yjs state:', err);
+    return { success: false, error: `Exception saving document state: ${errorMessage}` };
+  }
+}
+
+// Messages of the collaborative editing channel of a document page
+// (yjs:<page id>). Clients send them through the server, which checks the
+// role: updates need editor access, sync requests only viewer access.
+// Updates, state vectors and sync replies are base64 encoded.
+export type DocumentSyncMessage =
+  | { type: 'update'; clientId: number; update: string }
+  | { type: 'sync-request'; clientId: number; stateVector: string }
+  | { type: 'sync-update'; clientId: number; update: string };
+
+// Relay a message to everyone editing or viewing a document page
+export async function sendDocumentSyncMessage(
+  pageId: string,
+  message: DocumentSyncMessage
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/page/${pageId}/yjs`, {
+      method: 'POST',
+      body: message
+    });
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while sending document update:', err);
+    return { success: false, error: `Exception sending document update: ${errorMessage}` };
+  }
+}
+
+// Kanban utility functions
+
+// Load kanban data (columns and cards) for a page
+export async function loadKanbanData(pageId: string): Promise<{
+  columns: Array<{
+    id: string;
+    title: string;
+    order: number | null;
+    cards: Array<{
+      id: string;
+      title: string;
+      description?: string;
+      order: number | null;
+    }>;
+  }>;
+  error?: string;
+}> {
+  try {
+    if (shouldLog()) console.log('Loading kanban data for page:', pageId);
+
+    const { columns } = await apiRequest<Awaited<ReturnType<typeof loadKanbanData>>>(
+      `/api/page/${pageId}/kanban`
+    );
+
+    if (shouldLog()) console.log('Successfully loaded kanban data:', columns.length, 'columns');
+    return { columns };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Exception while loading kanban data:', err);
+    return { columns: [], error: `Exception loading kanban data: ${errorMessage}` };
+  }
+}
+
+// Realtime change on a kanban board, already mapped to the editor's shape
+export type KanbanRealtimeEvent =
+  | {
+      table: 'kanban_columns';
+      eventType: 'INSERT' | 'UPDATE';
+      column: { id: string; title: string; order: number | null };
     }
+  | { table: 'kanban_columns'; eventType: 'DELETE'; id: string }
+  | {
+      table: 'kanban_cards';
+      eventType: 'INSERT' | 'UPDATE';
+      card: {
+        id: string;
+        columnId: string;
+        title: string;
+        description?: string;
+        order: number | null;
+      };
+    }
+  | { table: 'kanban_cards'; eventType: 'DELETE'; id: string };
+
+function isKanbanRealtimeEvent(event: any): boolean {
+  if (event?.table !== 'kanban_columns' && event?.table !== 'kanban_cards') return false;
+  if (event.eventType === 'DELETE') return typeof event.id === 'string';
+  if (event.eventType !== 'INSERT' && event.eventType !== 'UPDATE') return false;
+
+  return event.table === 'kanban_columns'
+    ? typeof event.column?.id === 'string' && typeof event.column.title === 'string'
+    : typeof event.card?.id === 'string' &&
+        typeof event.card.columnId === 'string' &&
+        typeof event.card.title === 'string';
+}
+
+// Subscribe to column and card changes for a kanban page.
+// The data routes broadcast every change they write; deleting a column only
+// announces the column, the caller drops its cards with it.
+// Returns a function that removes the subscription.
+export function subscribeToKanbanChanges(
+  pageId: string,
+  onEvent: (event: KanbanRealtimeEvent) => void,
+  onStatusChange?: (isSubscribed: boolean) => void
+): () => void {
+  const channel = supabase
+    .channel(`kanban:${pageId}`, { config: { private: true } })
+    .on('broadcast', { event: 'changes' }, ({ payload }) => {
+      getRealtimeEvents<KanbanRealtimeEvent>(payload, isKanbanRealtimeEvent).forEach(onEvent);
+    })
+    .subscribe((status) => {
+      if (shouldLog()) console.log('Kanban channel status:', status);
+      onStatusChange?.(status === 'SUBSCRIBED');
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Create a new kanban column
+export async function createKanbanColumn(
+  pageId: string,
+  title: string
+): Promise<{
+  column: Tables<'kanban_columns'> | null;
+  error?: string;
+}> {
+  try {
+    const { column } = await apiRequest<{ column: Tables<'kanban_columns'> }>(`/api/page/${pageId}/kanban`, {
+      method: 'POST',
+      body: { intent: 'create-column', title }
+    });
+
+    return { column };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating kanban column:', err);
+    return { column: null, error: errorMessage };
+  }
+}
+
+// Create a new kanban card
+export async function createKanbanCard(
+  pageId: string,
+  columnId: string,
+  title: string,
+  description?: string
+): Promise<{
+  card: Tables<'kanban_cards'> | null;
+  error?: string;
+}> {
+  try {
+    const { card } = await apiRequest<{ card: Tables<'kanban_cards'> }>(`/api/page/${pageId}/kanban`, {
+      method: 'POST',
+      body: { intent: 'create-card', columnId, title, description }
+    });
+
+    return { card };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating kanban card:', err);
+    return { card: null, error: errorMessage };
+  }
+}
+
+// Update kanban column order after drag and drop
+export async function updateKanbanColumnOrder(
+  pageId: string,
+  columns: Array<{ id: string; order: number }>
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/page/${pageId}/kanban`, {
+      method: 'POST',
+      body: { intent: 'reorder-columns', columns }
+    });
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating kanban column order:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Update kanban card (including moving between columns)
+export async function updateKanbanCard(
+  pageId: string,
+  cardId: string,
+  updates: {
+    columnId?: string;
+    order?: number;
+    title?: string;
+    description?: string;
+  }
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/page/${pageId}/kanban`, {
+      method: 'POST',
+      body: { intent: 'update-card', cardId, updates }
+    });
 
-    // Load cards for all columns
-    const { data: cards, error: cardsError } = await supabase
-      .from('kanban_cards')
-      .select('id, content, column_id, order')
-      .in('column_id', columns?.map(col => col.id) || [])
-      .order('order', { ascending: true, nullsFirst: false })
-      .order('id', { ascending: true });
-
-    if (cardsError) {
-      console.error('Error loading kanban cards:', cardsError);
-      return { columns: [], error: `Failed to load cards: ${cardsError.message}` };
-    }
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating kanban card:', err);
+    return { success: false, error: errorMessage };
+  }
+}
 
-    // Group cards by column and format the response
-    const columnsWithCards = (columns || []).map(column => {
-      const columnCards = (cards || []).filter(card => card.column_id === column.id);
-      return {
-        id: column.id,
-        title: column.title,
-        cards: columnCards.map(card => {
-          // Parse the content JSON to extract title and description
-          let title = 'Untitled';
-          let description: string | undefined;
-          
-          try {
-            if (typeof card.content === 'string') {
-              const parsed = JSON.parse(card.content);
-              title = parsed.title || 'Untitled';
-              description = parsed.description || undefined;
-            } else if (typeof card.content === 'object' && card.content !== null) {
-              title = (card.content as any).title || 'Untitled';
-              description = (card.content as any).description || undefined;
-            }
-          } catch (err) {
-            if (shouldLog()) console.warn('Failed to parse card content:', card.content);
-            title = String(card.content) || 'Untitled';
-          }
-          
-          return {
-            id: card.id,
-            title,
-            description
-          };
-        })
-      };
+// Update multiple cards' order (for reordering within column or moving between columns)
+export async function updateKanbanCardsOrder(
+  pageId: string,
+  cards: Array<{ id: string; columnId: string; order: number }>
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/page/${pageId}/kanban`, {
+      method: 'POST',
+      body: { intent: 'reorder-cards', cards }
     });
 
-    if (shouldLog()) console.log('Successfully loaded kanban data:', columnsWithCards.length, 'columns');
-    return { columns: columnsWithCards };
+    return { success: true };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Exception while loading kanban data:', err);
-    return { columns: [], error: `Exception loading kanban data: ${errorMessage}` };
+    console.error('Error updating kanban cards order:', err);
+    return { success: false, error: errorMessage };
   }
 }
 
-// Create a new kanban column
-export async function createKanbanColumn(
+// Edit an existing kanban card
+export async function editKanbanCard(
   pageId: string,
-  title: string
+  cardId: string,
+  title: string,
+  description?: string
 ): Promise<{
-  column: Tables<'kanban_columns'> | null;
+  card: Tables<'kanban_cards'> | null;
   error?: string;
 }> {
   try {
-    // Get the current max order for this page
-    const { data: existingColumns } = await supabase
-      .from('kanban_columns')
-      .select('order')
-      .eq('page_id', pageId)
-      .order('order', { ascending: false, nullsFirst: false })
-      .limit(1);
-
-    const nextOrder = existingColumns && existingColumns.length > 0 
-      ? (existingColumns[0].order || 0) + 1 
-      : 1;
-
-    const columnData: TablesInsert<'kanban_columns'> = {
-      page_id: pageId,
-      title,
-      order: nextOrder
-    };
+    const { card } = await apiRequest<{ card: Tables<'kanban_cards'> }>(`/api/page/${pageId}/kanban`, {
+      method: 'POST',
+      body: { intent: 'edit-card', cardId, title, description }
+    });
 
-    const { data: column, error } = await supabase
-      .from('kanban_columns')
-      .insert(columnData)
-      .select()
-      .single();
+    return { card };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error editing kanban card:', err);
+    return { card: null, error: errorMessage };
+  }
+}
 
-    if (error) {
-      console.error('Error creating kanban column:', error);
-      return { column: null, error: error.message };
-    }
+// Delete a kanban card
+export async function deleteKanbanCard(
+  pageId: string,
+  cardId: string
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/page/${pageId}/kanban`, {
+      method: 'POST',
+      body: { intent: 'delete-card', cardId }
+    });
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error deleting kanban card:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Edit an existing kanban column
+export async function editKanbanColumn(
+  pageId: string,
+  columnId: string,
+  title: string
+): Promise<{
+  column: Tables<'kanban_columns'> | null;
+  error?: string;
+}> {
+  try {
+    const { column } = await apiRequest<{ column: Tables<'kanban_columns'> }>(`/api/page/${pageId}/kanban`, {
+      method: 'POST',
+      body: { intent: 'edit-column', columnId, title }
+    });
 
     return { column };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error creating kanban column:', err);
+    console.error('Error editing kanban column:', err);
     return { column: null, error: errorMessage };
   }
 }
 
-// Create a new kanban card
-export async function createKanbanCard(
-  columnId: string,
-  title: string,
-  description?: string
+// Delete a kanban column and all its cards
+export async function deleteKanbanColumn(
+  pageId: string,
+  columnId: string
 ): Promise<{
-  card: Tables<'kanban_cards'> | null;
+  success: boolean;
   error?: string;
 }> {
   try {
-    // Get the current max order for this column
-    const { data: existingCards } = await supabase
-      .from('kanban_cards')
-      .select('order')
-      .eq('column_id', columnId)
-      .order('order', { ascending: false, nullsFirst: false })
-      .limit(1);
-
-    const nextOrder = existingCards && existingCards.length > 0 
-      ? (existingCards[0].order || 0) + 1 
-      : 1;
-
-    const cardContent = {
-      title,
-      description: description || undefined
-    };
+    await apiRequest(`/api/page/${pageId}/kanban`, {
+      method: 'POST',
+      body: { intent: 'delete-column', columnId }
+    });
 
-    const cardData: TablesInsert<'kanban_cards'> = {
-      column_id: columnId,
-      content: JSON.stringify(cardContent),
-      order: nextOrder
-    };
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error deleting kanban column:', err);
+    return { success: false, error: errorMessage };
+  }
+}
 
-    const { data: card, error } = await supabase
-      .from('kanban_cards')
-      .insert(cardData)
-      .select()
-      .single();
+// Moodboard utility functions
 
-    if (error) {
-      console.error('Error creating kanban card:', error);
-      return { card: null, error: error.message };
-    }
+export interface MoodboardItem {
+  id: string;
+  type: "text" | "image" | "rectangle" | "circle";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  content?: string;
+  style?: React.CSSProperties;
+  aspectRatio?: number; // For images to maintain proportions
+}
 
-    return { card };
+// Load moodboard items for a page
+export async function loadMoodboardItems(pageId: string): Promise<{
+  items: MoodboardItem[];
+  error?: string;
+}> {
+  try {
+    if (shouldLog()) console.log('Loading moodboard items for page:', pageId);
+
+    const { items } = await apiRequest<{ items: MoodboardItem[] }>(`/api/page/${pageId}/moodboard`);
+
+    if (shouldLog()) console.log('Successfully loaded moodboard items:', items.length);
+    return { items };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error creating kanban card:', err);
-    return { card: null, error: errorMessage };
+    console.error('Exception while loading moodboard items:', err);
+    return { items: [], error: `Exception loading moodboard items: ${errorMessage}` };
   }
 }
 
-// Update kanban column order after drag and drop
-export async function updateKanbanColumnOrder(
-  columns: Array<{ id: string; order: number }>
-): Promise<{
+// Create a new moodboard item (returns the created item with DB-generated ID)
+export async function createMoodboardItem(item: Omit<MoodboardItem, 'id'>, pageId: string): Promise<{
+  item: MoodboardItem | null;
+  error?: string;
+}> {
+  try {
+    const { item: createdItem } = await apiRequest<{ item: MoodboardItem }>(`/api/page/${pageId}/moodboard`, {
+      method: 'POST',
+      body: { intent: 'create', item }
+    });
+
+    return { item: createdItem };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error creating moodboard item:', err);
+    return { item: null, error: errorMessage };
+  }
+}
+
+// Update an existing moodboard item
+export async function updateMoodboardItem(item: MoodboardItem, pageId: string): Promise<{
   success: boolean;
   error?: string;
 }> {
   try {
-    // Update all columns in a batch
-    for (const column of columns) {
-      const { error } = await supabase
-        .from('kanban_columns')
-        .update({ order: column.order })
-        .eq('id', column.id);
+    await apiRequest(`/api/page/${pageId}/moodboard`, {
+      method: 'POST',
+      body: { intent: 'update', item }
+    });
 
-      if (error) {
-        console.error('Error updating column order:', error);
-        return { success: false, error: error.message };
-      }
-    }
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating moodboard item:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Delete a moodboard item
+export async function deleteMoodboardItem(pageId: string, itemId: string): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/page/${pageId}/moodboard`, {
+      method: 'POST',
+      body: { intent: 'delete', itemIds: [itemId] }
+    });
 
     return { success: true };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error updating kanban column order:', err);
+    console.error('Error deleting moodboard item:', err);
     return { success: false, error: errorMessage };
   }
 }
 
-// Update kanban card (including moving between columns)
-export async function updateKanbanCard(
-  cardId: string,
-  updates: {
-    columnId?: string;
-    order?: number;
-    title?: string;
-    description?: string;
+// Realtime change to a moodboard item, already mapped to the editor's shape
+export type MoodboardRealtimeEvent =
+  | { eventType: 'INSERT' | 'UPDATE'; item: MoodboardItem }
+  | { eventType: 'DELETE'; id: string };
+
+function isMoodboardRealtimeEvent(event: any): boolean {
+  if (event?.eventType === 'DELETE') return typeof event.id === 'string';
+  return (
+    (event?.eventType === 'INSERT' || event?.eventType === 'UPDATE') &&
+    typeof event.item?.id === 'string' &&
+    typeof event.item.type === 'string'
+  );
+}
+
+// Subscribe to item changes on a moodboard page, as broadcast by the data
+// routes after each write. Returns a function that removes the subscription.
+export function subscribeToMoodboardChanges(
+  pageId: string,
+  onEvent: (event: MoodboardRealtimeEvent) => void,
+  onStatusChange?: (isSubscribed: boolean) => void
+): () => void {
+  const channel = supabase
+    .channel(`moodboard:${pageId}`, { config: { private: true } })
+    .on('broadcast', { event: 'changes' }, ({ payload }) => {
+      getRealtimeEvents<MoodboardRealtimeEvent>(payload, isMoodboardRealtimeEvent).forEach(onEvent);
+    })
+    .subscribe((status) => {
+      if (shouldLog()) console.log('Moodboard channel status:', status);
+      onStatusChange?.(status === 'SUBSCRIBED');
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Delete multiple moodboard items (for batch cleanup)
+export async function deleteMoodboardItems(pageId: string, itemIds: string[]): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    if (itemIds.length === 0) {
+      return { success: true };
+    }
+
+    // Delete all items in a single request
+    await apiRequest(`/api/page/${pageId}/moodboard`, {
+      method: 'POST',
+      body: { intent: 'delete', itemIds }
+    });
+
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Error deleting items';
+    console.error('Error deleting moodboard items:', err);
+    return { success: false, error: errorMessage };
   }
+}
+
+// Update space title
+export async function updateSpaceTitle(
+  spaceId: string,
+  newTitle: string
 ): Promise<{
   success: boolean;
   error?: string;
 }> {
   try {
-    const updateData: any = {};
-    
-    if (updates.columnId !== undefined) {
-      updateData.column_id = updates.columnId;
-    }
-    
-    if (updates.order !== undefined) {
-      updateData.order = updates.order;
-    }
-    
-    if (updates.title !== undefined || updates.description !== undefined) {
-      // Get current content first if we're only updating title or description
-      const { data: currentCard, error: fetchError } = await supabase
-        .from('kanban_cards')
-        .select('content')
-        .eq('id', cardId)
-        .single();
-      
-      if (fetchError) {
-        console.error('Error fetching current card content:', fetchError);
-        return { success: false, error: fetchError.message };
-      }
-      
-      let currentContent = { title: '', description: undefined };
-      try {
-        if (typeof currentCard.content === 'string') {
-          currentContent = JSON.parse(currentCard.content);
-        } else if (typeof currentCard.content === 'object' && currentCard.content !== null) {
-          currentContent = currentCard.content as any;
-        }
-      } catch (err) {
-        console.warn('Failed to parse current card content:', currentCard.content);
-      }
-      
-      const newContent = {
-        title: updates.title !== undefined ? updates.title : currentContent.title,
-        description: updates.description !== undefined ? updates.description : currentContent.description
-      };
-      
-      updateData.content = JSON.stringify(newContent);
-    }
+    await apiRequest(`/api/space/${spaceId}`, {
+      method: 'PATCH',
+      body: { title: newTitle }
+    });
+
+    if (shouldLog()) console.log('Successfully updated space title');
+    return { success: true };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error updating space title:', err);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Update space password (hashed server-side; empty removes the password)
+export async function updateSpacePassword(
+  spaceId: string,
+  newPassword?: string
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/space-password', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ spaceId, password: newPassword || null }),
+    });
 
-    const { error } = await supabase
-      .from('kanban_cards')
-      .update(updateData)
-      .eq('id', cardId);
+    const result = await response.json();
 
-    if (error) {
-      console.error('Error updating kanban card:', error);
-      return { success: false, error: error.message };
+    if (!response.ok) {
+      console.error('Error updating space password:', result.error);
+      return { success: false, error: result.error || 'Failed to update password' };
     }
 
+    if (shouldLog()) console.log('Successfully updated space password');
     return { success: true };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error updating kanban card:', err);
+    console.error('Error updating space password:', err);
     return { success: false, error: errorMessage };
   }
 }
 
-// Update multiple cards' order (for reordering within column or moving between columns)
-export async function updateKanbanCardsOrder(
-  cards: Array<{ id: string; columnId: string; order: number }>
-): Promise<{
-  success: boolean;
+// Share link utility functions
+
+export type ShareLink = Pick<Tables<'share_links'>, 'id' | 'token' | 'role' | 'expires_at' | 'created_at'>;
+
+// Full URL of a share link
+export function getShareLinkUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+// Load the active share links of a space (editors only)
+export async function loadShareLinks(spaceId: string): Promise<{
+  links: ShareLink[];
   error?: string;
 }> {
   try {
-    // Update all cards in a batch
-    for (const card of cards) {
-      const { error } = await supabase
-        .from('kanban_cards')
-        .update({ 
-          column_id: card.columnId,
-          order: card.order 
-        })
-        .eq('id', card.id);
-
-      if (error) {
-        console.error('Error updating card order:', error);
-        return { success: false, error: error.message };
-      }
-    }
+    const { links } = await apiRequest<{ links: ShareLink[] }>(`/api/space/${spaceId}/share-links`);
 
-    return { success: true };
+    return { links };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error updating kanban cards order:', err);
-    return { success: false, error: errorMessage };
+    console.error('Error loading share links:', err);
+    return { links: [], error: errorMessage };
   }
 }
 
-// Edit an existing kanban card
-export async function editKanbanCard(
-  cardId: string,
-  title: string,
-  description?: string
+// Create a share link with a role; no expiry when expiresInDays is omitted
+export async function createShareLink(
+  spaceId: string,
+  role: SpaceRole,
+  expiresInDays?: number
 ): Promise<{
-  card: Tables<'kanban_cards'> | null;
+  link: ShareLink | null;
   error?: string;
 }> {
   try {
-    const cardContent = {
-      title,
-      description: description || undefined
-    };
-
-    const { data: card, error } = await supabase
-      .from('kanban_cards')
-      .update({ content: JSON.stringify(cardContent) })
-      .eq('id', cardId)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error editing kanban card:', error);
-      return { card: null, error: error.message };
-    }
+    const { link } = await apiRequest<{ link: ShareLink }>(`/api/space/${spaceId}/share-links`, {
+      method: 'POST',
+      body: { role, expiresInDays }
+    });
 
-    return { card };
+    return { link };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error editing kanban card:', err);
-    return { card: null, error: errorMessage };
+    console.error('Error creating share link:', err);
+    return { link: null, error: errorMessage };
   }
 }
 
-// Delete a kanban card
-export async function deleteKanbanCard(
-  cardId: string
+// Revoke a share link
+export async function revokeShareLink(
+  spaceId: string,
+  linkId: string
 ): Promise<{
   success: boolean;
   error?: string;
 }> {
   try {
-    const { error } = await supabase
-      .from('kanban_cards')
-      .delete()
-      .eq('id', cardId);
-
-    if (error) {
-      console.error('Error deleting kanban card:', error);
-      return { success: false, error: error.message };
-    }
+    await apiRequest(`/api/space/${spaceId}/share-links`, {
+      method: 'DELETE',
+      body: { linkId }
+    });
 
-    if (shouldLog()) console.log('Successfully deleted kanban card');
     return { success: true };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error deleting kanban card:', err);
+    console.error('Error revoking share link:', err);
     return { success: false, error: errorMessage };
   }
 }
 
-// Edit an existing kanban column
-export async function editKanbanColumn(
-  columnId: string,
-  title: string
-): Promise<{
-  column: Tables<'kanban_columns'> | null;
+// Auth event utility functions
+
+export type AuthEvent = Pick<Tables<'auth_events'>, 'id' | 'outcome' | 'method' | 'origin' | 'created_at'>;
+
+// Load recent failed and successful joins of a space (editors only)
+export async function loadAuthEvents(spaceId: string): Promise<{
+  events: AuthEvent[];
   error?: string;
 }> {
   try {
-    const { data: column, error } = await supabase
-      .from('kanban_columns')
-      .update({ title })
-      .eq('id', columnId)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error editing kanban column:', error);
-      return { column: null, error: error.message };
-    }
+    const { events } = await apiRequest<{ events: AuthEvent[] }>(`/api/space/${spaceId}/auth-events`);
 
-    return { column };
+    return { events };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error editing kanban column:', err);
-    return { column: null, error: errorMessage };
+    console.error('Error loading auth events:', err);
+    return { events: [], error: errorMessage };
   }
 }
 
-// Delete a kanban column and all its cards
-export async function deleteKanbanColumn(
-  columnId: string
-): Promise<{
-  success: boolean;
+// Version history of document pages
+
+export type DocumentVersion = Pick<Tables<'document_versions'>, 'id' | 'reason' | 'char_count' | 'created_at'> & {
+  participant_name: string | null;
+};
+
+// List the snapshots of a document page, newest first
+export async function loadDocumentVersions(pageId: string): Promise<{
+  versions: DocumentVersion[];
   error?: string;
 }> {
   try {
-    // First, delete all cards in the column
-    const { error: cardsError } = await supabase
-      .from('kanban_cards')
-      .delete()
-      .eq('column_id', columnId);
-
-    if (cardsError) {
-      console.error('Error deleting cards from column:', cardsError);
-      return { success: false, error: `Failed to delete cards: ${cardsError.message}` };
-    }
+    const { versions } = await apiRequest<{ versions: DocumentVersion[] }>(`/api/page/${pageId}/versions`);
 
-    // Then, delete the column itself
-    const { error: columnError } = await supabase
-      .from('kanban_columns')
-      .delete()
-      .eq('id', columnId);
+    return { versions };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error loading document versions:', err);
+    return { versions: [], error: errorMessage };
+  }
+}
 
-    if (columnError) {
-      console.error('Error deleting kanban column:', columnError);
-      return { success: false, error: `Failed to delete column: ${columnError.message}` };
-    }
+// Load the content of one snapshot
+export async function loadDocumentVersion(pageId: string, versionId: string): Promise<{
+  content: any[] | null;
+  error?: string;
+}> {
+  try {
+    const { content } = await apiRequest<{ content: any[] }>(`/api/page/${pageId}/versions/${versionId}`);
 
-    if (shouldLog()) console.log('Successfully deleted column and its cards');
-    return { success: true };
+    return { content };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error deleting kanban column:', err);
-    return { success: false, error: errorMessage };
+    console.error('Error loading document version:', err);
+    return { content: null, error: errorMessage };
   }
 }
 
-// Moodboard utility functions
+// Snapshot the current content before a version replaces it
+export async function saveVersionBeforeRestore(
+  pageId: string,
+  blocks: any[],
+  participantId?: string | null
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await apiRequest(`/api/page/${pageId}/versions`, {
+      method: 'POST',
+      body: { blocks, participantId }
+    })
 
-export interface MoodboardItem {
-  id: string;
-  type: "text" | "image" | "rectangle" | "circle";
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  content?: string;
-  style?: React.CSSProperties;
-  aspectRatio?: number; // For images to maintain proportions
+    return { success: true }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+    console.error('Error saving version before restore:', err)
+    return { success: false, error: errorMessage }
+  }
 }
 
-// Helper functions to convert between local and database formats
-const itemToDbItem = (item: MoodboardItem, pageId: string, isUpdate: boolean = true): TablesInsert<'moodboard_items'> => ({
-  ...(isUpdate ? { id: item.id } : {}), // Only include ID for updates, let DB generate for new items
-  page_id: pageId,
-  type: item.type,
-  properties: {
-    x: item.x,
-    y: item.y,
-    width: item.width,
-    height: item.height,
-    content: item.content,
-    style: item.style as any,
-    aspectRatio: item.aspectRatio,
-  },
-});
-
-const dbItemToItem = (dbItem: Tables<'moodboard_items'>): MoodboardItem => {
-  const props = dbItem.properties as any;
-  const item: MoodboardItem = {
-    id: dbItem.id,
-    type: dbItem.type as MoodboardItem['type'],
-    x: props.x || 0,
-    y: props.y || 0,
-    width: props.width || 150,
-    height: props.height || 150,
-    content: props.content,
-    style: props.style,
-    aspectRatio: props.aspectRatio,
-  };
-  
-  // For existing image items without aspect ratio, calculate it from dimensions
-  if (item.type === "image" && !item.aspectRatio && item.width && item.height) {
-    item.aspectRatio = item.width / item.height;
-  }
-  
-  return item;
+// Comment threads on documents
+
+export type DocumentComment = Omit<Tables<'comments'>, 'page_id'>;
+
+// Posted as the participant the session joined the space as
+export interface NewDocumentComment {
+  content: string;
+  // A reply names its thread (the id of the thread's first comment)...
+  threadId?: string | null;
+  // ...a new thread its anchor
+  blockId?: string;
+  quote?: string | null;
+  quoteOffset?: number | null;
+}
+
+export type CommentRealtimeEvent = {
+  eventType: 'INSERT' | 'UPDATE';
+  comment: DocumentComment;
 };
 
-// Load moodboard items for a page
-export async function loadMoodboardItems(pageId: string): Promise<{
-  items: MoodboardItem[];
+// Load every comment on a document page, oldest first
+export async function loadComments(pageId: string): Promise<{
+  comments: DocumentComment[];
   error?: string;
 }> {
   try {
-    if (shouldLog()) console.log('Loading moodboard items for page:', pageId);
-    
-    const { data, error } = await supabase
-      .from('moodboard_items')
-      .select('*')
-      .eq('page_id', pageId);
-
-    if (error) {
-      console.error('Error loading moodboard items:', error);
-      return { items: [], error: `Failed to load moodboard items: ${error.message}` };
-    }
+    const { comments } = await apiRequest<{ comments: DocumentComment[] }>(`/api/page/${pageId}/comments`);
 
-    const items = data.map(dbItemToItem);
-    if (shouldLog()) console.log('Successfully loaded moodboard items:', items.length);
-    return { items };
+    return { comments };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Exception while loading moodboard items:', err);
-    return { items: [], error: `Exception loading moodboard items: ${errorMessage}` };
+    console.error('Error loading comments:', err);
+    return { comments: [], error: errorMessage };
   }
 }
 
-// Create a new moodboard item (returns the created item with DB-generated ID)
-export async function createMoodboardItem(item: Omit<MoodboardItem, 'id'>, pageId: string): Promise<{
-  item: MoodboardItem | null;
+// Start a thread or reply to one
+export async function createComment(pageId: string, comment: NewDocumentComment): Promise<{
+  comment: DocumentComment | null;
   error?: string;
 }> {
   try {
-    const dbItem = itemToDbItem(item as MoodboardItem, pageId, false); // false = don't include ID
-    const { data, error } = await supabase
-      .from('moodboard_items')
-      .insert(dbItem)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating moodboard item:', error);
-      return { item: null, error: error.message };
-    }
+    const result = await apiRequest<{ comment: DocumentComment }>(`/api/page/${pageId}/comments`, {
+      method: 'POST',
+      body: comment
+    });
 
-    const createdItem = dbItemToItem(data);
-    return { item: createdItem };
+    return { comment: result.comment };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error creating moodboard item:', err);
-    return { item: null, error: errorMessage };
+    console.error('Error creating comment:', err);
+    return { comment: null, error: errorMessage };
   }
 }
 
-// Update an existing moodboard item
-export async function updateMoodboardItem(item: MoodboardItem, pageId: string): Promise<{
-  success: boolean;
+// Resolve or reopen a thread
+export async function setCommentThreadResolved(pageId: string, threadId: string, resolved: boolean): Promise<{
+  comment: DocumentComment | null;
   error?: string;
 }> {
   try {
-    const dbItem = itemToDbItem(item, pageId, true); // true = include ID for update
-    const { error } = await supabase
-      .from('moodboard_items')
-      .update(dbItem)
-      .eq('id', item.id);
-
-    if (error) {
-      console.error('Error updating moodboard item:', error);
-      return { success: false, error: error.message };
-    }
+    const result = await apiRequest<{ comment: DocumentComment }>(`/api/page/${pageId}/comments/${threadId}`, {
+      method: 'PATCH',
+      body: { resolved }
+    });
 
-    return { success: true };
+    return { comment: result.comment };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error updating moodboard item:', err);
-    return { success: false, error: errorMessage };
+    console.error('Error updating comment thread:', err);
+    return { comment: null, error: errorMessage };
   }
 }
 
-// Delete a moodboard item
-export async function deleteMoodboardItem(itemId: string): Promise<{
-  success: boolean;
+function isCommentRealtimeEvent(event: any): boolean {
+  return (
+    (event?.eventType === 'INSERT' || event?.eventType === 'UPDATE') &&
+    typeof event.comment?.id === 'string' &&
+    typeof event.comment.author_name === 'string' &&
+    typeof event.comment.content === 'string'
+  );
+}
+
+// Subscribe to new and resolved comments on a page, as broadcast by the
+// comment routes. Returns a function that removes the subscription.
+export function subscribeToCommentChanges(
+  pageId: string,
+  onEvent: (event: CommentRealtimeEvent) => void
+): () => void {
+  const channel = supabase
+    .channel(`comments:${pageId}`, { config: { private: true } })
+    .on('broadcast', { event: 'changes' }, ({ payload }) => {
+      getRealtimeEvents<CommentRealtimeEvent>(payload, isCommentRealtimeEvent).forEach(onEvent);
+    })
+    .subscribe((status) => {
+      if (shouldLog()) console.log('Comments channel status:', status);
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Links between pages
+
+export type PageBacklink = Pick<Tables<'pages'>, 'id' | 'title' | 'type'>;
+
+// Pages of the space that mention or embed a page, as of their last save
+export async function loadPageBacklinks(pageId: string): Promise<{
+  backlinks: PageBacklink[];
   error?: string;
 }> {
   try {
-    const { error } = await supabase
-      .from('moodboard_items')
-      .delete()
-      .eq('id', itemId);
-
-    if (error) {
-      console.error('Error deleting moodboard item:', error);
-      return { success: false, error: error.message };
-    }
+    const { backlinks } = await apiRequest<{ backlinks: PageBacklink[] }>(`/api/page/${pageId}/backlinks`);
 
-    return { success: true };
+    return { backlinks };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error deleting moodboard item:', err);
-    return { success: false, error: errorMessage };
+    console.error('Error loading page backlinks:', err);
+    return { backlinks: [], error: errorMessage };
   }
 }
 
-// Delete multiple moodboard items (for batch cleanup)
-export async function deleteMoodboardItems(itemIds: string[]): Promise<{
-  success: boolean;
+// Search
+
+export interface SpaceSearchResult {
+  page_id: string;
+  page_title: string;
+  page_type: string;
+  // What matched: the page title, a document block, a kanban card or a
+  // moodboard text item (target_id is the block, card or item id)
+  kind: 'page' | 'block' | 'card' | 'item';
+  target_id: string | null;
+  // Matched words are wrapped in \u0002 ... \u0003 (see getSnippetParts)
+  snippet: string;
+  rank: number;
+}
+
+// Search the text of every page in a space
+export async function searchSpace(spaceId: string, query: string, signal?: AbortSignal): Promise<{
+  results: SpaceSearchResult[];
   error?: string;
 }> {
   try {
-    if (itemIds.length === 0) {
-      return { success: true };
-    }
-
-    // Delete all items in a single query
-    const { error } = await supabase
-      .from('moodboard_items')
-      .delete()
-      .in('id', itemIds);
-
-    if (error) {
-      console.error('Error deleting moodboard items:', error);
-      return { success: false, error: error.message };
-    }
+    const { results } = await apiRequest<{ results: SpaceSearchResult[] }>(
+      `/api/space/${spaceId}/search?q=${encodeURIComponent(query)}`,
+      { signal }
+    );
 
-    return { success: true };
+    return { results };
   } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : 'Error deleting items';
-    console.error('Error deleting moodboard items:', err);
-    return { success: false, error: errorMessage };
+    if (signal?.aborted) return { results: [] };
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error searching space:', err);
+    return { results: [], error: errorMessage };
   }
 }
 
-// Update space title
-export async function updateSpaceTitle(
+// Participant utility functions
+
+export type Participant = Tables<'participants'>;
+
+// Register a new participant in a space
+export async function registerParticipant(
   spaceId: string,
-  newTitle: string
+  name: string,
+  anonymous: boolean = true
 ): Promise<{
-  success: boolean;
+  participant: Participant | null;
   error?: string;
 }> {
   try {
-    const { error } = await supabase
-      .from('spaces')
-      .update({ title: newTitle || null })
-      .eq('id', spaceId);
+    const { participant } = await apiRequest<{ participant: Participant }>(
+      `/api/space/${spaceId}/participants`,
+      { method: 'POST', body: { name, anonymous } }
+    );
 
-    if (error) {
-      console.error('Error updating space title:', error);
-      return { success: false, error: error.message };
-    }
+    if (shouldLog()) console.log('Registered participant:', participant.id);
+    return { participant };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+    console.error('Error registering participant:', err);
+    return { participant: null, error: errorMessage };
+  }
+}
 
-    if (shouldLog()) console.log('Successfully updated space title');
-    return { success: true };
+// Load the participant this session joined a space as (null if none yet)
+export async function getParticipant(spaceId: string): Promise<{
+  participant: Participant | null;
+  error?: string;
+}> {
+  try {
+    const { participant } = await apiRequest<{ participant: Participant | null }>(
+      `/api/space/${spaceId}/participants`
+    );
+
+    return { participant };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error updating space title:', err);
-    return { success: false, error: errorMessage };
+    console.error('Error loading participant:', err);
+    return { participant: null, error: errorMessage };
   }
 }
 
-// Update space password
-export async function updateSpacePassword(
+// Rename the participant this session joined a space as (a chosen name is
+// no longer anonymous)
+export async function updateParticipantName(
   spaceId: string,
-  newPassword?: string
+  name: string
 ): Promise<{
   success: boolean;
   error?: string;
 }> {
   try {
-    // Update both password and QR code data
-    const qrCodeData = generateQRCodeData(spaceId, newPassword);
-    
-    const { error } = await supabase
-      .from('spaces')
-      .update({ 
-        password: newPassword || null,
-        qr_code_data: qrCodeData
-      })
-      .eq('id', spaceId);
-
-    if (error) {
-      console.error('Error updating space password:', error);
-      return { success: false, error: error.message };
-    }
+    await apiRequest(`/api/space/${spaceId}/participants`, {
+      method: 'PATCH',
+      body: { name }
+    });
 
-    if (shouldLog()) console.log('Successfully updated space password');
     return { success: true };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-    console.error('Error updating space password:', err);
+    console.error('Error updating participant name:', err);
     return { success: false, error: errorMessage };
   }
 }
 
 // Get space details for settings
 export async function getSpaceDetails(spaceId: string): Promise<{
-  space: Tables<'spaces'> | null;
+  space: Omit<Tables<'spaces'>, 'password'> | null;
   error?: string;
 }> {
   try {
     const { data: space, error } = await supabase
       .from('spaces')
-      .select('*')
+      .select('id, title, qr_code_data, created_at, last_accessed, has_password')
       .eq('id', spaceId)
       .single();
 
@@ -1510,4 +2027,54 @@ function getImageDimensions(file: File): Promise<{ width: number; height: number
 export function isValidImageFile(file: File): boolean {
   const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'];
   return validTypes.includes(file.type) && file.size <= 10 * 1024 * 1024; // 10MB limit
-} 
\ No newline at end of file
+} 
+
+// Upload an image or attachment for a document page. Raster images are
+// converted to WebP first (like moodboard images); the server signs an upload
+// to the page's folder and the file goes straight to storage.
+export async function uploadDocumentFile(pageId: string, file: File): Promise<{
+  file: DocumentFile | null;
+  error?: string;
+}> {
+  try {
+    let uploadFile = file;
+    if (shouldConvertToWebP(file.type)) {
+      try {
+        uploadFile = await convertImageToWebP(file);
+      } catch (err) {
+        // Keep the original when the browser can't convert it
+        console.warn('WebP conversion failed, uploading original:', err);
+      }
+    }
+
+    const { upload } = await apiRequest<{ upload: DocumentFileUpload }>(`/api/page/${pageId}/files`, {
+      method: 'POST',
+      body: { name: uploadFile.name, type: uploadFile.type, size: uploadFile.size },
+    });
+
+    const { error } = await supabase.storage
+      .from(DOCUMENT_FILES_BUCKET)
+      .uploadToSignedUrl(upload.path, upload.token, uploadFile, {
+        contentType: uploadFile.type || 'application/octet-stream',
+      });
+
+    if (error) {
+      console.error('Error uploading document file:', error);
+      return { file: null, error: error.message };
+    }
+
+    return {
+      file: {
+        url: upload.url,
+        // The name people see keeps the original file name
+        name: file.name,
+        size: uploadFile.size,
+        type: uploadFile.type,
+      },
+    };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to upload file';
+    console.error('Error uploading document file:', err);
+    return { file: null, error: errorMessage };
+  }
+}
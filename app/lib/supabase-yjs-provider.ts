@@ -0,0 +1,369 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { UnifiedProvider } from '@platejs/yjs';
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from 'y-protocols/awareness';
+import * as Y from 'yjs';
+import { supabase } from './supabase';
+import {
+  loadDocumentYjsState,
+  saveDocumentYjsState,
+  sendDocumentSyncMessage,
+} from './space-utils';
+import type { DocumentSyncMessage } from './space-utils';
+
+// Helper function to check if we should log (not in production)
+const shouldLog = () => false
+
+interface SupabaseYjsProviderOptions {
+  pageId: string;
+  doc: Y.Doc;
+  awareness?: Awareness;
+  persistDebounceMs?: number;
+  // Local updates are collected for this long and relayed in one request
+  sendBatchMs?: number;
+  // Only receive: local changes are neither broadcast nor persisted
+  readOnly?: boolean;
+  onConnect?: () => void;
+  onDisconnect?: () => void;
+  onError?: (error: Error) => void;
+  onSyncChange?: (isSynced: boolean) => void;
+}
+
+export function uint8ArrayToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToUint8Array(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Yjs provider that relays document updates between clients and persists the
+// merged state to document_yjs_state.
+//
+// Document messages go through the server (api/page/:id/yjs), which checks
+// the sender's role and broadcasts them on the private yjs:<page id> channel;
+// clients can only listen there. Awareness (cursors and selections) can't
+// change the document and goes peer to peer on yjs-awareness:<page id>.
+//
+// Sync handshake: after subscribing, a client sends its state vector
+// ("sync-request"); every editor answers with the updates the requester is
+// missing ("sync-update"). The stored state is loaded before the editor is
+// connected (see loadPersistedState), so a lone client is synced immediately.
+export class SupabaseYjsProvider implements UnifiedProvider {
+  type = 'supabase';
+  awareness: Awareness;
+  document: Y.Doc;
+
+  private pageId: string;
+  private channel: RealtimeChannel | null = null;
+  private awarenessChannel: RealtimeChannel | null = null;
+  private persistDebounceMs: number;
+  private persistTimeout: ReturnType<typeof setTimeout> | null = null;
+  private sendBatchMs: number;
+  private sendTimeout: ReturnType<typeof setTimeout> | null = null;
+  private pendingUpdates: Uint8Array[] = [];
+  private isSending = false;
+  private readOnly: boolean;
+  private _isConnected = false;
+  private _isSynced = false;
+  private onConnect?: () => void;
+  private onDisconnect?: () => void;
+  private onError?: (error: Error) => void;
+  private onSyncChange?: (isSynced: boolean) => void;
+
+  constructor({
+    pageId,
+    doc,
+    awareness,
+    persistDebounceMs = 2000,
+    sendBatchMs = 100,
+    readOnly = false,
+    onConnect,
+    onDisconnect,
+    onError,
+    onSyncChange,
+  }: SupabaseYjsProviderOptions) {
+    this.pageId = pageId;
+    this.document = doc;
+    this.awareness = awareness || new Awareness(doc);
+    this.persistDebounceMs = persistDebounceMs;
+    this.sendBatchMs = sendBatchMs;
+    this.readOnly = readOnly;
+    this.onConnect = onConnect;
+    this.onDisconnect = onDisconnect;
+    this.onError = onError;
+    this.onSyncChange = onSyncChange;
+  }
+
+  get isConnected() {
+    return this._isConnected;
+  }
+
+  get isSynced() {
+    return this._isSynced;
+  }
+
+  // Apply the stored Yjs state to the document. Returns false when the page
+  // has never been edited collaboratively (no stored state yet).
+  async loadPersistedState(): Promise<boolean> {
+    const result = await loadDocumentYjsState(this.pageId);
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    if (!result.state) {
+      return false;
+    }
+
+    Y.applyUpdate(this.document, base64ToUint8Array(result.state), this);
+    return true;
+  }
+
+  connect = () => {
+    if (this.channel) return;
+
+    this.document.on('update', this.handleDocumentUpdate);
+    this.awareness.on('update', this.handleAwarenessUpdate);
+
+    // Messages come from the server, our own ones included
+    this.channel = supabase.channel(`yjs:${this.pageId}`, {
+      config: { private: true },
+    });
+
+    this.channel
+      .on('broadcast', { event: 'changes' }, ({ payload }) => {
+        this.handleSyncMessage(payload.message);
+      })
+      .subscribe((status) => {
+        if (shouldLog()) console.log('Yjs channel status:', status);
+
+        if (status === 'SUBSCRIBED') {
+          this._isConnected = true;
+          this.onConnect?.();
+
+          const stateVector = Y.encodeStateVector(this.document);
+          this.sendSyncMessage({
+            type: 'sync-request',
+            clientId: this.document.clientID,
+            stateVector: uint8ArrayToBase64(stateVector),
+          });
+          this.setSynced(true);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          this.onError?.(new Error(`Realtime channel ${status.toLowerCase()}`));
+        } else if (status === 'CLOSED' && this._isConnected) {
+          this._isConnected = false;
+          this.setSynced(false);
+          this.onDisconnect?.();
+        }
+      });
+
+    this.awarenessChannel = supabase.channel(`yjs-awareness:${this.pageId}`, {
+      config: { broadcast: { self: false } },
+    });
+
+    this.awarenessChannel
+      .on('broadcast', { event: 'awareness' }, ({ payload }) => {
+        applyAwarenessUpdate(
+          this.awareness,
+          base64ToUint8Array(payload.update),
+          this
+        );
+      })
+      .on('broadcast', { event: 'awareness-request' }, () => {
+        // Let the newcomer know who is already here
+        this.sendAwareness([...this.awareness.getStates().keys()]);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          this.sendAwareness([this.document.clientID]);
+          this.sendAwarenessMessage('awareness-request', {});
+        }
+      });
+  };
+
+  disconnect = () => {
+    if (!this.channel) return;
+
+    // Flush pending changes before leaving
+    if (this.sendTimeout) {
+      clearTimeout(this.sendTimeout);
+      this.sendTimeout = null;
+      this.flushUpdates();
+    }
+    if (this.persistTimeout) {
+      clearTimeout(this.persistTimeout);
+      this.persistTimeout = null;
+      this.persist();
+    }
+
+    removeAwarenessStates(this.awareness, [this.document.clientID], 'local');
+    this.document.off('update', this.handleDocumentUpdate);
+    this.awareness.off('update', this.handleAwarenessUpdate);
+
+    supabase.removeChannel(this.channel);
+    this.channel = null;
+    if (this.awarenessChannel) {
+      supabase.removeChannel(this.awarenessChannel);
+      this.awarenessChannel = null;
+    }
+
+    if (this._isConnected) {
+      this._isConnected = false;
+      this.setSynced(false);
+      this.onDisconnect?.();
+    }
+  };
+
+  destroy = () => {
+    this.disconnect();
+  };
+
+  private setSynced(isSynced: boolean) {
+    if (this._isSynced === isSynced) return;
+    this._isSynced = isSynced;
+    this.onSyncChange?.(isSynced);
+  }
+
+  private sendSyncMessage(message: DocumentSyncMessage) {
+    return sendDocumentSyncMessage(this.pageId, message).then((result) => {
+      if (result.error) this.onError?.(new Error(result.error));
+      return result.success;
+    });
+  }
+
+  private handleSyncMessage(message: DocumentSyncMessage | undefined) {
+    if (!message || message.clientId === this.document.clientID) return;
+
+    if (message.type === 'sync-request') {
+      // Only editors answer; updates from anyone else are refused anyway
+      if (this.readOnly) return;
+
+      const stateVector = base64ToUint8Array(message.stateVector);
+      const update = Y.encodeStateAsUpdate(this.document, stateVector);
+      this.sendSyncMessage({
+        type: 'sync-update',
+        clientId: this.document.clientID,
+        update: uint8ArrayToBase64(update),
+      });
+      return;
+    }
+
+    this.applyRemoteUpdate(message.update);
+  }
+
+  // Send the local updates collected since the last batch as one update.
+  // Batches go out one at a time; a failed one is retried with the next.
+  private async flushUpdates() {
+    if (this.isSending || this.pendingUpdates.length === 0) return;
+
+    const update = Y.mergeUpdates(this.pendingUpdates);
+    this.pendingUpdates = [];
+    this.isSending = true;
+
+    const sent = await this.sendSyncMessage({
+      type: 'update',
+      clientId: this.document.clientID,
+      update: uint8ArrayToBase64(update),
+    });
+
+    this.isSending = false;
+    if (!sent) this.pendingUpdates.unshift(update);
+    if (this.pendingUpdates.length > 0 && this.channel) {
+      this.scheduleSend(sent ? this.sendBatchMs : this.sendBatchMs * 20);
+    }
+  }
+
+  private scheduleSend(delayMs = this.sendBatchMs) {
+    if (this.sendTimeout) return;
+    this.sendTimeout = setTimeout(() => {
+      this.sendTimeout = null;
+      this.flushUpdates();
+    }, delayMs);
+  }
+
+  private sendAwarenessMessage(event: string, payload: Record<string, unknown>) {
+    this.awarenessChannel?.send({ type: 'broadcast', event, payload }).catch((err) => {
+      console.error(`Failed to broadcast ${event}:`, err);
+    });
+  }
+
+  private sendAwareness(clients: number[]) {
+    const update = encodeAwarenessUpdate(this.awareness, clients);
+    this.sendAwarenessMessage('awareness', { update: uint8ArrayToBase64(update) });
+  }
+
+  private applyRemoteUpdate(update: string) {
+    try {
+      Y.applyUpdate(this.document, base64ToUint8Array(update), this);
+    } catch (err) {
+      console.error('Failed to apply remote document update:', err);
+      this.onError?.(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  private handleDocumentUpdate = (update: Uint8Array, origin: unknown) => {
+    // Only relay updates that originated locally, remote ones are already
+    // known to the rest of the channel
+    if (origin !== this && !this.readOnly) {
+      this.pendingUpdates.push(update);
+      this.scheduleSend();
+      this.schedulePersist();
+    }
+  };
+
+  private handleAwarenessUpdate = (
+    {
+      added,
+      updated,
+      removed,
+    }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === this) return;
+    this.sendAwareness([...added, ...updated, ...removed]);
+  };
+
+  private schedulePersist() {
+    if (this.persistTimeout) {
+      clearTimeout(this.persistTimeout);
+    }
+    this.persistTimeout = setTimeout(() => {
+      this.persistTimeout = null;
+      this.persist();
+    }, this.persistDebounceMs);
+  }
+
+  // Merge with whatever is stored so that a client that missed a broadcast
+  // never drops another client's edits when writing the state back
+  private async persist() {
+    try {
+      const stored = await loadDocumentYjsState(this.pageId);
+      const local = Y.encodeStateAsUpdate(this.document);
+      const merged = stored.state
+        ? Y.mergeUpdates([base64ToUint8Array(stored.state), local])
+        : local;
+
+      const result = await saveDocumentYjsState(
+        this.pageId,
+        uint8ArrayToBase64(merged)
+      );
+      if (result.error) {
+        console.error('Failed to persist document state:', result.error);
+      }
+    } catch (err) {
+      console.error('Exception persisting document state:', err);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../../database.types';
+
+// Supabase client for server-side use only (API routes, loaders).
+// Uses the service role key: the anon role can no longer read space passwords,
+// and server routes do their own access checks before touching data.
+export function createServerSupabaseClient() {
+  const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
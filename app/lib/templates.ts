@@ -0,0 +1,188 @@
+import type { MoodboardItem } from './space-utils';
+
+// Templates fill new pages and new spaces. The built-in ones below ship with
+// the app; editors can save any page (with its subpages) or a whole space as
+// a template of their own (the templates table, see sql-migration-templates.sql).
+
+export type TemplateKind = 'page' | 'space';
+
+export type TemplatePageType = 'document' | 'moodboard' | 'kanban';
+
+// One page of a template and its content, by page type
+export interface TemplatePage {
+  title: string;
+  type: TemplatePageType;
+  // Documents: Plate blocks, or Markdown in the built-in templates
+  blocks?: unknown[];
+  markdown?: string;
+  // Saved templates: folder of the document-files bucket with copies of the
+  // document's uploaded files, which the blocks' URLs point at
+  filesFolder?: string;
+  columns?: { title: string; cards: { title: string; description?: string }[] }[];
+  items?: Omit<MoodboardItem, 'id'>[];
+  children?: TemplatePage[];
+}
+
+// A page template has a single top-level page
+export interface TemplateContent {
+  pages: TemplatePage[];
+}
+
+// What the template pickers show
+export interface TemplateSummary {
+  id: string;
+  kind: TemplateKind;
+  name: string;
+  description: string | null;
+  // Space a saved template was saved from; unset for built-in templates
+  space_id?: string;
+  created_at?: string;
+}
+
+export interface BuiltInTemplate extends TemplateSummary {
+  content: TemplateContent;
+}
+
+export const TEMPLATE_LIMITS = {
+  maxNameLength: 100,
+  maxDescriptionLength: 300,
+  maxContentBytes: 2 * 1024 * 1024, // snapshot JSON, checked when saving
+} as const;
+
+const SPRINT_PLANNING = `# Sprint planning
+
+## Sprint goal
+
+What should be true at the end of this sprint?
+
+## Capacity
+
+| Person | Days available | Notes |
+| --- | --- | --- |
+|  |  |  |
+
+## Committed
+
+- [ ] First story
+
+## Stretch
+
+- [ ] Nice to have
+
+## Risks and dependencies
+
+-
+`;
+
+const RETROSPECTIVE = `# Retrospective
+
+## What went well
+
+-
+
+## What didn't go well
+
+-
+
+## What we'll try next
+
+- [ ] One change to try
+`;
+
+const MEETING_NOTES = `# Meeting notes
+
+**Date:**
+
+**Attendees:**
+
+## Agenda
+
+1.
+
+## Notes
+
+-
+
+## Decisions
+
+-
+
+## Action items
+
+- [ ] Owner: task
+`;
+
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    id: 'builtin-sprint',
+    kind: 'space',
+    name: 'Sprint',
+    description: 'A sprint board with To Do, Doing and Done, plus planning and retro docs.',
+    content: {
+      pages: [
+        {
+          title: 'Sprint board',
+          type: 'kanban',
+          columns: [
+            { title: 'To Do', cards: [] },
+            { title: 'Doing', cards: [] },
+            { title: 'Done', cards: [] },
+          ],
+        },
+        { title: 'Sprint planning', type: 'document', markdown: SPRINT_PLANNING },
+        { title: 'Retrospective', type: 'document', markdown: RETROSPECTIVE },
+      ],
+    },
+  },
+  {
+    id: 'builtin-meeting-notes',
+    kind: 'page',
+    name: 'Meeting notes',
+    description: 'Agenda, notes, decisions and action items.',
+    content: {
+      pages: [{ title: 'Meeting notes', type: 'document', markdown: MEETING_NOTES }],
+    },
+  },
+  {
+    id: 'builtin-bug-triage',
+    kind: 'page',
+    name: 'Bug triage board',
+    description: 'Columns to move bug reports from new to fixed.',
+    content: {
+      pages: [
+        {
+          title: 'Bug triage',
+          type: 'kanban',
+          columns: [
+            {
+              title: 'New',
+              cards: [
+                {
+                  title: 'Example bug',
+                  description: 'Steps to reproduce, expected and actual behaviour.',
+                },
+              ],
+            },
+            { title: 'Needs info', cards: [] },
+            { title: 'Confirmed', cards: [] },
+            { title: 'In progress', cards: [] },
+            { title: 'Fixed', cards: [] },
+          ],
+        },
+      ],
+    },
+  },
+  {
+    id: 'builtin-retrospective',
+    kind: 'page',
+    name: 'Retrospective',
+    description: 'What went well, what didn\'t, and what to try next.',
+    content: {
+      pages: [{ title: 'Retrospective', type: 'document', markdown: RETROSPECTIVE }],
+    },
+  },
+];
+
+export function getBuiltInTemplate(templateId: string): BuiltInTemplate | undefined {
+  return BUILT_IN_TEMPLATES.find((template) => template.id === templateId);
+}
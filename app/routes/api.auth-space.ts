@@ -1,8 +1,16 @@
 import type { ActionFunctionArgs } from "react-router";
-import { createClient } from '@supabase/supabase-js';
-import type { Database } from '../../database.types';
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { grantSpaceSession, verifySpacePassword } from '~/lib/space-auth.server';
+import {
+  clearAuthFailures,
+  getAuthLockout,
+  lockoutResponse,
+  logAuthEvent,
+  recordAuthFailure,
+} from '~/lib/auth-lockout.server';
 
-export async function action({ request }: ActionFunctionArgs) {
+export const action = withRateLimit('passwordAttempts', async ({ request }: ActionFunctionArgs) => {
   if (request.method !== "POST") {
     return Response.json({ error: "Method not allowed" }, { status: 405 });
   }
@@ -14,15 +22,7 @@ export async function action({ request }: ActionFunctionArgs) {
       return Response.json({ success: false, error: "Space ID is required" }, { status: 400 });
     }
 
-    // Create Supabase client for server-side use
-    const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
-    const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY || '';
-    
-    if (!supabaseUrl || !supabaseAnonKey) {
-      throw new Error('Missing Supabase environment variables');
-    }
-    
-    const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+    const supabase = createServerSupabaseClient();
 
     // Query space from database server-side
     const { data: space, error } = await supabase
@@ -35,9 +35,29 @@ export async function action({ request }: ActionFunctionArgs) {
       return Response.json({ success: false, error: "Space not found" }, { status: 404 });
     }
 
-    // Server-side password comparison
-    if (space.password && space.password !== password) {
-      return Response.json({ success: false, error: "Invalid password" }, { status: 401 });
+    // Server-side comparison against the stored bcrypt hash. Repeated
+    // failures lock out the IP, and past a higher threshold the space itself.
+    if (space.password) {
+      const lockedUntil = await getAuthLockout(supabase, request, spaceId);
+      if (lockedUntil) {
+        await logAuthEvent(supabase, request, spaceId, 'locked');
+        return lockoutResponse(lockedUntil);
+      }
+
+      const isValid =
+        typeof password === 'string' &&
+        (await verifySpacePassword(password, space.password));
+
+      if (!isValid) {
+        const newLock = await recordAuthFailure(supabase, request, spaceId);
+        await logAuthEvent(supabase, request, spaceId, 'failure');
+        if (newLock) return lockoutResponse(newLock);
+
+        return Response.json({ success: false, error: "Invalid password" }, { status: 401 });
+      }
+
+      await clearAuthFailures(supabase, request, spaceId);
+      await logAuthEvent(supabase, request, spaceId, 'success');
     }
 
     // Update last_accessed timestamp on successful authentication
@@ -51,7 +71,15 @@ export async function action({ request }: ActionFunctionArgs) {
       // Don't fail the request for this non-critical operation
     }
 
-    return Response.json({ success: true });
+    // Open spaces need no session; protected ones get a signed, expiring cookie
+    if (!space.password) {
+      return Response.json({ success: true });
+    }
+
+    return Response.json(
+      { success: true },
+      { headers: { 'Set-Cookie': await grantSpaceSession(request, spaceId) } }
+    );
 
   } catch (error) {
     console.error('Space authentication error:', error);
@@ -60,4 +88,4 @@ export async function action({ request }: ActionFunctionArgs) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
@@ -1,11 +1,16 @@
 import type { ActionFunctionArgs } from "react-router";
-import { createClient } from '@supabase/supabase-js';
-import type { Database, TablesInsert } from '../../database.types';
-import { RATE_LIMIT_CONFIG, formatRateLimitMessage } from '~/lib/rate-limit-config';
-
-// In-memory rate limiting store (for simple implementation)
-// In production, you'd want to use Redis or similar
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+import type { TablesInsert } from '../../database.types';
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { grantSpaceSession, hashSpacePassword, requireTemplateAccess } from '~/lib/space-auth.server';
+import {
+  createPagesFromTemplate,
+  getTemplateContent,
+  importSpaceArchive,
+  takeSpaceArchiveUpload,
+} from '~/lib/space-data.server';
+import type { SpaceArchive } from '~/lib/space-archive';
+import type { TemplateContent } from '~/lib/templates';
+import { withRateLimit } from '~/lib/rate-limit.server';
 
 function generateSpaceId(): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -16,119 +21,71 @@ function generateSpaceId(): string {
   return result;
 }
 
-function generateQRCodeData(spaceId: string, password?: string): string {
+// The password is never put in the link; it's only stored hashed
+function generateQRCodeData(spaceId: string): string {
   const baseUrl = 'https://wrkinspace.com/space/';
-  let qrData = `${baseUrl}${spaceId}`;
-  if (password) {
-    qrData += `?pwd=${encodeURIComponent(password)}`;
-  }
-  return qrData;
+  return `${baseUrl}${spaceId}`;
 }
 
-function checkRateLimit(clientIP: string): { allowed: boolean; resetTime?: number } {
-  const now = Date.now();
-  const key = `space_creation_${clientIP}`;
-  const existing = rateLimitStore.get(key);
-  const config = RATE_LIMIT_CONFIG.spaceCreation;
-
-  // Clean up expired entries
-  if (existing && now > existing.resetTime) {
-    rateLimitStore.delete(key);
-  }
-
-  const current = rateLimitStore.get(key);
-  
-  if (!current) {
-    // First request from this IP
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs
-    });
-    return { allowed: true };
-  }
-
-  if (current.count >= config.maxRequests) {
-    return { allowed: false, resetTime: current.resetTime };
-  }
-
-  // Increment count
-  current.count++;
-  rateLimitStore.set(key, current);
-  
-  return { allowed: true };
-}
-
-function getClientIP(request: Request): string {
-  // Try to get real IP from headers (common proxy headers)
-  const forwardedFor = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  const clientIP = request.headers.get('x-client-ip');
-  
-  if (forwardedFor) {
-    // x-forwarded-for can contain multiple IPs, take the first one
-    return forwardedFor.split(',')[0].trim();
-  }
-  
-  if (realIP) return realIP;
-  if (clientIP) return clientIP;
-  
-  // Fallback - this might not be the real IP in production
-  return 'unknown';
-}
-
-export async function action({ request }: ActionFunctionArgs) {
+// Limited per IP, see RATE_LIMIT_CONFIG.spaceCreation. With a templateId the
+// new space starts with the template's pages. With an archivePath (a space
+// export uploaded through api/space-archive-upload) the exported space is
+// recreated under a new ID, keeping its title unless one is given.
+export const action = withRateLimit('spaceCreation', async ({ request }: ActionFunctionArgs) => {
   if (request.method !== "POST") {
     return Response.json({ error: "Method not allowed" }, { status: 405 });
   }
 
   try {
-    // Get client IP for rate limiting
-    const clientIP = getClientIP(request);
-    
-    // Check rate limit
-    const rateLimitResult = checkRateLimit(clientIP);
-    if (!rateLimitResult.allowed) {
-      const resetTime = rateLimitResult.resetTime || Date.now();
-      const timeRemaining = resetTime - Date.now();
-      const config = RATE_LIMIT_CONFIG.spaceCreation;
-      
-      return Response.json(
-        { 
-          success: false, 
-          error: formatRateLimitMessage(config, timeRemaining),
-          rateLimited: true,
-          resetTime: resetTime
-        }, 
-        { 
-          status: 429,
-          headers: {
-            'Retry-After': Math.ceil(timeRemaining / 1000).toString()
-          }
-        }
-      );
+    const { title: requestedTitle, password, templateId = null, archivePath = null } = await request.json();
+    let title: string | undefined = requestedTitle;
+
+    const supabase = createServerSupabaseClient();
+
+    // Read the archive or check the template before creating anything
+    let archive: SpaceArchive | null = null;
+    if (archivePath !== null) {
+      if (typeof archivePath !== 'string') {
+        return Response.json({ success: false, error: "Invalid archive" }, { status: 400 });
+      }
+
+      const taken = await takeSpaceArchiveUpload(supabase, archivePath);
+      if (!taken.archive) {
+        return Response.json(
+          { success: false, error: taken.error },
+          { status: taken.invalid ? 400 : taken.tooLarge ? 413 : 500 }
+        );
+      }
+
+      archive = taken.archive;
+      title = title || archive.manifest.space.title || undefined;
     }
 
-    const { title, password } = await request.json();
+    let templateContent: TemplateContent | null = null;
+    if (templateId !== null) {
+      if (typeof templateId !== 'string') {
+        return Response.json({ success: false, error: "Invalid template" }, { status: 400 });
+      }
 
-    // Create Supabase client for server-side use
-    const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
-    const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY || '';
-    
-    if (!supabaseUrl || !supabaseAnonKey) {
-      throw new Error('Missing Supabase environment variables');
+      const templateDenied = await requireTemplateAccess(request, supabase, templateId);
+      if (templateDenied) return templateDenied;
+
+      const { content, error, notFound } = await getTemplateContent(supabase, templateId);
+      if (!content) {
+        return Response.json({ success: false, error }, { status: notFound ? 404 : 500 });
+      }
+      templateContent = content;
     }
-    
-    const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
 
     // Generate space data
     const spaceId = generateSpaceId();
-    const qrCodeData = generateQRCodeData(spaceId, password);
+    const qrCodeData = generateQRCodeData(spaceId);
     
     const spaceData: TablesInsert<'spaces'> = {
       id: spaceId,
       qr_code_data: qrCodeData,
       title: title || null,
-      password: password || null,
+      password: password ? await hashSpacePassword(password) : null,
       created_at: new Date().toISOString(),
       last_accessed: new Date().toISOString()
     };
@@ -137,7 +94,7 @@ export async function action({ request }: ActionFunctionArgs) {
     const { data, error } = await supabase
       .from('spaces')
       .insert(spaceData)
-      .select()
+      .select('id, title, qr_code_data, created_at, last_accessed, has_password')
       .single();
 
     if (error) {
@@ -148,11 +105,35 @@ export async function action({ request }: ActionFunctionArgs) {
       );
     }
 
+    // A template that's only partly copied still leaves a usable space
+    if (templateContent) {
+      const filled = await createPagesFromTemplate(supabase, spaceId, templateContent);
+      if (filled.error) {
+        console.error('Error creating pages from template:', filled.error);
+      }
+    }
+
+    // Same for an import; the pages that failed are named in importError
+    let importError: string | undefined;
+    if (archive) {
+      const imported = await importSpaceArchive(supabase, spaceId, archive);
+      importError = imported.error;
+      if (importError) {
+        console.error('Error importing space archive:', importError);
+      }
+    }
+
+    // The creator of a protected space is let in without typing the password again
+    const headers: HeadersInit = password
+      ? { 'Set-Cookie': await grantSpaceSession(request, spaceId) }
+      : {};
+
     return Response.json({ 
       success: true, 
       spaceId,
-      space: data
-    });
+      space: data,
+      importError
+    }, { headers });
 
   } catch (error) {
     console.error('Space creation error:', error);
@@ -161,4 +142,4 @@ export async function action({ request }: ActionFunctionArgs) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
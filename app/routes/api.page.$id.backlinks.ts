@@ -0,0 +1,25 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { getPageBacklinks } from '~/lib/space-data.server';
+
+// List the pages of the space that link to this page
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId);
+    if (denied) return denied;
+
+    const result = await getPageBacklinks(supabase, pageId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load page backlinks error:', error);
+    return Response.json(
+      { backlinks: [], error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
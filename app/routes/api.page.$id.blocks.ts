@@ -0,0 +1,58 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { loadDocumentBlocks, saveDocumentBlocks } from '~/lib/space-data.server';
+
+// Load the blocks of a document page
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId);
+    if (denied) return denied;
+
+    const result = await loadDocumentBlocks(supabase, pageId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load document blocks error:', error);
+    return Response.json(
+      { blocks: [], error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
+
+// Save the blocks of a document page (PUT { blocks, participantId? }); only
+// changed blocks are written
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "PUT") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const { blocks, participantId } = await request.json();
+    const result = await saveDocumentBlocks(
+      supabase,
+      pageId,
+      blocks,
+      typeof participantId === 'string' ? participantId : null
+    );
+    return Response.json(result, { status: result.success ? 200 : 500 });
+
+  } catch (error) {
+    console.error('Save document blocks error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+});
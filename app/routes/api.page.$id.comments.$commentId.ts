@@ -0,0 +1,46 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { setCommentThreadResolved } from '~/lib/space-data.server';
+import { isUuid } from '~/lib/utils';
+
+// Resolve or reopen a thread, addressed by its first comment
+// (PATCH { resolved })
+export const action = withRateLimit('commentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "PATCH") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const commentId = params.commentId!;
+
+    if (!isUuid(commentId)) {
+      return Response.json({ comment: null, error: "Invalid comment ID" }, { status: 400 });
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'commenter');
+    if (denied) return denied;
+
+    const { resolved } = await request.json();
+
+    if (typeof resolved !== 'boolean') {
+      return Response.json({ comment: null, error: "Resolved must be true or false" }, { status: 400 });
+    }
+
+    const result = await setCommentThreadResolved(supabase, pageId, commentId, resolved);
+    return Response.json(result, {
+      status: result.comment ? 200 : result.notFound ? 404 : 500
+    });
+
+  } catch (error) {
+    console.error('Update comment thread error:', error);
+    return Response.json(
+      { comment: null, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,97 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { getSessionParticipantId, requirePageAccess } from '~/lib/space-auth.server';
+import { createComment, getPage, loadComments } from '~/lib/space-data.server';
+import { COMMENT_MAX_LENGTH } from '~/lib/document-comments';
+import { isUuid } from '~/lib/utils';
+
+// List the comments on a document page
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId);
+    if (denied) return denied;
+
+    const result = await loadComments(supabase, pageId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load comments error:', error);
+    return Response.json(
+      { comments: [], error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Start a thread or reply to one (commenters and editors), as the participant
+// the session joined the space as
+// (POST { content, threadId } or POST { content, blockId, quote?, quoteOffset? })
+export const action = withRateLimit('commentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'commenter');
+    if (denied) return denied;
+
+    const { page, error: pageError } = await getPage(supabase, pageId);
+    if (!page) {
+      return Response.json({ comment: null, error: pageError }, { status: 500 });
+    }
+
+    const participantId = await getSessionParticipantId(request, page.space_id);
+    if (!participantId) {
+      return Response.json(
+        { comment: null, error: "Join the space with a name before commenting" },
+        { status: 403 }
+      );
+    }
+
+    const { content, threadId, blockId, quote, quoteOffset } = await request.json();
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return Response.json({ comment: null, error: "Comment is required" }, { status: 400 });
+    }
+
+    if (content.trim().length > COMMENT_MAX_LENGTH) {
+      return Response.json(
+        { comment: null, error: `Comments can be up to ${COMMENT_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (threadId != null && (typeof threadId !== 'string' || !isUuid(threadId))) {
+      return Response.json({ comment: null, error: "Invalid thread ID" }, { status: 400 });
+    }
+
+    if (!threadId && (typeof blockId !== 'string' || !blockId)) {
+      return Response.json({ comment: null, error: "Block ID is required" }, { status: 400 });
+    }
+
+    const result = await createComment(supabase, pageId, participantId, {
+      content: content.trim(),
+      threadId: threadId ?? null,
+      blockId,
+      quote: typeof quote === 'string' ? quote : null,
+      quoteOffset: Number.isInteger(quoteOffset) && quoteOffset >= 0 ? quoteOffset : null,
+    });
+    return Response.json(result, {
+      status: result.comment ? 200 : result.notFound ? 404 : 500
+    });
+
+  } catch (error) {
+    console.error('Create comment error:', error);
+    return Response.json(
+      { comment: null, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
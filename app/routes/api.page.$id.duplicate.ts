@@ -0,0 +1,30 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { duplicatePage } from '~/lib/space-data.server';
+
+// Copy a page, with its content, into a new page next to it
+export const action = withRateLimit('pageCreation', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const result = await duplicatePage(supabase, pageId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Duplicate page error:', error);
+    return Response.json(
+      { page: null, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,54 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { getPage, loadDocumentBlocks } from '~/lib/space-data.server';
+import { convertBlocksToPlateValue } from '~/lib/space-utils';
+import { exportDocument, isDocumentExportFormat } from '~/lib/document-export';
+
+// Download a document page (GET ?format=markdown|html|text, default markdown).
+// Exports the last saved blocks, so scripts can pull docs without a browser.
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const pageId = params.id!;
+    const format = new URL(request.url).searchParams.get('format') || 'markdown';
+
+    if (!isDocumentExportFormat(format)) {
+      return Response.json({ error: "Format must be markdown, html or text" }, { status: 400 });
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId);
+    if (denied) return denied;
+
+    const { page, error: pageError } = await getPage(supabase, pageId);
+    if (pageError || !page) {
+      return Response.json({ error: pageError || "Page not found" }, { status: pageError ? 500 : 404 });
+    }
+
+    if (page.type !== 'document') {
+      return Response.json({ error: "Only document pages can be exported" }, { status: 400 });
+    }
+
+    const { blocks, error } = await loadDocumentBlocks(supabase, pageId);
+    if (error) {
+      return Response.json({ error }, { status: 500 });
+    }
+
+    const file = await exportDocument(convertBlocksToPlateValue(blocks), format, page.title);
+
+    return new Response(file.content, {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Document export error:', error);
+    return Response.json(
+      { error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { createDocumentFileUpload } from '~/lib/space-data.server';
+import { formatFileSize, getDocumentFileSizeLimit } from '~/lib/document-files';
+
+// Sign an upload of an image or attachment to the page's folder
+// (POST { name, type, size }). The browser uploads the file itself.
+export const action = withRateLimit('fileUploads', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const { name, type, size } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim() || typeof size !== 'number' || size <= 0) {
+      return Response.json({ upload: null, error: "A file name and size are required" }, { status: 400 });
+    }
+
+    const limit = getDocumentFileSizeLimit(typeof type === 'string' ? type : '');
+    if (size > limit) {
+      return Response.json(
+        { upload: null, error: `This file is too large (${formatFileSize(limit)} max)` },
+        { status: 413 }
+      );
+    }
+
+    const result = await createDocumentFileUpload(supabase, pageId, name);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Create document file upload error:', error);
+    return Response.json(
+      { upload: null, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
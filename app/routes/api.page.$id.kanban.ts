@@ -0,0 +1,97 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import {
+  createKanbanCard,
+  createKanbanColumn,
+  deleteKanbanCard,
+  deleteKanbanColumn,
+  editKanbanCard,
+  editKanbanColumn,
+  loadKanbanData,
+  updateKanbanCard,
+  updateKanbanCardsOrder,
+  updateKanbanColumnOrder,
+} from '~/lib/space-data.server';
+
+// Load the columns and cards of a kanban page
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId);
+    if (denied) return denied;
+
+    const result = await loadKanbanData(supabase, pageId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load kanban data error:', error);
+    return Response.json(
+      { columns: [], error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
+
+// Board mutations, selected by `intent`. Every change is broadcast on the
+// page's kanban channel once written.
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const body = await request.json();
+    let result: { success?: boolean; error?: string };
+
+    switch (body.intent) {
+      case 'create-column':
+        result = await createKanbanColumn(supabase, pageId, body.title);
+        break;
+      case 'create-card':
+        result = await createKanbanCard(supabase, pageId, body.columnId, body.title, body.description);
+        break;
+      case 'reorder-columns':
+        result = await updateKanbanColumnOrder(supabase, pageId, body.columns || []);
+        break;
+      case 'reorder-cards':
+        result = await updateKanbanCardsOrder(supabase, pageId, body.cards || []);
+        break;
+      case 'update-card':
+        result = await updateKanbanCard(supabase, pageId, body.cardId, body.updates || {});
+        break;
+      case 'edit-card':
+        result = await editKanbanCard(supabase, pageId, body.cardId, body.title, body.description);
+        break;
+      case 'delete-card':
+        result = await deleteKanbanCard(supabase, pageId, body.cardId);
+        break;
+      case 'edit-column':
+        result = await editKanbanColumn(supabase, pageId, body.columnId, body.title);
+        break;
+      case 'delete-column':
+        result = await deleteKanbanColumn(supabase, pageId, body.columnId);
+        break;
+      default:
+        return Response.json({ success: false, error: "Unknown intent" }, { status: 400 });
+    }
+
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Kanban update error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,73 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import {
+  createMoodboardItem,
+  deleteMoodboardItems,
+  loadMoodboardItems,
+  updateMoodboardItem,
+} from '~/lib/space-data.server';
+
+// Load the items of a moodboard page
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId);
+    if (denied) return denied;
+
+    const result = await loadMoodboardItems(supabase, pageId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load moodboard items error:', error);
+    return Response.json(
+      { items: [], error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
+
+// Item mutations, selected by `intent`. Every change is broadcast on the
+// page's moodboard channel once written.
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const body = await request.json();
+    let result: { success?: boolean; error?: string };
+
+    switch (body.intent) {
+      case 'create':
+        result = await createMoodboardItem(supabase, pageId, body.item);
+        break;
+      case 'update':
+        result = await updateMoodboardItem(supabase, pageId, body.item);
+        break;
+      case 'delete':
+        result = await deleteMoodboardItems(supabase, pageId, body.itemIds || []);
+        break;
+      default:
+        return Response.json({ success: false, error: "Unknown intent" }, { status: 400 });
+    }
+
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Moodboard update error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+});
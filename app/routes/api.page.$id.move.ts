@@ -0,0 +1,50 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess, requireSpaceAccess } from '~/lib/space-auth.server';
+import { getPage, movePageToSpace } from '~/lib/space-data.server';
+
+// Move a page, with its subpages, to another space ({ spaceId }). Needs edit
+// access to both spaces: a password-protected target must have been unlocked
+// in this browser (or opened with an editor share link).
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const { spaceId } = await request.json();
+
+    if (typeof spaceId !== 'string' || !spaceId.trim()) {
+      return Response.json({ success: false, error: "A target space is required" }, { status: 400 });
+    }
+
+    const { page, error } = await getPage(supabase, pageId);
+    if (!page) {
+      return Response.json({ success: false, error: error || "Page not found" }, { status: error ? 500 : 404 });
+    }
+
+    if (page.space_id === spaceId.trim()) {
+      return Response.json({ success: false, error: "The page is already in this space" }, { status: 400 });
+    }
+
+    const targetDenied = await requireSpaceAccess(request, supabase, spaceId.trim(), 'editor');
+    if (targetDenied) return targetDenied;
+
+    const result = await movePageToSpace(supabase, pageId, spaceId.trim());
+    return Response.json(result, { status: result.success ? 200 : 500 });
+
+  } catch (error) {
+    console.error('Move page error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,50 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { deletePage, renamePage } from '~/lib/space-data.server';
+import { SUBPAGE_DELETIONS } from '~/lib/page-tree';
+import type { SubpageDeletion } from '~/lib/page-tree';
+
+// PATCH renames a page, DELETE removes it
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "PATCH" && request.method !== "DELETE") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    if (request.method === "DELETE") {
+      // What happens to subpages: deleted too, or moved up (the default)
+      const subpages = new URL(request.url).searchParams.get('subpages') || 'move_up';
+
+      if (!SUBPAGE_DELETIONS.includes(subpages as SubpageDeletion)) {
+        return Response.json({ success: false, error: "Invalid subpages option" }, { status: 400 });
+      }
+
+      const result = await deletePage(supabase, pageId, subpages as SubpageDeletion);
+      return Response.json(result, { status: result.success ? 200 : 500 });
+    }
+
+    const { title } = await request.json();
+
+    if (typeof title !== 'string') {
+      return Response.json({ page: null, error: "Title is required" }, { status: 400 });
+    }
+
+    const result = await renamePage(supabase, pageId, title);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Page update error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+});
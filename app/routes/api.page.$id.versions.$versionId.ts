@@ -0,0 +1,26 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { getDocumentVersion } from '~/lib/space-data.server';
+
+// Load the content of one version of a document page (editors only)
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const result = await getDocumentVersion(supabase, pageId, params.versionId!);
+    const status = result.error === 'Version not found' ? 404 : result.error ? 500 : 200;
+    return Response.json(result, { status });
+
+  } catch (error) {
+    console.error('Load document version error:', error);
+    return Response.json(
+      { content: null, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
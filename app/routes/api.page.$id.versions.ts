@@ -0,0 +1,64 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { createDocumentVersion, loadDocumentVersions } from '~/lib/space-data.server';
+
+// List the version history of a document page (editors only)
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const result = await loadDocumentVersions(supabase, pageId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load document versions error:', error);
+    return Response.json(
+      { versions: [], error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Snapshot the current content right before a version is restored
+// (POST { blocks, participantId? })
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const { blocks, participantId } = await request.json();
+
+    if (!Array.isArray(blocks)) {
+      return Response.json({ success: false, error: "Blocks are required" }, { status: 400 });
+    }
+
+    const result = await createDocumentVersion(
+      supabase,
+      pageId,
+      blocks,
+      'before_restore',
+      typeof participantId === 'string' ? participantId : null
+    );
+    return Response.json(result, { status: result.success ? 200 : 500 });
+
+  } catch (error) {
+    console.error('Create document version error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
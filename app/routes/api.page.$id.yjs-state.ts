@@ -0,0 +1,57 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { loadDocumentYjsState, saveDocumentYjsState } from '~/lib/space-data.server';
+
+// Load the persisted Yjs state of a document page
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId);
+    if (denied) return denied;
+
+    const result = await loadDocumentYjsState(supabase, pageId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load document state error:', error);
+    return Response.json(
+      { state: null, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
+
+// Store the Yjs state of a document page (PUT { state }, base64 encoded)
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "PUT") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePageAccess(request, supabase, pageId, 'editor');
+    if (denied) return denied;
+
+    const { state } = await request.json();
+
+    if (typeof state !== 'string') {
+      return Response.json({ success: false, error: "State is required" }, { status: 400 });
+    }
+
+    const result = await saveDocumentYjsState(supabase, pageId, state);
+    return Response.json(result, { status: result.success ? 200 : 500 });
+
+  } catch (error) {
+    console.error('Save document state error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,55 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePageAccess } from '~/lib/space-auth.server';
+import { broadcastDocumentSyncMessage } from '~/lib/space-data.server';
+import type { DocumentSyncMessage } from '~/lib/space-utils';
+
+function parseSyncMessage(body: any): DocumentSyncMessage | null {
+  if (!body || !Number.isInteger(body.clientId)) return null;
+
+  if ((body.type === 'update' || body.type === 'sync-update') && typeof body.update === 'string') {
+    return { type: body.type, clientId: body.clientId, update: body.update };
+  }
+  if (body.type === 'sync-request' && typeof body.stateVector === 'string') {
+    return { type: 'sync-request', clientId: body.clientId, stateVector: body.stateVector };
+  }
+  return null;
+}
+
+// Relay a collaborative editing message to the page's yjs channel
+// (POST DocumentSyncMessage). Document changes need the editor role; anyone
+// who can view the page may ask the editors for the changes they missed.
+export const action = withRateLimit('documentSync', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const pageId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const message = parseSyncMessage(await request.json().catch(() => null));
+    if (!message) {
+      return Response.json({ success: false, error: "Invalid document message" }, { status: 400 });
+    }
+
+    const denied = await requirePageAccess(
+      request,
+      supabase,
+      pageId,
+      message.type === 'sync-request' ? 'viewer' : 'editor'
+    );
+    if (denied) return denied;
+
+    await broadcastDocumentSyncMessage(supabase, pageId, message);
+    return Response.json({ success: true });
+
+  } catch (error) {
+    console.error('Relay document message error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,39 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { createSpaceArchiveUpload } from '~/lib/space-data.server';
+import { SPACE_ARCHIVE_LIMITS, SPACE_ARCHIVE_MAX_SIZE_LABEL } from '~/lib/space-archive';
+
+// Sign an upload of a space export to import (POST { size }). The browser
+// uploads the zip itself, then passes its path to api/create-space.
+export const action = withRateLimit('spaceArchives', async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const { size } = await request.json();
+
+    if (typeof size !== 'number' || size <= 0) {
+      return Response.json({ upload: null, error: "An archive size is required" }, { status: 400 });
+    }
+
+    if (size > SPACE_ARCHIVE_LIMITS.maxArchiveBytes) {
+      return Response.json(
+        { upload: null, error: `Archives of up to ${SPACE_ARCHIVE_MAX_SIZE_LABEL} can be imported` },
+        { status: 413 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+    const result = await createSpaceArchiveUpload(supabase);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Create space archive upload error:', error);
+    return Response.json(
+      { upload: null, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,61 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import {
+  getSpaceRole,
+  grantSpaceSession,
+  hashSpacePassword,
+} from '~/lib/space-auth.server';
+
+// Set, change or remove a space password. Only editors who got in with the
+// password (or any editor of an open space) may do this; a share link,
+// even an editor one, doesn't let its holders lock everyone else out.
+export const action = withRateLimit('passwordAttempts', async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const { spaceId, password } = await request.json();
+
+    if (!spaceId) {
+      return Response.json({ success: false, error: "Space ID is required" }, { status: 400 });
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { role, linkId, response } = await getSpaceRole(request, supabase, spaceId);
+    if (response) return response;
+
+    if (role !== 'editor' || linkId) {
+      return Response.json(
+        { success: false, error: "Only people who entered the space password can change it" },
+        { status: 403 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('spaces')
+      .update({ password: password ? await hashSpacePassword(password) : null })
+      .eq('id', spaceId);
+
+    if (error) {
+      console.error('Error updating space password:', error);
+      return Response.json({ success: false, error: error.message }, { status: 500 });
+    }
+
+    // Keep the person who set the password signed in, with the grant they had
+    const headers: HeadersInit = password
+      ? { 'Set-Cookie': await grantSpaceSession(request, spaceId, { role, linkId }) }
+      : {};
+
+    return Response.json({ success: true }, { headers });
+
+  } catch (error) {
+    console.error('Space password update error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+});
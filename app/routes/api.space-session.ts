@@ -0,0 +1,42 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { getSpaceRole } from '~/lib/space-auth.server';
+
+// Tells the client whether a space is protected, whether this browser's
+// session cookie unlocks it (the cookie itself is httpOnly) and with which role
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const spaceId = new URL(request.url).searchParams.get('spaceId');
+
+    if (!spaceId) {
+      return Response.json({ error: "Space ID is required" }, { status: 400 });
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: space, error } = await supabase
+      .from('spaces')
+      .select('id, password')
+      .eq('id', spaceId)
+      .maybeSingle();
+
+    if (error || !space) {
+      return Response.json({ error: "Space not found" }, { status: 404 });
+    }
+
+    const { role } = await getSpaceRole(request, supabase, spaceId);
+
+    return Response.json({
+      requiresPassword: !!space.password,
+      isAuthenticated: !!role,
+      role: role ?? null,
+    });
+
+  } catch (error) {
+    console.error('Space session check error:', error);
+    return Response.json(
+      { error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
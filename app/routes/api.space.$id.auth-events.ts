@@ -0,0 +1,26 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { requirePasswordEditor } from '~/lib/space-auth.server';
+import { loadAuthEvents } from '~/lib/space-data.server';
+
+// Recent failed and successful joins of a space, with their IPs. Only for
+// editors who entered the password, not those who came through a share link.
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePasswordEditor(request, supabase, spaceId);
+    if (denied) return denied;
+
+    const result = await loadAuthEvents(supabase, spaceId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load auth events error:', error);
+    return Response.json(
+      { events: [], error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requireSpaceAccess } from '~/lib/space-auth.server';
+import { exportSpace } from '~/lib/space-data.server';
+
+// Export the whole space as a zip (see space-archive.ts) that can be
+// imported as a new space from Create New Space. POST returns { url }, a
+// signed link to download it from storage.
+export const action = withRateLimit('spaceArchives', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId);
+    if (denied) return denied;
+
+    const result = await exportSpace(supabase, spaceId);
+    return Response.json(result, {
+      status: result.url ? 200 : result.notFound ? 404 : result.tooLarge ? 413 : 500
+    });
+
+  } catch (error) {
+    console.error('Space export error:', error);
+    return Response.json(
+      { url: null, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,75 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requireSpaceAccess } from '~/lib/space-auth.server';
+import { createPage, saveDocumentBlocks } from '~/lib/space-data.server';
+import { MARKDOWN_IMPORT_LIMITS, markdownToDocumentValue } from '~/lib/document-import';
+import type { Tables } from '../../database.types';
+
+// Create one document page per Markdown file (POST { files: [{ title, markdown }] }).
+// The whole import counts as a single page creation against the rate limit.
+export const action = withRateLimit('pageCreation', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId, 'editor');
+    if (denied) return denied;
+
+    const { files } = await request.json();
+
+    const valid = Array.isArray(files) && files.every((file) =>
+      typeof file?.title === 'string' &&
+      typeof file?.markdown === 'string' &&
+      file.markdown.length <= MARKDOWN_IMPORT_LIMITS.maxFileBytes
+    );
+
+    if (!valid || files.length === 0) {
+      return Response.json({ pages: [], error: "A list of Markdown files is required" }, { status: 400 });
+    }
+
+    if (files.length > MARKDOWN_IMPORT_LIMITS.maxFiles) {
+      return Response.json(
+        { pages: [], error: `You can import up to ${MARKDOWN_IMPORT_LIMITS.maxFiles} files at once` },
+        { status: 400 }
+      );
+    }
+
+    // One file at a time so the pages keep the order of the files
+    const pages: Tables<'pages'>[] = [];
+    const failed: string[] = [];
+
+    for (const file of files as { title: string; markdown: string }[]) {
+      const title = file.title.trim() || 'Imported document';
+      const { page, error } = await createPage(supabase, spaceId, title, 'document');
+
+      if (error || !page) {
+        failed.push(title);
+        continue;
+      }
+
+      const saved = await saveDocumentBlocks(supabase, page.id, markdownToDocumentValue(file.markdown));
+      if (!saved.success) failed.push(title);
+
+      pages.push(page);
+    }
+
+    return Response.json(
+      failed.length > 0
+        ? { pages, error: `Some files could not be imported: ${failed.join(', ')}` }
+        : { pages },
+      { status: pages.length === 0 ? 500 : 200 }
+    );
+
+  } catch (error) {
+    console.error('Import Markdown error:', error);
+    return Response.json(
+      { pages: [], error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
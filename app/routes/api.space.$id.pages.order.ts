@@ -0,0 +1,41 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requireSpaceAccess } from '~/lib/space-auth.server';
+import { reorderPages } from '~/lib/space-data.server';
+
+// Reorder the pages under one parent ({ parentId, pageIds } with parentId
+// null for the top-level pages). Everyone in the space gets the new order.
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "PUT") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId, 'editor');
+    if (denied) return denied;
+
+    const { parentId = null, pageIds } = await request.json();
+
+    if (
+      (parentId !== null && typeof parentId !== 'string') ||
+      !Array.isArray(pageIds) ||
+      !pageIds.every((id) => typeof id === 'string')
+    ) {
+      return Response.json({ success: false, error: "A parent and a list of page ids are required" }, { status: 400 });
+    }
+
+    const result = await reorderPages(supabase, spaceId, parentId, pageIds);
+    return Response.json(result, { status: result.invalid ? 409 : result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Reorder pages error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,90 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requireSpaceAccess, requireTemplateAccess } from '~/lib/space-auth.server';
+import {
+  createPage,
+  createPagesFromTemplate,
+  getTemplateContent,
+  loadPagesForSpace,
+} from '~/lib/space-data.server';
+
+const PAGE_TYPES = ['document', 'moodboard', 'kanban'] as const;
+
+// List the pages of a space
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId);
+    if (denied) return denied;
+
+    const result = await loadPagesForSpace(supabase, spaceId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load pages error:', error);
+    return Response.json(
+      { pages: [], error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
+
+// Create a page in a space, or a subpage when parentId is given. Given a
+// templateId instead of a title and type, the template's pages are created
+// with their content; the response lists them all in pages.
+export const action = withRateLimit('pageCreation', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId, 'editor');
+    if (denied) return denied;
+
+    const { title, type, parentId = null, templateId = null } = await request.json();
+
+    if (parentId !== null && typeof parentId !== 'string') {
+      return Response.json({ page: null, error: "Invalid parent page" }, { status: 400 });
+    }
+
+    if (templateId !== null) {
+      if (typeof templateId !== 'string') {
+        return Response.json({ page: null, error: "Invalid template" }, { status: 400 });
+      }
+
+      const templateDenied = await requireTemplateAccess(request, supabase, templateId);
+      if (templateDenied) return templateDenied;
+
+      const { content, error, notFound } = await getTemplateContent(supabase, templateId);
+      if (!content) {
+        return Response.json({ page: null, error }, { status: notFound ? 404 : 500 });
+      }
+
+      const result = await createPagesFromTemplate(supabase, spaceId, content, parentId);
+      return Response.json(
+        { page: result.pages[0] ?? null, ...result },
+        { status: result.notFound ? 404 : result.pages.length === 0 ? 500 : 200 }
+      );
+    }
+
+    if (typeof title !== 'string' || !PAGE_TYPES.includes(type)) {
+      return Response.json({ page: null, error: "A title and a valid page type are required" }, { status: 400 });
+    }
+
+    const result = await createPage(supabase, spaceId, title, type, parentId);
+    return Response.json(result, { status: result.notFound ? 404 : result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Create page error:', error);
+    return Response.json(
+      { page: null, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+});
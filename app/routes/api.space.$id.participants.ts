@@ -0,0 +1,87 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import {
+  getSessionParticipantId,
+  requireSpaceAccess,
+  setSessionParticipant,
+} from '~/lib/space-auth.server';
+import {
+  getParticipant,
+  registerParticipant,
+  updateParticipantName,
+} from '~/lib/space-data.server';
+
+// Load the participant this session joined the space as (null if none yet)
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId);
+    if (denied) return denied;
+
+    const participantId = await getSessionParticipantId(request, spaceId);
+    if (!participantId) {
+      return Response.json({ participant: null });
+    }
+
+    const result = await getParticipant(supabase, spaceId, participantId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load participant error:', error);
+    return Response.json(
+      { participant: null, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
+
+// POST registers a participant for this session, PATCH renames it
+export const action = withRateLimit('participantWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST" && request.method !== "PATCH") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId);
+    if (denied) return denied;
+
+    const { name, anonymous } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return Response.json({ success: false, error: "Name is required" }, { status: 400 });
+    }
+
+    if (request.method === "POST") {
+      const result = await registerParticipant(supabase, spaceId, name.trim(), anonymous !== false);
+      if (!result.participant) {
+        return Response.json(result, { status: 500 });
+      }
+
+      return Response.json(result, {
+        headers: { 'Set-Cookie': await setSessionParticipant(request, spaceId, result.participant.id) }
+      });
+    }
+
+    // Only the session's own participant can be renamed
+    const participantId = await getSessionParticipantId(request, spaceId);
+    if (!participantId) {
+      return Response.json({ success: false, error: "Join the space first" }, { status: 403 });
+    }
+
+    const result = await updateParticipantName(supabase, spaceId, participantId, name.trim());
+    return Response.json(result, { status: result.success ? 200 : 500 });
+
+  } catch (error) {
+    console.error('Participant update error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,36 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { requireSpaceAccess } from '~/lib/space-auth.server';
+import { searchSpace } from '~/lib/space-data.server';
+import { SPACE_SEARCH_LIMITS } from '~/lib/space-search';
+
+// Search the text of every page in the space (?q=)
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const spaceId = params.id!;
+    const query = (new URL(request.url).searchParams.get('q') || '').trim();
+
+    if (query.length > SPACE_SEARCH_LIMITS.maxQueryLength) {
+      return Response.json({ results: [], error: "Search is too long" }, { status: 400 });
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId);
+    if (denied) return denied;
+
+    if (query.length < SPACE_SEARCH_LIMITS.minQueryLength) {
+      return Response.json({ results: [] });
+    }
+
+    const result = await searchSpace(supabase, spaceId, query, SPACE_SEARCH_LIMITS.maxResults);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Search space error:', error);
+    return Response.json(
+      { results: [], error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requirePasswordEditor } from '~/lib/space-auth.server';
+import {
+  createShareLink,
+  loadShareLinks,
+  revokeShareLink,
+} from '~/lib/space-data.server';
+import { isSpaceRole } from '~/lib/space-roles';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EXPIRY_DAYS = 365;
+
+// List the active share links of a space (password editors only)
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePasswordEditor(request, supabase, spaceId);
+    if (denied) return denied;
+
+    const result = await loadShareLinks(supabase, spaceId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load share links error:', error);
+    return Response.json(
+      { links: [], error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+}
+
+// POST creates a link ({ role, expiresInDays? }), DELETE revokes one ({ linkId })
+export const action = withRateLimit('shareLinkCreation', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST" && request.method !== "DELETE") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requirePasswordEditor(request, supabase, spaceId);
+    if (denied) return denied;
+
+    const body = await request.json();
+
+    if (request.method === "DELETE") {
+      if (!body.linkId) {
+        return Response.json({ success: false, error: "Link ID is required" }, { status: 400 });
+      }
+
+      const result = await revokeShareLink(supabase, spaceId, body.linkId);
+      return Response.json(result, { status: result.success ? 200 : 500 });
+    }
+
+    if (!isSpaceRole(body.role)) {
+      return Response.json({ link: null, error: "A valid role is required" }, { status: 400 });
+    }
+
+    const expiresInDays = body.expiresInDays == null ? 0 : Number(body.expiresInDays);
+    if (!Number.isFinite(expiresInDays) || expiresInDays < 0 || expiresInDays > MAX_EXPIRY_DAYS) {
+      return Response.json(
+        { link: null, error: `Links can expire in up to ${MAX_EXPIRY_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const expiresAt = expiresInDays > 0
+      ? new Date(Date.now() + expiresInDays * DAY_MS).toISOString()
+      : null;
+
+    const result = await createShareLink(supabase, spaceId, body.role, expiresAt);
+    return Response.json(result, { status: result.invalid ? 400 : result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Share link update error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" }, 
+      { status: 500 }
+    );
+  }
+});
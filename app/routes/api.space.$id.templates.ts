@@ -0,0 +1,67 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requireSpaceAccess } from '~/lib/space-auth.server';
+import { saveTemplate } from '~/lib/space-data.server';
+import { TEMPLATE_LIMITS } from '~/lib/templates';
+
+// Save a page of the space ({ kind: 'page', pageId, name, description? }) or
+// the whole space ({ kind: 'space', name, description? }) as a template
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId, 'editor');
+    if (denied) return denied;
+
+    const { kind, name, description = null, pageId = null } = await request.json();
+
+    if (kind !== 'page' && kind !== 'space') {
+      return Response.json({ template: null, error: "Invalid template kind" }, { status: 400 });
+    }
+
+    if (
+      typeof name !== 'string' ||
+      !name.trim() ||
+      name.trim().length > TEMPLATE_LIMITS.maxNameLength
+    ) {
+      return Response.json(
+        { template: null, error: `A name of up to ${TEMPLATE_LIMITS.maxNameLength} characters is required` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      description !== null &&
+      (typeof description !== 'string' || description.length > TEMPLATE_LIMITS.maxDescriptionLength)
+    ) {
+      return Response.json({ template: null, error: "Invalid description" }, { status: 400 });
+    }
+
+    if (kind === 'page' && typeof pageId !== 'string') {
+      return Response.json({ template: null, error: "A page is required" }, { status: 400 });
+    }
+
+    const result = await saveTemplate(supabase, spaceId, {
+      kind,
+      name: name.trim(),
+      description: description?.trim() || null,
+      pageId,
+    });
+    return Response.json(result, {
+      status: result.notFound ? 404 : result.invalid ? 400 : result.tooLarge ? 413 : result.error ? 500 : 200
+    });
+
+  } catch (error) {
+    console.error('Save template error:', error);
+    return Response.json(
+      { template: null, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,82 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requireSpaceAccess } from '~/lib/space-auth.server';
+import {
+  loadTrashedPages,
+  purgeExpiredPages,
+  purgePage,
+  restorePage,
+} from '~/lib/space-data.server';
+
+// List the pages in the trash of a space
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId, 'editor');
+    if (denied) return denied;
+
+    const result = await loadTrashedPages(supabase, spaceId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load trash error:', error);
+    return Response.json(
+      { pages: [], error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Restore a page from the trash ({ intent: 'restore', pageId }), delete it
+// for good ({ intent: 'purge', pageId }), or delete every page that has been
+// in the trash for longer than PAGE_TRASH_CONFIG.retentionDays
+// ({ intent: 'purge-expired' }, sent when an editor opens the space)
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const spaceId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireSpaceAccess(request, supabase, spaceId, 'editor');
+    if (denied) return denied;
+
+    const { intent, pageId } = await request.json();
+
+    if (intent === 'purge-expired') {
+      const result = await purgeExpiredPages(supabase, spaceId);
+      return Response.json(result, { status: result.error ? 500 : 200 });
+    }
+
+    if (typeof pageId !== 'string') {
+      return Response.json({ success: false, error: "Page id is required" }, { status: 400 });
+    }
+
+    let result: { success: boolean; error?: string; notFound?: boolean };
+
+    switch (intent) {
+      case 'restore':
+        result = await restorePage(supabase, spaceId, pageId);
+        break;
+      case 'purge':
+        result = await purgePage(supabase, spaceId, pageId);
+        break;
+      default:
+        return Response.json({ success: false, error: "Unknown intent" }, { status: 400 });
+    }
+
+    return Response.json(result, { status: result.notFound ? 404 : result.success ? 200 : 500 });
+
+  } catch (error) {
+    console.error('Trash update error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
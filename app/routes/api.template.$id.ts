@@ -0,0 +1,30 @@
+import type { ActionFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { withRateLimit } from '~/lib/rate-limit.server';
+import { requireTemplateAccess } from '~/lib/space-auth.server';
+import { deleteTemplate } from '~/lib/space-data.server';
+
+// Delete a saved template (editors of the space it was saved from)
+export const action = withRateLimit('contentWrites', async ({ request, params }: ActionFunctionArgs) => {
+  if (request.method !== "DELETE") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const templateId = params.id!;
+    const supabase = createServerSupabaseClient();
+
+    const denied = await requireTemplateAccess(request, supabase, templateId, 'editor');
+    if (denied) return denied;
+
+    const result = await deleteTemplate(supabase, templateId);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Delete template error:', error);
+    return Response.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,40 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { createServerSupabaseClient } from '~/lib/supabase.server';
+import { getSpaceRole } from '~/lib/space-auth.server';
+import { loadTemplates } from '~/lib/space-data.server';
+
+// How many spaces one request may list templates from
+const MAX_TEMPLATE_SPACES = 20;
+
+// List the saved templates of some spaces (?spaceId=...&spaceId=...), only
+// page or only space templates with ?kind=. Spaces this browser can't open
+// are skipped, so the pickers can pass every recently visited space.
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const spaceIds = [...new Set(params.getAll('spaceId'))].slice(0, MAX_TEMPLATE_SPACES);
+    const kind = params.get('kind');
+
+    if (kind !== null && kind !== 'page' && kind !== 'space') {
+      return Response.json({ templates: [], error: "Invalid template kind" }, { status: 400 });
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const allowed: string[] = [];
+    for (const spaceId of spaceIds) {
+      const { response } = await getSpaceRole(request, supabase, spaceId);
+      if (!response) allowed.push(spaceId);
+    }
+
+    const result = await loadTemplates(supabase, allowed, kind ?? undefined);
+    return Response.json(result, { status: result.error ? 500 : 200 });
+
+  } catch (error) {
+    console.error('Load templates error:', error);
+    return Response.json(
+      { templates: [], error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
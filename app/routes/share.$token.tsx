@@ -0,0 +1,54 @@
+import { Link, redirect } from "react-router";
+import { Button } from "~/components/ui/button";
+import { createServerSupabaseClient } from "~/lib/supabase.server";
+import { grantSpaceSession } from "~/lib/space-auth.server";
+import { findShareLink } from "~/lib/space-data.server";
+import { logAuthEvent } from "~/lib/auth-lockout.server";
+import { isSpaceRole } from "~/lib/space-roles";
+import type { Route } from "./+types/share.$token";
+
+export function meta({}: Route.MetaArgs) {
+  return [{ title: "Join Space | WrkIn.Space" }];
+}
+
+// Opening a share link stores its role in the session cookie and continues
+// to the space. The link itself never reveals the space password.
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const supabase = createServerSupabaseClient();
+  const { link, error } = await findShareLink(supabase, params.token);
+
+  if (error) {
+    return { error: "Something went wrong while opening this link." };
+  }
+
+  if (!link || !isSpaceRole(link.role)) {
+    return { error: "This share link is invalid, has expired or was revoked." };
+  }
+
+  await logAuthEvent(supabase, request, link.space_id, "success", "share_link");
+
+  const cookie = await grantSpaceSession(request, link.space_id, {
+    role: link.role,
+    linkId: link.id,
+    expiresAt: link.expires_at ? new Date(link.expires_at).getTime() : undefined,
+  });
+
+  return redirect(`/space/${link.space_id}`, {
+    headers: { "Set-Cookie": cookie },
+  });
+}
+
+export default function ShareLinkRoute({ loaderData }: Route.ComponentProps) {
+  return (
+    <div className="flex items-center justify-center h-screen">
+      <div className="text-center">
+        <div className="text-6xl mb-4">🔗</div>
+        <h2 className="text-2xl font-semibold mb-2">Link Unavailable</h2>
+        <p className="text-muted-foreground mb-6">{loaderData.error}</p>
+        <Button asChild>
+          <Link to="/">Go Home</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
+import type { ReactNode } from "react";
 import { useParams } from "react-router";
 import { useSpace } from "~/contexts/space-context";
 import { FileText, Image, Columns3 } from "lucide-react";
 import DocumentEditor from "~/components/document-editor";
 import MoodboardEditor from "~/components/moodboard-editor";
 import KanbanEditor from "~/components/kanban-editor";
+import { PageBreadcrumbs } from "~/components/ui/page-breadcrumbs";
 
 export default function SpacePage() {
   const params = useParams();
-  const { space, pages } = useSpace();
+  const { space, pages, canEdit } = useSpace();
   const pageId = params.pageId;
 
   // Find the current page from the pages in context
@@ -65,18 +67,29 @@ export default function SpacePage() {
     }
   };
 
+  const withBreadcrumbs = (editor: ReactNode) => (
+    <div className="flex flex-col h-full w-full">
+      <PageBreadcrumbs pageId={pageId!} className="shrink-0 border-b" />
+      <div className="flex-1 min-h-0">{editor}</div>
+    </div>
+  );
+
   if (currentPage.type === "kanban") {
-    return <KanbanEditor pageId={pageId!} />;
+    return withBreadcrumbs(
+      <KanbanEditor pageId={pageId!} readOnly={!canEdit} />
+    );
   }
 
   if (currentPage.type === "moodboard") {
-    return <MoodboardEditor pageId={pageId!} />;
+    return withBreadcrumbs(
+      <MoodboardEditor pageId={pageId!} readOnly={!canEdit} />
+    );
   }
 
   if (currentPage.type === "document") {
-    return (
+    return withBreadcrumbs(
       <div className="flex flex-col items-start justify-center h-full w-full">
-        <DocumentEditor pageId={pageId!} />
+        <DocumentEditor key={pageId} pageId={pageId!} readOnly={!canEdit} />
       </div>
     );
   }
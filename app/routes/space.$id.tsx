@@ -1,5 +1,5 @@
-import { Outlet, useParams, Link, useLocation } from "react-router";
-import React, { useState } from "react";
+import { Outlet, useParams, Link } from "react-router";
+import React, { useRef, useState } from "react";
 import { SpaceProvider, useSpace } from "~/contexts/space-context";
 import { SpacePasswordScreen } from "~/components/space-password-screen";
 import { Button } from "~/components/ui/button";
@@ -19,16 +19,12 @@ import {
   DropdownMenuContent,
   DropdownMenuTrigger,
   DropdownMenuItem,
+  DropdownMenuSeparator,
 } from "~/components/ui/dropdown-menu";
-import {
-  ContextMenu,
-  ContextMenuContent,
-  ContextMenuTrigger,
-  ContextMenuItem,
-} from "~/components/ui/context-menu";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
@@ -40,16 +36,31 @@ import {
   FileText,
   Image,
   Kanban,
-  Edit,
-  Trash,
   Settings,
   Lock,
   Columns3,
+  Upload,
+  FolderUp,
+  Search,
+  LayoutTemplate,
 } from "lucide-react";
 import { ShareSpaceModal } from "~/components/ui/share-space-modal";
 import { SpaceSettingsModal } from "~/components/ui/space-settings-modal";
+import { SpaceSearchDialog } from "~/components/ui/space-search-dialog";
+import { SidebarPageTree } from "~/components/ui/sidebar-page-tree";
+import { SidebarTrash } from "~/components/ui/sidebar-trash";
+import { MovePageDialog } from "~/components/ui/move-page-dialog";
+import { PageTemplateDialog } from "~/components/ui/page-template-dialog";
+import { SaveTemplateDialog } from "~/components/ui/save-template-dialog";
+import type { SaveTemplateTarget } from "~/components/ui/save-template-dialog";
+import { PAGE_TRASH_CONFIG } from "~/lib/page-trash";
+import { getPageDescendantIds } from "~/lib/page-tree";
+import type { SubpageDeletion } from "~/lib/page-tree";
+import { SPACE_ROLE_LABELS } from "~/lib/space-roles";
+import { MARKDOWN_FILE_ACCEPT } from "~/lib/document-import";
 import { useSpaceActions } from "~/hooks/use-space-actions";
 import { ThemeToggle } from "~/components/ui/theme-toggle";
+import { cn } from "~/lib/utils";
 import {
   Tooltip,
   TooltipContent,
@@ -65,11 +76,22 @@ function SpaceContent() {
     requiresPassword,
     isAuthenticated,
     authenticateSpace,
+    participant,
+    onlineParticipants,
+    renameParticipant,
+    role,
+    canEdit,
+    reorderPages,
   } = useSpace();
 
-  const { handleCreatePage, handleRenamePage, handleDeletePage } =
-    useSpaceActions();
-  const location = useLocation();
+  const {
+    handleCreatePage,
+    handleImportMarkdown,
+    handleRenamePage,
+    handleDeletePage,
+    handleDuplicatePage,
+  } = useSpaceActions();
+  const { pageId: activePageId } = useParams();
 
   // State for rename dialog
   const [renameDialogOpen, setRenameDialogOpen] = useState(false);
@@ -79,6 +101,71 @@ function SpaceContent() {
   } | null>(null);
   const [newPageTitle, setNewPageTitle] = useState("");
 
+  // A page with subpages is deleted from a dialog that asks what happens to
+  // them; other pages just confirm
+  const [pageToDelete, setPageToDelete] = useState<{
+    id: string;
+    title: string;
+    subpageCount: number;
+  } | null>(null);
+
+  // Page being moved to another space
+  const [pageToMove, setPageToMove] = useState<{
+    id: string;
+    title: string;
+  } | null>(null);
+
+  // New page from a template (at the top level, or under parentId)
+  const [templatePageParent, setTemplatePageParent] = useState<{
+    parentId: string | null;
+  } | null>(null);
+  const [templateToSave, setTemplateToSave] =
+    useState<SaveTemplateTarget | null>(null);
+
+  // Space-wide search (also opened with Cmd/Ctrl+K)
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  // State for the participant name dialog
+  const [nameDialogOpen, setNameDialogOpen] = useState(false);
+  const [newParticipantName, setNewParticipantName] = useState("");
+
+  // Bulk Markdown import (files or a whole folder)
+  const markdownFilesInput = useRef<HTMLInputElement>(null);
+  const markdownFolderInput = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+
+  const handleMarkdownSelected = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const input = event.target;
+    if (!input.files || input.files.length === 0) return;
+
+    setIsImporting(true);
+    setImportStatus(null);
+    const { imported, error } = await handleImportMarkdown(input.files);
+    setIsImporting(false);
+    input.value = "";
+
+    const summary =
+      imported > 0
+        ? `Imported ${imported} page${imported !== 1 ? "s" : ""}.`
+        : "";
+    setImportStatus([summary, error].filter(Boolean).join(" "));
+  };
+
+  const handleNameStart = () => {
+    setNewParticipantName(participant?.name || "");
+    setNameDialogOpen(true);
+  };
+
+  const handleNameSubmit = async () => {
+    const success = await renameParticipant(newParticipantName);
+    if (success) {
+      setNameDialogOpen(false);
+    }
+  };
+
   const handleRenameStart = (page: { id: string; title: string }) => {
     setPageToRename(page);
     setNewPageTitle(page.title);
@@ -96,13 +183,29 @@ function SpaceContent() {
     }
   };
 
-  const handleDeleteClick = async (pageId: string) => {
+  const handleDeleteClick = async (page: { id: string; title: string }) => {
+    const subpageCount = getPageDescendantIds(pages, page.id).length;
+
+    if (subpageCount > 0) {
+      setPageToDelete({ ...page, subpageCount });
+      return;
+    }
+
     if (
       confirm(
-        "Are you sure you want to delete this page? This action cannot be undone."
+        `Move this page to the trash? You can restore it from the Trash for ${PAGE_TRASH_CONFIG.retentionDays} days.`
       )
     ) {
-      await handleDeletePage(pageId);
+      await handleDeletePage(page.id);
+    }
+  };
+
+  const handleDeleteSubmit = async (subpages: SubpageDeletion) => {
+    if (!pageToDelete) return;
+
+    const success = await handleDeletePage(pageToDelete.id, subpages);
+    if (success) {
+      setPageToDelete(null);
     }
   };
 
@@ -174,21 +277,37 @@ function SpaceContent() {
                   </TooltipTrigger>
                   <TooltipContent>Toggle Theme</TooltipContent>
                 </Tooltip>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <ShareSpaceModal>
-                      <Button variant="outline" className="h-8 w-8">
-                        <QrCode />
-                      </Button>
-                    </ShareSpaceModal>
-                  </TooltipTrigger>
-                  <TooltipContent>Share Space</TooltipContent>
-                </Tooltip>
+                {canEdit && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <ShareSpaceModal>
+                        <Button variant="outline" className="h-8 w-8">
+                          <QrCode />
+                        </Button>
+                      </ShareSpaceModal>
+                    </TooltipTrigger>
+                    <TooltipContent>Share Space</TooltipContent>
+                  </Tooltip>
+                )}
               </div>
             </div>
             <p className="text-lg font-bold text-muted-foreground pl-2 mt-4">
               {space.title || "Untitled Space"}
             </p>
+            {!canEdit && role && (
+              <p className="text-xs text-muted-foreground pl-2">
+                {SPACE_ROLE_LABELS[role]}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              className="mt-2 w-full justify-start text-muted-foreground"
+              onClick={() => setSearchOpen(true)}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Search
+              <kbd className="ml-auto text-xs">⌘K</kbd>
+            </Button>
           </SidebarHeader>
 
           <SidebarContent>
@@ -199,98 +318,198 @@ function SpaceContent() {
                     No pages yet
                   </p>
                 ) : (
-                  pages.map((page) => {
-                    const pagePath = `/space/${space.id}/page/${page.id}`;
-                    const isActive = location.pathname === pagePath;
-
-                    return (
-                      <ContextMenu key={page.id}>
-                        <ContextMenuTrigger>
-                          <Button
-                            variant={isActive ? "secondary" : "ghost"}
-                            className="w-full justify-start"
-                            asChild
-                          >
-                            <Link to={pagePath}>
-                              <span className="mr-2">
-                                {page.type === "document" && (
-                                  <FileText className="h-4 w-4" />
-                                )}
-                                {page.type === "moodboard" && (
-                                  <Image className="h-4 w-4" />
-                                )}
-                                {page.type === "kanban" && (
-                                  <Columns3 className="h-4 w-4" />
-                                )}
-                              </span>
-                              {page.title}
-                            </Link>
-                          </Button>
-                        </ContextMenuTrigger>
-                        <ContextMenuContent>
-                          <ContextMenuItem
-                            onClick={() => handleRenameStart(page)}
-                          >
-                            <Edit className="h-4 w-4 mr-2" />
-                            Rename
-                          </ContextMenuItem>
-                          <ContextMenuItem
-                            variant="destructive"
-                            onClick={() => handleDeleteClick(page.id)}
-                          >
-                            <Trash className="h-4 w-4 mr-2" />
-                            Delete
-                          </ContextMenuItem>
-                        </ContextMenuContent>
-                      </ContextMenu>
-                    );
-                  })
+                  <SidebarPageTree
+                    spaceId={space.id}
+                    pages={pages}
+                    activePageId={activePageId}
+                    canEdit={canEdit}
+                    onRename={handleRenameStart}
+                    onDelete={handleDeleteClick}
+                    onDuplicate={(page) => handleDuplicatePage(page.id)}
+                    onMove={setPageToMove}
+                    onSaveAsTemplate={(page) =>
+                      setTemplateToSave({ kind: "page", page })
+                    }
+                    onCreateSubpage={(parentId, type) =>
+                      handleCreatePage(type, parentId)
+                    }
+                    onCreateSubpageFromTemplate={(parentId) =>
+                      setTemplatePageParent({ parentId })
+                    }
+                    onReorder={reorderPages}
+                  />
+                )}
+                {canEdit && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="w-full">
+                        <Plus className="h-4 w-4 mr-2" />
+                        New Page
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="w-48">
+                      <DropdownMenuItem
+                        onClick={() => handleCreatePage("document")}
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        Document
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleCreatePage("moodboard")}
+                      >
+                        <Image className="h-4 w-4 mr-2" />
+                        Mood Board
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleCreatePage("kanban")}
+                      >
+                        <Columns3 className="h-4 w-4 mr-2" />
+                        Planning Board
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => setTemplatePageParent({ parentId: null })}
+                      >
+                        <LayoutTemplate className="h-4 w-4 mr-2" />
+                        From template…
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        disabled={isImporting}
+                        onClick={() => markdownFilesInput.current?.click()}
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import Markdown files
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        disabled={isImporting}
+                        onClick={() => markdownFolderInput.current?.click()}
+                      >
+                        <FolderUp className="h-4 w-4 mr-2" />
+                        Import Markdown folder
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {canEdit && (
+                  <>
+                    <input
+                      ref={markdownFilesInput}
+                      type="file"
+                      accept={MARKDOWN_FILE_ACCEPT}
+                      multiple
+                      className="hidden"
+                      onChange={handleMarkdownSelected}
+                    />
+                    {/* webkitdirectory isn't in React's input props */}
+                    <input
+                      ref={(input) => {
+                        markdownFolderInput.current = input;
+                        if (input) input.webkitdirectory = true;
+                      }}
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={handleMarkdownSelected}
+                    />
+                  </>
+                )}
+                {isImporting && (
+                  <p className="text-xs text-muted-foreground p-2">
+                    Importing Markdown...
+                  </p>
+                )}
+                {!isImporting && importStatus && (
+                  <button
+                    type="button"
+                    className="text-left text-xs text-muted-foreground p-2"
+                    onClick={() => setImportStatus(null)}
+                    title="Dismiss"
+                  >
+                    {importStatus}
+                  </button>
                 )}
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="outline" className="w-full">
-                      <Plus className="h-4 w-4 mr-2" />
-                      New Page
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="start" className="w-48">
-                    <DropdownMenuItem
-                      onClick={() => handleCreatePage("document")}
-                    >
-                      <FileText className="h-4 w-4 mr-2" />
-                      Document
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => handleCreatePage("moodboard")}
-                    >
-                      <Image className="h-4 w-4 mr-2" />
-                      Mood Board
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => handleCreatePage("kanban")}
-                    >
-                      <Columns3 className="h-4 w-4 mr-2" />
-                      Planning Board
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
               </SidebarGroupContent>
             </SidebarGroup>
+
+            {canEdit && <SidebarTrash />}
+
+            {onlineParticipants.length > 0 && (
+              <SidebarGroup>
+                <SidebarGroupLabel>
+                  Online ({onlineParticipants.length})
+                </SidebarGroupLabel>
+                <SidebarGroupContent className="flex flex-col gap-1">
+                  {onlineParticipants.map((online) => {
+                    const isSelf = online.participantId === participant?.id;
+                    const onPage = pages.find(
+                      (page) => page.id === online.pageId
+                    );
+
+                    return (
+                      <button
+                        key={online.participantId}
+                        type="button"
+                        className={cn(
+                          "flex items-center gap-2 rounded-md px-2 py-1 text-left text-sm",
+                          isSelf ? "hover:bg-accent" : "cursor-default"
+                        )}
+                        onClick={isSelf ? handleNameStart : undefined}
+                        title={isSelf ? "Change your name" : undefined}
+                      >
+                        <span
+                          className="h-2 w-2 shrink-0 rounded-full"
+                          style={{ backgroundColor: online.color }}
+                        />
+                        <span className="truncate">
+                          {online.name}
+                          {isSelf && (
+                            <span className="text-muted-foreground"> (you)</span>
+                          )}
+                        </span>
+                        {onPage && (
+                          <span className="ml-auto truncate text-xs text-muted-foreground">
+                            {onPage.title}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </SidebarGroupContent>
+              </SidebarGroup>
+            )}
           </SidebarContent>
 
           <SidebarFooter>
             <div className="flex items-center justify-between text-muted-foreground">
               <p className="text-xs">Space ID: {space.id}</p>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <SpaceSettingsModal>
-                    <Button variant="ghost" size="icon" className="h-6 w-6">
-                      <Settings className="h-3 w-3" />
-                    </Button>
-                  </SpaceSettingsModal>
-                </TooltipTrigger>
-                <TooltipContent>Space Settings</TooltipContent>
-              </Tooltip>
+              {canEdit && (
+                <div className="flex items-center">
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={pages.length === 0}
+                        onClick={() => setTemplateToSave({ kind: "space" })}
+                      >
+                        <LayoutTemplate className="h-3 w-3" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Save Space as Template</TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <SpaceSettingsModal>
+                        <Button variant="ghost" size="icon" className="h-6 w-6">
+                          <Settings className="h-3 w-3" />
+                        </Button>
+                      </SpaceSettingsModal>
+                    </TooltipTrigger>
+                    <TooltipContent>Space Settings</TooltipContent>
+                  </Tooltip>
+                </div>
+              )}
             </div>
           </SidebarFooter>
         </Sidebar>
@@ -303,26 +522,39 @@ function SpaceContent() {
               {space.title || "Untitled Space"}
             </h2>
             <div className="flex items-center gap-1 shrink-0">
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <ShareSpaceModal>
-                    <Button variant="outline" size="icon" className="h-8 w-8">
-                      <QrCode className="h-4 w-4" />
-                    </Button>
-                  </ShareSpaceModal>
-                </TooltipTrigger>
-                <TooltipContent>Share Space</TooltipContent>
-              </Tooltip>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <SpaceSettingsModal>
-                    <Button variant="outline" size="icon" className="h-8 w-8">
-                      <Settings className="h-4 w-4" />
-                    </Button>
-                  </SpaceSettingsModal>
-                </TooltipTrigger>
-                <TooltipContent>Space Settings</TooltipContent>
-              </Tooltip>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setSearchOpen(true)}
+                title="Search"
+              >
+                <Search className="h-4 w-4" />
+              </Button>
+              {canEdit && (
+                <>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <ShareSpaceModal>
+                        <Button variant="outline" size="icon" className="h-8 w-8">
+                          <QrCode className="h-4 w-4" />
+                        </Button>
+                      </ShareSpaceModal>
+                    </TooltipTrigger>
+                    <TooltipContent>Share Space</TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <SpaceSettingsModal>
+                        <Button variant="outline" size="icon" className="h-8 w-8">
+                          <Settings className="h-4 w-4" />
+                        </Button>
+                      </SpaceSettingsModal>
+                    </TooltipTrigger>
+                    <TooltipContent>Space Settings</TooltipContent>
+                  </Tooltip>
+                </>
+              )}
             </div>
           </div>
           
@@ -330,6 +562,8 @@ function SpaceContent() {
         </SidebarInset>
       </div>
 
+      <SpaceSearchDialog open={searchOpen} onOpenChange={setSearchOpen} />
+
       {/* Rename Dialog */}
       <Dialog open={renameDialogOpen} onOpenChange={setRenameDialogOpen}>
         <DialogContent>
@@ -359,6 +593,89 @@ function SpaceContent() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Delete Page With Subpages Dialog */}
+      <Dialog
+        open={pageToDelete !== null}
+        onOpenChange={(open) => !open && setPageToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move "{pageToDelete?.title}" to the trash?</DialogTitle>
+            <DialogDescription>
+              This page has {pageToDelete?.subpageCount} subpage
+              {pageToDelete?.subpageCount !== 1 ? "s" : ""}. You can move them
+              to the trash with it, or keep them by moving them up one level.
+              Pages in the trash can be restored for{" "}
+              {PAGE_TRASH_CONFIG.retentionDays} days.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <Button variant="outline" onClick={() => setPageToDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleDeleteSubmit("move_up")}
+            >
+              Trash page, move subpages up
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => handleDeleteSubmit("delete")}
+            >
+              Trash page and {pageToDelete?.subpageCount} subpage
+              {pageToDelete?.subpageCount !== 1 ? "s" : ""}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <MovePageDialog
+        page={pageToMove}
+        onOpenChange={(open) => !open && setPageToMove(null)}
+      />
+
+      <PageTemplateDialog
+        open={templatePageParent !== null}
+        parentId={templatePageParent?.parentId ?? null}
+        onOpenChange={(open) => !open && setTemplatePageParent(null)}
+      />
+
+      <SaveTemplateDialog
+        target={templateToSave}
+        onOpenChange={(open) => !open && setTemplateToSave(null)}
+      />
+
+      {/* Participant Name Dialog */}
+      <Dialog open={nameDialogOpen} onOpenChange={setNameDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Your Name</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={newParticipantName}
+              onChange={(e) => setNewParticipantName(e.target.value)}
+              placeholder="How others in this space see you"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  handleNameSubmit();
+                }
+              }}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => setNameDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button onClick={handleNameSubmit}>Save</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
@@ -0,0 +1,86 @@
+-- Migration: Password lockout and access log
+-- This file contains the SQL migration for brute-force protection on space
+-- passwords. Failed attempts are counted per IP and per space with an
+-- exponential lockout, and every join attempt is written to auth_events.
+
+-- 1. Failure counters, keyed "ip:<address>" or "space:<space id>"
+CREATE TABLE IF NOT EXISTS auth_failures (
+  key TEXT PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failure_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ
+);
+
+ALTER TABLE auth_failures ENABLE ROW LEVEL SECURITY;
+
+-- 2. Count a failure and lock the key once past the free attempts. Each
+-- further failure doubles the lock, capped at p_max_ms. Counters start over
+-- when the last failure is older than p_reset_after_ms.
+-- Returns the end of the lock, or NULL while the key isn't locked.
+CREATE OR REPLACE FUNCTION record_auth_failure(
+  p_key TEXT,
+  p_free_attempts INTEGER,
+  p_base_ms INTEGER,
+  p_max_ms INTEGER,
+  p_reset_after_ms INTEGER
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_failures INTEGER;
+  v_locked_until TIMESTAMPTZ;
+BEGIN
+  INSERT INTO auth_failures AS f (key, failures, last_failure_at)
+  VALUES (p_key, 1, NOW())
+  ON CONFLICT (key) DO UPDATE SET
+    failures = CASE
+      WHEN f.last_failure_at < NOW() - p_reset_after_ms * INTERVAL '1 millisecond' THEN 1
+      ELSE f.failures + 1
+    END,
+    last_failure_at = NOW()
+  RETURNING f.failures INTO v_failures;
+
+  IF v_failures > p_free_attempts THEN
+    v_locked_until := NOW() + LEAST(
+      p_base_ms * POWER(2, LEAST(v_failures - p_free_attempts - 1, 30)),
+      p_max_ms
+    ) * INTERVAL '1 millisecond';
+
+    UPDATE auth_failures SET locked_until = v_locked_until WHERE key = p_key;
+  END IF;
+
+  RETURN v_locked_until;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_auth_failure(TEXT, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_auth_failure(TEXT, INTEGER, INTEGER, INTEGER, INTEGER) TO service_role;
+
+-- 3. Access log shown in space settings
+CREATE TABLE IF NOT EXISTS auth_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id TEXT NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure', 'locked')),
+  method TEXT NOT NULL DEFAULT 'password' CHECK (method IN ('password', 'share_link')),
+  origin TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_events_space_created
+  ON auth_events(space_id, created_at DESC);
+
+ALTER TABLE auth_events ENABLE ROW LEVEL SECURITY;
+
+-- Notes:
+-- Run after sql-migration-share-links.sql. Both tables are server only
+-- (RLS without policies).
+--
+-- Thresholds and lock durations are passed in from AUTH_LOCKOUT_CONFIG in
+-- app/lib/rate-limit-config.ts.
+--
+-- origin holds only the /24 (IPv4) or /48 (IPv6) network and, when the host
+-- sends one, the country header; full addresses are never logged.
+--
+-- To trim old log entries:
+-- DELETE FROM auth_events WHERE created_at < NOW() - INTERVAL '90 days';
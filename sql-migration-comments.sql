@@ -0,0 +1,44 @@
+-- Migration: Comment threads on documents
+-- This file contains the SQL migration for comments, discussion threads on
+-- document pages. A thread starts with a comment anchored to a block (by the
+-- block's Plate id, like document_blocks.block_id) and optionally to a piece
+-- of its text; replies point at that first comment. Anchors aren't written
+-- into the document, so commenters don't need edit access, and edits to
+-- other blocks don't affect them.
+
+-- 1. Create the comments table
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  block_id TEXT NOT NULL,
+  -- The thread's first comment; NULL for the first comment itself
+  thread_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+  -- Kept as it was when commenting, even if the participant is renamed
+  author_name TEXT NOT NULL,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 5000),
+  -- First comment only: the commented text and where it started in the
+  -- block's text (NULL for a comment on the whole block), and when the
+  -- thread was resolved
+  quote TEXT,
+  quote_offset INTEGER,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_page_created
+  ON comments(page_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_comments_thread
+  ON comments(thread_id);
+
+-- 2. Server only: RLS without policies hides the table from the anon key
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+-- Notes:
+-- Comments are read and written through /api/page/:id/comments, which checks
+-- the space role (commenters and editors can comment, anyone with access can
+-- read) and broadcasts new comments on the page's comments:<page id> channel.
+--
+-- A thread whose block is deleted stays in the panel with its quote, marked
+-- as detached.
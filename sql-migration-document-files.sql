@@ -0,0 +1,48 @@
+-- Migration: Images and file attachments in documents
+-- This file contains the SQL migration for the document-files storage bucket,
+-- which holds images and attachments added to document pages, one folder per
+-- page (<page id>/<uuid>-<name>), and for the 'file' block type.
+
+-- 1. Create the document-files bucket. It's public so files load by URL in
+--    the editor, exports and other participants' browsers. The size limit
+--    matches DOCUMENT_FILE_LIMITS.maxFileBytes (32 MB).
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('document-files', 'document-files', true, 33554432)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit;
+
+-- 2. No insert, update or delete policies: uploads go through signed upload
+--    URLs handed out by the server (api/page/:id/files) after checking page
+--    access, and the server removes a page's folder when the page is deleted.
+
+-- 3. Allow 'file' blocks in document_blocks
+ALTER TABLE document_blocks DROP CONSTRAINT IF EXISTS document_blocks_type_check;
+
+ALTER TABLE document_blocks
+ADD CONSTRAINT document_blocks_type_check
+CHECK (type IN (
+    'paragraph',
+    'heading',
+    'quote',
+    'divider',
+    'list',
+    'list_item',
+    'code',
+    'code_block',
+    'image',
+    'file',
+    'text',
+    'table',
+    'table_row',
+    'table_cell',
+    'table_header',
+    'unknown'
+));
+
+-- Notes:
+-- Images are converted to WebP in the browser before upload (GIFs and SVGs are
+-- kept as they are), the same way as moodboard images.
+--
+-- Files removed from a document stay in the bucket until the page is deleted,
+-- so restoring an older version of the page still shows them.
@@ -0,0 +1,183 @@
+-- Migration: Document version history
+-- This file contains the SQL migration for document_versions, snapshots of
+-- whole document pages that can be previewed and restored from the history
+-- panel. Snapshots are taken by save_document_blocks (replaced here):
+--   * periodically: the saved content, when the latest snapshot is older than
+--     the interval
+--   * before a large change: the content as it was, when a save adds or
+--     removes a lot of text at once (e.g. select-all + delete)
+-- and by the app right before a version is restored.
+-- Requires sql-migration-incremental-blocks.sql.
+
+-- 1. Create the document_versions table
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  content JSONB NOT NULL, -- the page's Plate value (array of blocks)
+  reason TEXT NOT NULL CHECK (reason IN ('auto', 'before_change', 'before_restore')),
+  participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+  char_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_page_created
+  ON document_versions(page_id, created_at DESC);
+
+-- 2. Server only: RLS without policies hides the table from the anon key
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+-- 3. Characters of text in a Plate value (or a single block)
+CREATE OR REPLACE FUNCTION document_char_count(p_content JSONB)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(SUM(LENGTH(t #>> '{}')), 0)::INTEGER
+  FROM jsonb_path_query(p_content, 'strict $.**.text') AS t;
+$$;
+
+-- 4. Record a snapshot, keeping the newest p_max_versions of the page. The
+--    participant is only kept when they belong to the page's space.
+CREATE OR REPLACE FUNCTION create_document_version(
+  p_page_id UUID,
+  p_content JSONB,
+  p_reason TEXT,
+  p_participant_id UUID,
+  p_max_versions INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO document_versions (page_id, content, reason, participant_id, char_count)
+  VALUES (
+    p_page_id,
+    p_content,
+    p_reason,
+    (SELECT pa.id FROM participants pa
+     JOIN pages pg ON pg.space_id = pa.space_id
+     WHERE pa.id = p_participant_id AND pg.id = p_page_id),
+    document_char_count(p_content)
+  )
+  RETURNING id INTO v_id;
+
+  DELETE FROM document_versions
+  WHERE page_id = p_page_id
+    AND id NOT IN (
+      SELECT id FROM document_versions
+      WHERE page_id = p_page_id
+      ORDER BY created_at DESC
+      LIMIT p_max_versions
+    );
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_document_version(UUID, JSONB, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_document_version(UUID, JSONB, TEXT, UUID, INTEGER) TO service_role;
+
+-- 5. save_document_blocks with snapshots (same block handling as before)
+DROP FUNCTION IF EXISTS save_document_blocks(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION save_document_blocks(
+  p_page_id UUID,
+  p_blocks JSONB,
+  p_participant_id UUID,
+  p_version_interval_ms INTEGER,
+  p_large_change_chars INTEGER,
+  p_max_versions INTEGER
+)
+RETURNS TABLE (inserted INTEGER, updated INTEGER, deleted INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_deleted INTEGER := 0;
+  v_previous JSONB;
+  v_previous_chars INTEGER;
+  v_next JSONB;
+  v_last_version TIMESTAMPTZ;
+BEGIN
+  -- Saves of the same page (one per open editor) run one after another
+  PERFORM 1 FROM pages WHERE id = p_page_id FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(content ORDER BY "order", id), '[]'::JSONB)
+  INTO v_previous
+  FROM document_blocks
+  WHERE page_id = p_page_id;
+
+  v_previous_chars := document_char_count(v_previous);
+
+  -- Keep what the page looked like before a large change
+  IF v_previous_chars > 0
+     AND ABS(v_previous_chars - document_char_count(p_blocks)) >= p_large_change_chars THEN
+    PERFORM create_document_version(p_page_id, v_previous, 'before_change', p_participant_id, p_max_versions);
+  END IF;
+
+  DELETE FROM document_blocks
+  WHERE page_id = p_page_id
+    AND block_id NOT IN (
+      SELECT b->>'block_id' FROM jsonb_array_elements(p_blocks) AS b
+    );
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  WITH incoming AS (
+    SELECT
+      b->>'block_id' AS block_id,
+      b->'content' AS content,
+      b->>'type' AS type,
+      (b->>'order')::INTEGER AS "order"
+    FROM jsonb_array_elements(p_blocks) AS b
+  ),
+  written AS (
+    INSERT INTO document_blocks AS d (page_id, block_id, content, type, "order")
+    SELECT p_page_id, block_id, content, type, "order" FROM incoming
+    ON CONFLICT (page_id, block_id) DO UPDATE SET
+      content = EXCLUDED.content,
+      type = EXCLUDED.type,
+      "order" = EXCLUDED."order"
+    WHERE (d.content, d.type, d."order")
+      IS DISTINCT FROM (EXCLUDED.content, EXCLUDED.type, EXCLUDED."order")
+    RETURNING (xmax = 0) AS is_insert
+  )
+  SELECT
+    COUNT(*) FILTER (WHERE is_insert),
+    COUNT(*) FILTER (WHERE NOT is_insert)
+  INTO v_inserted, v_updated
+  FROM written;
+
+  -- Periodic snapshot of the saved content
+  IF v_inserted + v_updated + v_deleted > 0 THEN
+    SELECT MAX(created_at) INTO v_last_version
+    FROM document_versions
+    WHERE page_id = p_page_id;
+
+    IF v_last_version IS NULL
+       OR v_last_version < NOW() - p_version_interval_ms * INTERVAL '1 millisecond' THEN
+      SELECT COALESCE(jsonb_agg(b->'content' ORDER BY (b->>'order')::INTEGER), '[]'::JSONB)
+      INTO v_next
+      FROM jsonb_array_elements(p_blocks) AS b;
+
+      PERFORM create_document_version(p_page_id, v_next, 'auto', p_participant_id, p_max_versions);
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_inserted, v_updated, v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_document_blocks(UUID, JSONB, UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_document_blocks(UUID, JSONB, UUID, INTEGER, INTEGER, INTEGER) TO service_role;
+
+-- Notes:
+-- The interval, the large change threshold and how many versions to keep are
+-- passed in by the server from DOCUMENT_VERSION_CONFIG in
+-- app/lib/document-versions.ts.
+--
+-- Restoring a version doesn't write document_blocks directly: the editor
+-- replaces its content, which reaches collaborators through Yjs and is then
+-- autosaved like any other edit.
@@ -0,0 +1,40 @@
+-- Migration: Add document_yjs_state table for collaborative document editing
+-- This file contains the SQL migration for persisting the Yjs document state
+-- of each document page alongside the document_blocks snapshot
+
+-- 1. Create the document_yjs_state table (one row per document page)
+CREATE TABLE IF NOT EXISTS document_yjs_state (
+    page_id UUID PRIMARY KEY REFERENCES pages(id) ON DELETE CASCADE,
+    state TEXT NOT NULL, -- base64 encoded Y.encodeStateAsUpdate() output
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Enable RLS on document_yjs_state table
+ALTER TABLE document_yjs_state ENABLE ROW LEVEL SECURITY;
+
+-- 3. Policies (same open access model as document_blocks)
+CREATE POLICY "Allow read access to all document yjs state" ON document_yjs_state
+    FOR SELECT
+    USING (true);
+
+CREATE POLICY "Allow creating document yjs state in any page" ON document_yjs_state
+    FOR INSERT
+    WITH CHECK (true);
+
+CREATE POLICY "Allow updating document yjs state in any page" ON document_yjs_state
+    FOR UPDATE
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Allow deleting document yjs state in any page" ON document_yjs_state
+    FOR DELETE
+    USING (true);
+
+-- Notes:
+-- Live edits are exchanged between clients over a Supabase Realtime broadcast
+-- channel named "yjs:<page_id>" (no table replication is needed for this).
+-- document_blocks is still written on autosave so that other features can
+-- read the document without decoding the Yjs state.
+--
+-- To reset a document to its document_blocks snapshot:
+-- DELETE FROM document_yjs_state WHERE page_id = '<page_id>';
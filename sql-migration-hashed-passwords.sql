@@ -0,0 +1,41 @@
+-- Migration: Hash space passwords and hide them from clients
+-- This file contains the SQL migration for storing space passwords as bcrypt
+-- hashes. Passwords are verified server-side only (api.auth-space.ts), which
+-- then issues a signed, expiring httpOnly session cookie.
+
+-- 1. pgcrypto provides bcrypt (crypt + gen_salt('bf'))
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- 2. Hash existing plaintext passwords in place
+-- bcrypt hashes start with "$2", so rerunning this migration is harmless
+UPDATE spaces
+SET password = crypt(password, gen_salt('bf', 10))
+WHERE password IS NOT NULL
+  AND password NOT LIKE '$2%';
+
+-- 3. Remove plaintext passwords that were embedded in share links
+UPDATE spaces
+SET qr_code_data = regexp_replace(qr_code_data, '\?(password|pwd)=.*$', '')
+WHERE qr_code_data ~ '\?(password|pwd)=';
+
+-- 4. Expose whether a space is protected without exposing the hash
+ALTER TABLE spaces
+ADD COLUMN IF NOT EXISTS has_password BOOLEAN GENERATED ALWAYS AS (password IS NOT NULL) STORED;
+
+-- 5. Clients (anon/authenticated roles) can no longer read or write the
+-- password column. Spaces are created and passwords changed through the
+-- server, which uses the service role key.
+REVOKE SELECT, INSERT, UPDATE ON spaces FROM anon, authenticated;
+GRANT SELECT (id, title, qr_code_data, created_at, last_accessed, has_password)
+    ON spaces TO anon, authenticated;
+GRANT UPDATE (title, last_accessed) ON spaces TO anon, authenticated;
+
+-- Notes:
+-- The server needs these environment variables:
+--   SUPABASE_SERVICE_ROLE_KEY  service role key (bypasses the grants above)
+--   SESSION_SECRET             secret used to sign the session cookie
+--
+-- Rotating SESSION_SECRET signs everyone out of every protected space.
+--
+-- To check that the password column is hidden (should fail as anon):
+-- SET ROLE anon; SELECT password FROM spaces LIMIT 1; RESET ROLE;
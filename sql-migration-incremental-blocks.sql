@@ -0,0 +1,105 @@
+-- Migration: Incremental document block saves
+-- This file contains the SQL migration for saving document pages block by
+-- block. Rows are keyed by the Plate node id of their block, and one function
+-- applies a save in a single transaction: blocks that are gone are deleted,
+-- new ones inserted, and existing rows only rewritten when their content, type
+-- or position changed. Before this, every save deleted and re-inserted all
+-- blocks of the page.
+
+-- 1. Stable block ids. Existing rows take the id Plate stored in the block,
+--    or their row id when the block has none (it's written into the content
+--    so the editor keeps using it).
+ALTER TABLE document_blocks ADD COLUMN IF NOT EXISTS block_id TEXT;
+
+UPDATE document_blocks
+SET content = jsonb_set(content, '{id}', to_jsonb(id::TEXT))
+WHERE block_id IS NULL
+  AND jsonb_typeof(content) = 'object'
+  AND (content->>'id') IS NULL;
+
+UPDATE document_blocks
+SET block_id = COALESCE(content->>'id', id::TEXT)
+WHERE block_id IS NULL;
+
+-- Old saves could repeat a block id within a page; keep the first one and
+-- give the rest their row id
+WITH duplicates AS (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY page_id, block_id ORDER BY "order", id) AS n
+  FROM document_blocks
+)
+UPDATE document_blocks b
+SET block_id = b.id::TEXT,
+    content = CASE WHEN jsonb_typeof(b.content) = 'object'
+                   THEN jsonb_set(b.content, '{id}', to_jsonb(b.id::TEXT))
+                   ELSE b.content END
+FROM duplicates d
+WHERE d.id = b.id AND d.n > 1;
+
+ALTER TABLE document_blocks ALTER COLUMN block_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_blocks_page_block
+  ON document_blocks(page_id, block_id);
+
+-- 2. Apply a save. p_blocks is the whole document in order:
+--    [{ "block_id": ..., "content": {...}, "type": ..., "order": n }, ...]
+CREATE OR REPLACE FUNCTION save_document_blocks(p_page_id UUID, p_blocks JSONB)
+RETURNS TABLE (inserted INTEGER, updated INTEGER, deleted INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_deleted INTEGER := 0;
+BEGIN
+  -- Saves of the same page (one per open editor) run one after another
+  PERFORM 1 FROM pages WHERE id = p_page_id FOR UPDATE;
+
+  DELETE FROM document_blocks
+  WHERE page_id = p_page_id
+    AND block_id NOT IN (
+      SELECT b->>'block_id' FROM jsonb_array_elements(p_blocks) AS b
+    );
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  WITH incoming AS (
+    SELECT
+      b->>'block_id' AS block_id,
+      b->'content' AS content,
+      b->>'type' AS type,
+      (b->>'order')::INTEGER AS "order"
+    FROM jsonb_array_elements(p_blocks) AS b
+  ),
+  written AS (
+    INSERT INTO document_blocks AS d (page_id, block_id, content, type, "order")
+    SELECT p_page_id, block_id, content, type, "order" FROM incoming
+    ON CONFLICT (page_id, block_id) DO UPDATE SET
+      content = EXCLUDED.content,
+      type = EXCLUDED.type,
+      "order" = EXCLUDED."order"
+    WHERE (d.content, d.type, d."order")
+      IS DISTINCT FROM (EXCLUDED.content, EXCLUDED.type, EXCLUDED."order")
+    RETURNING (xmax = 0) AS is_insert
+  )
+  SELECT
+    COUNT(*) FILTER (WHERE is_insert),
+    COUNT(*) FILTER (WHERE NOT is_insert)
+  INTO v_inserted, v_updated
+  FROM written;
+
+  RETURN QUERY SELECT v_inserted, v_updated, v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_document_blocks(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_document_blocks(UUID, JSONB) TO service_role;
+
+-- Notes:
+-- The server assigns an id to blocks that arrive without one (e.g. pages
+-- created by Markdown import) and stores it in the content, so the next save
+-- of that block updates the same row.
+--
+-- A function call is its own transaction, so a failed save leaves the
+-- previous version of the page untouched.
+--
+-- "order" is the block's position, so inserting a block near the top also
+-- rewrites the order of the blocks below it (only that column changes).
@@ -0,0 +1,54 @@
+-- Migration: Nested pages
+-- This file contains the SQL migration for page hierarchies: pages.parent_id
+-- makes a page a subpage of another page in the same space. The sidebar shows
+-- the pages as a tree and each page shows its ancestors as breadcrumbs.
+
+-- 1. Add the parent page. Top-level pages have none.
+ALTER TABLE pages
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES pages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_pages_parent ON pages(parent_id);
+
+-- 2. A parent must be in the same space, and a page can't end up below
+--    itself (directly or through its subpages)
+CREATE OR REPLACE FUNCTION check_page_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pages WHERE id = NEW.parent_id AND space_id = NEW.space_id
+  ) THEN
+    RAISE EXCEPTION 'Parent page must be in the same space';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM pages WHERE id = NEW.parent_id
+      UNION
+      SELECT p.id, p.parent_id FROM pages p JOIN ancestors a ON p.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A page cannot be moved below itself';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pages_check_parent ON pages;
+CREATE TRIGGER pages_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id, space_id ON pages
+  FOR EACH ROW EXECUTE FUNCTION check_page_parent();
+
+-- Notes:
+-- Deleting a page from the app either deletes its subpages too or first
+-- moves them up to the deleted page's parent; the person deleting chooses.
+-- Deleting a page directly in the database deletes its subpages (CASCADE).
+--
+-- Order among siblings is still pages.order, as for top-level pages.
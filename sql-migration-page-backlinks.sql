@@ -0,0 +1,40 @@
+-- Migration: Page backlinks
+-- This file contains the SQL migration for get_page_backlinks, which finds
+-- the pages of a space whose saved document blocks link to a page, through a
+-- page mention ({"type": "mention", "key": <page id>}) anywhere in a block or
+-- a page embed ({"type": "page_embed", "pageId": <page id>}).
+
+-- 1. Pages of the same space linking to p_page_id, by title
+CREATE OR REPLACE FUNCTION get_page_backlinks(p_page_id UUID)
+RETURNS TABLE (id UUID, title TEXT, type TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT source.id, source.title, source.type
+  FROM pages target
+  JOIN pages source
+    ON source.space_id = target.space_id
+   AND source.id <> target.id
+  WHERE target.id = p_page_id
+    AND EXISTS (
+      SELECT 1 FROM document_blocks b
+      WHERE b.page_id = source.id
+        AND jsonb_path_exists(
+          b.content,
+          'strict $.** ? ((@.type == "mention" && @.key == $id) || (@.type == "page_embed" && @.pageId == $id))',
+          jsonb_build_object('id', p_page_id::TEXT)
+        )
+    )
+  ORDER BY source.title, source.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_page_backlinks(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_page_backlinks(UUID) TO service_role;
+
+-- Notes:
+-- Backlinks come from document_blocks, so a new link shows up once the
+-- linking page has been autosaved.
+--
+-- The scan reads every document block of the space. That's fine at the size
+-- of a space; if it ever isn't, keep the linked page ids in their own table
+-- when saving blocks.
@@ -0,0 +1,144 @@
+-- Migration: Duplicate pages and move them between spaces
+-- This file contains the SQL migration for two functions behind the sidebar's
+-- page menu: duplicate_page copies a page with all of its content, and
+-- move_page_to_space moves a page (with its subpages) to another space. Both
+-- run in a single transaction.
+
+-- 1. Copy a page into a new page p_new_page_id, placed right after it among
+--    its siblings: document blocks, kanban columns with their cards, and
+--    moodboard items (image items keep pointing at the same image files).
+--    Document blocks have p_file_url_from replaced with p_file_url_to, so
+--    they can point at copies of the page's uploaded files (the server copies
+--    the files first; pass '' for both to keep the URLs).
+CREATE OR REPLACE FUNCTION duplicate_page(
+  p_page_id UUID,
+  p_new_page_id UUID,
+  p_title TEXT,
+  p_file_url_from TEXT,
+  p_file_url_to TEXT
+)
+RETURNS SETOF pages
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_page pages%ROWTYPE;
+  v_column RECORD;
+  v_new_column_id UUID;
+BEGIN
+  SELECT * INTO v_page FROM pages
+  WHERE id = p_page_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Page not found';
+  END IF;
+
+  UPDATE pages
+  SET "order" = "order" + 1
+  WHERE space_id = v_page.space_id
+    AND parent_id IS NOT DISTINCT FROM v_page.parent_id
+    AND "order" > v_page."order";
+
+  INSERT INTO pages (id, space_id, parent_id, title, type, "order")
+  VALUES (p_new_page_id, v_page.space_id, v_page.parent_id, p_title, v_page.type, v_page."order" + 1);
+
+  INSERT INTO document_blocks (page_id, block_id, content, type, "order")
+  SELECT p_new_page_id,
+         block_id,
+         CASE WHEN p_file_url_from = '' THEN content
+              ELSE replace(content::TEXT, p_file_url_from, p_file_url_to)::JSONB END,
+         type,
+         "order"
+  FROM document_blocks
+  WHERE page_id = p_page_id;
+
+  FOR v_column IN
+    SELECT id, title, "order" FROM kanban_columns WHERE page_id = p_page_id
+  LOOP
+    INSERT INTO kanban_columns (page_id, title, "order")
+    VALUES (p_new_page_id, v_column.title, v_column."order")
+    RETURNING id INTO v_new_column_id;
+
+    INSERT INTO kanban_cards (column_id, content, "order")
+    SELECT v_new_column_id, content, "order"
+    FROM kanban_cards
+    WHERE column_id = v_column.id;
+  END LOOP;
+
+  INSERT INTO moodboard_items (page_id, type, properties)
+  SELECT p_new_page_id, type, properties
+  FROM moodboard_items
+  WHERE page_id = p_page_id;
+
+  RETURN QUERY SELECT * FROM pages WHERE id = p_new_page_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION duplicate_page(UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION duplicate_page(UUID, UUID, TEXT, TEXT, TEXT) TO service_role;
+
+-- 2. Move a page and everything below it to another space. The page becomes
+--    a top-level page at the end of the target space. Returns the ids of the
+--    moved pages. Space ids are 8-character TEXT (see generateSpaceId); the
+--    first version of this function took a UUID and is dropped.
+DROP FUNCTION IF EXISTS move_page_to_space(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION move_page_to_space(p_page_id UUID, p_space_id TEXT)
+RETURNS TABLE (id UUID)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_page pages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_page FROM pages p
+  WHERE p.id = p_page_id AND p.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Page not found';
+  END IF;
+
+  IF v_page.space_id = p_space_id THEN
+    RAISE EXCEPTION 'The page is already in this space';
+  END IF;
+
+  UPDATE pages p
+  SET space_id = p_space_id,
+      parent_id = NULL,
+      "order" = (SELECT COALESCE(MAX(t."order"), 0) + 1 FROM pages t WHERE t.space_id = p_space_id)
+  WHERE p.id = p_page_id;
+
+  -- Subpages follow a level at a time, so each one's parent is already in
+  -- the target space when check_page_parent looks at it
+  LOOP
+    UPDATE pages child
+    SET space_id = p_space_id
+    FROM pages parent
+    WHERE child.parent_id = parent.id
+      AND parent.space_id = p_space_id
+      AND child.space_id = v_page.space_id;
+
+    EXIT WHEN NOT FOUND;
+  END LOOP;
+
+  RETURN QUERY
+  WITH RECURSIVE moved AS (
+    SELECT p.id FROM pages p WHERE p.id = p_page_id
+    UNION
+    SELECT p.id FROM pages p JOIN moved m ON p.parent_id = m.id
+  )
+  SELECT moved.id FROM moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION move_page_to_space(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION move_page_to_space(UUID, TEXT) TO service_role;
+
+-- Notes:
+-- A duplicate doesn't include the original's subpages, comments or version
+-- history. Documents are copied from their last autosave (document_blocks);
+-- the copy has no Yjs state yet and starts from those blocks.
+--
+-- Moving keeps the page's content, comments and history with it, since they
+-- hang off the page id. Mentions and embeds of the page in documents of the
+-- old space stop resolving, as for a deleted page.
@@ -0,0 +1,38 @@
+-- Migration: Page order
+-- This file contains the SQL migration for reordering pages from the sidebar.
+-- reorder_pages writes the new order of a set of sibling pages in one
+-- statement, so a reorder is never half applied.
+
+-- 1. Number p_page_ids 1, 2, 3, ... in the given order. Ids that aren't pages
+--    of the space are ignored; returns how many pages were updated.
+-- Space ids are 8-character TEXT (see generateSpaceId); drop the first
+-- version of this function, which took a UUID
+DROP FUNCTION IF EXISTS reorder_pages(UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION reorder_pages(p_space_id TEXT, p_page_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE pages p
+  SET "order" = ordered.position
+  FROM unnest(p_page_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE p.id = ordered.id
+    AND p.space_id = p_space_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reorder_pages(TEXT, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reorder_pages(TEXT, UUID[]) TO service_role;
+
+-- Notes:
+-- The app reorders the pages under one parent (or the top-level pages) at a
+-- time, always passing all of them. Siblings only need to be in order among
+-- themselves, so different parents reuse the same numbers.
+--
+-- New pages still get the space's highest order + 1 and land at the end.
@@ -0,0 +1,188 @@
+-- Migration: Page trash
+-- This file contains the SQL migration for the trash of a space. Deleting a
+-- page from the app sets pages.deleted_at instead of removing the row, so the
+-- page and its content can be restored from the sidebar's Trash until it's
+-- purged. Trashed pages are left out of the page list, search and backlinks.
+
+-- 1. When the page was moved to the trash. Live pages have none.
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pages_trash
+  ON pages(space_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- 2. Backlinks only come from pages that aren't in the trash
+CREATE OR REPLACE FUNCTION get_page_backlinks(p_page_id UUID)
+RETURNS TABLE (id UUID, title TEXT, type TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT source.id, source.title, source.type
+  FROM pages target
+  JOIN pages source
+    ON source.space_id = target.space_id
+   AND source.id <> target.id
+  WHERE target.id = p_page_id
+    AND source.deleted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM document_blocks b
+      WHERE b.page_id = source.id
+        AND jsonb_path_exists(
+          b.content,
+          'strict $.** ? ((@.type == "mention" && @.key == $id) || (@.type == "page_embed" && @.pageId == $id))',
+          jsonb_build_object('id', p_page_id::TEXT)
+        )
+    )
+  ORDER BY source.title, source.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_page_backlinks(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_page_backlinks(UUID) TO service_role;
+
+-- 3. Search skips pages in the trash (same function as in
+--    sql-migration-space-search.sql, with the deleted_at checks added)
+-- Space ids are 8-character TEXT (see generateSpaceId); drop the first
+-- version of this function, which took a UUID
+DROP FUNCTION IF EXISTS search_space(UUID, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_space(p_space_id TEXT, p_query TEXT, p_limit INTEGER)
+RETURNS TABLE (
+  page_id UUID,
+  page_title TEXT,
+  page_type TEXT,
+  kind TEXT,
+  target_id TEXT,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_query TSQUERY;
+  v_headline TEXT := format(
+    'StartSel=%s, StopSel=%s, MaxWords=24, MinWords=8, ShortWord=2, MaxFragments=1',
+    chr(2), chr(3)
+  );
+BEGIN
+  -- Each word becomes a quoted prefix term, so no input is tsquery syntax
+  SELECT to_tsquery('simple', string_agg(quote_literal(w) || ':*', ' & '))
+  INTO v_query
+  FROM regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') AS w
+  WHERE w <> '';
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT p.id, p.title, p.type, 'page'::TEXT, NULL::TEXT,
+           ts_headline('simple', p.title, v_query, v_headline),
+           -- Title matches first
+           (ts_rank(to_tsvector('simple', p.title), v_query) + 1)::REAL
+    FROM pages p
+    WHERE p.space_id = p_space_id
+      AND p.deleted_at IS NULL
+      AND to_tsvector('simple', p.title) @@ v_query
+
+    UNION ALL
+
+    SELECT p.id, p.title, p.type, 'block'::TEXT, b.block_id,
+           ts_headline('simple', document_block_text(b.content), v_query, v_headline),
+           ts_rank(to_tsvector('simple'::regconfig, document_block_text(b.content)), v_query)
+    FROM document_blocks b
+    JOIN pages p ON p.id = b.page_id
+    WHERE p.space_id = p_space_id
+      AND p.deleted_at IS NULL
+      AND to_tsvector('simple'::regconfig, document_block_text(b.content)) @@ v_query
+
+    UNION ALL
+
+    SELECT p.id, p.title, p.type, 'card'::TEXT, c.id::TEXT,
+           ts_headline('simple', kanban_card_text(c.content), v_query, v_headline),
+           ts_rank(to_tsvector('simple'::regconfig, kanban_card_text(c.content)), v_query)
+    FROM kanban_cards c
+    JOIN kanban_columns col ON col.id = c.column_id
+    JOIN pages p ON p.id = col.page_id
+    WHERE p.space_id = p_space_id
+      AND p.deleted_at IS NULL
+      AND to_tsvector('simple'::regconfig, kanban_card_text(c.content)) @@ v_query
+
+    UNION ALL
+
+    SELECT p.id, p.title, p.type, 'item'::TEXT, m.id::TEXT,
+           ts_headline('simple', m.properties->>'content', v_query, v_headline),
+           ts_rank(to_tsvector('simple'::regconfig, COALESCE(m.properties->>'content', '')), v_query)
+    FROM moodboard_items m
+    JOIN pages p ON p.id = m.page_id
+    WHERE p.space_id = p_space_id
+      AND p.deleted_at IS NULL
+      AND m.type = 'text'
+      AND to_tsvector('simple'::regconfig, COALESCE(m.properties->>'content', '')) @@ v_query
+  ) AS results (page_id, page_title, page_type, kind, target_id, snippet, rank)
+  ORDER BY results.rank DESC, results.page_title, results.target_id
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION search_space(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_space(TEXT, TEXT, INTEGER) TO service_role;
+
+-- 4. Move a page to the trash in one transaction. Its subpages are either
+--    moved up to its parent first (p_move_subpages_up) or trashed with it,
+--    sharing its deleted_at. Returns the ids of the trashed pages.
+CREATE OR REPLACE FUNCTION trash_page(p_page_id UUID, p_move_subpages_up BOOLEAN)
+RETURNS TABLE (id UUID)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_page pages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_page FROM pages p
+  WHERE p.id = p_page_id AND p.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Page not found';
+  END IF;
+
+  IF p_move_subpages_up THEN
+    UPDATE pages p
+    SET parent_id = v_page.parent_id
+    WHERE p.parent_id = p_page_id AND p.deleted_at IS NULL;
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE trashed AS (
+    SELECT p.id FROM pages p WHERE p.id = p_page_id
+    UNION
+    SELECT p.id FROM pages p JOIN trashed t ON p.parent_id = t.id
+    WHERE p.deleted_at IS NULL
+  )
+  UPDATE pages p
+  SET deleted_at = NOW()
+  FROM trashed
+  WHERE p.id = trashed.id
+  RETURNING p.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION trash_page(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION trash_page(UUID, BOOLEAN) TO service_role;
+
+-- Notes:
+-- A page moved to the trash together with its subpages shares its deleted_at
+-- with them; restoring the page restores them too. A restored page whose
+-- parent is gone or still in the trash is put back at the top level.
+--
+-- Trashed pages are purged (deleted for good, with their blocks, cards,
+-- items and uploaded files) by the server once they've been in the trash for
+-- PAGE_TRASH_CONFIG.retentionDays (app/lib/page-trash.ts). There's no
+-- database job for it, because the files in the document-files bucket have
+-- to be removed through the storage API: the purge runs when an editor opens
+-- the space (the sidebar's Trash sends the purge-expired intent to
+-- /api/space/:id/trash). Until then expired pages stay in the trash, also in
+-- spaces only viewers and commenters open. Spaces nobody opens are removed
+-- whole by cleanup_old_spaces, trash included (their files stay in the
+-- bucket, as for any deleted space).
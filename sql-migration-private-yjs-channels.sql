@@ -0,0 +1,40 @@
+-- Migration: Private realtime channels
+-- This file contains the SQL migration that makes the realtime channels the
+-- server announces changes on listen-only for clients: yjs:<page id> for
+-- collaborative editing, pages:<space id>, kanban:<page id>,
+-- moodboard:<page id> and comments:<page id>. Changes are sent by the data
+-- routes after their role checks, with the service role key, which bypasses
+-- these policies.
+
+-- 1. Anyone may listen on these private channels. There is no INSERT policy,
+--    so nobody but the server can send on them.
+DROP POLICY IF EXISTS "Listen to document channels" ON realtime.messages;
+DROP POLICY IF EXISTS "Listen to change channels" ON realtime.messages;
+
+CREATE POLICY "Listen to change channels"
+ON realtime.messages
+FOR SELECT
+TO anon, authenticated
+USING (
+  realtime.messages.extension = 'broadcast'
+  AND (
+    realtime.topic() LIKE 'yjs:%'
+    OR realtime.topic() LIKE 'pages:%'
+    OR realtime.topic() LIKE 'kanban:%'
+    OR realtime.topic() LIKE 'moodboard:%'
+    OR realtime.topic() LIKE 'comments:%'
+  )
+);
+
+-- Notes:
+-- Run after sql-migration-share-links.sql. Clients subscribe to these
+-- channels as private ones, so until this has run they get no live changes.
+--
+-- Online presence (presence:<space id>), cursors (cursors:<page id>) and Yjs
+-- awareness (yjs-awareness:<page id>) stay on public channels; they can't
+-- change any content.
+--
+-- Listening isn't role-checked: the channels are keyed by space and page
+-- ids, which clients only learn through routes that passed the access check.
+-- Someone who kept an id after their link was revoked can still receive live
+-- changes (but not load the content or send changes).
@@ -0,0 +1,53 @@
+-- Migration: Shared rate limit counters
+-- This file contains the SQL migration for the Supabase-backed rate limit
+-- store. Serverless functions don't share memory, so request counts live in
+-- a table that every instance updates through one atomic function.
+
+-- 1. Create the rate_limits table (one fixed window per key)
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_reset_at ON rate_limits(reset_at);
+
+-- 2. Server only: RLS without policies hides the table from the anon key
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- 3. Count one hit against a key, starting a new window once the old one ended
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key TEXT, p_window_ms INTEGER)
+RETURNS TABLE (hits INTEGER, reset_at TIMESTAMPTZ)
+LANGUAGE sql
+AS $$
+  INSERT INTO rate_limits AS r (key, count, reset_at)
+  VALUES (p_key, 1, NOW() + p_window_ms * INTERVAL '1 millisecond')
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE WHEN r.reset_at <= NOW() THEN 1 ELSE r.count + 1 END,
+    reset_at = CASE WHEN r.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE r.reset_at END
+  RETURNING r.count, r.reset_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER) TO service_role;
+
+-- 4. Remove expired windows
+CREATE OR REPLACE FUNCTION purge_expired_rate_limits()
+RETURNS void
+LANGUAGE sql
+AS $$
+  DELETE FROM rate_limits WHERE reset_at < NOW();
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_rate_limits() FROM PUBLIC, anon, authenticated;
+
+-- Notes:
+-- The server uses this store when RATE_LIMIT_STORE=supabase, which is the
+-- default in production. RATE_LIMIT_STORE=memory keeps counters in the
+-- function's memory instead (per instance, reset on cold start).
+--
+-- Keys look like "<rule>:<client ip>", rules are in app/lib/rate-limit-config.ts.
+--
+-- Expired rows are simply overwritten on the next hit. To keep the table
+-- small, schedule the purge (requires pg_cron):
+-- SELECT cron.schedule('purge-rate-limits', '0 * * * *', 'SELECT purge_expired_rate_limits()');
@@ -0,0 +1,20 @@
+-- Migration: Enable Supabase Realtime for kanban boards
+-- This file contains the SQL needed for clients to receive live column and card changes
+
+-- 1. Add the kanban tables to the realtime publication
+ALTER PUBLICATION supabase_realtime ADD TABLE kanban_columns;
+ALTER PUBLICATION supabase_realtime ADD TABLE kanban_cards;
+
+-- 2. Include the full old row in UPDATE/DELETE events
+-- Without this, DELETE events only carry the primary key, which is enough to
+-- remove a card or column, but the full row makes debugging moves much easier
+ALTER TABLE kanban_columns REPLICA IDENTITY FULL;
+ALTER TABLE kanban_cards REPLICA IDENTITY FULL;
+
+-- Notes:
+-- Column changes are filtered per page (page_id=eq.<page_id>).
+-- kanban_cards has no page_id column, so clients receive card changes for all
+-- boards and ignore cards whose column isn't on the board they have open.
+--
+-- To check which tables are published:
+-- SELECT * FROM pg_publication_tables WHERE pubname = 'supabase_realtime';
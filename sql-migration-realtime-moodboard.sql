@@ -0,0 +1,16 @@
+-- Migration: Enable Supabase Realtime for moodboards
+-- This file contains the SQL needed for clients to receive live moodboard item changes
+
+-- 1. Add the moodboard table to the realtime publication
+ALTER PUBLICATION supabase_realtime ADD TABLE moodboard_items;
+
+-- 2. Include the full old row in UPDATE/DELETE events
+ALTER TABLE moodboard_items REPLICA IDENTITY FULL;
+
+-- Notes:
+-- Inserts and updates are filtered per page (page_id=eq.<page_id>).
+-- Delete events can't be filtered, so clients receive deletes for all boards
+-- and ignore items they don't have.
+--
+-- To check which tables are published:
+-- SELECT * FROM pg_publication_tables WHERE pubname = 'supabase_realtime';
@@ -0,0 +1,61 @@
+-- Migration: Serve space data through the server only
+-- This file contains the SQL migration that takes space contents away from
+-- the anon key. Pages, documents, boards, moodboards and participants are
+-- read and written through the api.space.* / api.page.* routes, which check
+-- space access (password session cookie) and use the service role key.
+
+-- 1. Drop every client policy on the space content tables
+-- RLS stays enabled, so without policies anon/authenticated get no rows.
+-- Policy names differ between older setup scripts, hence the loop.
+DO $$
+DECLARE
+  policy RECORD;
+BEGIN
+  FOR policy IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'pages',
+        'participants',
+        'document_blocks',
+        'document_yjs_state',
+        'kanban_columns',
+        'kanban_cards',
+        'moodboard_items'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', policy.policyname, policy.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE pages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_yjs_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kanban_columns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kanban_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moodboard_items ENABLE ROW LEVEL SECURITY;
+
+-- 2. Space titles are changed through the server as well
+REVOKE UPDATE ON spaces FROM anon, authenticated;
+GRANT UPDATE (last_accessed) ON spaces TO anon, authenticated;
+
+-- 3. Board and moodboard changes are broadcast by the data routes now,
+-- table changes no longer need to be published
+ALTER PUBLICATION supabase_realtime DROP TABLE kanban_columns;
+ALTER PUBLICATION supabase_realtime DROP TABLE kanban_cards;
+ALTER PUBLICATION supabase_realtime DROP TABLE moodboard_items;
+
+-- Notes:
+-- Run after sql-migration-hashed-passwords.sql and the realtime migrations.
+--
+-- Realtime channels (yjs:, kanban:, moodboard:, cursors: <page id> and
+-- presence: <space id>) are keyed by ids that clients only learn through
+-- routes that passed the access check.
+--
+-- The moodboard-images storage bucket is unchanged; uploads still go
+-- directly from the browser.
+--
+-- To check that content is hidden (should return no rows as anon):
+-- SET ROLE anon; SELECT * FROM pages LIMIT 1; RESET ROLE;
@@ -0,0 +1,34 @@
+-- Migration: Share links with roles
+-- This file contains the SQL migration for share links. Each link carries
+-- its own token and role (viewer, commenter or editor) and can expire or be
+-- revoked independently of the space URL.
+
+-- 1. Create the share_links table
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id TEXT NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'commenter', 'editor')),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 2. Look up links by space for the share dialog
+CREATE INDEX IF NOT EXISTS idx_share_links_space_id ON share_links(space_id);
+
+-- 3. Server only: RLS without policies hides tokens from the anon key
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+-- Notes:
+-- Run after sql-migration-server-data-api.sql.
+--
+-- Opening /share/<token> stores the link's role in the space session cookie.
+-- The role is re-checked against this table on every request, so revoking a
+-- link takes effect immediately.
+--
+-- Write routes require the editor role. Live document updates are relayed
+-- by /api/page/:id/yjs, which requires the editor role as well; run
+-- sql-migration-private-yjs-channels.sql so clients can't send on the
+-- yjs:<page id> channels, or fake page, board or comment changes on the
+-- other change channels, directly.
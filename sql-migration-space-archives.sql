@@ -0,0 +1,27 @@
+-- Migration: Space export storage
+-- This file contains the SQL migration for the space-archives storage bucket,
+-- which holds space exports (exports/<space id>/<uuid>.zip) until they are
+-- downloaded and zips uploaded to be imported as a new space
+-- (imports/<uuid>.zip). Zips go through storage because Netlify function
+-- request and response bodies are capped at 6 MB.
+
+-- 1. Create the space-archives bucket. It's private: exports are downloaded
+--    through signed URLs that expire after an hour. The size limit matches
+--    SPACE_ARCHIVE_LIMITS.maxArchiveBytes (100 MB).
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('space-archives', 'space-archives', false, 104857600, ARRAY['application/zip'])
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- 2. No policies: the server writes exports with the service role key, and
+--    imports are uploaded through signed upload URLs handed out by
+--    api/space-archive-upload.
+
+-- Notes:
+-- Exporting a space replaces its previous export, and an uploaded import is
+-- removed once it has been read. Exports of a space deleted for inactivity
+-- and uploads that were never imported stay in the bucket; clear them from
+-- the Supabase dashboard or the storage API (deleting rows from
+-- storage.objects in SQL leaves the files behind).
@@ -0,0 +1,153 @@
+-- Migration: Space-wide search
+-- This file contains the SQL migration for search_space, the full-text
+-- search behind the Cmd/Ctrl+K search of a space. It matches:
+--   * the text of saved document blocks (document_blocks.content)
+--   * kanban card titles and descriptions (the JSON in kanban_cards.content)
+--   * moodboard text items (moodboard_items.properties->>'content')
+--   * page titles
+-- Each searchable text has an expression index, so searches don't read every
+-- row of the space.
+
+-- 1. Text of a document block: all of its text leaves, in order
+CREATE OR REPLACE FUNCTION document_block_text(p_content JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(string_agg(t #>> '{}', ' '), '')
+  FROM jsonb_path_query(p_content, 'strict $.**.text') AS t;
+$$;
+
+-- 2. Title and description of a kanban card. Cards store them as a JSON
+--    string; older cards may hold plain text, which is used as is.
+CREATE OR REPLACE FUNCTION kanban_card_text(p_content TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_card JSONB;
+BEGIN
+  BEGIN
+    v_card := p_content::JSONB;
+  EXCEPTION WHEN others THEN
+    RETURN COALESCE(p_content, '');
+  END;
+
+  IF jsonb_typeof(v_card) <> 'object' THEN
+    RETURN COALESCE(p_content, '');
+  END IF;
+
+  RETURN concat_ws(E'\n', v_card->>'title', v_card->>'description');
+END;
+$$;
+
+-- 3. Indexes. The 'simple' configuration doesn't stem or drop stop words, so
+--    it works the same for every language and matches word prefixes as typed.
+CREATE INDEX IF NOT EXISTS idx_document_blocks_search
+  ON document_blocks USING GIN (to_tsvector('simple'::regconfig, document_block_text(content)));
+
+CREATE INDEX IF NOT EXISTS idx_kanban_cards_search
+  ON kanban_cards USING GIN (to_tsvector('simple'::regconfig, kanban_card_text(content)));
+
+CREATE INDEX IF NOT EXISTS idx_moodboard_items_search
+  ON moodboard_items USING GIN (to_tsvector('simple'::regconfig, COALESCE(properties->>'content', '')))
+  WHERE type = 'text';
+
+-- 4. Search a space. Every word of p_query must match the start of a word in
+--    the text ("proj road" finds "Project roadmap"). Returns the best
+--    p_limit matches: kind is 'page' (title), 'block', 'card' or 'item', and
+--    target_id the block id, card id or item id to scroll to. Matched words
+--    in the snippet are wrapped in chr(2) ... chr(3), so the text can be
+--    shown without being parsed as HTML.
+-- Space ids are 8-character TEXT (see generateSpaceId); drop the first
+-- version of this function, which took a UUID
+DROP FUNCTION IF EXISTS search_space(UUID, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_space(p_space_id TEXT, p_query TEXT, p_limit INTEGER)
+RETURNS TABLE (
+  page_id UUID,
+  page_title TEXT,
+  page_type TEXT,
+  kind TEXT,
+  target_id TEXT,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_query TSQUERY;
+  v_headline TEXT := format(
+    'StartSel=%s, StopSel=%s, MaxWords=24, MinWords=8, ShortWord=2, MaxFragments=1',
+    chr(2), chr(3)
+  );
+BEGIN
+  -- Each word becomes a quoted prefix term, so no input is tsquery syntax
+  SELECT to_tsquery('simple', string_agg(quote_literal(w) || ':*', ' & '))
+  INTO v_query
+  FROM regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') AS w
+  WHERE w <> '';
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT p.id, p.title, p.type, 'page'::TEXT, NULL::TEXT,
+           ts_headline('simple', p.title, v_query, v_headline),
+           -- Title matches first
+           (ts_rank(to_tsvector('simple', p.title), v_query) + 1)::REAL
+    FROM pages p
+    WHERE p.space_id = p_space_id
+      AND to_tsvector('simple', p.title) @@ v_query
+
+    UNION ALL
+
+    SELECT p.id, p.title, p.type, 'block'::TEXT, b.block_id,
+           ts_headline('simple', document_block_text(b.content), v_query, v_headline),
+           ts_rank(to_tsvector('simple'::regconfig, document_block_text(b.content)), v_query)
+    FROM document_blocks b
+    JOIN pages p ON p.id = b.page_id
+    WHERE p.space_id = p_space_id
+      AND to_tsvector('simple'::regconfig, document_block_text(b.content)) @@ v_query
+
+    UNION ALL
+
+    SELECT p.id, p.title, p.type, 'card'::TEXT, c.id::TEXT,
+           ts_headline('simple', kanban_card_text(c.content), v_query, v_headline),
+           ts_rank(to_tsvector('simple'::regconfig, kanban_card_text(c.content)), v_query)
+    FROM kanban_cards c
+    JOIN kanban_columns col ON col.id = c.column_id
+    JOIN pages p ON p.id = col.page_id
+    WHERE p.space_id = p_space_id
+      AND to_tsvector('simple'::regconfig, kanban_card_text(c.content)) @@ v_query
+
+    UNION ALL
+
+    SELECT p.id, p.title, p.type, 'item'::TEXT, m.id::TEXT,
+           ts_headline('simple', m.properties->>'content', v_query, v_headline),
+           ts_rank(to_tsvector('simple'::regconfig, COALESCE(m.properties->>'content', '')), v_query)
+    FROM moodboard_items m
+    JOIN pages p ON p.id = m.page_id
+    WHERE p.space_id = p_space_id
+      AND m.type = 'text'
+      AND to_tsvector('simple'::regconfig, COALESCE(m.properties->>'content', '')) @@ v_query
+  ) AS results (page_id, page_title, page_type, kind, target_id, snippet, rank)
+  ORDER BY results.rank DESC, results.page_title, results.target_id
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION search_space(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_space(TEXT, TEXT, INTEGER) TO service_role;
+
+-- Notes:
+-- Document text is searched as of the last autosave (document_blocks), like
+-- backlinks; the collaborative Yjs state isn't indexed.
+--
+-- Changing document_block_text or kanban_card_text means rebuilding their
+-- indexes (REINDEX INDEX idx_document_blocks_search, ...), since the indexes
+-- hold the functions' results.
@@ -0,0 +1,37 @@
+-- Migration: Page and space templates
+-- This file contains the SQL migration for saved templates. A template is a
+-- snapshot of a page (with its subpages) or of a whole space, taken when an
+-- editor saves it, and is used to fill new pages and new spaces. The built-in
+-- templates live in app/lib/templates.ts and aren't stored here.
+
+-- 1. Create the templates table. content holds the snapshot as JSON:
+--    { "pages": [{ "title", "type", "blocks" | "columns" | "items", "children" }] }
+CREATE TABLE IF NOT EXISTS templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id TEXT NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('page', 'space')),
+  name TEXT NOT NULL,
+  description TEXT,
+  content JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 2. Templates are listed by the space they were saved from
+CREATE INDEX IF NOT EXISTS idx_templates_space_id
+  ON templates(space_id, created_at DESC);
+
+-- 3. Server only: RLS without policies hides templates from the anon key
+ALTER TABLE templates ENABLE ROW LEVEL SECURITY;
+
+-- Notes:
+-- Run after sql-migration-server-data-api.sql.
+--
+-- A template can be used by anyone with access to the space it was saved
+-- from, in that space or any other; the template pickers list the templates
+-- of the spaces this browser has recently visited. Deleting the space deletes
+-- its templates.
+--
+-- Files uploaded to saved documents are copied to templates/<template id>/
+-- in the document-files bucket, and from there into every page created from
+-- the template, so they outlive the page they were saved from. Moodboard
+-- images keep pointing at the files in moodboard-images.